@@ -76,7 +76,7 @@ export default [
     },
   },
   {
-    files: ["packages/otel/**/*.ts"],
+    files: ["packages/otel/**/*.ts", "packages/cli/**/*.ts"],
     rules: {
       "no-restricted-imports": "off",
     },
@@ -5,7 +5,7 @@ set -e
 ROOT_DIR="$(cd "$(dirname "$0")" && pwd)"
 PACKAGES_DIR="$ROOT_DIR/packages"
 
-ORDER=(core langchain openai otel tracing client)
+ORDER=(core langchain openai anthropic google-genai otel tracing client cli testing)
 
 for pkg_name in "${ORDER[@]}"; do
   pkg="$PACKAGES_DIR/$pkg_name"
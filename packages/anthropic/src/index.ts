@@ -0,0 +1,2 @@
+export { observeAnthropic } from "./observeAnthropic.js";
+export * from "./types.js";
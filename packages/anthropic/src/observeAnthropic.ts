@@ -0,0 +1,137 @@
+import { withTracing } from "./traceMethod.js";
+import type { ElasticDashConfig } from "./types.js";
+
+/**
+ * Methods of the `messages` resources that are traced as generations.
+ * @internal
+ */
+const TRACED_MESSAGE_METHODS = ["create", "stream"];
+
+/**
+ * Wraps an Anthropic SDK client with automatic ElasticDash tracing.
+ *
+ * This function creates a proxy around the Anthropic SDK that automatically
+ * traces `messages.create` and `messages.stream` calls as ElasticDash
+ * generations, capturing requests, responses including `tool_use` blocks and
+ * stop reasons, token usage with cache read and creation tokens, and errors.
+ * It works with both streaming and non-streaming calls, and with the
+ * `messages` resource of the beta API.
+ *
+ * All other methods and properties of the SDK are passed through unchanged.
+ *
+ * @param sdk - The Anthropic SDK client instance to wrap with tracing
+ * @param elasticDashConfig - Optional configuration for tracing behavior
+ * @returns A proxied version of the Anthropic SDK with automatic tracing
+ *
+ * @example
+ * ```typescript
+ * import Anthropic from '@anthropic-ai/sdk';
+ * import { observeAnthropic } from '@elasticdash/anthropic';
+ *
+ * const anthropic = observeAnthropic(new Anthropic({
+ *   apiKey: process.env.ANTHROPIC_API_KEY,
+ * }));
+ *
+ * // Messages are now automatically traced
+ * const message = await anthropic.messages.create({
+ *   model: 'claude-sonnet-4-5',
+ *   max_tokens: 1024,
+ *   messages: [{ role: 'user', content: 'Hello!' }],
+ * });
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // With custom tracing configuration
+ * const anthropic = observeAnthropic(new Anthropic(), {
+ *   traceName: 'AI-Assistant-Chat',
+ *   userId: 'user-123',
+ *   sessionId: 'session-456',
+ *   tags: ['production', 'chat-feature'],
+ *   generationName: 'claude-chat-message',
+ *   elasticDashPrompt: {
+ *     name: 'chat-assistant-v2',
+ *     version: 3,
+ *     isFallback: false
+ *   }
+ * });
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Message streams are traced once the final message is received
+ * const stream = anthropic.messages.stream({
+ *   model: 'claude-sonnet-4-5',
+ *   max_tokens: 1024,
+ *   messages: [{ role: 'user', content: 'Write a story' }],
+ * });
+ *
+ * stream.on('text', (text) => process.stdout.write(text));
+ * await stream.finalMessage();
+ * ```
+ *
+ * @public
+ */
+export const observeAnthropic = <SDKType extends object>(
+  sdk: SDKType,
+  elasticDashConfig?: ElasticDashConfig,
+): SDKType => {
+  return observeSdkObject(sdk, elasticDashConfig, [
+    sdk.constructor?.name ?? "Anthropic",
+  ]);
+};
+
+/**
+ * Recursively proxies an object of the Anthropic SDK, tracing the message
+ * methods found under the given property path.
+ *
+ * @internal
+ */
+const observeSdkObject = <T extends object>(
+  sdkObject: T,
+  elasticDashConfig: ElasticDashConfig | undefined,
+  path: string[],
+): T => {
+  return new Proxy(sdkObject, {
+    get(wrappedObject, propKey, proxy) {
+      const originalProperty = wrappedObject[propKey as keyof T];
+      const propertyPath = [...path, propKey.toString()];
+
+      // Trace the message methods of the Anthropic SDK
+      if (
+        typeof originalProperty === "function" &&
+        path[path.length - 1] === "messages" &&
+        TRACED_MESSAGE_METHODS.includes(propKey.toString())
+      ) {
+        return withTracing(originalProperty.bind(wrappedObject), {
+          ...elasticDashConfig,
+          generationName:
+            elasticDashConfig?.generationName ?? propertyPath.join("."),
+        });
+      }
+
+      const isNestedAnthropicObject =
+        originalProperty &&
+        !Array.isArray(originalProperty) &&
+        !(originalProperty instanceof Date) &&
+        typeof originalProperty === "object";
+
+      // Recursively wrap nested objects to ensure nested message resources are also traced
+      if (isNestedAnthropicObject) {
+        return observeSdkObject(
+          originalProperty,
+          elasticDashConfig,
+          propertyPath,
+        );
+      }
+
+      // Bind other methods to the original object, e.g. for private fields
+      if (typeof originalProperty === "function") {
+        return originalProperty.bind(wrappedObject);
+      }
+
+      // Fallback to returning the original value
+      return Reflect.get(wrappedObject, propKey, proxy);
+    },
+  });
+};
@@ -0,0 +1,187 @@
+type ParsedAnthropicArguments = {
+  model: string;
+  input: Record<string, any>;
+  modelParameters: Record<string, any>;
+  metadata: Record<string, unknown>;
+};
+
+export const parseInputArgs = (
+  args: Record<string, any>,
+): ParsedAnthropicArguments => {
+  const params: Record<string, any> = {
+    max_tokens: args.max_tokens,
+    temperature: args.temperature,
+    top_p: args.top_p,
+    top_k: args.top_k,
+    stop_sequences: args.stop_sequences,
+    stream: args.stream,
+    service_tier: args.service_tier,
+  };
+
+  const input: Record<string, any> = { messages: args.messages };
+  for (const key of ["system", "tools", "tool_choice"]) {
+    if (key in args) {
+      input[key] = args[key];
+    }
+  }
+
+  return {
+    model: args.model,
+    input,
+    modelParameters: params,
+    metadata: { thinking: args.thinking, metadata: args.metadata },
+  };
+};
+
+/**
+ * Returns the text of a message if it only contains text blocks, or its
+ * content blocks including `tool_use` and `thinking` blocks otherwise.
+ */
+export const parseCompletionOutput = (res: unknown): unknown => {
+  if (!isMessage(res)) {
+    return null;
+  }
+
+  const content: Record<string, any>[] = res.content;
+
+  if (content.every((block) => block?.type === "text")) {
+    return content.map((block) => block.text).join("");
+  }
+
+  return { role: res.role, content };
+};
+
+export const parseUsageDetails = (
+  usage: Record<string, any>,
+): Record<string, number> | undefined => {
+  if (typeof usage?.input_tokens !== "number") {
+    return undefined;
+  }
+
+  const usageDetails: Record<string, number> = {
+    input: usage.input_tokens,
+    output: usage.output_tokens ?? 0,
+  };
+
+  // Cached input tokens are reported separately from `input_tokens`
+  if (typeof usage.cache_read_input_tokens === "number") {
+    usageDetails.input_cache_read = usage.cache_read_input_tokens;
+  }
+  if (typeof usage.cache_creation_input_tokens === "number") {
+    usageDetails.input_cache_creation = usage.cache_creation_input_tokens;
+  }
+
+  usageDetails.total = Object.values(usageDetails).reduce(
+    (total, value) => total + value,
+    0,
+  );
+
+  return usageDetails;
+};
+
+export const parseUsageDetailsFromResponse = (
+  res: unknown,
+): Record<string, number> | undefined => {
+  if (isMessage(res) && res.usage instanceof Object) {
+    return parseUsageDetails(res.usage);
+  }
+};
+
+export const parseModelDataFromResponse = (
+  res: unknown,
+): {
+  model: string | undefined;
+  metadata: Record<string, unknown> | undefined;
+} => {
+  if (!isMessage(res)) {
+    return { model: undefined, metadata: undefined };
+  }
+
+  const metadata: Record<string, unknown> = {};
+
+  for (const key of ["id", "stop_reason", "stop_sequence", "container"]) {
+    if (res[key] != null) {
+      metadata[key] = res[key];
+    }
+  }
+
+  return {
+    model: res.model,
+    metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+  };
+};
+
+/**
+ * Applies an event of a streamed message to the message accumulated so far,
+ * and returns the updated message.
+ */
+export const accumulateStreamEvent = (
+  message: Record<string, any> | undefined,
+  rawEvent: unknown,
+): Record<string, any> | undefined => {
+  const event = rawEvent as Record<string, any>;
+
+  if (event?.type === "message_start") {
+    return { ...event.message, content: [] };
+  }
+
+  if (!message) {
+    return message;
+  }
+
+  const block = message.content[event.index];
+
+  switch (event.type) {
+    case "content_block_start":
+      message.content[event.index] = { ...event.content_block };
+      break;
+
+    case "content_block_delta":
+      if (!block) break;
+
+      if (event.delta?.type === "text_delta") {
+        block.text = (block.text ?? "") + event.delta.text;
+      } else if (event.delta?.type === "thinking_delta") {
+        block.thinking = (block.thinking ?? "") + event.delta.thinking;
+      } else if (event.delta?.type === "input_json_delta") {
+        // Tool inputs are streamed as partial JSON and parsed once complete
+        block.input =
+          (typeof block.input === "string" ? block.input : "") +
+          event.delta.partial_json;
+      }
+      break;
+
+    case "content_block_stop":
+      if (typeof block?.input === "string") {
+        try {
+          block.input = block.input ? JSON.parse(block.input) : {};
+        } catch {
+          // Keep the raw input if it is no valid JSON
+        }
+      }
+      break;
+
+    case "message_delta":
+      Object.assign(message, event.delta);
+      message.usage = {
+        ...message.usage,
+        ...Object.fromEntries(
+          Object.entries(event.usage ?? {}).filter(
+            ([, value]) => value != null,
+          ),
+        ),
+      };
+      break;
+  }
+
+  return message;
+};
+
+function isMessage(res: unknown): res is Record<string, any> {
+  return (
+    res instanceof Object &&
+    "content" in res &&
+    Array.isArray(res["content"]) &&
+    "role" in res
+  );
+}
@@ -0,0 +1,263 @@
+import { ElasticDashGeneration, startObservation } from "@elasticdash/tracing";
+
+import {
+  accumulateStreamEvent,
+  parseCompletionOutput,
+  parseInputArgs,
+  parseModelDataFromResponse,
+  parseUsageDetailsFromResponse,
+} from "./parseAnthropic.js";
+import type { ElasticDashConfig } from "./types.js";
+import { isAsyncIterable } from "./utils.js";
+
+/**
+ * Generic method type for any function that can be traced.
+ * @internal
+ */
+type GenericMethod = (...args: unknown[]) => unknown;
+
+/**
+ * Message stream returned by `messages.stream()` of the Anthropic SDK.
+ * @internal
+ */
+type MessageStreamLike = {
+  on: (event: string, listener: (...args: any[]) => void) => unknown;
+  finalMessage: () => Promise<unknown>;
+  errored?: boolean;
+  aborted?: boolean;
+};
+
+/**
+ * Wraps a method with ElasticDash tracing functionality.
+ *
+ * This function creates a wrapper around Anthropic SDK methods that
+ * automatically creates ElasticDash generations, captures input/output data,
+ * handles streaming responses, and records usage metrics and errors.
+ *
+ * @param tracedMethod - The Anthropic SDK method to wrap with tracing
+ * @param config - Configuration for the trace and generation
+ * @returns A wrapped version of the method that creates ElasticDash traces
+ *
+ * @internal
+ */
+export const withTracing = <T extends GenericMethod>(
+  tracedMethod: T,
+  config?: ElasticDashConfig & Required<{ generationName: string }>,
+): ((...args: Parameters<T>) => ReturnType<T>) => {
+  return (...args) => wrapMethod(tracedMethod, config, ...args);
+};
+
+/**
+ * Internal method that handles the actual tracing logic for Anthropic SDK methods.
+ *
+ * This function creates a ElasticDash generation, executes the original method,
+ * and captures all relevant data including input, output, usage, and errors.
+ * It handles promises, streamed events (`stream: true`) and message streams
+ * (`messages.stream()`) appropriately.
+ *
+ * @param tracedMethod - The original Anthropic SDK method to execute
+ * @param config - ElasticDash configuration options
+ * @param args - Arguments to pass to the original method
+ * @returns The result from the original method, potentially wrapped for streaming
+ *
+ * @internal
+ */
+const wrapMethod = <T extends GenericMethod>(
+  tracedMethod: T,
+  config?: ElasticDashConfig,
+  ...args: Parameters<T>
+): ReturnType<T> | any => {
+  const { model, input, modelParameters, metadata } = parseInputArgs(
+    (args[0] as Record<string, any>) ?? {},
+  );
+
+  const generation = startObservation(
+    config?.generationName ?? "Anthropic-message",
+    {
+      model,
+      input,
+      modelParameters,
+      prompt: config?.elasticDashPrompt,
+      metadata: { ...config?.generationMetadata, ...metadata },
+    },
+    {
+      asType: "generation",
+      parentSpanContext: config?.parentSpanContext,
+    },
+  ).updateTrace({
+    userId: config?.userId,
+    sessionId: config?.sessionId,
+    tags: config?.tags,
+    name: config?.traceName,
+  });
+
+  try {
+    const res = tracedMethod(...args);
+
+    // Handle message streams, which are async iterable as well
+    if (isMessageStream(res)) {
+      return traceMessageStream(res, generation);
+    }
+
+    // Handle stream responses
+    if (isAsyncIterable(res)) {
+      return wrapAsyncIterable(res, generation);
+    }
+
+    if (res instanceof Promise) {
+      const wrappedPromise = res
+        .then((result) => {
+          if (isAsyncIterable(result)) {
+            return wrapAsyncIterable(result, generation);
+          }
+
+          endGeneration(generation, result);
+
+          return result;
+        })
+        .catch((err) => {
+          generation
+            .update({
+              statusMessage: String(err),
+              level: "ERROR",
+            })
+            .end();
+
+          throw err;
+        });
+
+      return wrappedPromise;
+    }
+
+    return res;
+  } catch (error) {
+    generation
+      .update({
+        statusMessage: String(error),
+        level: "ERROR",
+      })
+      .end();
+
+    throw error;
+  }
+};
+
+/**
+ * Updates the generation with the output, usage, model and stop reason of
+ * a message and ends it.
+ *
+ * @internal
+ */
+function endGeneration(
+  generation: ElasticDashGeneration,
+  message: unknown,
+  completionStartTime?: Date,
+): void {
+  const { model, metadata } = parseModelDataFromResponse(message);
+
+  generation
+    .update({
+      output: parseCompletionOutput(message),
+      usageDetails: parseUsageDetailsFromResponse(message),
+      model,
+      metadata,
+      completionStartTime,
+    })
+    .end();
+}
+
+/**
+ * Wraps an async iterable of message stream events with ElasticDash tracing.
+ *
+ * This function accumulates the streamed events into the final message and
+ * updates the ElasticDash generation with its output, usage details and stop
+ * reason once the stream is consumed.
+ *
+ * @param iterable - The async iterable from Anthropic (streaming response)
+ * @param generation - The ElasticDash generation to update with stream data
+ * @returns An async generator that yields original events while collecting data
+ *
+ * @internal
+ */
+function wrapAsyncIterable<R>(
+  iterable: AsyncIterable<unknown>,
+  generation: ElasticDashGeneration,
+): R {
+  async function* tracedOutputGenerator(): AsyncGenerator<
+    unknown,
+    void,
+    unknown
+  > {
+    let message: Record<string, any> | undefined = undefined;
+    let completionStartTime: Date | undefined = undefined;
+
+    try {
+      for await (const rawEvent of iterable) {
+        completionStartTime = completionStartTime ?? new Date();
+        message = accumulateStreamEvent(message, rawEvent);
+
+        yield rawEvent;
+      }
+    } catch (err) {
+      generation
+        .update({
+          statusMessage: String(err),
+          level: "ERROR",
+        })
+        .end();
+
+      throw err;
+    }
+
+    endGeneration(generation, message, completionStartTime);
+  }
+
+  return tracedOutputGenerator() as R;
+}
+
+/**
+ * Traces a message stream returned by `messages.stream()` through its events,
+ * so that the stream is returned unchanged to the caller.
+ *
+ * @param stream - The message stream of the Anthropic SDK
+ * @param generation - The ElasticDash generation to update with stream data
+ * @returns The original message stream
+ *
+ * @internal
+ */
+function traceMessageStream<S extends MessageStreamLike>(
+  stream: S,
+  generation: ElasticDashGeneration,
+): S {
+  let completionStartTime: Date | undefined = undefined;
+
+  stream.on("streamEvent", () => {
+    completionStartTime = completionStartTime ?? new Date();
+  });
+  stream.on("finalMessage", (message: unknown) => {
+    endGeneration(generation, message, completionStartTime);
+  });
+  // Listening to `error` or `abort` would stop the SDK from raising unhandled
+  // errors for callers without error handling, so the outcome is read on `end`
+  stream.on("end", () => {
+    if (stream.aborted) {
+      generation
+        .update({ statusMessage: "Stream aborted", level: "WARNING" })
+        .end();
+    } else if (stream.errored) {
+      generation
+        .update({ statusMessage: "Stream errored", level: "ERROR" })
+        .end();
+    }
+  });
+
+  return stream;
+}
+
+function isMessageStream(res: unknown): res is MessageStreamLike {
+  return (
+    res instanceof Object &&
+    typeof (res as MessageStreamLike).on === "function" &&
+    typeof (res as MessageStreamLike).finalMessage === "function"
+  );
+}
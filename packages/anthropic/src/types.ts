@@ -0,0 +1,39 @@
+import { SpanContext } from "@opentelemetry/api";
+
+/**
+ * Configuration options for ElasticDash Anthropic tracing.
+ *
+ * This interface defines all available options for customizing how Anthropic
+ * SDK calls are traced and stored in ElasticDash. It includes both trace-level
+ * metadata and generation-specific configuration.
+ *
+ * @public
+ */
+export type ElasticDashConfig = {
+  /** OpenTelemetry span context to use as parent for the generated span */
+  parentSpanContext?: SpanContext;
+  /** Name for the trace that will contain this generation */
+  traceName?: string;
+  /** Session identifier to group related interactions */
+  sessionId?: string;
+  /** User identifier for associating the trace with a specific user */
+  userId?: string;
+  /** Tags for categorizing and filtering traces */
+  tags?: string[];
+
+  /** Custom name for the generation observation (defaults to SDK method name) */
+  generationName?: string;
+  /** Additional metadata to attach to the generation */
+  generationMetadata?: Record<string, unknown>;
+  /** Information about the ElasticDash prompt used for this generation */
+  elasticDashPrompt?: {
+    /** Name of the prompt template in ElasticDash */
+    name: string;
+    /** Version number of the prompt template */
+    version: number;
+    /** Whether this is a fallback prompt due to retrieval failure */
+    isFallback: boolean;
+  };
+
+  isProd?: boolean;
+};
@@ -0,0 +1,112 @@
+#!/usr/bin/env node
+import { parseArgs } from "node:util";
+
+import { runExperimentFromConfig } from "./experiment/run.js";
+import { replayJsonlSpanFiles } from "./replay/replay.js";
+
+const USAGE = `Usage: elasticdash experiment run <config> [options]
+       elasticdash replay <path...> [options]
+
+experiment run
+  Runs the experiment defined in <config> against its ElasticDash dataset and
+  checks the configured thresholds.
+
+  -t, --threshold <expr>  Additional threshold, e.g. "accuracy.mean >= 0.8" (repeatable)
+      --run-name <name>   Run name overriding the configured one
+      --junit <path>      Path of the JUnit XML report (default: elasticdash-junit.xml)
+
+replay
+  Replays JSONL span files written by the JsonlSpanExporter into ElasticDash.
+  Directories are expanded to the span files they contain.
+
+      --batch-size <n>    Number of spans per export request (default: 500)
+
+  -h, --help              Show this help
+
+Exit codes:
+  0  all thresholds passed / all spans replayed
+  1  at least one threshold failed
+  2  invalid usage, or the experiment or replay could not be run`;
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      threshold: { type: "string", short: "t", multiple: true },
+      "run-name": { type: "string" },
+      junit: { type: "string" },
+      "batch-size": { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  const [command, subcommand, configPath] = positionals;
+
+  if (values.help) {
+    console.log(USAGE);
+
+    return 0;
+  }
+
+  const batchSize =
+    values["batch-size"] !== undefined
+      ? Number(values["batch-size"])
+      : undefined;
+  if (
+    batchSize !== undefined &&
+    (!Number.isInteger(batchSize) || batchSize < 1)
+  ) {
+    console.error(
+      `Invalid --batch-size '${values["batch-size"]}'. Must be a positive integer.`,
+    );
+
+    return 2;
+  }
+
+  if (command === "replay" && positionals.length > 1) {
+    const outcome = await replayJsonlSpanFiles({
+      paths: positionals.slice(1),
+      batchSize,
+    });
+
+    console.log(
+      `✅ Replayed ${outcome.spanCount} spans from ${outcome.files.length} files in ${outcome.requestCount} requests.`,
+    );
+
+    return 0;
+  }
+
+  if (command !== "experiment" || subcommand !== "run" || !configPath) {
+    console.error(USAGE);
+
+    return 2;
+  }
+
+  const outcome = await runExperimentFromConfig({
+    configPath,
+    thresholds: values.threshold,
+    runName: values["run-name"],
+    junitReportPath: values.junit,
+  });
+
+  console.log(await outcome.result.format());
+  console.log("\nThresholds:");
+  for (const thresholdResult of outcome.thresholdResults) {
+    console.log(
+      `  ${thresholdResult.passed ? "✅" : "❌"} ${thresholdResult.message}`,
+    );
+  }
+  console.log(`\n📄 JUnit report: ${outcome.junitReportPath}`);
+
+  return outcome.passed ? 0 : 1;
+}
+
+main(process.argv.slice(2))
+  .then((exitCode) => {
+    process.exitCode = exitCode;
+  })
+  .catch((err) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 2;
+  });
@@ -0,0 +1,59 @@
+import { ExperimentParams } from "@elasticdash/client";
+
+/**
+ * Configuration of an experiment run by the `elasticdash experiment run` command.
+ *
+ * The configuration module must provide it as its default export or as a
+ * named `config` export.
+ *
+ * @example config.ts
+ * ```typescript
+ * import { defineExperimentConfig } from "@elasticdash/cli";
+ *
+ * export default defineExperimentConfig({
+ *   name: "QA regression",
+ *   dataset: "qa-dataset",
+ *   task: async ({ input }) => answerQuestion(input),
+ *   evaluators: [exactMatchEvaluator],
+ *   thresholds: ["exact_match.mean >= 0.8"],
+ * });
+ * ```
+ *
+ * @public
+ */
+export type ExperimentConfig = Omit<ExperimentParams, "data"> & {
+  /**
+   * Name of the ElasticDash dataset to run the experiment on.
+   */
+  dataset: string;
+
+  /**
+   * Threshold assertions on the aggregated evaluations of the run.
+   *
+   * Each threshold has the form `<evaluation>[.<aggregate>] <operator> <number>`,
+   * for example `accuracy.mean >= 0.8` or `latency.p95 < 2000`. Supported
+   * aggregates are `mean`, `median`, `min`, `max`, `sum`, `count` and
+   * percentiles such as `p90` or `p95`. Without an aggregate the threshold
+   * applies to the run evaluation of that name.
+   */
+  thresholds?: string[];
+
+  /**
+   * Number of dataset items to fetch per page (default: 50).
+   */
+  fetchItemsPageSize?: number;
+};
+
+/**
+ * Identity helper providing type inference for experiment configuration modules.
+ *
+ * @param config - The experiment configuration
+ * @returns The same configuration
+ *
+ * @public
+ */
+export function defineExperimentConfig(
+  config: ExperimentConfig,
+): ExperimentConfig {
+  return config;
+}
@@ -0,0 +1,93 @@
+import { ExperimentFailedItem } from "@elasticdash/client";
+
+import { ThresholdResult } from "./thresholds.js";
+
+/**
+ * Renders the outcome of an experiment run as a JUnit XML report.
+ *
+ * Every threshold becomes a test case that fails if the threshold is not met.
+ * Items whose task failed are reported as test cases with an error so they
+ * show up in CI test summaries, without failing the thresholds themselves.
+ *
+ * @param params - Report parameters
+ * @param params.name - Experiment name, used as test suite name
+ * @param params.runName - Experiment run name, used as test case class name
+ * @param params.thresholdResults - Results of the threshold checks
+ * @param params.failedItems - Items whose task failed after all retries
+ * @param params.durationMs - Duration of the experiment run in milliseconds
+ * @param params.output - Optional formatted experiment summary for `system-out`
+ * @returns The JUnit XML document
+ *
+ * @public
+ */
+export function createJUnitReport(params: {
+  name: string;
+  runName: string;
+  thresholdResults: ThresholdResult[];
+  failedItems?: ExperimentFailedItem[];
+  durationMs: number;
+  output?: string;
+}): string {
+  const {
+    name,
+    runName,
+    thresholdResults,
+    failedItems = [],
+    durationMs,
+    output,
+  } = params;
+
+  const failures = thresholdResults.filter((r) => !r.passed).length;
+  const tests = thresholdResults.length + failedItems.length;
+  const time = (durationMs / 1000).toFixed(3);
+
+  const testCases = [
+    ...thresholdResults.map((r) => {
+      const open = `    <testcase classname="${escapeXml(runName)}" name="${escapeXml(r.threshold.expression)}" time="0">`;
+
+      return r.passed
+        ? `${open}</testcase>`
+        : `${open}\n      <failure message="${escapeXml(r.message)}" type="ThresholdFailure"/>\n    </testcase>`;
+    }),
+    ...failedItems.map((failedItem, index) => {
+      const message = `Task failed after ${failedItem.attempts} attempt(s): ${failedItem.error.message}`;
+
+      return `    <testcase classname="${escapeXml(runName)}" name="${escapeXml(`item ${index + 1}: ${formatInput(failedItem.item.input)}`)}" time="0">\n      <error message="${escapeXml(message)}" type="${escapeXml(failedItem.error.name)}"/>\n    </testcase>`;
+    }),
+  ];
+
+  let xml = `<?xml version="1.0" encoding="UTF-8"?>\n`;
+  xml += `<testsuites name="elasticdash" tests="${tests}" failures="${failures}" errors="${failedItems.length}" time="${time}">\n`;
+  xml += `  <testsuite name="${escapeXml(name)}" tests="${tests}" failures="${failures}" errors="${failedItems.length}" time="${time}">\n`;
+  if (testCases.length > 0) {
+    xml += testCases.join("\n") + "\n";
+  }
+  if (output) {
+    xml += `    <system-out>${escapeXml(output)}</system-out>\n`;
+  }
+  xml += `  </testsuite>\n`;
+  xml += `</testsuites>\n`;
+
+  return xml;
+}
+
+function formatInput(input: unknown): string {
+  const value =
+    typeof input === "string" ? input : (JSON.stringify(input) ?? "");
+
+  return value.length > 50 ? `${value.substring(0, 47)}...` : value;
+}
+
+function escapeXml(value: string): string {
+  return (
+    value
+      // Strip characters that are not allowed in XML 1.0 documents
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&apos;")
+  );
+}
@@ -0,0 +1,198 @@
+import { writeFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+
+import { ElasticDashClient, ExperimentResult } from "@elasticdash/client";
+import { getGlobalLogger } from "@elasticdash/core";
+import { ElasticDashSpanProcessor } from "@elasticdash/otel";
+import { ProxyTracerProvider, trace } from "@opentelemetry/api";
+import { NodeTracerProvider } from "@opentelemetry/sdk-trace-node";
+
+import { ExperimentConfig } from "./config.js";
+import { createJUnitReport } from "./junit.js";
+import { evaluateThresholds, ThresholdResult } from "./thresholds.js";
+
+/**
+ * Default path of the JUnit XML report, relative to the working directory.
+ *
+ * @public
+ */
+export const DEFAULT_JUNIT_REPORT_PATH = "elasticdash-junit.xml";
+
+/**
+ * Outcome of running an experiment from a configuration module.
+ *
+ * @public
+ */
+export type ExperimentRunOutcome = {
+  /** The experiment result */
+  result: ExperimentResult;
+  /** Results of all threshold checks */
+  thresholdResults: ThresholdResult[];
+  /** Whether all thresholds are met */
+  passed: boolean;
+  /** Absolute path of the written JUnit XML report */
+  junitReportPath: string;
+};
+
+/**
+ * Loads an experiment configuration module, runs the experiment on the
+ * configured dataset, checks the thresholds and writes a JUnit XML report.
+ *
+ * TypeScript configuration modules are loaded natively if the Node.js runtime
+ * supports type stripping, and through `tsx` otherwise (if installed).
+ *
+ * Traces are exported to ElasticDash unless a global tracer provider has
+ * already been registered by the configuration module.
+ *
+ * @param params - Run parameters
+ * @param params.configPath - Path to the configuration module
+ * @param params.thresholds - Additional threshold expressions
+ * @param params.runName - Optional run name overriding the configured one
+ * @param params.junitReportPath - Path of the JUnit XML report (default: "elasticdash-junit.xml")
+ * @returns Promise resolving to the run outcome
+ *
+ * @public
+ */
+export async function runExperimentFromConfig(params: {
+  configPath: string;
+  thresholds?: string[];
+  runName?: string;
+  junitReportPath?: string;
+}): Promise<ExperimentRunOutcome> {
+  const logger = getGlobalLogger();
+  const config = await loadExperimentConfig(params.configPath);
+  const {
+    dataset: datasetName,
+    thresholds: configThresholds = [],
+    fetchItemsPageSize,
+    ...experimentParams
+  } = config;
+  const thresholds = [...configThresholds, ...(params.thresholds ?? [])];
+
+  // Fail on malformed thresholds before spending time on the run
+  evaluateThresholds({ itemResults: [], runEvaluations: [] }, thresholds);
+
+  const tracerProvider = registerTracerProvider();
+  const elasticdash = new ElasticDashClient();
+  const startTime = Date.now();
+
+  let result: ExperimentResult;
+  try {
+    const dataset = await elasticdash.dataset.get(
+      datasetName,
+      fetchItemsPageSize ? { fetchItemsPageSize } : undefined,
+    );
+
+    logger.info(
+      `Running experiment '${experimentParams.name}' on dataset '${datasetName}' with ${dataset.items.length} items.`,
+    );
+
+    result = await dataset.runExperiment({
+      ...experimentParams,
+      runName: params.runName ?? experimentParams.runName,
+    });
+  } finally {
+    await tracerProvider?.shutdown();
+  }
+
+  const thresholdResults = evaluateThresholds(result, thresholds);
+  const output = await result.format();
+
+  const junitReportPath = resolve(
+    params.junitReportPath ?? DEFAULT_JUNIT_REPORT_PATH,
+  );
+  await writeFile(
+    junitReportPath,
+    createJUnitReport({
+      name: experimentParams.name,
+      runName: result.runName,
+      thresholdResults,
+      failedItems: result.failedItems,
+      durationMs: Date.now() - startTime,
+      output,
+    }),
+    "utf8",
+  );
+
+  return {
+    result,
+    thresholdResults,
+    passed: thresholdResults.every((r) => r.passed),
+    junitReportPath,
+  };
+}
+
+async function loadExperimentConfig(
+  configPath: string,
+): Promise<ExperimentConfig> {
+  const url = pathToFileURL(resolve(configPath)).href;
+
+  let module: Record<string, any>;
+  try {
+    module = await import(url);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException)?.code !== "ERR_UNKNOWN_FILE_EXTENSION") {
+      throw err;
+    }
+
+    module = await importWithTsx(url);
+  }
+
+  // CommonJS modules loaded through ESM interop expose their exports as `default`
+  const moduleExports =
+    module.default && typeof module.default === "object" && !module.default.task
+      ? module.default
+      : module;
+  const config = moduleExports.default ?? moduleExports.config;
+  if (!config || typeof config !== "object") {
+    throw new Error(
+      `Experiment config '${configPath}' must have a default export or a named 'config' export.`,
+    );
+  }
+
+  for (const key of ["name", "dataset", "task"] as const) {
+    if (!config[key]) {
+      throw new Error(
+        `Experiment config '${configPath}' is missing required field '${key}'.`,
+      );
+    }
+  }
+
+  return config as ExperimentConfig;
+}
+
+async function importWithTsx(url: string): Promise<Record<string, any>> {
+  let tsImport: (specifier: string, parentURL: string) => Promise<any>;
+  try {
+    ({ tsImport } = await import("tsx/esm/api" as string));
+  } catch {
+    throw new Error(
+      "Loading TypeScript experiment configs requires 'tsx' to be installed or a Node.js version with type stripping support.",
+    );
+  }
+
+  return tsImport(url, url);
+}
+
+// A proxy without a delegate falls back to the no-op tracer provider singleton
+const NOOP_TRACER_PROVIDER = new ProxyTracerProvider().getDelegate();
+
+function registerTracerProvider(): NodeTracerProvider | undefined {
+  let globalTracerProvider = trace.getTracerProvider();
+  if (globalTracerProvider instanceof ProxyTracerProvider) {
+    globalTracerProvider = globalTracerProvider.getDelegate();
+  }
+
+  // Respect a tracer provider registered by the configuration module
+  if (globalTracerProvider !== NOOP_TRACER_PROVIDER) {
+    return undefined;
+  }
+
+  const provider = new NodeTracerProvider({
+    spanProcessors: [new ElasticDashSpanProcessor()],
+  });
+  provider.register();
+
+  return provider;
+}
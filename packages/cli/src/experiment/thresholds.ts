@@ -0,0 +1,201 @@
+import { ExperimentResult, mean, percentile } from "@elasticdash/client";
+
+/**
+ * Aggregates that can be applied to the item-level evaluations of a run.
+ *
+ * Percentiles are written as `p` followed by the percentile, e.g. `p95`.
+ *
+ * @public
+ */
+export type ThresholdAggregate =
+  | "mean"
+  | "median"
+  | "min"
+  | "max"
+  | "sum"
+  | "count"
+  | `p${number}`;
+
+/**
+ * Comparison operators supported in threshold assertions.
+ *
+ * @public
+ */
+export type ThresholdOperator = ">=" | "<=" | ">" | "<" | "==" | "!=";
+
+/**
+ * A parsed threshold assertion.
+ *
+ * @public
+ */
+export type Threshold = {
+  /** The original threshold expression */
+  expression: string;
+  /** Name of the evaluation the threshold applies to */
+  name: string;
+  /** Aggregate over item evaluations, or undefined for run evaluations */
+  aggregate?: ThresholdAggregate;
+  /** Comparison operator */
+  operator: ThresholdOperator;
+  /** Value the aggregated evaluation is compared against */
+  value: number;
+};
+
+/**
+ * Outcome of checking a single threshold against an experiment result.
+ *
+ * @public
+ */
+export type ThresholdResult = {
+  /** The checked threshold */
+  threshold: Threshold;
+  /** The aggregated value, undefined if no numeric evaluation was found */
+  actual?: number;
+  /** Whether the threshold is met */
+  passed: boolean;
+  /** Human-readable description of the outcome */
+  message: string;
+};
+
+const THRESHOLD_PATTERN =
+  /^\s*(.+?)(?:\.(mean|median|min|max|sum|count|p\d{1,2}(?:\.\d+)?))?\s*(>=|<=|==|!=|>|<)\s*(-?\d+(?:\.\d+)?(?:e-?\d+)?)\s*$/i;
+
+/**
+ * Parses a threshold expression such as `accuracy.mean >= 0.8`.
+ *
+ * @param expression - The threshold expression
+ * @returns The parsed threshold
+ * @throws {Error} If the expression is malformed
+ *
+ * @public
+ */
+export function parseThreshold(expression: string): Threshold {
+  const match = THRESHOLD_PATTERN.exec(expression);
+  if (!match) {
+    throw new Error(
+      `Invalid threshold '${expression}'. Expected '<evaluation>[.<aggregate>] <operator> <number>', e.g. 'accuracy.mean >= 0.8'.`,
+    );
+  }
+
+  const [, name, aggregate, operator, value] = match;
+
+  return {
+    expression: expression.trim(),
+    name: name.trim(),
+    aggregate: aggregate?.toLowerCase() as ThresholdAggregate | undefined,
+    operator: operator as ThresholdOperator,
+    value: Number(value),
+  };
+}
+
+/**
+ * Checks threshold assertions against an experiment result.
+ *
+ * Thresholds with an aggregate are computed over the numeric item-level
+ * evaluations of that name. Thresholds without an aggregate use the run
+ * evaluation of that name. A threshold without any matching numeric
+ * evaluation fails.
+ *
+ * @param result - The experiment result
+ * @param thresholds - Threshold expressions or parsed thresholds
+ * @returns One result per threshold
+ *
+ * @public
+ */
+export function evaluateThresholds(
+  result: Pick<ExperimentResult, "itemResults" | "runEvaluations">,
+  thresholds: (string | Threshold)[],
+): ThresholdResult[] {
+  return thresholds.map((t) => {
+    const threshold = typeof t === "string" ? parseThreshold(t) : t;
+    const actual = threshold.aggregate
+      ? aggregate(
+          result.itemResults.flatMap((r) =>
+            r.evaluations
+              .filter((e) => e.name === threshold.name)
+              .map((e) => e.value)
+              .filter(isFiniteNumber),
+          ),
+          threshold.aggregate,
+        )
+      : getRunEvaluationValue(result, threshold.name);
+
+    if (actual === undefined) {
+      return {
+        threshold,
+        passed: false,
+        message: `${threshold.expression}: no numeric evaluation named '${threshold.name}' found`,
+      };
+    }
+
+    const passed = compare(actual, threshold.operator, threshold.value);
+
+    return {
+      threshold,
+      actual,
+      passed,
+      message: `${threshold.expression}: actual ${formatNumber(actual)} ${passed ? "passed" : "failed"}`,
+    };
+  });
+}
+
+function getRunEvaluationValue(
+  result: Pick<ExperimentResult, "runEvaluations">,
+  name: string,
+): number | undefined {
+  const value = result.runEvaluations.find((e) => e.name === name)?.value;
+
+  return isFiniteNumber(value) ? value : undefined;
+}
+
+function aggregate(
+  values: number[],
+  aggregate: ThresholdAggregate,
+): number | undefined {
+  if (aggregate === "count") return values.length;
+  if (values.length === 0) return undefined;
+
+  switch (aggregate) {
+    case "mean":
+      return mean(values);
+    case "sum":
+      return values.reduce((a, b) => a + b, 0);
+    case "min":
+      return Math.min(...values);
+    case "max":
+      return Math.max(...values);
+    case "median":
+      return percentile(values, 50);
+    default:
+      return percentile(values, Number(aggregate.slice(1)));
+  }
+}
+
+function compare(
+  actual: number,
+  operator: ThresholdOperator,
+  expected: number,
+): boolean {
+  switch (operator) {
+    case ">=":
+      return actual >= expected;
+    case "<=":
+      return actual <= expected;
+    case ">":
+      return actual > expected;
+    case "<":
+      return actual < expected;
+    case "==":
+      return actual === expected;
+    case "!=":
+      return actual !== expected;
+  }
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(4);
+}
@@ -0,0 +1,5 @@
+export * from "./experiment/config.js";
+export * from "./experiment/junit.js";
+export * from "./experiment/run.js";
+export * from "./experiment/thresholds.js";
+export * from "./replay/replay.js";
@@ -0,0 +1,109 @@
+import { stat } from "node:fs/promises";
+
+import { ElasticDashClient } from "@elasticdash/client";
+import { getGlobalLogger } from "@elasticdash/core";
+import {
+  listJsonlSpanFiles,
+  readJsonlSpanFile,
+  toOtelTraceRequest,
+} from "@elasticdash/otel";
+
+/**
+ * Default number of spans sent per export request when replaying.
+ *
+ * @public
+ */
+export const DEFAULT_REPLAY_BATCH_SIZE = 500;
+
+/**
+ * Outcome of replaying JSONL span files.
+ *
+ * @public
+ */
+export type ReplayOutcome = {
+  /** Paths of the replayed files */
+  files: string[];
+  /** Number of replayed spans */
+  spanCount: number;
+  /** Number of export requests sent */
+  requestCount: number;
+};
+
+/**
+ * Replays span files written by the `JsonlSpanExporter` into an ElasticDash
+ * instance through its OpenTelemetry ingestion endpoint.
+ *
+ * Directories are expanded to the span files they contain, oldest first.
+ * Spans keep their original trace and span IDs, so replaying a file twice
+ * updates the same observations instead of creating duplicates.
+ *
+ * @param params - Replay parameters
+ * @param params.paths - Span files or directories containing span files
+ * @param params.batchSize - Number of spans sent per export request (default: 500)
+ * @param params.client - Client to replay with. If not provided, a client is created from the environment.
+ * @returns Promise resolving to the replay outcome
+ *
+ * @example
+ * ```typescript
+ * const { spanCount } = await replayJsonlSpanFiles({
+ *   paths: ['.elasticdash/spans'],
+ * });
+ * ```
+ *
+ * @public
+ */
+export async function replayJsonlSpanFiles(params: {
+  paths: string[];
+  batchSize?: number;
+  client?: ElasticDashClient;
+}): Promise<ReplayOutcome> {
+  const logger = getGlobalLogger();
+  const batchSize = params.batchSize ?? DEFAULT_REPLAY_BATCH_SIZE;
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error(
+      `Invalid batch size '${batchSize}'. Must be a positive integer.`,
+    );
+  }
+
+  const files = await resolveSpanFiles(params.paths);
+  const client = params.client ?? new ElasticDashClient();
+  let spanCount = 0;
+  let requestCount = 0;
+
+  for (const file of files) {
+    const spans = await readJsonlSpanFile(file);
+
+    for (let i = 0; i < spans.length; i += batchSize) {
+      const batch = spans.slice(i, i + batchSize);
+
+      try {
+        await client.api.opentelemetry.exportTraces(toOtelTraceRequest(batch));
+      } catch (err) {
+        throw new Error(
+          `Replaying spans ${i + 1}-${i + batch.length} of '${file}' failed after ${spanCount} replayed spans: ${err instanceof Error ? err.message : err}`,
+        );
+      }
+
+      spanCount += batch.length;
+      requestCount++;
+    }
+
+    logger.info(`Replayed ${spans.length} spans from '${file}'.`);
+  }
+
+  return { files, spanCount, requestCount };
+}
+
+async function resolveSpanFiles(paths: string[]): Promise<string[]> {
+  const files: string[] = [];
+
+  for (const path of paths) {
+    if ((await stat(path)).isDirectory()) {
+      files.push(...(await listJsonlSpanFiles(path)));
+    } else {
+      files.push(path);
+    }
+  }
+
+  return files;
+}
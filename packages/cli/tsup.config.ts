@@ -0,0 +1,14 @@
+import { defineConfig } from "tsup";
+
+export default defineConfig({
+  entry: ["src/index.ts", "src/cli.ts"],
+  format: ["cjs", "esm"],
+  dts: { entry: "src/index.ts" },
+  splitting: false,
+  sourcemap: true,
+  clean: true,
+  outDir: "dist",
+  outExtension: ({ format }) => ({
+    js: format === "cjs" ? ".cjs" : ".mjs",
+  }),
+});
@@ -2,6 +2,8 @@ import {
   ElasticDashAPIClient,
   ELASTICDASH_SDK_VERSION,
   ElasticDashEnvVar,
+  ExportSpool,
+  IngestionEvent,
   getGlobalLogger,
   getEnv,
 } from "@elasticdash/core";
@@ -9,7 +11,11 @@ import {
 import { DatasetManager } from "./dataset/index.js";
 import { ExperimentManager } from "./experiment/ExperimentManager.js";
 import { MediaManager } from "./media/index.js";
-import { PromptManager } from "./prompt/index.js";
+import {
+  PromptCacheStore,
+  PromptManager,
+  PromptSnapshot,
+} from "./prompt/index.js";
 import { ScoreManager } from "./score/index.js";
 
 /**
@@ -56,6 +62,27 @@ export interface ElasticDashClientParams {
    * Used for environment-specific configuration and behavior.
    */
   isProd?: boolean;
+
+  /**
+   * Optional store to persist and share the prompt cache, e.g. a
+   * {@link FilePromptCacheStore} or {@link RedisPromptCacheStore}.
+   * By default, prompts are cached in memory of the current process only.
+   */
+  promptCacheStore?: PromptCacheStore;
+
+  /**
+   * Optional prompt snapshot, or path to a snapshot JSON file, to serve
+   * prompts from when they cannot be fetched. Create one with
+   * `elasticdash.prompt.exportSnapshot()`.
+   */
+  promptSnapshot?: PromptSnapshot | string;
+
+  /**
+   * Optional durable spool for score batches that fail to export, e.g. a
+   * `FileExportSpool`. Spooled scores are replayed in order with backoff once
+   * the API is reachable again.
+   */
+  scoreSpool?: ExportSpool<IngestionEvent>;
 }
 
 /**
@@ -303,9 +330,16 @@ export class ElasticDashClient {
       timeoutSeconds,
     });
 
-    this.prompt = new PromptManager({ apiClient: this.api });
+    this.prompt = new PromptManager({
+      apiClient: this.api,
+      cacheStore: params?.promptCacheStore,
+      snapshot: params?.promptSnapshot,
+    });
     this.dataset = new DatasetManager({ elasticdashClient: this });
-    this.score = new ScoreManager({ apiClient: this.api });
+    this.score = new ScoreManager({
+      apiClient: this.api,
+      spool: params?.scoreSpool,
+    });
     this.media = new MediaManager({ apiClient: this.api });
     this.experiment = new ExperimentManager({ elasticdashClient: this });
 
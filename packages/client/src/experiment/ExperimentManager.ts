@@ -1,5 +1,8 @@
 import {
   DatasetItem,
+  DatasetRunItem,
+  GetScoresRequest,
+  GetScoresResponseData,
   getGlobalLogger,
   propagateAttributes,
   serializeValue,
@@ -7,22 +10,49 @@ import {
   createExperimentItemId,
   ElasticDashOtelSpanAttributes,
   ELASTICDASH_SDK_EXPERIMENT_ENVIRONMENT,
+  markExperimentContext,
 } from "@elasticdash/core";
 import { startActiveObservation } from "@elasticdash/tracing";
-import { ProxyTracerProvider, trace } from "@opentelemetry/api";
+import { ProxyTracerProvider, context, trace } from "@opentelemetry/api";
 
 import { ElasticDashClient } from "../ElasticDashClient.js";
 
+import { FileExperimentCheckpointStore } from "./checkpoint.js";
+import { buildExperimentComparison } from "./compare.js";
+import {
+  RateLimiter,
+  runWithConcurrency,
+  sleep,
+  withTimeout,
+} from "./concurrency.js";
 import {
   ExperimentParams,
   ExperimentResult,
   ExperimentTask,
   ExperimentItem,
   ExperimentItemResult,
+  ExperimentFailedItem,
+  ExperimentComparison,
+  ExperimentComparisonOptions,
   Evaluator,
   Evaluation,
 } from "./types.js";
 
+/**
+ * Rejection reason of an item whose task failed after all attempts.
+ *
+ * @internal
+ */
+class ExperimentItemFailure extends Error {
+  constructor(
+    public readonly error: Error,
+    public readonly attempts: number,
+  ) {
+    super(error.message);
+    this.name = "ExperimentItemFailure";
+  }
+}
+
 /**
  * Manages the execution and evaluation of experiments on datasets.
  *
@@ -117,6 +147,12 @@ export class ExperimentManager {
    * @param config.evaluators - Optional array of functions to evaluate each item's output
    * @param config.runEvaluators - Optional array of functions to evaluate the entire run
    * @param config.maxConcurrency - Maximum number of concurrent task executions (default: 50)
+   * @param config.checkpointStore - Optional store persisting each completed item result
+   * @param config.resume - Whether to skip items that already have a stored result (default: false)
+   * @param config.maxRetries - Maximum number of retries for a failed item (default: 0)
+   * @param config.retryDelayMs - Base delay for exponential retry backoff in milliseconds (default: 1000)
+   * @param config.itemTimeoutMs - Optional timeout for a single task attempt in milliseconds
+   * @param config.requestsPerMinute - Optional limit of task attempts started per minute
    *
    * @returns Promise that resolves to experiment results including:
    *   - runName: The experiment run name (either provided or generated)
@@ -125,6 +161,7 @@ export class ExperimentManager {
    *   - datasetRunId: ID of the dataset run (if using ElasticDash datasets)
    *   - format: Function to format results for display
    *
+   * @throws {Error} When `resume` is enabled without an explicit `runName`
    * @throws {Error} When task execution fails and cannot be handled gracefully
    * @throws {Error} When required evaluators fail critically
    *
@@ -163,6 +200,37 @@ export class ExperimentManager {
    * });
    * ```
    *
+   * @example Experiment with retries, timeouts and rate limiting
+   * ```typescript
+   * const result = await elasticdash.experiment.run({
+   *   name: "Rate Limited Evaluation",
+   *   data: largeBatchOfItems,
+   *   task: expensiveModelCall,
+   *   maxConcurrency: 10,
+   *   maxRetries: 3, // retried after 1s, 2s and 4s
+   *   itemTimeoutMs: 30_000,
+   *   requestsPerMinute: 500,
+   * });
+   *
+   * for (const { item, error, attempts } of result.failedItems) {
+   *   console.log(`Item failed after ${attempts} attempts:`, item.input, error);
+   * }
+   * ```
+   *
+   * @example Resumable experiment with checkpoints
+   * ```typescript
+   * // Completed items are checkpointed to .elasticdash/checkpoints by default.
+   * // If the process crashes, re-running the same code only executes the
+   * // items that have no stored result yet.
+   * const result = await elasticdash.experiment.run({
+   *   name: "Large Scale Evaluation",
+   *   runName: "large-scale-eval-v1", // required for resuming
+   *   data: largeBatchOfItems,
+   *   task: expensiveModelCall,
+   *   resume: true,
+   * });
+   * ```
+   *
    * @see {@link ExperimentParams} for detailed parameter documentation
    * @see {@link ExperimentResult} for detailed return value documentation
    * @see {@link Evaluator} for evaluator function specifications
@@ -185,31 +253,73 @@ export class ExperimentManager {
       runName: providedRunName,
       description,
       metadata,
-      maxConcurrency: batchSize = 50,
+      maxConcurrency = 50,
       runEvaluators,
+      resume = false,
+      maxRetries = 0,
+      retryDelayMs = 1000,
+      itemTimeoutMs,
+      requestsPerMinute,
     } = config;
 
+    if (resume && !providedRunName) {
+      throw new Error(
+        "Resuming an experiment requires an explicit runName to locate the checkpoint of the previous run.",
+      );
+    }
+
     const runName = this.createExperimentRunName({
       name,
       runName: providedRunName,
     });
 
+    const checkpointStore =
+      config.checkpointStore ??
+      (resume ? new FileExperimentCheckpointStore() : undefined);
+
+    let checkpointedResults = new Map<string, ExperimentItemResult>();
+    if (checkpointStore) {
+      if (resume) {
+        checkpointedResults = await checkpointStore.load(runName);
+
+        this.logger.info(
+          `Resuming experiment run '${runName}' with ${checkpointedResults.size} checkpointed item results.`,
+        );
+      } else {
+        await checkpointStore.clear(runName);
+      }
+    }
+
     if (!this.isOtelRegistered()) {
       this.logger.warn(
         "OpenTelemetry has not been set up. Traces will not be sent to ElasticDash.See our docs on how to set up OpenTelemetry: https://elasticdash.com/docs/observability/sdk/typescript/setup#tracing-setup",
       );
     }
 
-    const itemResults: ExperimentItemResult<Input, ExpectedOutput, Metadata>[] =
-      [];
+    const rateLimiter = requestsPerMinute
+      ? new RateLimiter(requestsPerMinute)
+      : undefined;
 
-    for (let i = 0; i < data.length; i += batchSize) {
-      const batch = data.slice(i, i + batchSize);
+    const settledResults = await runWithConcurrency(
+      data,
+      maxConcurrency,
+      async (
+        item,
+      ): Promise<ExperimentItemResult<Input, ExpectedOutput, Metadata>> => {
+        const experimentItemId = checkpointStore
+          ? await this.getExperimentItemId(item)
+          : undefined;
+
+        const checkpointedResult = experimentItemId
+          ? checkpointedResults.get(experimentItemId)
+          : undefined;
+
+        if (checkpointedResult) {
+          // Keep the live item so non-serializable fields (e.g. dataset item link functions) remain available
+          return { ...checkpointedResult, item };
+        }
 
-      const promises: Promise<
-        ExperimentItemResult<Input, ExpectedOutput, Metadata>
-      >[] = batch.map(async (item) => {
-        return this.runItem({
+        const result = await this.runItem({
           item,
           evaluators,
           task,
@@ -217,30 +327,57 @@ export class ExperimentManager {
           experimentRunName: runName,
           experimentDescription: description,
           experimentMetadata: metadata,
+          retryOptions: {
+            maxRetries,
+            retryDelayMs,
+            itemTimeoutMs,
+            rateLimiter,
+          },
         });
-      });
 
-      const settledResults = await Promise.allSettled(promises);
-      const results = settledResults.reduce(
-        (acc, settledResult) => {
-          if (settledResult.status === "fulfilled") {
-            acc.push(settledResult.value);
-          } else {
-            const errorMessage =
-              settledResult.reason instanceof Error
-                ? settledResult.reason.message
-                : String(settledResult.reason);
-            this.logger.error(
-              `Task failed with error: ${errorMessage}. Skipping item.`,
-            );
-          }
-          return acc;
-        },
-        [] as ExperimentItemResult<Input, ExpectedOutput, Metadata>[],
+        if (checkpointStore && experimentItemId) {
+          await checkpointStore
+            .save(runName, experimentItemId, result)
+            .catch((err) => {
+              this.logger.error(
+                `Failed to checkpoint result for experiment item '${experimentItemId}'`,
+                err,
+              );
+            });
+        }
+
+        return result;
+      },
+    );
+
+    const itemResults: ExperimentItemResult<Input, ExpectedOutput, Metadata>[] =
+      [];
+    const failedItems: ExperimentFailedItem<Input, ExpectedOutput, Metadata>[] =
+      [];
+
+    settledResults.forEach((settledResult, index) => {
+      if (settledResult.status === "fulfilled") {
+        itemResults.push(settledResult.value);
+
+        return;
+      }
+
+      const reason = settledResult.reason;
+      const error =
+        reason instanceof ExperimentItemFailure
+          ? reason.error
+          : reason instanceof Error
+            ? reason
+            : new Error(String(reason));
+      const attempts =
+        reason instanceof ExperimentItemFailure ? reason.attempts : 1;
+
+      this.logger.error(
+        `Task failed with error: ${error.message} after ${attempts} attempt(s). Skipping item.`,
       );
 
-      itemResults.push(...results);
-    }
+      failedItems.push({ item: data[index], error, attempts });
+    });
 
     // Get dataset run URL
     const datasetRunId =
@@ -295,6 +432,7 @@ export class ExperimentManager {
     return {
       runName,
       itemResults,
+      failedItems,
       datasetRunId,
       datasetRunUrl,
       runEvaluations,
@@ -302,6 +440,7 @@ export class ExperimentManager {
         await this.prettyPrintResults({
           datasetRunUrl,
           itemResults,
+          failedItems,
           originalData: data,
           runEvaluations,
           name: config.name,
@@ -312,11 +451,368 @@ export class ExperimentManager {
     };
   }
 
+  /**
+   * Compares a candidate experiment run against a baseline run.
+   *
+   * Item results of both runs are matched by dataset item ID, or by a hash of
+   * the input for custom experiment items. For every evaluator with numeric
+   * scores, the comparison reports the mean scores of the matched items, the
+   * delta, win/loss/tie counts and the p-value of a paired two-sided sign
+   * test. An evaluator counts as regressed when the candidate loses
+   * significantly more item pairs than it wins.
+   *
+   * @param baseline - The baseline run, e.g. the result of the last release
+   * @param candidate - The candidate run, e.g. the result with a changed prompt
+   * @param options - Optional comparison options
+   * @param options.lowerIsBetter - Evaluator names for which lower scores are better
+   * @param options.significanceLevel - Significance level of the sign test (default: 0.05)
+   * @param options.tieTolerance - Maximum score difference counted as a tie (default: 0)
+   *
+   * @returns Promise resolving to the comparison with a `format` function rendering a diff table
+   *
+   * @example Fail a CI job on regressions
+   * ```typescript
+   * const baseline = await elasticdash.experiment.run({ ...config, task: currentPromptTask });
+   * const candidate = await elasticdash.experiment.run({ ...config, task: newPromptTask });
+   *
+   * const comparison = await elasticdash.experiment.compare(baseline, candidate, {
+   *   lowerIsBetter: ["latency"],
+   * });
+   *
+   * console.log(comparison.format({ style: "markdown" }));
+   *
+   * if (comparison.hasRegression) {
+   *   process.exit(1);
+   * }
+   * ```
+   *
+   * @public
+   */
+  async compare<
+    Input = any,
+    ExpectedOutput = any,
+    Metadata extends Record<string, any> = Record<string, any>,
+  >(
+    baseline: Pick<
+      ExperimentResult<Input, ExpectedOutput, Metadata>,
+      "runName" | "itemResults"
+    >,
+    candidate: Pick<
+      ExperimentResult<Input, ExpectedOutput, Metadata>,
+      "runName" | "itemResults"
+    >,
+    options?: ExperimentComparisonOptions,
+  ): Promise<ExperimentComparison<Input, ExpectedOutput, Metadata>> {
+    const keyItemResults = async (
+      run: Pick<
+        ExperimentResult<Input, ExpectedOutput, Metadata>,
+        "runName" | "itemResults"
+      >,
+    ) => {
+      const keyed = new Map<
+        string,
+        ExperimentItemResult<Input, ExpectedOutput, Metadata>
+      >();
+
+      for (const result of run.itemResults) {
+        const itemId = await this.getExperimentItemId(result.item);
+
+        if (keyed.has(itemId)) {
+          this.logger.warn(
+            `Duplicate experiment item '${itemId}' in run '${run.runName}'. Only the last result is compared.`,
+          );
+        }
+
+        keyed.set(itemId, result);
+      }
+
+      return keyed;
+    };
+
+    return buildExperimentComparison({
+      baselineRunName: baseline.runName,
+      candidateRunName: candidate.runName,
+      baselineItems: await keyItemResults(baseline),
+      candidateItems: await keyItemResults(candidate),
+      options,
+    });
+  }
+
+  /**
+   * Loads a past dataset run into the same shape that {@link run} returns.
+   *
+   * Joins the dataset run items with their dataset items, the outputs of the
+   * linked traces and the scores attached to them. Scores attached to the
+   * dataset run itself are returned as run evaluations. This allows running
+   * run evaluators on or comparing against historical runs without
+   * re-executing the task.
+   *
+   * Run items whose dataset item no longer exists or whose trace cannot be
+   * fetched are skipped with an error log.
+   *
+   * @param datasetName - Name of the dataset the run belongs to
+   * @param runName - Name of the dataset run
+   * @param options - Optional configuration for data fetching
+   * @param options.fetchPageSize - Number of run items and scores to fetch per page (default: 50)
+   * @param options.maxConcurrency - Maximum number of concurrent trace and score requests (default: 10)
+   *
+   * @returns Promise resolving to the experiment result of the past run
+   *
+   * @throws {Error} If the dataset or the dataset run does not exist or cannot be accessed
+   *
+   * @example Compare a new run against the last release
+   * ```typescript
+   * const baseline = await elasticdash.experiment.loadRun("qa-dataset", "release-1.4");
+   * const candidate = await dataset.runExperiment({ name: "qa", task: newTask, evaluators });
+   *
+   * const comparison = await elasticdash.experiment.compare(baseline, candidate);
+   * ```
+   *
+   * @public
+   */
+  async loadRun(
+    datasetName: string,
+    runName: string,
+    options?: { fetchPageSize?: number; maxConcurrency?: number },
+  ): Promise<ExperimentResult> {
+    const { fetchPageSize = 50, maxConcurrency = 10 } = options ?? {};
+    const api = this.elasticdashClient.api;
+
+    const [dataset, datasetRun] = await Promise.all([
+      this.elasticdashClient.dataset.get(datasetName, {
+        fetchItemsPageSize: fetchPageSize,
+      }),
+      api.datasets.getRun(datasetName, runName),
+    ]);
+
+    const runItems: DatasetRunItem[] = [];
+    let page = 1;
+
+    while (true) {
+      const runItemsResponse = await api.datasetRunItems.list({
+        datasetId: datasetRun.datasetId,
+        runName,
+        limit: fetchPageSize,
+        page,
+      });
+
+      runItems.push(...runItemsResponse.data);
+
+      if (runItemsResponse.meta.totalPages <= page) {
+        break;
+      }
+
+      page++;
+    }
+
+    const datasetItemsById = new Map<string, DatasetItem>(
+      dataset.items.map((item) => [item.id, item]),
+    );
+
+    const settledResults = await runWithConcurrency(
+      runItems,
+      maxConcurrency,
+      async (runItem): Promise<ExperimentItemResult> => {
+        const item = datasetItemsById.get(runItem.datasetItemId);
+        if (!item) {
+          throw new Error(
+            `Dataset item '${runItem.datasetItemId}' of run item '${runItem.id}' not found.`,
+          );
+        }
+
+        const [trace, scores] = await Promise.all([
+          api.trace.get(runItem.traceId),
+          this.fetchScores({ traceId: runItem.traceId }, fetchPageSize),
+        ]);
+
+        const observation = runItem.observationId
+          ? trace.observations.find((o) => o.id === runItem.observationId)
+          : undefined;
+
+        return {
+          item,
+          output: observation ? observation.output : trace.output,
+          evaluations: scores
+            .filter(
+              (score) =>
+                !runItem.observationId ||
+                !score.observationId ||
+                score.observationId === runItem.observationId,
+            )
+            .map((score) => this.scoreToEvaluation(score)),
+          traceId: runItem.traceId,
+          datasetRunId: datasetRun.id,
+        };
+      },
+    );
+
+    const itemResults: ExperimentItemResult[] = [];
+
+    settledResults.forEach((settledResult, index) => {
+      if (settledResult.status === "fulfilled") {
+        itemResults.push(settledResult.value);
+      } else {
+        this.logger.error(
+          `Failed to load run item '${runItems[index].id}'. Skipping item.`,
+          settledResult.reason,
+        );
+      }
+    });
+
+    const runEvaluations = (
+      await this.fetchScores({ datasetRunId: datasetRun.id }, fetchPageSize)
+    ).map((score) => this.scoreToEvaluation(score));
+
+    const projectUrl = (await this.elasticdashClient.getTraceUrl("mock")).split(
+      "/traces",
+    )[0];
+    const datasetRunUrl = `${projectUrl}/datasets/${datasetRun.datasetId}/runs/${datasetRun.id}`;
+
+    return {
+      runName,
+      itemResults,
+      failedItems: [],
+      datasetRunId: datasetRun.id,
+      datasetRunUrl,
+      runEvaluations,
+      format: async (formatOptions?: { includeItemResults?: boolean }) =>
+        await this.prettyPrintResults({
+          datasetRunUrl,
+          itemResults,
+          failedItems: [],
+          originalData: itemResults.map((r) => r.item),
+          runEvaluations,
+          name: datasetName,
+          runName,
+          description: datasetRun.description ?? undefined,
+          includeItemResults: formatOptions?.includeItemResults ?? false,
+        }),
+    };
+  }
+
+  /**
+   * Fetches all scores matching a filter, following pagination.
+   *
+   * @param filter - Score filter, e.g. by trace ID or dataset run ID
+   * @param pageSize - Number of scores to fetch per page
+   * @returns Promise resolving to all matching scores
+   *
+   * @internal
+   */
+  private async fetchScores(
+    filter: Pick<GetScoresRequest, "traceId" | "datasetRunId">,
+    pageSize: number,
+  ): Promise<GetScoresResponseData[]> {
+    const scores: GetScoresResponseData[] = [];
+    let page = 1;
+
+    while (true) {
+      const scoresResponse = await this.elasticdashClient.api.scoreV2.get({
+        ...filter,
+        limit: pageSize,
+        page,
+      });
+
+      scores.push(...scoresResponse.data);
+
+      if (scoresResponse.meta.totalPages <= page) {
+        break;
+      }
+
+      page++;
+    }
+
+    return scores;
+  }
+
+  /**
+   * Converts a stored score into the evaluation shape returned by evaluators.
+   *
+   * @param score - The stored score
+   * @returns The corresponding evaluation
+   *
+   * @internal
+   */
+  private scoreToEvaluation(score: GetScoresResponseData): Evaluation {
+    return {
+      name: score.name,
+      value: score.dataType === "CATEGORICAL" ? score.stringValue : score.value,
+      dataType: score.dataType,
+      comment: score.comment ?? undefined,
+      metadata: score.metadata,
+      configId: score.configId ?? undefined,
+    };
+  }
+
+  /**
+   * Executes the task of a single data item, retrying failed attempts with
+   * exponential backoff.
+   *
+   * Every attempt waits for the rate limiter (if any) and is bounded by the
+   * item timeout (if any). A timed-out attempt is not cancelled, its late
+   * result is ignored. When all attempts fail, the returned promise rejects
+   * with an {@link ExperimentItemFailure} carrying the last error and the number
+   * of attempts. The returned latency covers only the successful attempt, not
+   * rate limiter waits, failed attempts or backoff.
+   *
+   * @param params - Retry parameters
+   * @param params.run - Function executing a single attempt
+   * @param params.maxRetries - Maximum number of retries after the first attempt
+   * @param params.retryDelayMs - Base delay for exponential backoff in milliseconds
+   * @param params.itemTimeoutMs - Optional timeout for a single attempt in milliseconds
+   * @param params.rateLimiter - Optional rate limiter to acquire before each attempt
+   * @returns Promise resolving to the result and latency in milliseconds of the first successful attempt
+   *
+   * @internal
+   */
+  private async runWithRetries<T>(params: {
+    run: () => Promise<T>;
+    maxRetries: number;
+    retryDelayMs: number;
+    itemTimeoutMs?: number;
+    rateLimiter?: RateLimiter;
+  }): Promise<{ result: T; latencyMs: number }> {
+    const { run, maxRetries, retryDelayMs, itemTimeoutMs, rateLimiter } =
+      params;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await rateLimiter?.acquire();
+
+        const startTime = Date.now();
+        const resultPromise = run();
+        const result =
+          itemTimeoutMs !== undefined
+            ? await withTimeout(
+                resultPromise,
+                itemTimeoutMs,
+                `Task timed out after ${itemTimeoutMs}ms.`,
+              )
+            : await resultPromise;
+
+        return { result, latencyMs: Date.now() - startTime };
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error(String(err));
+
+        if (attempt >= maxRetries) {
+          throw new ExperimentItemFailure(error, attempt + 1);
+        }
+
+        this.logger.warn(
+          `Task failed with error: ${error.message}. Retrying (${attempt + 1}/${maxRetries}).`,
+        );
+
+        await sleep(retryDelayMs * Math.pow(2, attempt));
+      }
+    }
+  }
+
   /**
    * Executes the task and evaluators for a single data item.
    *
    * This method handles the complete processing pipeline for one data item:
-   * 1. Executes the task within a traced observation span
+   * 1. Executes the task within a traced observation span, retrying failed or
+   *    timed-out attempts
    * 2. Links the result to a dataset run (if applicable)
    * 3. Runs all item-level evaluators on the output
    * 4. Stores evaluation scores in ElasticDash
@@ -330,10 +826,11 @@ export class ExperimentManager {
    * @param params.item - The data item to process
    * @param params.task - The task function to execute
    * @param params.evaluators - Optional evaluators to run on the output
+   * @param params.retryOptions - Retries, timeout and rate limiting of task attempts
    *
    * @returns Promise resolving to the item result with output, evaluations, and trace info
    *
-   * @throws {Error} When task execution fails (propagated from task function)
+   * @throws {ExperimentItemFailure} When all task attempts fail
    *
    * @internal
    */
@@ -357,112 +854,131 @@ export class ExperimentManager {
     item: ExperimentParams<Input, ExpectedOutput, Metadata>["data"][0];
     task: ExperimentTask<Input, ExpectedOutput, Metadata>;
     evaluators?: Evaluator<Input, ExpectedOutput, Metadata>[];
+    retryOptions: {
+      maxRetries: number;
+      retryDelayMs: number;
+      itemTimeoutMs?: number;
+      rateLimiter?: RateLimiter;
+    };
   }): Promise<ExperimentItemResult<Input, ExpectedOutput, Metadata>> {
-    const { item, evaluators = [], task, experimentMetadata } = params;
-
-    const { output, traceId, observationId, datasetRunId } =
-      await startActiveObservation("experiment-item-run", async (span) => {
-        // Extract experiment data
-        const input = item.input;
-        const expectedOutput = item.expectedOutput;
-        const itemMetadata = item.metadata;
-        const datasetId = "datasetId" in item ? item.datasetId : undefined;
-        const datasetItemId = "id" in item ? item.id : undefined;
-        const traceId = span.traceId;
-        const observationId = span.id;
-
-        // Validate input is present
-        if (input === undefined) {
-          throw new Error("Experiment item is missing input. Skipping item.");
-        }
+    const {
+      item,
+      evaluators = [],
+      task,
+      experimentMetadata,
+      retryOptions,
+    } = params;
 
-        let datasetRunId: string | undefined = undefined;
-
-        if (datasetItemId) {
-          try {
-            const result =
-              await this.elasticdashClient.api.datasetRunItems.create({
-                runName: params.experimentRunName,
-                runDescription: params.experimentDescription,
-                metadata: params.experimentMetadata,
-                datasetItemId,
-                traceId,
-                observationId,
-              });
-
-            datasetRunId = result.datasetRunId;
-          } catch (err) {
-            this.logger.error("Linking dataset run item failed", err);
+    // Mark the root span context so samplers never drop experiment traces
+    const { output, traceId, observationId, datasetRunId, latencyMs } =
+      await context.with(markExperimentContext(context.active()), () =>
+        startActiveObservation("experiment-item-run", async (span) => {
+          // Extract experiment data
+          const input = item.input;
+          const expectedOutput = item.expectedOutput;
+          const itemMetadata = item.metadata;
+          const datasetId = "datasetId" in item ? item.datasetId : undefined;
+          const datasetItemId = "id" in item ? item.id : undefined;
+          const traceId = span.traceId;
+          const observationId = span.id;
+
+          // Validate input is present
+          if (input === undefined) {
+            throw new Error("Experiment item is missing input. Skipping item.");
           }
-        }
 
-        // Generate IDs
-        const experimentItemId =
-          datasetItemId || (await createExperimentItemId(input));
-        const experimentId = datasetRunId || (await createExperimentId());
+          let datasetRunId: string | undefined = undefined;
+
+          if (datasetItemId) {
+            try {
+              const result =
+                await this.elasticdashClient.api.datasetRunItems.create({
+                  runName: params.experimentRunName,
+                  runDescription: params.experimentDescription,
+                  metadata: params.experimentMetadata,
+                  datasetItemId,
+                  traceId,
+                  observationId,
+                });
+
+              datasetRunId = result.datasetRunId;
+            } catch (err) {
+              this.logger.error("Linking dataset run item failed", err);
+            }
+          }
 
-        // Set non-propagated experiment attributes directly on root span
-        const rootSpanAttributes: Record<string, string> = {
-          [ElasticDashOtelSpanAttributes.ENVIRONMENT]:
-            ELASTICDASH_SDK_EXPERIMENT_ENVIRONMENT,
-        };
-        if (params.experimentDescription) {
-          rootSpanAttributes[
-            ElasticDashOtelSpanAttributes.EXPERIMENT_DESCRIPTION
-          ] = params.experimentDescription;
-        }
+          // Generate IDs
+          const experimentItemId = await this.getExperimentItemId(item);
+          const experimentId = datasetRunId || (await createExperimentId());
 
-        if (expectedOutput !== undefined) {
-          const serialized = serializeValue(expectedOutput);
-          if (serialized) {
+          // Set non-propagated experiment attributes directly on root span
+          const rootSpanAttributes: Record<string, string> = {
+            [ElasticDashOtelSpanAttributes.ENVIRONMENT]:
+              ELASTICDASH_SDK_EXPERIMENT_ENVIRONMENT,
+          };
+          if (params.experimentDescription) {
             rootSpanAttributes[
-              ElasticDashOtelSpanAttributes.EXPERIMENT_ITEM_EXPECTED_OUTPUT
-            ] = serialized;
+              ElasticDashOtelSpanAttributes.EXPERIMENT_DESCRIPTION
+            ] = params.experimentDescription;
           }
-        }
 
-        span.otelSpan.setAttributes(rootSpanAttributes);
-
-        // Propagate experiment context to all child spans
-        const output = await propagateAttributes(
-          {
-            _internalExperiment: {
-              experimentId,
-              experimentName: params.experimentRunName,
-              experimentMetadata: serializeValue(experimentMetadata),
-              experimentDatasetId: datasetId,
-              experimentItemId,
-              experimentItemMetadata: serializeValue(itemMetadata),
-              experimentItemRootObservationId: span.id,
+          if (expectedOutput !== undefined) {
+            const serialized = serializeValue(expectedOutput);
+            if (serialized) {
+              rootSpanAttributes[
+                ElasticDashOtelSpanAttributes.EXPERIMENT_ITEM_EXPECTED_OUTPUT
+              ] = serialized;
+            }
+          }
+
+          span.otelSpan.setAttributes(rootSpanAttributes);
+
+          // Propagate experiment context to all child spans
+          const { result: output, latencyMs } = await propagateAttributes(
+            {
+              _internalExperiment: {
+                experimentId,
+                experimentName: params.experimentRunName,
+                experimentMetadata: serializeValue(experimentMetadata),
+                experimentDatasetId: datasetId,
+                experimentItemId,
+                experimentItemMetadata: serializeValue(itemMetadata),
+                experimentItemRootObservationId: span.id,
+              },
             },
-          },
-          async () => await task(item),
-        );
+            async () =>
+              await this.runWithRetries({
+                ...retryOptions,
+                run: () => task(item),
+              }),
+          );
 
-        span.update({
-          input,
-          output,
-          metadata: {
-            experiment_name: params.experimentName,
-            experiment_run_name: params.experimentRunName,
-            ...experimentMetadata,
-            ...(itemMetadata ?? {}),
-            ...(datasetId && datasetItemId
-              ? {
-                  dataset_id: datasetId,
-                  dataset_item_id: datasetItemId,
-                }
-              : {}),
-          },
-        });
+          span.update({
+            input,
+            output,
+            metadata: {
+              experiment_name: params.experimentName,
+              experiment_run_name: params.experimentRunName,
+              ...experimentMetadata,
+              ...(itemMetadata ?? {}),
+              ...(datasetId && datasetItemId
+                ? {
+                    dataset_id: datasetId,
+                    dataset_item_id: datasetItemId,
+                  }
+                : {}),
+            },
+          });
 
-        return {
-          output,
-          traceId,
-          observationId,
-          datasetRunId,
-        };
-      });
+          return {
+            output,
+            traceId,
+            observationId,
+            datasetRunId,
+            latencyMs,
+          };
+        }),
+      );
 
     const evalPromises: Promise<Evaluation[]>[] = evaluators.map(
       async (evaluator) => {
@@ -471,6 +987,7 @@ export class ExperimentManager {
           expectedOutput: item.expectedOutput as any,
           output,
           metadata: item.metadata as any,
+          latencyMs,
         };
 
         return evaluator(params)
@@ -530,6 +1047,7 @@ export class ExperimentManager {
    * @param params - Formatting parameters
    * @param params.datasetRunUrl - Optional URL to the dataset run in ElasticDash UI
    * @param params.itemResults - Results from processing each data item
+   * @param params.failedItems - Items whose task failed after all retries
    * @param params.originalData - The original input data items
    * @param params.runEvaluations - Results from run-level evaluators
    * @param params.name - Name of the experiment
@@ -583,6 +1101,7 @@ export class ExperimentManager {
   >(params: {
     datasetRunUrl?: string;
     itemResults: ExperimentItemResult<Input, ExpectedOutput, Metadata>[];
+    failedItems: ExperimentFailedItem<Input, ExpectedOutput, Metadata>[];
     originalData:
       | ExperimentItem<Input, ExpectedOutput, Metadata>[]
       | DatasetItem[];
@@ -594,7 +1113,7 @@ export class ExperimentManager {
   }): Promise<string> {
     const {
       itemResults,
-      originalData,
+      failedItems,
       runEvaluations,
       name,
       runName,
@@ -602,7 +1121,7 @@ export class ExperimentManager {
       includeItemResults = false,
     } = params;
 
-    if (itemResults.length === 0) {
+    if (itemResults.length === 0 && failedItems.length === 0) {
       return "No experiment results to display.";
     }
 
@@ -612,7 +1131,7 @@ export class ExperimentManager {
     if (includeItemResults) {
       for (let index = 0; index < itemResults.length; index++) {
         const result = itemResults[index];
-        const originalItem = originalData[index];
+        const originalItem = result.item;
 
         output += `\n${index + 1}. Item ${index + 1}:\n`;
 
@@ -682,6 +1201,9 @@ export class ExperimentManager {
     }
 
     output += `\n${totalItems} items`;
+    if (failedItems.length > 0) {
+      output += `\n⚠️  ${failedItems.length} items failed`;
+    }
 
     if (evaluationNames.size > 0) {
       output += `\nEvaluations:`;
@@ -751,6 +1273,25 @@ export class ExperimentManager {
     return JSON.stringify(value);
   }
 
+  /**
+   * Derives the experiment item ID for a data item.
+   *
+   * Uses the dataset item ID for ElasticDash dataset items and a hash of the
+   * input for custom experiment items.
+   *
+   * @param item - The data item
+   * @returns The experiment item ID
+   *
+   * @internal
+   */
+  private async getExperimentItemId(
+    item: ExperimentParams["data"][0],
+  ): Promise<string> {
+    const datasetItemId = "id" in item ? item.id : undefined;
+
+    return datasetItemId || (await createExperimentItemId(item.input));
+  }
+
   private isOtelRegistered(): boolean {
     let tracerProvider = trace.getTracerProvider();
 
@@ -0,0 +1,153 @@
+import { getGlobalLogger } from "@elasticdash/core";
+
+import { ExperimentCheckpointStore, ExperimentItemResult } from "./types.js";
+
+/**
+ * Default directory for file-based experiment checkpoints, relative to the
+ * current working directory.
+ *
+ * @public
+ */
+export const DEFAULT_EXPERIMENT_CHECKPOINT_DIRECTORY =
+  ".elasticdash/checkpoints";
+
+type CheckpointEntry = {
+  itemId: string;
+  result: ExperimentItemResult;
+};
+
+/**
+ * File-based experiment checkpoint store.
+ *
+ * Each run is stored as a JSON Lines file in the configured directory. Every
+ * completed item result is appended as a single line, so a crash can at most
+ * lose the line that was being written at that moment. Incomplete or corrupt
+ * lines are skipped when the checkpoint is loaded.
+ *
+ * Checkpoints are written with the Node.js `fs` module.
+ *
+ * @example
+ * ```typescript
+ * const result = await elasticdash.experiment.run({
+ *   name: "Large Scale Evaluation",
+ *   runName: "large-scale-eval-v1",
+ *   data: items,
+ *   task: myTask,
+ *   checkpointStore: new FileExperimentCheckpointStore({
+ *     directory: "/tmp/experiment-checkpoints",
+ *   }),
+ *   resume: true,
+ * });
+ * ```
+ *
+ * @public
+ */
+export class FileExperimentCheckpointStore
+  implements ExperimentCheckpointStore
+{
+  private directory: string;
+
+  /**
+   * Creates a new FileExperimentCheckpointStore instance.
+   *
+   * @param params - Optional configuration
+   * @param params.directory - Directory to write checkpoint files to (default: ".elasticdash/checkpoints")
+   */
+  constructor(params?: { directory?: string }) {
+    this.directory =
+      params?.directory ?? DEFAULT_EXPERIMENT_CHECKPOINT_DIRECTORY;
+  }
+
+  async load(runName: string): Promise<Map<string, ExperimentItemResult>> {
+    const fs = await import("node:fs/promises");
+    const results = new Map<string, ExperimentItemResult>();
+
+    let content: string;
+    try {
+      content = await fs.readFile(this.getFilePath(runName), "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException)?.code === "ENOENT") {
+        return results;
+      }
+
+      throw err;
+    }
+
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue;
+
+      try {
+        const entry = JSON.parse(line) as CheckpointEntry;
+
+        results.set(entry.itemId, entry.result);
+      } catch {
+        getGlobalLogger().warn(
+          `Skipping corrupt line in experiment checkpoint for run '${runName}'.`,
+        );
+      }
+    }
+
+    return results;
+  }
+
+  async save(
+    runName: string,
+    itemId: string,
+    result: ExperimentItemResult,
+  ): Promise<void> {
+    const fs = await import("node:fs/promises");
+    const entry: CheckpointEntry = { itemId, result };
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.appendFile(
+      this.getFilePath(runName),
+      JSON.stringify(entry) + "\n",
+      "utf8",
+    );
+  }
+
+  async clear(runName: string): Promise<void> {
+    const fs = await import("node:fs/promises");
+
+    await fs.rm(this.getFilePath(runName), { force: true });
+  }
+
+  private getFilePath(runName: string): string {
+    const fileName = encodeURIComponent(runName).replace(/\*/g, "%2A");
+
+    return `${this.directory}/${fileName}.jsonl`;
+  }
+}
+
+/**
+ * In-memory experiment checkpoint store.
+ *
+ * Keeps checkpoints for the lifetime of the process only. Useful for runtimes
+ * without file system access and for retrying a run within the same process.
+ *
+ * @public
+ */
+export class InMemoryExperimentCheckpointStore
+  implements ExperimentCheckpointStore
+{
+  private runs = new Map<string, Map<string, ExperimentItemResult>>();
+
+  async load(runName: string): Promise<Map<string, ExperimentItemResult>> {
+    return new Map(this.runs.get(runName) ?? []);
+  }
+
+  async save(
+    runName: string,
+    itemId: string,
+    result: ExperimentItemResult,
+  ): Promise<void> {
+    const run = this.runs.get(runName) ?? new Map();
+
+    run.set(itemId, result);
+    this.runs.set(runName, run);
+  }
+
+  async clear(runName: string): Promise<void> {
+    this.runs.delete(runName);
+  }
+}
@@ -0,0 +1,274 @@
+import { mean } from "./runEvaluators.js";
+import {
+  ExperimentComparison,
+  ExperimentComparisonOptions,
+  ExperimentEvaluatorComparison,
+  ExperimentItemComparison,
+  ExperimentItemResult,
+} from "./types.js";
+
+/**
+ * Builds the comparison of two experiment runs from their item results keyed
+ * by experiment item ID.
+ *
+ * @param params - Comparison parameters
+ * @param params.baselineRunName - Run name of the baseline run
+ * @param params.candidateRunName - Run name of the candidate run
+ * @param params.baselineItems - Baseline item results keyed by experiment item ID
+ * @param params.candidateItems - Candidate item results keyed by experiment item ID
+ * @param params.options - Comparison options
+ * @returns The experiment comparison
+ *
+ * @internal
+ */
+export function buildExperimentComparison<
+  Input = any,
+  ExpectedOutput = any,
+  Metadata extends Record<string, any> = Record<string, any>,
+>(params: {
+  baselineRunName: string;
+  candidateRunName: string;
+  baselineItems: Map<
+    string,
+    ExperimentItemResult<Input, ExpectedOutput, Metadata>
+  >;
+  candidateItems: Map<
+    string,
+    ExperimentItemResult<Input, ExpectedOutput, Metadata>
+  >;
+  options?: ExperimentComparisonOptions;
+}): ExperimentComparison<Input, ExpectedOutput, Metadata> {
+  const { baselineRunName, candidateRunName, baselineItems, candidateItems } =
+    params;
+  const {
+    lowerIsBetter = [],
+    significanceLevel = 0.05,
+    tieTolerance = 0,
+  } = params.options ?? {};
+
+  const matchedItems: ExperimentItemComparison<
+    Input,
+    ExpectedOutput,
+    Metadata
+  >[] = [];
+  const unmatchedBaselineItems: ExperimentItemResult<
+    Input,
+    ExpectedOutput,
+    Metadata
+  >[] = [];
+
+  for (const [itemId, baseline] of baselineItems) {
+    const candidate = candidateItems.get(itemId);
+
+    if (candidate) {
+      matchedItems.push({ itemId, baseline, candidate });
+    } else {
+      unmatchedBaselineItems.push(baseline);
+    }
+  }
+
+  const unmatchedCandidateItems = [...candidateItems.entries()]
+    .filter(([itemId]) => !baselineItems.has(itemId))
+    .map(([, result]) => result);
+
+  const evaluatorNames = new Set(
+    matchedItems.flatMap(({ baseline, candidate }) => [
+      ...baseline.evaluations.map((e) => e.name),
+      ...candidate.evaluations.map((e) => e.name),
+    ]),
+  );
+
+  const evaluators: ExperimentEvaluatorComparison[] = [];
+
+  for (const name of [...evaluatorNames].sort()) {
+    const direction = lowerIsBetter.includes(name) ? -1 : 1;
+    const pairs: [number, number][] = [];
+
+    for (const { baseline, candidate } of matchedItems) {
+      const baselineValue = getNumericScore(baseline, name);
+      const candidateValue = getNumericScore(candidate, name);
+
+      if (baselineValue !== undefined && candidateValue !== undefined) {
+        pairs.push([baselineValue, candidateValue]);
+      }
+    }
+
+    if (pairs.length === 0) continue;
+
+    let wins = 0;
+    let losses = 0;
+    let ties = 0;
+
+    for (const [baselineValue, candidateValue] of pairs) {
+      const diff = (candidateValue - baselineValue) * direction;
+
+      if (Math.abs(diff) <= tieTolerance) {
+        ties++;
+      } else if (diff > 0) {
+        wins++;
+      } else {
+        losses++;
+      }
+    }
+
+    const baselineMean = mean(pairs.map(([value]) => value));
+    const candidateMean = mean(pairs.map(([, value]) => value));
+    const pValue = signTestPValue(wins, losses);
+    const significant = pValue < significanceLevel;
+
+    evaluators.push({
+      name,
+      pairs: pairs.length,
+      baselineMean,
+      candidateMean,
+      delta: candidateMean - baselineMean,
+      wins,
+      losses,
+      ties,
+      pValue,
+      significant,
+      regression: significant && losses > wins,
+    });
+  }
+
+  const comparison = {
+    baselineRunName,
+    candidateRunName,
+    matchedItems,
+    unmatchedBaselineItems,
+    unmatchedCandidateItems,
+    evaluators,
+    hasRegression: evaluators.some((e) => e.regression),
+  };
+
+  return {
+    ...comparison,
+    format: (options) =>
+      options?.style === "markdown"
+        ? formatComparisonMarkdown(comparison)
+        : formatComparisonConsole(comparison),
+  };
+}
+
+/**
+ * Two-sided exact sign test for paired observations.
+ *
+ * Ties are excluded. Returns 1 when there are no untied pairs.
+ *
+ * @param wins - Number of pairs where the candidate is better
+ * @param losses - Number of pairs where the candidate is worse
+ * @returns The two-sided p-value
+ *
+ * @internal
+ */
+export function signTestPValue(wins: number, losses: number): number {
+  const n = wins + losses;
+  if (n === 0) return 1;
+
+  const k = Math.min(wins, losses);
+
+  // Sum the binomial(n, 0.5) probabilities of the lower tail in log space to avoid overflow
+  let logCoefficient = 0;
+  let tail = 0;
+  for (let i = 0; i <= k; i++) {
+    if (i > 0) {
+      logCoefficient += Math.log(n - i + 1) - Math.log(i);
+    }
+    tail += Math.exp(logCoefficient - n * Math.LN2);
+  }
+
+  return Math.min(1, 2 * tail);
+}
+
+type ComparisonSummary = Omit<ExperimentComparison, "format">;
+
+function formatComparisonConsole(comparison: ComparisonSummary): string {
+  let output = `📊 Experiment comparison: ${comparison.baselineRunName} → ${comparison.candidateRunName}\n`;
+  output += formatMatchSummary(comparison);
+
+  if (comparison.evaluators.length === 0) {
+    output += "\nNo numeric evaluations to compare.\n";
+
+    return output;
+  }
+
+  output += "\nEvaluators:";
+  for (const e of comparison.evaluators) {
+    output += `\n  ${getStatusIcon(e)} ${e.name}: ${e.baselineMean.toFixed(3)} → ${e.candidateMean.toFixed(3)} (${formatDelta(e.delta)})`;
+    output += `\n     W/L/T ${e.wins}/${e.losses}/${e.ties} · p=${e.pValue.toFixed(3)} · n=${e.pairs}`;
+  }
+  output += "\n";
+
+  output += comparison.hasRegression
+    ? "\n❌ Significant regression detected\n"
+    : "\n✅ No significant regression\n";
+
+  return output;
+}
+
+function formatComparisonMarkdown(comparison: ComparisonSummary): string {
+  let output = `### Experiment comparison: \`${comparison.baselineRunName}\` → \`${comparison.candidateRunName}\`\n\n`;
+  output += formatMatchSummary(comparison);
+
+  if (comparison.evaluators.length === 0) {
+    output += "\n_No numeric evaluations to compare._\n";
+
+    return output;
+  }
+
+  output +=
+    "\n| | Evaluator | Baseline | Candidate | Δ | W / L / T | p-value |\n";
+  output += "|---|---|---:|---:|---:|---:|---:|\n";
+  for (const e of comparison.evaluators) {
+    output += `| ${getStatusIcon(e)} | ${e.name} | ${e.baselineMean.toFixed(3)} | ${e.candidateMean.toFixed(3)} | ${formatDelta(e.delta)} | ${e.wins} / ${e.losses} / ${e.ties} | ${e.pValue.toFixed(3)} |\n`;
+  }
+
+  output += comparison.hasRegression
+    ? "\n**❌ Significant regression detected**\n"
+    : "\n**✅ No significant regression**\n";
+
+  return output;
+}
+
+function formatMatchSummary(comparison: ComparisonSummary): string {
+  let output = `${comparison.matchedItems.length} matched items`;
+
+  const unmatched: string[] = [];
+  if (comparison.unmatchedBaselineItems.length > 0) {
+    unmatched.push(
+      `${comparison.unmatchedBaselineItems.length} only in baseline`,
+    );
+  }
+  if (comparison.unmatchedCandidateItems.length > 0) {
+    unmatched.push(
+      `${comparison.unmatchedCandidateItems.length} only in candidate`,
+    );
+  }
+  if (unmatched.length > 0) {
+    output += ` (${unmatched.join(", ")})`;
+  }
+
+  return output + "\n";
+}
+
+function getStatusIcon(e: ExperimentEvaluatorComparison): string {
+  if (e.regression) return "🔴";
+  if (e.significant) return "🟢";
+
+  return "⚪";
+}
+
+function formatDelta(delta: number): string {
+  return `${delta >= 0 ? "+" : ""}${delta.toFixed(3)}`;
+}
+
+function getNumericScore(
+  result: ExperimentItemResult,
+  name: string,
+): number | undefined {
+  const value = result.evaluations.find((e) => e.name === name)?.value;
+
+  return typeof value === "number" && Number.isFinite(value)
+    ? value
+    : undefined;
+}
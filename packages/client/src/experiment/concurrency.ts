@@ -0,0 +1,99 @@
+/**
+ * Runs a worker for every item while keeping at most `concurrency` workers in
+ * flight at any time.
+ *
+ * Unlike fixed batches, a new item is started as soon as any running item
+ * finishes, so a single slow item does not stall the remaining capacity.
+ * Results are returned in the order of the input items.
+ *
+ * @param items - The items to process
+ * @param concurrency - Maximum number of concurrently running workers
+ * @param worker - Async function processing a single item
+ * @returns Settled results in input order
+ *
+ * @internal
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>,
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  const poolSize = Math.max(1, Math.min(concurrency, items.length));
+  let nextIndex = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+
+      try {
+        results[index] = {
+          status: "fulfilled",
+          value: await worker(items[index], index),
+        };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: poolSize }, runNext));
+
+  return results;
+}
+
+/**
+ * Spaces out acquisitions so that at most `requestsPerMinute` are granted per
+ * minute.
+ *
+ * @internal
+ */
+export class RateLimiter {
+  private intervalMs: number;
+  private nextSlot = 0;
+
+  constructor(requestsPerMinute: number) {
+    this.intervalMs = 60_000 / requestsPerMinute;
+  }
+
+  async acquire(): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+
+    this.nextSlot = slot + this.intervalMs;
+
+    if (slot > now) {
+      await sleep(slot - now);
+    }
+  }
+}
+
+/**
+ * Rejects with a timeout error if the promise does not settle in time.
+ *
+ * The underlying operation is not cancelled; its eventual result is ignored.
+ *
+ * @internal
+ */
+export async function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  message: string,
+): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), timeoutMs);
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** @internal */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
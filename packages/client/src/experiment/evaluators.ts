@@ -0,0 +1,781 @@
+import { ChatMessage } from "@elasticdash/core";
+
+import { PromptManager } from "../prompt/promptManager.js";
+
+import { Evaluation, Evaluator } from "./types.js";
+
+/**
+ * Creates an evaluator checking whether the output equals the expected output.
+ *
+ * Strings are compared after optional trimming and case folding. Other values
+ * are compared structurally, independent of object key order. Items without
+ * an expected output are scored as not matching.
+ *
+ * @param options - Optional configuration
+ * @param options.name - Score name (default: "exact_match")
+ * @param options.caseSensitive - Whether string comparison is case sensitive (default: true)
+ * @param options.trim - Whether to trim whitespace of strings before comparing (default: true)
+ * @returns A boolean evaluator
+ *
+ * @example
+ * ```typescript
+ * await elasticdash.experiment.run({
+ *   name: "Capital cities",
+ *   data: [{ input: "Germany", expectedOutput: "Berlin" }],
+ *   task: myTask,
+ *   evaluators: [createExactMatchEvaluator({ caseSensitive: false })],
+ * });
+ * ```
+ *
+ * @public
+ */
+export function createExactMatchEvaluator(options?: {
+  name?: string;
+  caseSensitive?: boolean;
+  trim?: boolean;
+}): Evaluator {
+  const {
+    name = "exact_match",
+    caseSensitive = true,
+    trim = true,
+  } = options ?? {};
+
+  const normalize = (value: unknown) => {
+    if (typeof value !== "string") return stableStringify(value);
+
+    const trimmed = trim ? value.trim() : value;
+
+    return caseSensitive ? trimmed : trimmed.toLowerCase();
+  };
+
+  return async ({ output, expectedOutput }) =>
+    booleanEvaluation(
+      name,
+      expectedOutput !== undefined &&
+        normalize(output) === normalize(expectedOutput),
+    );
+}
+
+/**
+ * JSON schema accepted by {@link createJsonSchemaEvaluator}.
+ *
+ * Supports the commonly used subset of JSON Schema: `type`, `enum`, `const`,
+ * `properties`, `required`, `additionalProperties`, `items`, `minItems`,
+ * `maxItems`, `minLength`, `maxLength`, `pattern`, `minimum`, `maximum`,
+ * `exclusiveMinimum`, `exclusiveMaximum`, `allOf`, `anyOf`, `oneOf` and `not`.
+ * Other keywords are ignored.
+ *
+ * @public
+ */
+export type JsonSchema = {
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  allOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  not?: JsonSchema;
+  [keyword: string]: unknown;
+};
+
+type JsonSchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "object"
+  | "array"
+  | "null";
+
+/**
+ * Creates an evaluator checking whether the output is valid JSON matching a schema.
+ *
+ * String outputs are parsed as JSON first; other outputs are validated as is.
+ * Validation errors are reported in the evaluation comment.
+ *
+ * @param options - Configuration
+ * @param options.schema - The JSON schema the output must match
+ * @param options.name - Score name (default: "json_schema")
+ * @returns A boolean evaluator
+ *
+ * @example
+ * ```typescript
+ * const evaluator = createJsonSchemaEvaluator({
+ *   schema: {
+ *     type: "object",
+ *     properties: { city: { type: "string" } },
+ *     required: ["city"],
+ *   },
+ * });
+ * ```
+ *
+ * @public
+ */
+export function createJsonSchemaEvaluator(options: {
+  schema: JsonSchema;
+  name?: string;
+}): Evaluator {
+  const { schema, name = "json_schema" } = options;
+
+  return async ({ output }) => {
+    let value: unknown = output;
+
+    if (typeof output === "string") {
+      try {
+        value = JSON.parse(output);
+      } catch {
+        return booleanEvaluation(name, false, "Output is not valid JSON");
+      }
+    }
+
+    const errors = validateJsonSchema(value, schema, "$");
+
+    return booleanEvaluation(
+      name,
+      errors.length === 0,
+      errors.length > 0 ? errors.join("; ") : undefined,
+    );
+  };
+}
+
+/**
+ * Creates an evaluator checking whether the output matches a regular expression.
+ *
+ * Non-string outputs are serialized to JSON before matching.
+ *
+ * @param options - Configuration
+ * @param options.pattern - Regular expression or pattern string
+ * @param options.name - Score name (default: "regex_match")
+ * @returns A boolean evaluator
+ *
+ * @public
+ */
+export function createRegexEvaluator(options: {
+  pattern: RegExp | string;
+  name?: string;
+}): Evaluator {
+  const { name = "regex_match" } = options;
+  const pattern =
+    typeof options.pattern === "string"
+      ? new RegExp(options.pattern)
+      : options.pattern;
+
+  return async ({ output }) => {
+    // Reset the position of global and sticky expressions between items
+    pattern.lastIndex = 0;
+
+    return booleanEvaluation(name, pattern.test(toText(output)));
+  };
+}
+
+/**
+ * Creates an evaluator scoring the Levenshtein similarity of output and expected output.
+ *
+ * The score is `1 - distance / max(length)`, ranging from 0 (completely
+ * different) to 1 (identical). The raw edit distance is added as metadata.
+ *
+ * @param options - Optional configuration
+ * @param options.name - Score name (default: "levenshtein_similarity")
+ * @param options.caseSensitive - Whether the comparison is case sensitive (default: true)
+ * @returns A numeric evaluator
+ *
+ * @public
+ */
+export function createLevenshteinEvaluator(options?: {
+  name?: string;
+  caseSensitive?: boolean;
+}): Evaluator {
+  const { name = "levenshtein_similarity", caseSensitive = true } =
+    options ?? {};
+
+  return async ({ output, expectedOutput }) => {
+    let a = toText(output);
+    let b = toText(expectedOutput);
+
+    if (!caseSensitive) {
+      a = a.toLowerCase();
+      b = b.toLowerCase();
+    }
+
+    const distance = levenshteinDistance(a, b);
+    const maxLength = Math.max(a.length, b.length);
+
+    return {
+      name,
+      value: maxLength === 0 ? 1 : 1 - distance / maxLength,
+      dataType: "NUMERIC",
+      metadata: { distance },
+    };
+  };
+}
+
+/**
+ * Creates an evaluator checking whether a numeric output is within a tolerance
+ * of the expected output.
+ *
+ * String outputs are parsed as numbers. Outputs that are not numeric fail.
+ *
+ * @param options - Optional configuration
+ * @param options.tolerance - Allowed deviation (default: 0)
+ * @param options.relative - Whether the tolerance is relative to the expected value (default: false)
+ * @param options.name - Score name (default: "numeric_match")
+ * @returns A boolean evaluator
+ *
+ * @example
+ * ```typescript
+ * // Accept answers within 1% of the expected value
+ * const evaluator = createNumericToleranceEvaluator({ tolerance: 0.01, relative: true });
+ * ```
+ *
+ * @public
+ */
+export function createNumericToleranceEvaluator(options?: {
+  tolerance?: number;
+  relative?: boolean;
+  name?: string;
+}): Evaluator {
+  const {
+    tolerance = 0,
+    relative = false,
+    name = "numeric_match",
+  } = options ?? {};
+
+  return async ({ output, expectedOutput }) => {
+    const actual = toNumber(output);
+    const expected = toNumber(expectedOutput);
+
+    if (actual === undefined || expected === undefined) {
+      return booleanEvaluation(
+        name,
+        false,
+        actual === undefined
+          ? "Output is not numeric"
+          : "Expected output is not numeric",
+      );
+    }
+
+    const allowedDeviation = relative
+      ? Math.abs(expected) * tolerance
+      : tolerance;
+    const deviation = Math.abs(actual - expected);
+
+    return {
+      ...booleanEvaluation(name, deviation <= allowedDeviation),
+      metadata: { deviation },
+    };
+  };
+}
+
+/**
+ * Creates an evaluator checking whether the output contains all keywords.
+ *
+ * Missing keywords are reported in the evaluation comment.
+ *
+ * @param options - Configuration
+ * @param options.keywords - Keywords that must all occur in the output
+ * @param options.caseSensitive - Whether matching is case sensitive (default: false)
+ * @param options.name - Score name (default: "contains_keywords")
+ * @returns A boolean evaluator
+ *
+ * @public
+ */
+export function createKeywordsEvaluator(options: {
+  keywords: string[];
+  caseSensitive?: boolean;
+  name?: string;
+}): Evaluator {
+  const {
+    keywords,
+    caseSensitive = false,
+    name = "contains_keywords",
+  } = options;
+
+  return async ({ output }) => {
+    const text = caseSensitive ? toText(output) : toText(output).toLowerCase();
+    const missing = keywords.filter(
+      (keyword) =>
+        !text.includes(caseSensitive ? keyword : keyword.toLowerCase()),
+    );
+
+    return booleanEvaluation(
+      name,
+      missing.length === 0,
+      missing.length > 0
+        ? `Missing keywords: ${missing.join(", ")}`
+        : undefined,
+    );
+  };
+}
+
+/**
+ * Creates an evaluator checking whether the task finished within a latency budget.
+ *
+ * Uses the task latency measured by the experiment runner and adds it as
+ * metadata. Throws if called without a measured latency, so the evaluation is
+ * skipped instead of being recorded with a misleading value.
+ *
+ * @param options - Configuration
+ * @param options.budgetMs - Maximum allowed task latency in milliseconds
+ * @param options.name - Score name (default: "latency_budget")
+ * @returns A boolean evaluator
+ *
+ * @public
+ */
+export function createLatencyBudgetEvaluator(options: {
+  budgetMs: number;
+  name?: string;
+}): Evaluator {
+  const { budgetMs, name = "latency_budget" } = options;
+
+  return async ({ latencyMs }) => {
+    if (latencyMs === undefined) {
+      throw new Error(
+        "Latency budget evaluator requires the task latency measured by the experiment runner.",
+      );
+    }
+
+    return {
+      ...booleanEvaluation(name, latencyMs <= budgetMs),
+      metadata: { latencyMs, budgetMs },
+    };
+  };
+}
+
+/**
+ * Completion function used by {@link createLLMJudgeEvaluator}.
+ *
+ * Receives the compiled rubric prompt (a string for text prompts, chat
+ * messages for chat prompts) and returns the raw completion text.
+ *
+ * @public
+ */
+export type JudgeCompletionFunction = (
+  prompt: string | ChatMessage[],
+) => Promise<string>;
+
+/**
+ * Creates an LLM-as-judge evaluator using a rubric prompt managed in ElasticDash.
+ *
+ * The rubric prompt is fetched via {@link PromptManager.get} on every
+ * evaluation (served from the prompt cache) and compiled with the variables
+ * `input`, `output` and `expectedOutput`. Non-string values are serialized to
+ * JSON. The completion should be a JSON object with a `score` and an optional
+ * `reasoning`, e.g. `{"score": 0.8, "reasoning": "..."}`. If it is not, the
+ * score is read from the plain text: numeric scores are extracted as the first
+ * number, boolean and categorical scores are matched against the whole text.
+ *
+ * @param options - Configuration
+ * @param options.name - Score name
+ * @param options.promptManager - Prompt manager to fetch the rubric prompt with, e.g. `elasticdash.prompt`
+ * @param options.promptName - Name of the rubric prompt
+ * @param options.promptVersion - Optional prompt version
+ * @param options.promptLabel - Optional prompt label
+ * @param options.complete - Function calling the judge model
+ * @param options.scoreType - Data type of the score (default: "NUMERIC")
+ * @param options.categories - Allowed values for categorical scores. An exact match wins, otherwise the longest category contained as a whole word
+ * @returns An evaluator returning a score of the configured data type
+ *
+ * @example
+ * ```typescript
+ * const helpfulness = createLLMJudgeEvaluator({
+ *   name: "helpfulness",
+ *   promptManager: elasticdash.prompt,
+ *   promptName: "judge-helpfulness",
+ *   complete: async (prompt) => {
+ *     const response = await openai.chat.completions.create({
+ *       model: "gpt-4.1",
+ *       messages: typeof prompt === "string" ? [{ role: "user", content: prompt }] : prompt,
+ *     });
+ *     return response.choices[0].message.content ?? "";
+ *   },
+ * });
+ * ```
+ *
+ * @public
+ */
+export function createLLMJudgeEvaluator(options: {
+  name: string;
+  promptManager: PromptManager;
+  promptName: string;
+  promptVersion?: number;
+  promptLabel?: string;
+  complete: JudgeCompletionFunction;
+  scoreType?: "NUMERIC" | "BOOLEAN" | "CATEGORICAL";
+  categories?: string[];
+}): Evaluator {
+  const {
+    name,
+    promptManager,
+    promptName,
+    promptVersion,
+    promptLabel,
+    complete,
+    scoreType = "NUMERIC",
+    categories = [],
+  } = options;
+
+  return async ({ input, output, expectedOutput }) => {
+    const prompt = await promptManager.get(promptName, {
+      version: promptVersion,
+      label: promptLabel,
+    });
+
+    const compiledPrompt = prompt.compile({
+      input: toText(input),
+      output: toText(output),
+      expectedOutput: toText(expectedOutput),
+    }) as string | ChatMessage[];
+
+    const completion = await complete(compiledPrompt);
+
+    const { score, reasoning } = parseJudgeCompletion(completion, scoreType);
+    const metadata = { promptName: prompt.name, promptVersion: prompt.version };
+
+    if (scoreType === "BOOLEAN") {
+      const value = parseBooleanScore(score);
+      if (value === undefined) {
+        throw new Error(`Judge returned no boolean score: ${completion}`);
+      }
+
+      return { ...booleanEvaluation(name, value, reasoning), metadata };
+    }
+
+    if (scoreType === "CATEGORICAL") {
+      const category = categories.length
+        ? matchCategory(String(score), categories)
+        : String(score);
+      if (!category) {
+        throw new Error(`Judge returned no valid category: ${completion}`);
+      }
+
+      return {
+        name,
+        value: category,
+        dataType: "CATEGORICAL",
+        comment: reasoning,
+        metadata,
+      };
+    }
+
+    const value = toNumber(score);
+    if (value === undefined) {
+      throw new Error(`Judge returned no numeric score: ${completion}`);
+    }
+
+    return {
+      name,
+      value,
+      dataType: "NUMERIC",
+      comment: reasoning,
+      metadata,
+    };
+  };
+}
+
+function booleanEvaluation(
+  name: string,
+  passed: boolean,
+  comment?: string,
+): Evaluation {
+  return {
+    name,
+    value: passed ? 1 : 0,
+    dataType: "BOOLEAN",
+    ...(comment !== undefined ? { comment } : {}),
+  };
+}
+
+function parseJudgeCompletion(
+  completion: string,
+  scoreType: "NUMERIC" | "BOOLEAN" | "CATEGORICAL",
+): {
+  score: unknown;
+  reasoning?: string;
+} {
+  const jsonMatch = /\{[\s\S]*\}/.exec(completion);
+
+  if (jsonMatch) {
+    try {
+      const parsed = JSON.parse(jsonMatch[0]);
+
+      if (parsed && typeof parsed === "object" && "score" in parsed) {
+        return {
+          score: parsed.score,
+          reasoning:
+            typeof parsed.reasoning === "string" ? parsed.reasoning : undefined,
+        };
+      }
+    } catch {
+      // Fall back to the plain text below
+    }
+  }
+
+  const numberMatch =
+    scoreType === "NUMERIC" ? /-?\d+(?:\.\d+)?/.exec(completion) : null;
+
+  return { score: numberMatch ? numberMatch[0] : completion.trim() };
+}
+
+function matchCategory(text: string, categories: string[]): string | undefined {
+  const normalized = text.trim().toLowerCase();
+  const exactMatch = categories.find((c) => c.toLowerCase() === normalized);
+  if (exactMatch) return exactMatch;
+
+  // Prefer the longest match, e.g. "partially correct" over "correct"
+  return categories
+    .filter((c) =>
+      new RegExp(
+        `(?<![\\p{L}\\p{N}_])${c.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?![\\p{L}\\p{N}_])`,
+        "iu",
+      ).test(text),
+    )
+    .sort((a, b) => b.length - a.length)[0];
+}
+
+function parseBooleanScore(score: unknown): boolean | undefined {
+  if (typeof score === "boolean") return score;
+  if (typeof score === "number") return score > 0;
+
+  const text = String(score).trim().toLowerCase();
+  if (/^(true|yes|pass|passed|1)\b/.test(text)) return true;
+  if (/^(false|no|fail|failed|0)\b/.test(text)) return false;
+
+  return undefined;
+}
+
+function validateJsonSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+): string[] {
+  const errors: string[] = [];
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesJsonType(value, type))) {
+      return [`${path} must be of type ${types.join(" or ")}`];
+    }
+  }
+
+  if (
+    schema.enum &&
+    !schema.enum.some((v) => stableStringify(v) === stableStringify(value))
+  ) {
+    errors.push(`${path} must be one of ${JSON.stringify(schema.enum)}`);
+  }
+
+  if (
+    "const" in schema &&
+    stableStringify(schema.const) !== stableStringify(value)
+  ) {
+    errors.push(`${path} must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path} must have at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path} must have at most ${schema.maxLength} characters`);
+    }
+    if (
+      schema.pattern !== undefined &&
+      !new RegExp(schema.pattern).test(value)
+    ) {
+      errors.push(`${path} must match pattern ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path} must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path} must be <= ${schema.maximum}`);
+    }
+    if (
+      schema.exclusiveMinimum !== undefined &&
+      value <= schema.exclusiveMinimum
+    ) {
+      errors.push(`${path} must be > ${schema.exclusiveMinimum}`);
+    }
+    if (
+      schema.exclusiveMaximum !== undefined &&
+      value >= schema.exclusiveMaximum
+    ) {
+      errors.push(`${path} must be < ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path} must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path} must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) =>
+        errors.push(
+          ...validateJsonSchema(item, schema.items!, `${path}[${index}]`),
+        ),
+      );
+    }
+  } else if (value !== null && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+
+    for (const key of schema.required ?? []) {
+      if (!(key in record)) {
+        errors.push(`${path}.${key} is required`);
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(record)) {
+      const propertySchema = schema.properties?.[key];
+
+      if (propertySchema) {
+        errors.push(
+          ...validateJsonSchema(
+            propertyValue,
+            propertySchema,
+            `${path}.${key}`,
+          ),
+        );
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      } else if (typeof schema.additionalProperties === "object") {
+        errors.push(
+          ...validateJsonSchema(
+            propertyValue,
+            schema.additionalProperties,
+            `${path}.${key}`,
+          ),
+        );
+      }
+    }
+  }
+
+  for (const subschema of schema.allOf ?? []) {
+    errors.push(...validateJsonSchema(value, subschema, path));
+  }
+
+  if (
+    schema.anyOf &&
+    !schema.anyOf.some((s) => validateJsonSchema(value, s, path).length === 0)
+  ) {
+    errors.push(`${path} must match at least one schema in anyOf`);
+  }
+
+  if (
+    schema.oneOf &&
+    schema.oneOf.filter((s) => validateJsonSchema(value, s, path).length === 0)
+      .length !== 1
+  ) {
+    errors.push(`${path} must match exactly one schema in oneOf`);
+  }
+
+  if (schema.not && validateJsonSchema(value, schema.not, path).length === 0) {
+    errors.push(`${path} must not match the schema in not`);
+  }
+
+  return errors;
+}
+
+function matchesJsonType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case "null":
+      return value === null;
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return (
+        value !== null && typeof value === "object" && !Array.isArray(value)
+      );
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function levenshteinDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  // Single row dynamic programming
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost,
+      );
+    }
+
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+function toText(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (value === undefined) return "";
+
+  return JSON.stringify(value);
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : undefined;
+  }
+
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value.trim());
+
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+
+  return undefined;
+}
+
+// JSON serialization with sorted object keys for order-independent comparison
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+
+  if (value !== null && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`,
+      )
+      .join(",")}}`;
+  }
+
+  return JSON.stringify(value) ?? "undefined";
+}
@@ -0,0 +1,396 @@
+import { Evaluation, ExperimentItemResult, RunEvaluator } from "./types.js";
+
+/**
+ * Creates a run evaluator computing the mean of a numeric item evaluation.
+ *
+ * Item evaluations with non-numeric values are ignored. The evaluator fails if
+ * no item has a numeric evaluation with the given name, so no misleading
+ * run-level score is written.
+ *
+ * @param options - Configuration
+ * @param options.evaluationName - Name of the item evaluation to aggregate
+ * @param options.name - Score name (default: "<evaluationName>_mean")
+ * @returns A run evaluator returning a numeric evaluation
+ *
+ * @example
+ * ```typescript
+ * await elasticdash.experiment.run({
+ *   name: "Capital cities",
+ *   data: dataset.items,
+ *   task: myTask,
+ *   evaluators: [createExactMatchEvaluator()],
+ *   runEvaluators: [createMeanRunEvaluator({ evaluationName: "exact_match" })],
+ * });
+ * ```
+ *
+ * @public
+ */
+export function createMeanRunEvaluator(options: {
+  evaluationName: string;
+  name?: string;
+}): RunEvaluator {
+  const { evaluationName, name = `${evaluationName}_mean` } = options;
+
+  return async ({ itemResults }) => {
+    const values = getNumericValues(itemResults, evaluationName);
+
+    return numericEvaluation(name, mean(values), values.length);
+  };
+}
+
+/**
+ * Creates a run evaluator computing the median of a numeric item evaluation.
+ *
+ * @param options - Configuration
+ * @param options.evaluationName - Name of the item evaluation to aggregate
+ * @param options.name - Score name (default: "<evaluationName>_median")
+ * @returns A run evaluator returning a numeric evaluation
+ *
+ * @public
+ */
+export function createMedianRunEvaluator(options: {
+  evaluationName: string;
+  name?: string;
+}): RunEvaluator {
+  const { evaluationName, name = `${evaluationName}_median` } = options;
+
+  return async ({ itemResults }) => {
+    const values = getNumericValues(itemResults, evaluationName);
+
+    return numericEvaluation(name, percentile(values, 50), values.length);
+  };
+}
+
+/**
+ * Creates a run evaluator computing a percentile of a numeric item evaluation.
+ *
+ * Percentiles are linearly interpolated between the closest ranks.
+ *
+ * @param options - Configuration
+ * @param options.evaluationName - Name of the item evaluation to aggregate
+ * @param options.percentile - Percentile between 0 and 100 (default: 95)
+ * @param options.name - Score name (default: "<evaluationName>_p<percentile>")
+ * @returns A run evaluator returning a numeric evaluation
+ *
+ * @example
+ * ```typescript
+ * const p95Latency = createPercentileRunEvaluator({ evaluationName: "latency_ms" });
+ * ```
+ *
+ * @public
+ */
+export function createPercentileRunEvaluator(options: {
+  evaluationName: string;
+  percentile?: number;
+  name?: string;
+}): RunEvaluator {
+  const { evaluationName, percentile: p = 95 } = options;
+  const { name = `${evaluationName}_p${p}` } = options;
+
+  if (p < 0 || p > 100) {
+    throw new Error(`Percentile must be between 0 and 100, got ${p}`);
+  }
+
+  return async ({ itemResults }) => {
+    const values = getNumericValues(itemResults, evaluationName);
+
+    return numericEvaluation(name, percentile(values, p), values.length);
+  };
+}
+
+/**
+ * Creates a run evaluator computing the share of items passing a threshold.
+ *
+ * An item passes if its evaluation value compares to the threshold with the
+ * given operator. With the defaults, boolean evaluations (1 = passed, 0 =
+ * failed) yield the share of passed items.
+ *
+ * @param options - Configuration
+ * @param options.evaluationName - Name of the item evaluation to check
+ * @param options.threshold - Threshold to compare the item values to (default: 1)
+ * @param options.operator - Comparison operator (default: ">=")
+ * @param options.name - Score name (default: "<evaluationName>_pass_rate")
+ * @returns A run evaluator returning a numeric evaluation between 0 and 1
+ *
+ * @example
+ * ```typescript
+ * const passRate = createPassRateRunEvaluator({
+ *   evaluationName: "relevance",
+ *   threshold: 0.7,
+ * });
+ * ```
+ *
+ * @public
+ */
+export function createPassRateRunEvaluator(options: {
+  evaluationName: string;
+  threshold?: number;
+  operator?: ">=" | ">" | "<=" | "<" | "==";
+  name?: string;
+}): RunEvaluator {
+  const {
+    evaluationName,
+    threshold = 1,
+    operator = ">=",
+    name = `${evaluationName}_pass_rate`,
+  } = options;
+
+  const passes = (value: number) => {
+    switch (operator) {
+      case ">":
+        return value > threshold;
+      case "<=":
+        return value <= threshold;
+      case "<":
+        return value < threshold;
+      case "==":
+        return value === threshold;
+      default:
+        return value >= threshold;
+    }
+  };
+
+  return async ({ itemResults }) => {
+    const values = getNumericValues(itemResults, evaluationName);
+    const passed = values.filter(passes).length;
+
+    return {
+      name,
+      value: passed / values.length,
+      dataType: "NUMERIC",
+      comment: `${passed}/${values.length} items with ${evaluationName} ${operator} ${threshold}`,
+      metadata: { passed, count: values.length },
+    };
+  };
+}
+
+/**
+ * Creates a run evaluator estimating a bootstrap confidence interval of the
+ * mean or median of a numeric item evaluation.
+ *
+ * Resamples the item values with replacement and takes the percentiles of the
+ * resampled statistic as interval bounds. Returns two evaluations,
+ * `<name>_lower` and `<name>_upper`, with the point estimate as metadata.
+ *
+ * @param options - Configuration
+ * @param options.evaluationName - Name of the item evaluation to aggregate
+ * @param options.statistic - Statistic to estimate (default: "mean")
+ * @param options.confidenceLevel - Confidence level between 0 and 1 (default: 0.95)
+ * @param options.resamples - Number of bootstrap resamples (default: 1000)
+ * @param options.seed - Optional seed for reproducible intervals
+ * @param options.name - Score name prefix (default: "<evaluationName>_<statistic>_ci")
+ * @returns A run evaluator returning the lower and upper interval bounds
+ *
+ * @example
+ * ```typescript
+ * const accuracyCI = createBootstrapCIRunEvaluator({
+ *   evaluationName: "accuracy",
+ *   confidenceLevel: 0.9,
+ *   seed: 42,
+ * });
+ * ```
+ *
+ * @public
+ */
+export function createBootstrapCIRunEvaluator(options: {
+  evaluationName: string;
+  statistic?: "mean" | "median";
+  confidenceLevel?: number;
+  resamples?: number;
+  seed?: number;
+  name?: string;
+}): RunEvaluator {
+  const {
+    evaluationName,
+    statistic = "mean",
+    confidenceLevel = 0.95,
+    resamples = 1000,
+    seed,
+    name = `${evaluationName}_${statistic}_ci`,
+  } = options;
+
+  if (confidenceLevel <= 0 || confidenceLevel >= 1) {
+    throw new Error(
+      `Confidence level must be between 0 and 1, got ${confidenceLevel}`,
+    );
+  }
+
+  const estimate = (values: number[]) =>
+    statistic === "median" ? percentile(values, 50) : mean(values);
+
+  return async ({ itemResults }) => {
+    const values = getNumericValues(itemResults, evaluationName);
+    const random = seed !== undefined ? createSeededRandom(seed) : Math.random;
+
+    const estimates: number[] = [];
+    for (let i = 0; i < resamples; i++) {
+      const sample = values.map(
+        () => values[Math.floor(random() * values.length)],
+      );
+      estimates.push(estimate(sample));
+    }
+
+    const alpha = (1 - confidenceLevel) / 2;
+    const metadata = {
+      statistic,
+      estimate: estimate(values),
+      confidenceLevel,
+      resamples,
+      count: values.length,
+    };
+
+    return [
+      {
+        name: `${name}_lower`,
+        value: percentile(estimates, alpha * 100),
+        dataType: "NUMERIC",
+        metadata,
+      },
+      {
+        name: `${name}_upper`,
+        value: percentile(estimates, (1 - alpha) * 100),
+        dataType: "NUMERIC",
+        metadata,
+      },
+    ];
+  };
+}
+
+/**
+ * Creates a run evaluator computing the distribution of a categorical item evaluation.
+ *
+ * Returns one numeric evaluation per observed category, named
+ * `<name>_<category>`, holding the share of items in that category. Numeric
+ * and boolean values are treated as categories as well.
+ *
+ * @param options - Configuration
+ * @param options.evaluationName - Name of the item evaluation to count
+ * @param options.name - Score name prefix (default: "<evaluationName>_share")
+ * @returns A run evaluator returning one evaluation per category
+ *
+ * @example
+ * ```typescript
+ * // Writes e.g. tone_share_friendly = 0.6 and tone_share_neutral = 0.4
+ * const toneDistribution = createCategoricalDistributionRunEvaluator({
+ *   evaluationName: "tone",
+ * });
+ * ```
+ *
+ * @public
+ */
+export function createCategoricalDistributionRunEvaluator(options: {
+  evaluationName: string;
+  name?: string;
+}): RunEvaluator {
+  const { evaluationName, name = `${evaluationName}_share` } = options;
+
+  return async ({ itemResults }) => {
+    const counts = new Map<string, number>();
+
+    for (const result of itemResults) {
+      const value = result.evaluations.find(
+        (e) => e.name === evaluationName,
+      )?.value;
+
+      if (value !== undefined && value !== null) {
+        const category = String(value);
+        counts.set(category, (counts.get(category) ?? 0) + 1);
+      }
+    }
+
+    if (counts.size === 0) {
+      throw new Error(`No item has an evaluation named "${evaluationName}"`);
+    }
+
+    const total = [...counts.values()].reduce((acc, count) => acc + count, 0);
+
+    return [...counts.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(
+        ([category, count]): Evaluation => ({
+          name: `${name}_${category}`,
+          value: count / total,
+          dataType: "NUMERIC",
+          metadata: { category, count, total },
+        }),
+      );
+  };
+}
+
+function numericEvaluation(
+  name: string,
+  value: number,
+  count: number,
+): Evaluation {
+  return { name, value, dataType: "NUMERIC", metadata: { count } };
+}
+
+function getNumericValues(
+  itemResults: ExperimentItemResult[],
+  evaluationName: string,
+): number[] {
+  const values: number[] = [];
+
+  for (const result of itemResults) {
+    const value = result.evaluations.find(
+      (e) => e.name === evaluationName,
+    )?.value;
+
+    if (typeof value === "number" && Number.isFinite(value)) {
+      values.push(value);
+    }
+  }
+
+  if (values.length === 0) {
+    throw new Error(
+      `No item has a numeric evaluation named "${evaluationName}"`,
+    );
+  }
+
+  return values;
+}
+
+/**
+ * Computes the arithmetic mean of a non-empty list of numbers.
+ *
+ * @param values - Numbers to average
+ * @returns The mean of the values
+ *
+ * @public
+ */
+export function mean(values: number[]): number {
+  return values.reduce((acc, value) => acc + value, 0) / values.length;
+}
+
+/**
+ * Computes a percentile of a non-empty list of numbers, interpolating
+ * linearly between the closest ranks.
+ *
+ * @param values - Numbers to compute the percentile of
+ * @param p - Percentile between 0 and 100, clamped to that range
+ * @returns The percentile of the values
+ *
+ * @public
+ */
+export function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (Math.min(Math.max(p, 0), 100) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+// Mulberry32 pseudo random number generator for reproducible resampling
+function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -129,6 +129,14 @@ export type EvaluatorParams<
    * or other contextual data.
    */
   metadata?: Metadata;
+
+  /**
+   * Time in milliseconds the task took to produce the output.
+   *
+   * Set by the experiment runner for every item. May be undefined when an
+   * evaluator is called outside of an experiment run.
+   */
+  latencyMs?: number;
 };
 export type Evaluator<
   Input = any,
@@ -231,12 +239,66 @@ export type ExperimentParams<
   runEvaluators?: RunEvaluator<Input, ExpectedOutput, Metadata>[];
 
   /**
-   * Maximum number of concurrent task executions (default: Infinity).
+   * Maximum number of concurrent task executions (default: 50).
    *
    * Controls parallelism to manage resource usage and API rate limits.
    * Set lower values for expensive operations or rate-limited services.
+   * A new item is started as soon as a running item finishes, so slow items
+   * do not block the remaining capacity.
    */
   maxConcurrency?: number;
+
+  /**
+   * Optional store to persist each completed item result as the run progresses.
+   *
+   * When provided, every item result is written to the store as soon as the
+   * item finishes, keyed by run name and experiment item ID. Defaults to a
+   * {@link FileExperimentCheckpointStore} when `resume` is enabled.
+   */
+  checkpointStore?: ExperimentCheckpointStore;
+
+  /**
+   * Whether to resume a previous run from its checkpoint (default: false).
+   *
+   * Items whose experiment item ID (dataset item ID or input hash) already has
+   * a stored result are not re-executed; their stored results are returned as
+   * part of the experiment result instead. Requires an explicit `runName` so the
+   * checkpoint of the previous run can be found.
+   */
+  resume?: boolean;
+
+  /**
+   * Maximum number of retries for an item whose task fails (default: 0).
+   *
+   * Each retry re-executes the task in the trace of the item. The dataset run
+   * item is linked and the evaluators are run once, with the output of the
+   * successful attempt. Retries are delayed with exponential backoff starting
+   * at `retryDelayMs`.
+   */
+  maxRetries?: number;
+
+  /**
+   * Base delay in milliseconds before the first retry of a failed item (default: 1000).
+   *
+   * The delay doubles with every subsequent retry of the same item.
+   */
+  retryDelayMs?: number;
+
+  /**
+   * Maximum time in milliseconds a single task attempt may take (default: no timeout).
+   *
+   * Attempts exceeding the timeout are treated as failed and are retried if
+   * retries remain. The timed-out task is not cancelled, its result is ignored.
+   */
+  itemTimeoutMs?: number;
+
+  /**
+   * Maximum number of task attempts started per minute (default: unlimited).
+   *
+   * Applies across all items and retries of the run. Use this together with
+   * `maxConcurrency` to stay within the rate limits of model providers.
+   */
+  requestsPerMinute?: number;
 };
 
 export type ExperimentItemResult<
@@ -288,6 +350,32 @@ export type ExperimentItemResult<
   datasetRunId?: string;
 };
 
+/**
+ * An experiment item whose task failed after all attempts.
+ *
+ * @public
+ */
+export type ExperimentFailedItem<
+  Input = any,
+  ExpectedOutput = any,
+  Metadata extends Record<string, any> = Record<string, any>,
+> = {
+  /**
+   * The original experiment or dataset item that failed.
+   */
+  item: ExperimentItem<Input, ExpectedOutput, Metadata>;
+
+  /**
+   * The error of the last attempt.
+   */
+  error: Error;
+
+  /**
+   * Number of task attempts made for this item, including retries.
+   */
+  attempts: number;
+};
+
 /**
  * Complete result of an experiment execution.
  *
@@ -360,6 +448,14 @@ export type ExperimentResult<
    */
   itemResults: ExperimentItemResult<Input, ExpectedOutput, Metadata>[];
 
+  /**
+   * Items whose task failed after all retries.
+   *
+   * Failed items are not part of `itemResults` and are not passed to run
+   * evaluators. Inspect the errors here to decide whether to re-run them.
+   */
+  failedItems: ExperimentFailedItem<Input, ExpectedOutput, Metadata>[];
+
   /**
    * Results from run-level evaluators that assessed the entire experiment.
    *
@@ -380,3 +476,208 @@ export type ExperimentResult<
    */
   format: (options?: { includeItemResults?: boolean }) => Promise<string>;
 };
+
+/**
+ * Persistence backend for experiment checkpoints.
+ *
+ * A checkpoint store records the result of every completed experiment item so
+ * that an interrupted run can be resumed without re-executing items that have
+ * already finished. Results are grouped by run name and keyed by experiment
+ * item ID.
+ *
+ * @example Custom key-value backed store
+ * ```typescript
+ * const kvCheckpointStore: ExperimentCheckpointStore = {
+ *   load: async (runName) => new Map(Object.entries(await kv.getJson(runName) ?? {})),
+ *   save: async (runName, itemId, result) => kv.setJsonField(runName, itemId, result),
+ *   clear: async (runName) => kv.delete(runName),
+ * };
+ *
+ * await elasticdash.experiment.run({
+ *   name: "Large Scale Evaluation",
+ *   runName: "large-scale-eval-v1",
+ *   data: items,
+ *   task: myTask,
+ *   checkpointStore: kvCheckpointStore,
+ *   resume: true,
+ * });
+ * ```
+ *
+ * @public
+ */
+export type ExperimentCheckpointStore = {
+  /**
+   * Loads all stored item results of a run.
+   *
+   * @param runName - The experiment run name
+   * @returns Map of experiment item ID to stored item result (empty if the run has no checkpoint)
+   */
+  load: (runName: string) => Promise<Map<string, ExperimentItemResult>>;
+
+  /**
+   * Stores the result of a single completed item.
+   *
+   * @param runName - The experiment run name
+   * @param itemId - The experiment item ID (dataset item ID or input hash)
+   * @param result - The completed item result
+   */
+  save: (
+    runName: string,
+    itemId: string,
+    result: ExperimentItemResult,
+  ) => Promise<void>;
+
+  /**
+   * Removes all stored item results of a run.
+   *
+   * @param runName - The experiment run name
+   */
+  clear: (runName: string) => Promise<void>;
+};
+
+/**
+ * Options for comparing two experiment runs.
+ *
+ * @public
+ */
+export type ExperimentComparisonOptions = {
+  /**
+   * Names of evaluators for which lower scores are better (e.g. latency or cost).
+   *
+   * For all other evaluators higher scores are considered better.
+   */
+  lowerIsBetter?: string[];
+
+  /**
+   * Significance level of the paired sign test (default: 0.05).
+   */
+  significanceLevel?: number;
+
+  /**
+   * Maximum absolute score difference of an item pair that still counts as a tie (default: 0).
+   */
+  tieTolerance?: number;
+};
+
+/**
+ * Comparison of a single evaluator between a baseline and a candidate run.
+ *
+ * Only items present in both runs with a numeric score for the evaluator in
+ * both runs are taken into account.
+ *
+ * @public
+ */
+export type ExperimentEvaluatorComparison = {
+  /** Name of the evaluator */
+  name: string;
+
+  /** Number of item pairs with a numeric score in both runs */
+  pairs: number;
+
+  /** Mean score of the baseline run over all pairs */
+  baselineMean: number;
+
+  /** Mean score of the candidate run over all pairs */
+  candidateMean: number;
+
+  /** Difference of the means (candidate - baseline) */
+  delta: number;
+
+  /** Number of pairs where the candidate scored better */
+  wins: number;
+
+  /** Number of pairs where the candidate scored worse */
+  losses: number;
+
+  /** Number of pairs with equal scores (within the tie tolerance) */
+  ties: number;
+
+  /** Two-sided p-value of the paired sign test over wins and losses */
+  pValue: number;
+
+  /** Whether the p-value is below the significance level */
+  significant: boolean;
+
+  /** Whether the candidate is significantly worse than the baseline */
+  regression: boolean;
+};
+
+/**
+ * A pair of item results matched by dataset item ID or input hash.
+ *
+ * @public
+ */
+export type ExperimentItemComparison<
+  Input = any,
+  ExpectedOutput = any,
+  Metadata extends Record<string, any> = Record<string, any>,
+> = {
+  /** The experiment item ID both results were matched by */
+  itemId: string;
+
+  /** The item result of the baseline run */
+  baseline: ExperimentItemResult<Input, ExpectedOutput, Metadata>;
+
+  /** The item result of the candidate run */
+  candidate: ExperimentItemResult<Input, ExpectedOutput, Metadata>;
+};
+
+/**
+ * Result of comparing a candidate experiment run against a baseline run.
+ *
+ * @example PR gate
+ * ```typescript
+ * const comparison = await elasticdash.experiment.compare(baseline, candidate);
+ *
+ * console.log(comparison.format({ style: "markdown" }));
+ *
+ * if (comparison.hasRegression) {
+ *   process.exit(1);
+ * }
+ * ```
+ *
+ * @public
+ */
+export type ExperimentComparison<
+  Input = any,
+  ExpectedOutput = any,
+  Metadata extends Record<string, any> = Record<string, any>,
+> = {
+  /** Run name of the baseline run */
+  baselineRunName: string;
+
+  /** Run name of the candidate run */
+  candidateRunName: string;
+
+  /** Item results present in both runs */
+  matchedItems: ExperimentItemComparison<Input, ExpectedOutput, Metadata>[];
+
+  /** Item results only present in the baseline run */
+  unmatchedBaselineItems: ExperimentItemResult<
+    Input,
+    ExpectedOutput,
+    Metadata
+  >[];
+
+  /** Item results only present in the candidate run */
+  unmatchedCandidateItems: ExperimentItemResult<
+    Input,
+    ExpectedOutput,
+    Metadata
+  >[];
+
+  /** Per-evaluator comparison, sorted by evaluator name */
+  evaluators: ExperimentEvaluatorComparison[];
+
+  /** Whether any evaluator shows a significant regression */
+  hasRegression: boolean;
+
+  /**
+   * Renders the comparison as a diff table.
+   *
+   * @param options - Formatting options
+   * @param options.style - "console" for terminal output or "markdown" for PR comments (default: "console")
+   * @returns Formatted comparison report
+   */
+  format: (options?: { style?: "console" | "markdown" }) => string;
+};
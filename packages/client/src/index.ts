@@ -5,4 +5,7 @@ export * from "./dataset/index.js";
 export * from "./media/index.js";
 export * from "./experiment/ExperimentManager.js";
 export * from "./experiment/adapters.js";
+export * from "./experiment/checkpoint.js";
+export * from "./experiment/evaluators.js";
+export * from "./experiment/runEvaluators.js";
 export * from "./experiment/types.js";
@@ -1,3 +1,5 @@
 export { PromptManager } from "./promptManager.js";
 export { ChatPromptClient, TextPromptClient } from "./promptClients.js";
 export * from "./types.js";
+export * from "./promptCacheStores.js";
+export * from "./promptChangeSources.js";
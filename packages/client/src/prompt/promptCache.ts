@@ -1,6 +1,11 @@
-import { getGlobalLogger } from "@elasticdash/core";
+import { getGlobalLogger, Prompt } from "@elasticdash/core";
 
-import type { ElasticDashPromptClient } from "./promptClients.js";
+import {
+  ChatPromptClient,
+  TextPromptClient,
+  type ElasticDashPromptClient,
+} from "./promptClients.js";
+import type { PromptCacheStore } from "./types.js";
 
 export const DEFAULT_PROMPT_CACHE_TTL_SECONDS = 60;
 
@@ -9,9 +14,13 @@ class ElasticDashPromptCacheItem {
 
   constructor(
     public value: ElasticDashPromptClient,
-    ttlSeconds: number,
+    expiresAt: number,
   ) {
-    this._expiry = Date.now() + ttlSeconds * 1000;
+    this._expiry = expiresAt;
+  }
+
+  get expiresAt(): number {
+    return this._expiry;
   }
 
   get isExpired(): boolean {
@@ -22,15 +31,47 @@ export class ElasticDashPromptCache {
   private _cache: Map<string, ElasticDashPromptCacheItem>;
   private _defaultTtlSeconds: number;
   private _refreshingKeys: Map<string, Promise<void>>;
+  private _store: PromptCacheStore | undefined;
 
-  constructor() {
+  constructor(params?: { store?: PromptCacheStore }) {
     this._cache = new Map<string, ElasticDashPromptCacheItem>();
     this._defaultTtlSeconds = DEFAULT_PROMPT_CACHE_TTL_SECONDS;
     this._refreshingKeys = new Map<string, Promise<void>>();
+    this._store = params?.store;
   }
 
-  public getIncludingExpired(key: string): ElasticDashPromptCacheItem | null {
-    return this._cache.get(key) ?? null;
+  public async getIncludingExpired(
+    key: string,
+  ): Promise<ElasticDashPromptCacheItem | null> {
+    const localItem = this._cache.get(key) ?? null;
+
+    if (!this._store || (localItem && !localItem.isExpired)) {
+      return localItem;
+    }
+
+    // The store may hold a fresher entry written by another process
+    try {
+      const entry = await this._store.get(key);
+
+      if (entry && (!localItem || entry.expiresAt > localItem.expiresAt)) {
+        const storeItem = new ElasticDashPromptCacheItem(
+          entry.prompt.type === "chat"
+            ? new ChatPromptClient(entry.prompt)
+            : new TextPromptClient(entry.prompt as Prompt.Text),
+          entry.expiresAt,
+        );
+        this._cache.set(key, storeItem);
+
+        return storeItem;
+      }
+    } catch (err) {
+      getGlobalLogger().warn(
+        `Failed to read prompt cache key '${key}' from cache store:`,
+        err,
+      );
+    }
+
+    return localItem;
   }
 
   public createKey(params: {
@@ -52,16 +93,29 @@ export class ElasticDashPromptCache {
     return parts.join("-");
   }
 
-  public set(
+  public async set(
     key: string,
     value: ElasticDashPromptClient,
     ttlSeconds?: number,
-  ): void {
+  ): Promise<void> {
     const effectiveTtlSeconds = ttlSeconds ?? this._defaultTtlSeconds;
-    this._cache.set(
-      key,
-      new ElasticDashPromptCacheItem(value, effectiveTtlSeconds),
-    );
+    const expiresAt = Date.now() + effectiveTtlSeconds * 1000;
+
+    this._cache.set(key, new ElasticDashPromptCacheItem(value, expiresAt));
+
+    if (this._store) {
+      try {
+        await this._store.set(key, {
+          prompt: value.promptResponse,
+          expiresAt,
+        });
+      } catch (err) {
+        getGlobalLogger().warn(
+          `Failed to write prompt cache key '${key}' to cache store:`,
+          err,
+        );
+      }
+    }
   }
 
   public addRefreshingPromise(key: string, promise: Promise<any>): void {
@@ -79,7 +133,7 @@ export class ElasticDashPromptCache {
     return this._refreshingKeys.has(key);
   }
 
-  public invalidate(promptName: string): void {
+  public async invalidate(promptName: string): Promise<void> {
     getGlobalLogger().debug(
       "Invalidating cache keys for",
       promptName,
@@ -91,5 +145,22 @@ export class ElasticDashPromptCache {
         this._cache.delete(key);
       }
     }
+
+    if (this._store) {
+      try {
+        const storeKeys = await this._store.keys();
+
+        await Promise.all(
+          storeKeys
+            .filter((key) => key.startsWith(promptName))
+            .map((key) => this._store!.delete(key)),
+        );
+      } catch (err) {
+        getGlobalLogger().warn(
+          `Failed to invalidate prompt '${promptName}' in cache store:`,
+          err,
+        );
+      }
+    }
   }
 }
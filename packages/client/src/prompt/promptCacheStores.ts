@@ -0,0 +1,246 @@
+import { PromptCacheEntry, PromptCacheStore } from "./types.js";
+
+/**
+ * Default directory for the file-based prompt cache, relative to the current
+ * working directory.
+ *
+ * @public
+ */
+export const DEFAULT_PROMPT_CACHE_DIRECTORY = ".elasticdash/prompt-cache";
+
+/**
+ * File-based prompt cache store.
+ *
+ * Each cache key is stored as a JSON file in the configured directory. Files
+ * are written to a temporary file first and then renamed, so concurrent
+ * readers never see partially written entries. Point the directory to a
+ * persistent or shared location (e.g. `/tmp` on serverless platforms that keep
+ * it between invocations) to reuse prompts across processes and cold starts.
+ *
+ * Only available in runtimes with a Node.js compatible `fs` module.
+ *
+ * @example
+ * ```typescript
+ * const elasticdash = new ElasticDashClient({
+ *   promptCacheStore: new FilePromptCacheStore({
+ *     directory: "/tmp/elasticdash-prompts",
+ *   }),
+ * });
+ * ```
+ *
+ * @public
+ */
+export class FilePromptCacheStore implements PromptCacheStore {
+  private directory: string;
+
+  /**
+   * Creates a new FilePromptCacheStore instance.
+   *
+   * @param params - Optional configuration
+   * @param params.directory - Directory to write cache files to (default: ".elasticdash/prompt-cache")
+   */
+  constructor(params?: { directory?: string }) {
+    this.directory = params?.directory ?? DEFAULT_PROMPT_CACHE_DIRECTORY;
+  }
+
+  async get(key: string): Promise<PromptCacheEntry | null> {
+    const fs = await import("node:fs/promises");
+
+    try {
+      const content = await fs.readFile(this.getFilePath(key), "utf8");
+
+      return JSON.parse(content) as PromptCacheEntry;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException)?.code === "ENOENT") {
+        return null;
+      }
+
+      throw err;
+    }
+  }
+
+  async set(key: string, entry: PromptCacheEntry): Promise<void> {
+    const fs = await import("node:fs/promises");
+    const filePath = this.getFilePath(key);
+    const tempFilePath = `${filePath}.${Date.now()}-${Math.random().toString(36).slice(2)}.tmp`;
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(tempFilePath, JSON.stringify(entry), "utf8");
+    await fs.rename(tempFilePath, filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    const fs = await import("node:fs/promises");
+
+    await fs.rm(this.getFilePath(key), { force: true });
+  }
+
+  async keys(): Promise<string[]> {
+    const fs = await import("node:fs/promises");
+
+    let fileNames: string[];
+    try {
+      fileNames = await fs.readdir(this.directory);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException)?.code === "ENOENT") {
+        return [];
+      }
+
+      throw err;
+    }
+
+    return fileNames
+      .filter((fileName) => fileName.endsWith(".json"))
+      .map((fileName) => decodeURIComponent(fileName.slice(0, -5)));
+  }
+
+  private getFilePath(key: string): string {
+    const fileName = encodeURIComponent(key).replace(/\*/g, "%2A");
+
+    return `${this.directory}/${fileName}.json`;
+  }
+}
+
+/**
+ * Minimal Redis-like key-value client accepted by {@link RedisPromptCacheStore}.
+ *
+ * Matches the method signatures of common Redis clients such as `ioredis` and
+ * `redis` (node-redis v4+), so their client instances can be passed directly.
+ * Keys are listed with `scanIterator` if available (node-redis) and with
+ * `scan` otherwise (ioredis), so one of them must be provided. Other key-value
+ * stores can be used by implementing these methods.
+ *
+ * @public
+ */
+export type RedisLikeClient = {
+  /** Returns the string value of a key or null if it does not exist */
+  get: (key: string) => Promise<string | null>;
+  /** Sets the string value of a key */
+  set: (key: string, value: string) => Promise<unknown>;
+  /** Deletes a key */
+  del: (key: string) => Promise<unknown>;
+  /** Returns the next cursor and a page of keys matching a glob-style pattern */
+  scan?: (
+    cursor: string,
+    matchOption: "MATCH",
+    pattern: string,
+    countOption: "COUNT",
+    count: number,
+  ) => Promise<[cursor: string, keys: string[]]>;
+  /** Iterates over the keys, or pages of keys, matching a glob-style pattern */
+  scanIterator?: (options: {
+    MATCH: string;
+    COUNT?: number;
+  }) => AsyncIterable<string | string[]>;
+  /** Sets a time to live in seconds on a key */
+  expire?: (key: string, seconds: number) => Promise<unknown>;
+};
+
+// Number of keys requested per SCAN call
+const SCAN_COUNT = 100;
+
+/**
+ * Prompt cache store backed by a Redis-like key-value store.
+ *
+ * Shares fetched prompts between all workers connected to the same store.
+ * Entries are kept after their cache TTL has passed so they can still be
+ * served while a refresh runs. Set `retentionSeconds` to let the store remove
+ * entries that have not been refreshed for a long time.
+ *
+ * @example
+ * ```typescript
+ * import Redis from "ioredis";
+ *
+ * const elasticdash = new ElasticDashClient({
+ *   promptCacheStore: new RedisPromptCacheStore({
+ *     client: new Redis(process.env.REDIS_URL),
+ *     retentionSeconds: 24 * 60 * 60,
+ *   }),
+ * });
+ * ```
+ *
+ * @public
+ */
+export class RedisPromptCacheStore implements PromptCacheStore {
+  private client: RedisLikeClient;
+  private keyPrefix: string;
+  private retentionSeconds: number | undefined;
+
+  /**
+   * Creates a new RedisPromptCacheStore instance.
+   *
+   * @param params - Configuration
+   * @param params.client - Redis-like client to store entries with
+   * @param params.keyPrefix - Prefix for all stored keys (default: "elasticdash:prompt:")
+   * @param params.retentionSeconds - Optional time in seconds after which the store removes an entry; requires `client.expire`
+   */
+  constructor(params: {
+    client: RedisLikeClient;
+    keyPrefix?: string;
+    retentionSeconds?: number;
+  }) {
+    this.client = params.client;
+    this.keyPrefix = params.keyPrefix ?? "elasticdash:prompt:";
+    this.retentionSeconds = params.retentionSeconds;
+  }
+
+  async get(key: string): Promise<PromptCacheEntry | null> {
+    const value = await this.client.get(this.keyPrefix + key);
+
+    return value ? (JSON.parse(value) as PromptCacheEntry) : null;
+  }
+
+  async set(key: string, entry: PromptCacheEntry): Promise<void> {
+    const storeKey = this.keyPrefix + key;
+
+    await this.client.set(storeKey, JSON.stringify(entry));
+
+    if (this.retentionSeconds !== undefined && this.client.expire) {
+      await this.client.expire(storeKey, this.retentionSeconds);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(this.keyPrefix + key);
+  }
+
+  async keys(): Promise<string[]> {
+    const pattern = escapeGlobPattern(this.keyPrefix) + "*";
+    // SCAN may return a key more than once
+    const storeKeys = new Set<string>();
+
+    if (this.client.scanIterator) {
+      for await (const keys of this.client.scanIterator({
+        MATCH: pattern,
+        COUNT: SCAN_COUNT,
+      })) {
+        [keys].flat().forEach((key) => storeKeys.add(key));
+      }
+    } else if (this.client.scan) {
+      let cursor = "0";
+      do {
+        const [nextCursor, keys] = await this.client.scan(
+          cursor,
+          "MATCH",
+          pattern,
+          "COUNT",
+          SCAN_COUNT,
+        );
+        keys.forEach((key) => storeKeys.add(key));
+        cursor = String(nextCursor);
+      } while (cursor !== "0");
+    } else {
+      throw new Error(
+        "RedisPromptCacheStore requires a client with 'scan' or 'scanIterator'.",
+      );
+    }
+
+    return [...storeKeys].map((storeKey) =>
+      storeKey.slice(this.keyPrefix.length),
+    );
+  }
+}
+
+function escapeGlobPattern(value: string): string {
+  return value.replace(/[*?[\]\\]/g, "\\$&");
+}
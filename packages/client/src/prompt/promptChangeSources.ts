@@ -0,0 +1,80 @@
+import { PromptChangeEvent, PromptChangeSource } from "./types.js";
+
+/**
+ * Prompt change source fed by ElasticDash prompt webhooks.
+ *
+ * Pass the parsed JSON body of incoming prompt webhook requests to
+ * {@link PromptWebhookChangeSource.handle}. Prompt version events are
+ * forwarded to all subscribers, e.g. a prompt manager subscribed via
+ * `elasticdash.prompt.subscribe({ source })`.
+ *
+ * Verifying the origin of webhook requests is the responsibility of the
+ * receiving endpoint.
+ *
+ * @example
+ * ```typescript
+ * const source = new PromptWebhookChangeSource();
+ *
+ * elasticdash.prompt.subscribe({ source });
+ * elasticdash.prompt.onPromptChanged((name, oldVersion, newVersion) => {
+ *   console.log(`${name}: v${oldVersion} -> v${newVersion}`);
+ * });
+ *
+ * app.post("/webhooks/elasticdash", express.json(), (req, res) => {
+ *   source.handle(req.body);
+ *   res.sendStatus(204);
+ * });
+ * ```
+ *
+ * @public
+ */
+export class PromptWebhookChangeSource implements PromptChangeSource {
+  private listeners = new Set<(event: PromptChangeEvent) => void>();
+
+  subscribe(listener: (event: PromptChangeEvent) => void): () => void {
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Handles a prompt webhook payload.
+   *
+   * Accepts payloads of the form
+   * `{ type: "prompt-version", action, prompt: { name, version, labels } }`.
+   *
+   * @param payload - Parsed JSON body of the webhook request
+   * @returns Whether the payload was a prompt event and was forwarded
+   */
+  handle(payload: unknown): boolean {
+    const event = parsePromptWebhookPayload(payload);
+    if (!event) return false;
+
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+
+    return true;
+  }
+}
+
+function parsePromptWebhookPayload(payload: unknown): PromptChangeEvent | null {
+  if (!payload || typeof payload !== "object") return null;
+
+  const { type, prompt } = payload as { type?: unknown; prompt?: unknown };
+  if (type !== undefined && type !== "prompt-version") return null;
+  if (!prompt || typeof prompt !== "object") return null;
+
+  const { name, version, labels } = prompt as Record<string, unknown>;
+  if (typeof name !== "string") return null;
+
+  return {
+    name,
+    version: typeof version === "number" ? version : undefined,
+    labels: Array.isArray(labels)
+      ? labels.filter((label): label is string => typeof label === "string")
+      : undefined,
+  };
+}
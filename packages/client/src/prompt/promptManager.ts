@@ -1,6 +1,7 @@
 import {
   CreatePromptRequest,
   getGlobalLogger,
+  safeSetTimeout,
   ElasticDashAPIClient,
   PlaceholderMessage,
   Prompt,
@@ -16,6 +17,12 @@ import {
 import {
   ChatMessageType,
   CreateChatPromptBodyWithPlaceholders,
+  PromptCacheStore,
+  PromptChangedListener,
+  PromptChangeSource,
+  PromptReference,
+  PromptSnapshot,
+  PromptSubscription,
 } from "./types.js";
 
 /**
@@ -30,18 +37,29 @@ import {
 export class PromptManager {
   private cache: ElasticDashPromptCache;
   private apiClient: ElasticDashAPIClient;
+  private snapshot: PromptSnapshot | string | undefined;
+  private snapshotPromise: Promise<PromptSnapshot | null> | undefined;
+  private changedListeners = new Set<PromptChangedListener>();
+  private knownVersions = new Map<string, number>();
 
   /**
    * Creates a new PromptManager instance.
    *
    * @param params - Configuration object containing the API client
+   * @param params.cacheStore - Optional store to persist and share the prompt cache
+   * @param params.snapshot - Optional prompt snapshot or path to a snapshot JSON file used as fallback
    * @internal
    */
-  constructor(params: { apiClient: ElasticDashAPIClient }) {
-    const { apiClient } = params;
+  constructor(params: {
+    apiClient: ElasticDashAPIClient;
+    cacheStore?: PromptCacheStore;
+    snapshot?: PromptSnapshot | string;
+  }) {
+    const { apiClient, cacheStore, snapshot } = params;
 
     this.apiClient = apiClient;
-    this.cache = new ElasticDashPromptCache();
+    this.cache = new ElasticDashPromptCache({ store: cacheStore });
+    this.snapshot = snapshot;
   }
 
   get logger() {
@@ -171,7 +189,7 @@ export class PromptManager {
       newLabels,
     });
 
-    this.cache.invalidate(name);
+    await this.cache.invalidate(name);
 
     return newPrompt;
   }
@@ -217,7 +235,7 @@ export class PromptManager {
       label: options?.label,
     });
 
-    this.cache.invalidate(name);
+    await this.cache.invalidate(name);
   }
 
   /**
@@ -281,6 +299,8 @@ export class PromptManager {
    * - Fresh prompts are returned immediately from cache
    * - Expired prompts are returned from cache while being refreshed in background
    * - Cache misses trigger immediate fetch with optional fallback support
+   * - Failed fetches fall back to the configured prompt snapshot first and to
+   *   the `fallback` option second
    *
    * @param name - Name of the prompt to retrieve
    * @param options - Optional retrieval configuration
@@ -332,7 +352,7 @@ export class PromptManager {
       label: options?.label,
       version: options?.version,
     });
-    const cachedPrompt = this.cache.getIncludingExpired(cacheKey);
+    const cachedPrompt = await this.cache.getIncludingExpired(cacheKey);
     if (!cachedPrompt || options?.cacheTtlSeconds === 0) {
       try {
         return await this.fetchPromptAndUpdateCache({
@@ -344,6 +364,20 @@ export class PromptManager {
           fetchTimeoutMs: options?.fetchTimeoutMs,
         });
       } catch (err) {
+        const snapshotPrompt = await this.getSnapshotPrompt({
+          name,
+          version: options?.version,
+          label: options?.label,
+        });
+
+        if (snapshotPrompt) {
+          this.logger.warn(
+            `Using prompt snapshot for '${cacheKey}' as the prompt could not be fetched.`,
+          );
+
+          return snapshotPrompt;
+        }
+
         if (options?.fallback) {
           const sharedFallbackParams = {
             name,
@@ -406,6 +440,363 @@ export class PromptManager {
     return cachedPrompt.value;
   }
 
+  /**
+   * Fetches prompts and stores them in the prompt cache.
+   *
+   * Call this at application start to warm the cache, so that the first
+   * {@link PromptManager.get} calls are served from cache. Prompts that cannot
+   * be fetched are logged and skipped.
+   *
+   * @param prompts - Names of prompts (production label) or prompt references with version or label
+   * @param options - Optional fetch configuration
+   * @param options.cacheTtlSeconds - Cache TTL in seconds of the prefetched prompts
+   * @param options.maxRetries - Maximum retry attempts for failed requests
+   * @param options.fetchTimeoutMs - Request timeout in milliseconds
+   * @returns Promise that resolves to the successfully prefetched prompts
+   *
+   * @example
+   * ```typescript
+   * await elasticdash.prompt.prefetch([
+   *   "system-prompt",
+   *   { name: "summarizer", label: "staging" },
+   *   { name: "classifier", version: 3 },
+   * ]);
+   * ```
+   */
+  async prefetch(
+    prompts: PromptReference[],
+    options?: {
+      cacheTtlSeconds?: number;
+      maxRetries?: number;
+      fetchTimeoutMs?: number;
+    },
+  ): Promise<ElasticDashPromptClient[]> {
+    const results = await Promise.allSettled(
+      prompts.map((prompt) =>
+        this.fetchPromptAndUpdateCache({
+          ...(typeof prompt === "string" ? { name: prompt } : prompt),
+          ...options,
+        }),
+      ),
+    );
+
+    return results.reduce((acc, result, index) => {
+      if (result.status === "fulfilled") {
+        acc.push(result.value);
+      } else {
+        const prompt = prompts[index];
+
+        this.logger.warn(
+          `Failed to prefetch prompt '${typeof prompt === "string" ? prompt : prompt.name}':`,
+          result.reason,
+        );
+      }
+
+      return acc;
+    }, [] as ElasticDashPromptClient[]);
+  }
+
+  /**
+   * Exports all prompt versions with a label to a snapshot.
+   *
+   * The snapshot can be shipped with the application build and passed as
+   * `promptSnapshot` to the client. {@link PromptManager.get} then serves
+   * prompts from the snapshot when they cannot be fetched, e.g. during a
+   * backend outage at cold start.
+   *
+   * @param options - Optional export configuration
+   * @param options.label - Label of the prompt versions to export (default: "production")
+   * @param options.filePath - Optional path to write the snapshot to as JSON
+   * @param options.fetchPageSize - Number of prompts to list per API request (default: 50)
+   * @returns Promise that resolves to the snapshot
+   *
+   * @example
+   * ```typescript
+   * // At build time
+   * await elasticdash.prompt.exportSnapshot({ filePath: "prompts.snapshot.json" });
+   *
+   * // At runtime
+   * const elasticdash = new ElasticDashClient({
+   *   promptSnapshot: "prompts.snapshot.json",
+   * });
+   * ```
+   */
+  async exportSnapshot(options?: {
+    label?: string;
+    filePath?: string;
+    fetchPageSize?: number;
+  }): Promise<PromptSnapshot> {
+    const {
+      label = "production",
+      filePath,
+      fetchPageSize = 50,
+    } = options ?? {};
+    const prompts: Prompt[] = [];
+
+    let page = 1;
+
+    while (true) {
+      const promptsResponse = await this.apiClient.prompts.list({
+        label,
+        limit: fetchPageSize,
+        page,
+      });
+
+      prompts.push(
+        ...(await Promise.all(
+          promptsResponse.data.map((meta) =>
+            this.apiClient.prompts.get(meta.name, { label }),
+          ),
+        )),
+      );
+
+      if (promptsResponse.meta.totalPages <= page) {
+        break;
+      }
+
+      page++;
+    }
+
+    const snapshot: PromptSnapshot = {
+      createdAt: new Date().toISOString(),
+      label,
+      prompts,
+    };
+
+    if (filePath) {
+      const fs = await import("node:fs/promises");
+
+      await fs.writeFile(filePath, JSON.stringify(snapshot, null, 2), "utf8");
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Registers a listener for prompt changes detected by {@link PromptManager.subscribe}.
+   *
+   * @param listener - Called with the prompt name, the previously known version and the new version
+   * @returns Function that removes the listener
+   *
+   * @example
+   * ```typescript
+   * const removeListener = elasticdash.prompt.onPromptChanged(
+   *   (name, oldVersion, newVersion) => {
+   *     console.log(`Prompt ${name} changed from v${oldVersion} to v${newVersion}`);
+   *   },
+   * );
+   * ```
+   */
+  onPromptChanged(listener: PromptChangedListener): () => void {
+    this.changedListeners.add(listener);
+
+    return () => {
+      this.changedListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribes to prompt changes to invalidate the prompt cache immediately
+   * instead of waiting for the cache TTL to expire.
+   *
+   * Without a `source`, the prompt versions with the given label are polled
+   * via the prompts list API. With a `source`, such as a
+   * {@link PromptWebhookChangeSource}, changes are pushed by the source and
+   * polling is only enabled if `pollIntervalMs` is set explicitly.
+   *
+   * On every change, all cached versions and labels of the prompt are
+   * invalidated and the listeners registered with
+   * {@link PromptManager.onPromptChanged} are called. The first poll only
+   * records the current versions.
+   *
+   * @param options - Optional subscription configuration
+   * @param options.label - Label to track versions of (default: "production")
+   * @param options.pollIntervalMs - Interval between polls in milliseconds (default: 10000 without source)
+   * @param options.source - Optional source pushing prompt changes
+   * @param options.fetchPageSize - Number of prompts to list per API request when polling (default: 50)
+   * @returns Subscription that can be stopped
+   *
+   * @example
+   * ```typescript
+   * // Poll every 5 seconds
+   * const subscription = elasticdash.prompt.subscribe({ pollIntervalMs: 5000 });
+   *
+   * // On shutdown
+   * subscription.stop();
+   * ```
+   */
+  subscribe(options?: {
+    label?: string;
+    pollIntervalMs?: number;
+    source?: PromptChangeSource;
+    fetchPageSize?: number;
+  }): PromptSubscription {
+    const { label = "production", source, fetchPageSize = 50 } = options ?? {};
+    const pollIntervalMs =
+      options?.pollIntervalMs ?? (source ? undefined : 10_000);
+
+    let stopped = false;
+    let pollTimer: any = null;
+    let isFirstPoll = true;
+
+    const poll = async () => {
+      try {
+        const versions = await this.fetchPromptVersions(label, fetchPageSize);
+        if (stopped) return;
+
+        const names = new Set([
+          ...versions.keys(),
+          ...this.knownVersions.keys(),
+        ]);
+
+        for (const name of names) {
+          if (isFirstPoll && !this.knownVersions.has(name)) {
+            this.knownVersions.set(name, versions.get(name)!);
+          } else if (this.knownVersions.get(name) !== versions.get(name)) {
+            await this.handlePromptChange(name, versions.get(name), label);
+          }
+        }
+
+        isFirstPoll = false;
+      } catch (err) {
+        this.logger.warn("Failed to poll prompt versions:", err);
+      }
+
+      if (!stopped && pollIntervalMs !== undefined) {
+        pollTimer = safeSetTimeout(poll, pollIntervalMs);
+      }
+    };
+
+    if (pollIntervalMs !== undefined) {
+      void poll();
+    }
+
+    const unsubscribe = source?.subscribe((event) => {
+      if (event.labels && !event.labels.includes(label)) {
+        // The version lost or never had the label, cached entries may still be outdated
+        void this.cache.invalidate(event.name);
+
+        return;
+      }
+
+      void this.handlePromptChange(event.name, event.version, label);
+    });
+
+    return {
+      stop: () => {
+        stopped = true;
+        if (pollTimer) clearTimeout(pollTimer);
+        unsubscribe?.();
+      },
+    };
+  }
+
+  private async handlePromptChange(
+    name: string,
+    newVersion: number | undefined,
+    label: string,
+  ): Promise<void> {
+    // Fall back to the cached version for prompts not seen by a poll yet
+    const oldVersion =
+      this.knownVersions.get(name) ??
+      (
+        await this.cache.getIncludingExpired(
+          this.cache.createKey({ name, label }),
+        )
+      )?.value.version;
+
+    if (newVersion !== undefined && newVersion === oldVersion) return;
+
+    if (newVersion === undefined) {
+      this.knownVersions.delete(name);
+    } else {
+      this.knownVersions.set(name, newVersion);
+    }
+
+    await this.cache.invalidate(name);
+
+    for (const listener of this.changedListeners) {
+      try {
+        listener(name, oldVersion, newVersion);
+      } catch (err) {
+        this.logger.error("Prompt changed listener failed with error ", err);
+      }
+    }
+  }
+
+  private async fetchPromptVersions(
+    label: string,
+    fetchPageSize: number,
+  ): Promise<Map<string, number>> {
+    const versions = new Map<string, number>();
+
+    let page = 1;
+
+    while (true) {
+      const promptsResponse = await this.apiClient.prompts.list({
+        label,
+        limit: fetchPageSize,
+        page,
+      });
+
+      for (const meta of promptsResponse.data) {
+        if (meta.versions.length > 0) {
+          versions.set(meta.name, Math.max(...meta.versions));
+        }
+      }
+
+      if (promptsResponse.meta.totalPages <= page) {
+        break;
+      }
+
+      page++;
+    }
+
+    return versions;
+  }
+
+  private async getSnapshotPrompt(params: {
+    name: string;
+    version?: number;
+    label?: string;
+  }): Promise<ElasticDashPromptClient | null> {
+    if (!this.snapshot) return null;
+
+    this.snapshotPromise ??= this.loadSnapshot(this.snapshot);
+    const snapshot = await this.snapshotPromise;
+
+    const { name, version, label = "production" } = params;
+    const prompt = snapshot?.prompts.find(
+      (p) =>
+        p.name === name &&
+        (version !== undefined
+          ? p.version === version
+          : p.labels.includes(label)),
+    );
+
+    if (!prompt) return null;
+
+    return prompt.type === "chat"
+      ? new ChatPromptClient(prompt)
+      : new TextPromptClient(prompt as Prompt.Text);
+  }
+
+  private async loadSnapshot(
+    snapshot: PromptSnapshot | string,
+  ): Promise<PromptSnapshot | null> {
+    if (typeof snapshot !== "string") return snapshot;
+
+    try {
+      const fs = await import("node:fs/promises");
+
+      return JSON.parse(await fs.readFile(snapshot, "utf8")) as PromptSnapshot;
+    } catch (err) {
+      this.logger.error(`Failed to load prompt snapshot '${snapshot}':`, err);
+
+      return null;
+    }
+  }
+
   private async fetchPromptAndUpdateCache(params: {
     name: string;
     version?: number;
@@ -445,7 +836,7 @@ export class PromptManager {
         prompt = new TextPromptClient(data);
       }
 
-      this.cache.set(cacheKey, prompt, cacheTtlSeconds);
+      await this.cache.set(cacheKey, prompt, cacheTtlSeconds);
 
       return prompt;
     } catch (error) {
@@ -3,6 +3,7 @@ import {
   PlaceholderMessage,
   ChatMessageWithPlaceholders,
   CreatePromptRequest,
+  Prompt,
 } from "@elasticdash/core";
 
 /**
@@ -57,3 +58,163 @@ export type CreateChatPromptBodyWithPlaceholders = {
     /** Array of chat messages and/or placeholders */
     prompt: (ChatMessage | ChatMessageWithPlaceholders)[];
   };
+
+/**
+ * Serializable prompt cache entry as persisted by a {@link PromptCacheStore}.
+ *
+ * @public
+ */
+export type PromptCacheEntry = {
+  /** Raw prompt as returned by the ElasticDash API */
+  prompt: Prompt;
+  /** Unix timestamp in milliseconds after which the entry is considered expired */
+  expiresAt: number;
+};
+
+/**
+ * Storage backend for the prompt cache.
+ *
+ * The prompt cache keeps fetched prompts in memory and additionally writes
+ * them to the configured store, so that other processes and later cold starts
+ * can reuse them without fetching from the API. Expired entries must be
+ * returned as well: they are served while a background refresh runs
+ * (stale-while-revalidate).
+ *
+ * Store errors are logged and never fail prompt retrieval.
+ *
+ * @example Custom key-value backed store
+ * ```typescript
+ * const kvPromptCacheStore: PromptCacheStore = {
+ *   get: async (key) => (await kv.getJson(key)) ?? null,
+ *   set: async (key, entry) => kv.setJson(key, entry),
+ *   delete: async (key) => kv.delete(key),
+ *   keys: async () => kv.listKeys(),
+ * };
+ *
+ * const elasticdash = new ElasticDashClient({
+ *   promptCacheStore: kvPromptCacheStore,
+ * });
+ * ```
+ *
+ * @public
+ */
+export type PromptCacheStore = {
+  /**
+   * Reads a cache entry, including expired entries.
+   *
+   * @param key - The prompt cache key
+   * @returns The stored entry or null if there is none
+   */
+  get: (key: string) => Promise<PromptCacheEntry | null>;
+
+  /**
+   * Writes a cache entry, replacing any existing entry for the key.
+   *
+   * @param key - The prompt cache key
+   * @param entry - The entry to store
+   */
+  set: (key: string, entry: PromptCacheEntry) => Promise<void>;
+
+  /**
+   * Removes a cache entry.
+   *
+   * @param key - The prompt cache key
+   */
+  delete: (key: string) => Promise<void>;
+
+  /**
+   * Lists all stored cache keys. Used to invalidate all cached versions and
+   * labels of a prompt.
+   */
+  keys: () => Promise<string[]>;
+};
+
+/**
+ * Offline snapshot of prompts, used as fallback when prompts cannot be fetched.
+ *
+ * Created with {@link PromptManager.exportSnapshot} and usually written to a
+ * JSON file that ships with the application build.
+ *
+ * @public
+ */
+export type PromptSnapshot = {
+  /** ISO 8601 timestamp of when the snapshot was created */
+  createdAt: string;
+  /** Label of the exported prompt versions */
+  label: string;
+  /** Raw prompts as returned by the ElasticDash API */
+  prompts: Prompt[];
+};
+
+/**
+ * Reference to a prompt to prefetch, either by name (production label) or by
+ * name with a specific version or label.
+ *
+ * @public
+ */
+export type PromptReference =
+  | string
+  | {
+      /** Name of the prompt */
+      name: string;
+      /** Specific version to fetch */
+      version?: number;
+      /** Label to fetch */
+      label?: string;
+    };
+
+/**
+ * Notification that a prompt has changed, e.g. a new version was created or
+ * a label was moved to another version.
+ *
+ * @public
+ */
+export type PromptChangeEvent = {
+  /** Name of the changed prompt */
+  name: string;
+  /** Version the change refers to, if known */
+  version?: number;
+  /** Labels of that version after the change, if known */
+  labels?: string[];
+};
+
+/**
+ * Source of prompt change notifications, e.g. a webhook receiver or a message
+ * queue consumer.
+ *
+ * @public
+ */
+export type PromptChangeSource = {
+  /**
+   * Registers a listener for prompt changes.
+   *
+   * @param listener - Called for every prompt change
+   * @returns Function that removes the listener
+   */
+  subscribe: (listener: (event: PromptChangeEvent) => void) => () => void;
+};
+
+/**
+ * Listener called when a prompt version served for a label changes.
+ *
+ * @param name - Name of the changed prompt
+ * @param oldVersion - Previously known version, undefined if it was not known yet
+ * @param newVersion - New version, undefined if the prompt no longer has the label
+ *
+ * @public
+ */
+export type PromptChangedListener = (
+  name: string,
+  oldVersion: number | undefined,
+  newVersion: number | undefined,
+) => void;
+
+/**
+ * Active prompt change subscription.
+ *
+ * @public
+ */
+export type PromptSubscription = {
+  /** Stops polling and listening to the change source */
+  stop: () => void;
+};
@@ -1,5 +1,7 @@
 import {
   ElasticDashAPIClient,
+  ExportSpool,
+  ExportSpoolReplayer,
   IngestionEvent,
   getEnv,
   generateUUID,
@@ -7,6 +9,7 @@ import {
   getGlobalLogger,
   safeSetTimeout,
   IngestionResponse,
+  isNonRetryableExportError,
 } from "@elasticdash/core";
 import { Span, trace } from "@opentelemetry/api";
 
@@ -29,16 +32,35 @@ export class ScoreManager {
   private flushTimer: any = null;
   private flushAtCount: number;
   private flushIntervalSeconds: number;
+  private spoolReplayer?: ExportSpoolReplayer<IngestionEvent>;
 
   /**
    * Creates a new ScoreManager instance.
    *
    * @param params - Configuration object containing the API client
+   * @param params.spool - Optional durable spool for score batches that fail to export
    * @internal
    */
-  constructor(params: { apiClient: ElasticDashAPIClient }) {
+  constructor(params: {
+    apiClient: ElasticDashAPIClient;
+    spool?: ExportSpool<IngestionEvent>;
+  }) {
     this.apiClient = params.apiClient;
 
+    if (params.spool) {
+      this.spoolReplayer = new ExportSpoolReplayer({
+        spool: params.spool,
+        batchSize: MAX_BATCH_SIZE,
+        send: async (batch) => {
+          const res = await this.apiClient.ingestion.batch({ batch });
+
+          if (res.errors?.length > 0) {
+            this.logger.error("Error ingesting spooled scores:", res.errors);
+          }
+        },
+      });
+    }
+
     const envFlushAtCount = getEnv("ELASTICDASH_FLUSH_AT");
     const envFlushIntervalSeconds = getEnv("ELASTICDASH_FLUSH_INTERVAL");
 
@@ -275,6 +297,7 @@ export class ScoreManager {
       }
 
       const promises: Promise<IngestionResponse | void>[] = [];
+      let hasFailedBatch = false;
 
       while (this.eventQueue.length > 0) {
         const batch = this.eventQueue.splice(0, MAX_BATCH_SIZE);
@@ -287,13 +310,36 @@ export class ScoreManager {
                 this.logger.error("Error ingesting scores:", res.errors);
               }
             })
-            .catch((err) => {
-              this.logger.error("Failed to export score batch:", err);
+            .catch(async (err) => {
+              hasFailedBatch = true;
+
+              // Batches rejected as invalid would block the spool
+              if (!this.spoolReplayer || isNonRetryableExportError(err)) {
+                this.logger.error("Failed to export score batch:", err);
+
+                return;
+              }
+
+              this.logger.warn(
+                "Failed to export score batch, spooling for replay:",
+                err,
+              );
+
+              await this.spoolReplayer
+                .add(batch.map((event) => ({ id: event.id, payload: event })))
+                .catch((spoolErr) => {
+                  this.logger.error("Failed to spool score batch:", spoolErr);
+                });
             }),
         );
       }
 
       await Promise.all(promises);
+
+      // Replay previously spooled scores once the API is reachable again
+      if (this.spoolReplayer && !hasFailedBatch) {
+        await this.spoolReplayer.replay();
+      }
     } catch (err) {
       this.logger.error("Error flushing Score Manager: ", err);
     } finally {
@@ -305,7 +351,8 @@ export class ScoreManager {
    * Flushes all pending score events to the ElasticDash API.
    *
    * This method ensures all queued scores are sent immediately rather than
-   * waiting for the automatic flush interval or batch size threshold.
+   * waiting for the automatic flush interval or batch size threshold. If a
+   * spool is configured, previously spooled scores are replayed as well.
    *
    * @returns Promise that resolves when all pending scores have been sent
    *
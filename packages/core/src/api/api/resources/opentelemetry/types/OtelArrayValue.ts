@@ -0,0 +1,13 @@
+/**
+ * This file was auto-generated by Fern from our API Definition.
+ */
+
+import * as ElasticDashAPI from "../../../index.js";
+
+/**
+ * List of attribute values
+ */
+export interface OtelArrayValue {
+  /** Array elements */
+  values?: ElasticDashAPI.OtelAttributeValue[];
+}
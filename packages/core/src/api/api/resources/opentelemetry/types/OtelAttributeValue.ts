@@ -2,6 +2,8 @@
  * This file was auto-generated by Fern from our API Definition.
  */
 
+import * as ElasticDashAPI from "../../../index.js";
+
 /**
  * Attribute value wrapper supporting different value types
  */
@@ -14,4 +16,6 @@ export interface OtelAttributeValue {
   doubleValue?: number;
   /** Boolean value */
   boolValue?: boolean;
+  /** Array value */
+  arrayValue?: ElasticDashAPI.OtelArrayValue;
 }
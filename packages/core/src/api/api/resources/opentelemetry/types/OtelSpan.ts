@@ -26,4 +26,8 @@ export interface OtelSpan {
   attributes?: ElasticDashAPI.OtelAttribute[];
   /** Span status object */
   status?: unknown;
+  /** Time-stamped events recorded on the span */
+  events?: ElasticDashAPI.OtelSpanEvent[];
+  /** Links to other spans */
+  links?: ElasticDashAPI.OtelSpanLink[];
 }
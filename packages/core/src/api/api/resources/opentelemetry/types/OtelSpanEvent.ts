@@ -0,0 +1,19 @@
+/**
+ * This file was auto-generated by Fern from our API Definition.
+ */
+
+import * as ElasticDashAPI from "../../../index.js";
+
+/**
+ * Time-stamped event recorded on a span
+ */
+export interface OtelSpanEvent {
+  /** Event time in nanoseconds since Unix epoch */
+  timeUnixNano?: unknown;
+  /** Event name */
+  name?: string;
+  /** Event attributes */
+  attributes?: ElasticDashAPI.OtelAttribute[];
+  /** Number of attributes dropped because of limits */
+  droppedAttributesCount?: number;
+}
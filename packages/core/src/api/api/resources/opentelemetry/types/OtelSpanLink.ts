@@ -0,0 +1,17 @@
+/**
+ * This file was auto-generated by Fern from our API Definition.
+ */
+
+import * as ElasticDashAPI from "../../../index.js";
+
+/**
+ * Link from a span to another span, possibly in a different trace
+ */
+export interface OtelSpanLink {
+  /** Trace ID of the linked span */
+  traceId?: unknown;
+  /** Span ID of the linked span */
+  spanId?: unknown;
+  /** Link attributes */
+  attributes?: ElasticDashAPI.OtelAttribute[];
+}
@@ -3,6 +3,9 @@ export * from "./OtelResource.js";
 export * from "./OtelScopeSpan.js";
 export * from "./OtelScope.js";
 export * from "./OtelSpan.js";
+export * from "./OtelSpanEvent.js";
+export * from "./OtelSpanLink.js";
 export * from "./OtelAttribute.js";
 export * from "./OtelAttributeValue.js";
+export * from "./OtelArrayValue.js";
 export * from "./OtelTraceResponse.js";
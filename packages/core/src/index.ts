@@ -10,3 +10,4 @@ export * from "./utils.js";
 export * from "./types.js";
 export * from "./media.js";
 export * from "./propagation.js";
+export * from "./spool.js";
@@ -72,6 +72,10 @@ export const ElasticDashOtelContextKeys: Record<PropagatedKey, symbol> = {
   ),
 };
 
+const experimentRootContextKey = createContextKey(
+  "elasticdash_experiment_root",
+);
+
 const ELASTICDASH_BAGGAGE_PREFIX = "elasticdash_";
 const ELASTICDASH_BAGGAGE_TAGS_SEPARATOR = ",";
 
@@ -492,6 +496,45 @@ export function getPropagatedAttributesFromContext(
   return propagatedAttributes;
 }
 
+/**
+ * Marks a context as the context of an experiment item root span.
+ *
+ * The experiment attributes are only propagated once the root span exists, so
+ * this marker lets samplers recognize experiment traces from their first span.
+ *
+ * @param context - The context to mark
+ * @returns The marked context
+ *
+ * @internal
+ */
+export function markExperimentContext(context: Context): Context {
+  return context.setValue(experimentRootContextKey, true);
+}
+
+/**
+ * Checks whether a context belongs to an experiment run.
+ *
+ * A context belongs to an experiment run if it is marked as experiment root
+ * context or carries any propagated experiment attribute, either in the
+ * OpenTelemetry context or in baggage from an upstream service.
+ *
+ * @param context - The context to check
+ * @returns `true` if the context belongs to an experiment run
+ *
+ * @internal
+ */
+export function isExperimentContext(context: Context): boolean {
+  if (context.getValue(experimentRootContextKey) === true) return true;
+
+  const baggage = propagation.getBaggage(context);
+
+  return experimentKeys.some(
+    (key) =>
+      Boolean(context.getValue(ElasticDashOtelContextKeys[key])) ||
+      Boolean(baggage?.getEntry(getBaggageKeyForPropagatedKey(key))),
+  );
+}
+
 type SetPropagatedAttributeParams = {
   context: Context;
   span: ReturnType<typeof otelTraceApi.getActiveSpan>;
@@ -0,0 +1,443 @@
+import { getGlobalLogger } from "./logger/index.js";
+import { safeSetTimeout } from "./utils.js";
+
+/**
+ * Entry of an export spool.
+ *
+ * @public
+ */
+export type ExportSpoolEntry<T> = {
+  /** Unique ID of the entry, used for deduplication */
+  id: string;
+  /** The spooled payload */
+  payload: T;
+};
+
+/**
+ * Durable queue for telemetry that could not be exported.
+ *
+ * Entries are replayed in the order they were added. Adding an entry with an
+ * ID that is already spooled is a no-op.
+ *
+ * @public
+ */
+export interface ExportSpool<T> {
+  /**
+   * Adds entries to the end of the spool, skipping entries with IDs that are
+   * already spooled.
+   */
+  add(entries: ExportSpoolEntry<T>[]): Promise<void>;
+  /** Returns up to `limit` of the oldest entries without removing them. */
+  peek(limit: number): Promise<ExportSpoolEntry<T>[]>;
+  /** Removes the entries with the given IDs. */
+  remove(ids: string[]): Promise<void>;
+  /** Returns the number of spooled entries. */
+  size(): Promise<number>;
+}
+
+/**
+ * Default directory for file-based export spools, relative to the current
+ * working directory.
+ *
+ * @public
+ */
+export const DEFAULT_EXPORT_SPOOL_DIRECTORY = ".elasticdash/spool";
+
+/**
+ * File-based export spool.
+ *
+ * Each entry is stored as a JSON file in the configured directory. File names
+ * start with the time the entry was added, so the spool survives restarts and
+ * keeps its order. When a size cap is exceeded, the oldest entries are dropped.
+ *
+ * The directory is indexed once on first use and the index is kept in memory,
+ * so a directory must not be written by more than one spool at a time.
+ *
+ * Requires a runtime with a Node.js compatible `fs` module.
+ *
+ * @example
+ * ```typescript
+ * const spool = new FileExportSpool({
+ *   directory: "/tmp/elasticdash-spool/scores",
+ *   maxEntries: 50_000,
+ * });
+ * ```
+ *
+ * @public
+ */
+export class FileExportSpool<T> implements ExportSpool<T> {
+  private directory: string;
+  private maxEntries: number;
+  private maxBytes: number;
+  private sequence = 0;
+  // Spooled files by entry ID, in spool order
+  private indexPromise: Promise<Map<string, SpoolFile>> | null = null;
+  private totalBytes = 0;
+
+  /**
+   * Creates a new FileExportSpool instance.
+   *
+   * @param params - Optional configuration
+   * @param params.directory - Directory to write spool files to (default: ".elasticdash/spool")
+   * @param params.maxEntries - Maximum number of spooled entries (default: 10000)
+   * @param params.maxBytes - Maximum total size of spooled entries in bytes (default: 50 MB)
+   */
+  constructor(params?: {
+    directory?: string;
+    maxEntries?: number;
+    maxBytes?: number;
+  }) {
+    this.directory = params?.directory ?? DEFAULT_EXPORT_SPOOL_DIRECTORY;
+    this.maxEntries = params?.maxEntries ?? 10_000;
+    this.maxBytes = params?.maxBytes ?? 50 * 1024 * 1024;
+  }
+
+  async add(entries: ExportSpoolEntry<T>[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    const fs = await import("node:fs/promises");
+    const index = await this.getIndex();
+    await fs.mkdir(this.directory, { recursive: true });
+
+    for (const entry of entries) {
+      if (index.has(entry.id)) continue;
+
+      const fileName = `${Date.now().toString().padStart(15, "0")}-${(this
+        .sequence++)
+        .toString()
+        .padStart(9, "0")}-${encodeURIComponent(entry.id)}.json`;
+      const filePath = this.getFilePath(fileName);
+      const tempFilePath = `${filePath}.tmp`;
+      const content = JSON.stringify(entry);
+
+      await fs.writeFile(tempFilePath, content, "utf8");
+      await fs.rename(tempFilePath, filePath);
+
+      const bytes = Buffer.byteLength(content, "utf8");
+      index.set(entry.id, { fileName, bytes });
+      this.totalBytes += bytes;
+    }
+
+    await this.enforceCaps(index);
+  }
+
+  async peek(limit: number): Promise<ExportSpoolEntry<T>[]> {
+    const fs = await import("node:fs/promises");
+    const index = await this.getIndex();
+    const entries: ExportSpoolEntry<T>[] = [];
+
+    for (const [id, file] of [...index].slice(0, limit)) {
+      try {
+        const content = await fs.readFile(
+          this.getFilePath(file.fileName),
+          "utf8",
+        );
+
+        entries.push(JSON.parse(content) as ExportSpoolEntry<T>);
+      } catch (err) {
+        getGlobalLogger().warn(
+          `Skipping unreadable spool entry ${file.fileName}:`,
+          err,
+        );
+
+        await this.removeFile(index, id);
+      }
+    }
+
+    return entries;
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    const index = await this.getIndex();
+
+    for (const id of ids) {
+      await this.removeFile(index, id);
+    }
+  }
+
+  async size(): Promise<number> {
+    return (await this.getIndex()).size;
+  }
+
+  private async enforceCaps(index: Map<string, SpoolFile>): Promise<void> {
+    let dropped = 0;
+
+    for (const id of [...index.keys()]) {
+      if (index.size <= this.maxEntries && this.totalBytes <= this.maxBytes) {
+        break;
+      }
+
+      await this.removeFile(index, id);
+      dropped++;
+    }
+
+    if (dropped > 0) {
+      getGlobalLogger().warn(
+        `Export spool in ${this.directory} exceeded its size cap. Dropped ${dropped} oldest entries.`,
+      );
+    }
+  }
+
+  private async removeFile(
+    index: Map<string, SpoolFile>,
+    id: string,
+  ): Promise<void> {
+    const file = index.get(id);
+    if (!file) return;
+
+    const fs = await import("node:fs/promises");
+    await fs.rm(this.getFilePath(file.fileName), { force: true });
+
+    index.delete(id);
+    this.totalBytes -= file.bytes;
+  }
+
+  private getIndex(): Promise<Map<string, SpoolFile>> {
+    this.indexPromise ??= this.loadIndex().catch((err) => {
+      this.indexPromise = null;
+
+      throw err;
+    });
+
+    return this.indexPromise;
+  }
+
+  private async loadIndex(): Promise<Map<string, SpoolFile>> {
+    const fs = await import("node:fs/promises");
+    const index = new Map<string, SpoolFile>();
+    let fileNames: string[];
+
+    try {
+      fileNames = (await fs.readdir(this.directory))
+        .filter((fileName) => fileName.endsWith(".json"))
+        .sort();
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException)?.code === "ENOENT") {
+        return index;
+      }
+
+      throw err;
+    }
+
+    for (const fileName of fileNames) {
+      const { size: bytes } = await fs.stat(this.getFilePath(fileName));
+
+      index.set(parseFileName(fileName).id, { fileName, bytes });
+      this.totalBytes += bytes;
+    }
+
+    return index;
+  }
+
+  private getFilePath(fileName: string): string {
+    return `${this.directory.replace(/\/+$/, "")}/${fileName}`;
+  }
+}
+
+type SpoolFile = { fileName: string; bytes: number };
+
+function parseFileName(fileName: string): { id: string } {
+  const encodedId = fileName.slice(0, -".json".length).split("-").slice(2);
+
+  return { id: decodeURIComponent(encodedId.join("-")) };
+}
+
+/**
+ * Checks whether an export failed because the target rejected the payload,
+ * i.e. with an HTTP 4xx status other than 408 (timeout) and 429 (rate limit).
+ * Retrying such an export cannot succeed.
+ *
+ * @param err - The export error, e.g. an API error with a `statusCode` or an
+ * OTLP exporter error with a `code`
+ * @returns `true` if the export must not be retried
+ *
+ * @public
+ */
+export function isNonRetryableExportError(err: unknown): boolean {
+  const statusCode = getExportErrorStatusCode(err);
+
+  return (
+    statusCode !== undefined &&
+    statusCode >= 400 &&
+    statusCode < 500 &&
+    statusCode !== 408 &&
+    statusCode !== 429
+  );
+}
+
+function getExportErrorStatusCode(err: unknown): number | undefined {
+  if (!err || typeof err !== "object") return undefined;
+
+  const { statusCode, code } = err as { statusCode?: unknown; code?: unknown };
+  if (typeof statusCode === "number") return statusCode;
+  if (typeof code === "number") return code;
+
+  return undefined;
+}
+
+/**
+ * Replays spooled entries in order once the export target is reachable again.
+ *
+ * Failed replays are retried with exponential backoff. A successful replay
+ * resets the backoff. Batches the target rejects as invalid are dropped right
+ * away, and batches the target keeps failing with another status after
+ * `maxAttempts` replays, so a single bad batch cannot block the spool. Network
+ * errors without a response are retried until the target is reachable.
+ *
+ * @internal
+ */
+export class ExportSpoolReplayer<T> {
+  private spool: ExportSpool<T>;
+  private send: (payloads: T[]) => Promise<void>;
+  private batchSize: number;
+  private initialBackoffMs: number;
+  private maxBackoffMs: number;
+  private maxAttempts: number;
+
+  private backoffMs: number;
+  private retryTimer: any = null;
+  private replayPromise: Promise<boolean> | null = null;
+  private failedBatch: { firstId: string; attempts: number } | null = null;
+
+  constructor(params: {
+    spool: ExportSpool<T>;
+    send: (payloads: T[]) => Promise<void>;
+    batchSize?: number;
+    initialBackoffMs?: number;
+    maxBackoffMs?: number;
+    maxAttempts?: number;
+  }) {
+    this.spool = params.spool;
+    this.send = params.send;
+    this.batchSize = params.batchSize ?? 100;
+    this.initialBackoffMs = params.initialBackoffMs ?? 1_000;
+    this.maxBackoffMs = params.maxBackoffMs ?? 60_000;
+    this.maxAttempts = params.maxAttempts ?? 10;
+    this.backoffMs = this.initialBackoffMs;
+  }
+
+  /**
+   * Spools entries that failed to export and schedules a replay.
+   *
+   * @param entries - The entries to spool
+   */
+  public async add(entries: ExportSpoolEntry<T>[]): Promise<void> {
+    await this.spool.add(entries);
+
+    this.scheduleRetry();
+  }
+
+  /**
+   * Replays all spooled entries in order. Stops at the first failing batch
+   * and schedules a retry with backoff.
+   *
+   * @returns Promise resolving to `true` if the spool was fully replayed
+   */
+  public async replay(): Promise<boolean> {
+    this.replayPromise ??= this.replayInOrder().finally(() => {
+      this.replayPromise = null;
+    });
+
+    return this.replayPromise;
+  }
+
+  /**
+   * Cancels scheduled retries.
+   */
+  public stop(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private async replayInOrder(): Promise<boolean> {
+    while (true) {
+      let entries: ExportSpoolEntry<T>[];
+
+      try {
+        entries = await this.spool.peek(this.batchSize);
+      } catch (err) {
+        getGlobalLogger().error("Failed to read export spool:", err);
+
+        return false;
+      }
+
+      if (entries.length === 0) break;
+
+      try {
+        await this.send(entries.map((entry) => entry.payload));
+        await this.spool.remove(entries.map((entry) => entry.id));
+        this.failedBatch = null;
+      } catch (err) {
+        if (await this.dropIfUnrecoverable(entries, err)) continue;
+
+        getGlobalLogger().warn(
+          `Replaying ${entries.length} spooled entries failed. Retrying in ${this.backoffMs}ms. Error:`,
+          err,
+        );
+
+        this.scheduleRetry();
+        this.backoffMs = Math.min(this.backoffMs * 2, this.maxBackoffMs);
+
+        return false;
+      }
+    }
+
+    this.backoffMs = this.initialBackoffMs;
+    this.stop();
+
+    return true;
+  }
+
+  /**
+   * Drops a batch that was rejected as invalid or has failed with a response
+   * from the target too often.
+   *
+   * @returns `true` if the batch was dropped
+   */
+  private async dropIfUnrecoverable(
+    entries: ExportSpoolEntry<T>[],
+    err: unknown,
+  ): Promise<boolean> {
+    const ids = entries.map((entry) => entry.id);
+
+    if (getExportErrorStatusCode(err) === undefined) {
+      return false;
+    }
+
+    const attempts =
+      this.failedBatch?.firstId === ids[0] ? this.failedBatch.attempts + 1 : 1;
+    this.failedBatch = { firstId: ids[0], attempts };
+
+    if (!isNonRetryableExportError(err) && attempts < this.maxAttempts) {
+      return false;
+    }
+
+    getGlobalLogger().error(
+      `Dropping ${entries.length} spooled entries after ${attempts} failed replay(s). Error:`,
+      err,
+    );
+
+    try {
+      await this.spool.remove(ids);
+    } catch (removeErr) {
+      getGlobalLogger().error("Failed to remove spooled entries:", removeErr);
+
+      return false;
+    }
+
+    this.failedBatch = null;
+
+    return true;
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer) return;
+
+    this.retryTimer = safeSetTimeout(() => {
+      this.retryTimer = null;
+      void this.replay();
+    }, this.backoffMs);
+  }
+}
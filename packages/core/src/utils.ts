@@ -3,11 +3,13 @@ type ElasticDashEnvVar =
   | "ELASTICDASH_SECRET_KEY"
   | "ELASTICDASH_BASE_URL"
   | "ELASTICDASH_BASEURL" // legacy v2
+  | "ELASTICDASH_EXPORT_MODE"
   | "ELASTICDASH_TIMEOUT"
   | "ELASTICDASH_FLUSH_AT"
   | "ELASTICDASH_FLUSH_INTERVAL"
   | "ELASTICDASH_LOG_LEVEL"
   | "ELASTICDASH_RELEASE"
+  | "ELASTICDASH_SAMPLE_RATE"
   | "ELASTICDASH_TRACING_ENVIRONMENT";
 
 export function getEnv(key: ElasticDashEnvVar): string | undefined {
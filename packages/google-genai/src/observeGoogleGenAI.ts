@@ -0,0 +1,130 @@
+import { withTracing } from "./traceMethod.js";
+import type { ElasticDashConfig } from "./types.js";
+
+/**
+ * Methods of the Google Gen AI SDK that are traced as generations.
+ * @internal
+ */
+const TRACED_METHODS = ["generateContent", "generateContentStream"];
+
+/**
+ * Wraps a Google Gen AI SDK client with automatic ElasticDash tracing.
+ *
+ * This function creates a proxy around the `@google/genai` client that
+ * automatically traces `generateContent` and `generateContentStream` calls
+ * as ElasticDash generations, for both the Gemini Developer API and Vertex
+ * AI. It captures requests, responses, token usage including cached and
+ * thoughts tokens, finish reasons, safety ratings and errors. Inline image
+ * parts are uploaded through the ElasticDash media pipeline.
+ *
+ * All other methods and properties of the SDK are passed through unchanged.
+ *
+ * @param sdk - The Google Gen AI SDK client instance to wrap with tracing
+ * @param elasticDashConfig - Optional configuration for tracing behavior
+ * @returns A proxied version of the Google Gen AI SDK with automatic tracing
+ *
+ * @example
+ * ```typescript
+ * import { GoogleGenAI } from '@google/genai';
+ * import { observeGoogleGenAI } from '@elasticdash/google-genai';
+ *
+ * const ai = observeGoogleGenAI(new GoogleGenAI({
+ *   apiKey: process.env.GEMINI_API_KEY,
+ * }));
+ *
+ * // Content generation is now automatically traced
+ * const response = await ai.models.generateContent({
+ *   model: 'gemini-2.5-flash',
+ *   contents: 'Explain quantum computing',
+ *   config: { temperature: 0.7 },
+ * });
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Vertex AI with custom tracing configuration
+ * const ai = observeGoogleGenAI(
+ *   new GoogleGenAI({ vertexai: true, project: 'my-project', location: 'us-central1' }),
+ *   {
+ *     traceName: 'AI-Assistant-Chat',
+ *     userId: 'user-123',
+ *     sessionId: 'session-456',
+ *     tags: ['production', 'chat-feature'],
+ *   },
+ * );
+ *
+ * const stream = await ai.models.generateContentStream({
+ *   model: 'gemini-2.5-pro',
+ *   contents: 'Write a story',
+ * });
+ *
+ * for await (const chunk of stream) {
+ *   process.stdout.write(chunk.text ?? '');
+ * }
+ * // Final usage details and complete output are captured automatically
+ * ```
+ *
+ * @public
+ */
+export const observeGoogleGenAI = <SDKType extends object>(
+  sdk: SDKType,
+  elasticDashConfig?: ElasticDashConfig,
+): SDKType => {
+  return observeSdkObject(sdk, elasticDashConfig, [
+    sdk.constructor?.name ?? "GoogleGenAI",
+  ]);
+};
+
+/**
+ * Recursively proxies an object of the Google Gen AI SDK, tracing the
+ * content generation methods.
+ *
+ * @internal
+ */
+const observeSdkObject = <T extends object>(
+  sdkObject: T,
+  elasticDashConfig: ElasticDashConfig | undefined,
+  path: string[],
+): T => {
+  return new Proxy(sdkObject, {
+    get(wrappedObject, propKey, proxy) {
+      const originalProperty = wrappedObject[propKey as keyof T];
+      const propertyPath = [...path, propKey.toString()];
+
+      // Trace the content generation methods of the Google Gen AI SDK
+      if (
+        typeof originalProperty === "function" &&
+        TRACED_METHODS.includes(propKey.toString())
+      ) {
+        return withTracing(originalProperty.bind(wrappedObject), {
+          ...elasticDashConfig,
+          generationName:
+            elasticDashConfig?.generationName ?? propertyPath.join("."),
+        });
+      }
+
+      const isNestedGoogleGenAIObject =
+        originalProperty &&
+        !Array.isArray(originalProperty) &&
+        !(originalProperty instanceof Date) &&
+        typeof originalProperty === "object";
+
+      // Recursively wrap nested objects to ensure nested modules are also traced
+      if (isNestedGoogleGenAIObject) {
+        return observeSdkObject(
+          originalProperty,
+          elasticDashConfig,
+          propertyPath,
+        );
+      }
+
+      // Bind other methods to the original object, e.g. for private fields
+      if (typeof originalProperty === "function") {
+        return originalProperty.bind(wrappedObject);
+      }
+
+      // Fallback to returning the original value
+      return Reflect.get(wrappedObject, propKey, proxy);
+    },
+  });
+};
@@ -0,0 +1,229 @@
+type ParsedGoogleGenAIArguments = {
+  model: string;
+  input: Record<string, any>;
+  modelParameters: Record<string, any>;
+  metadata: Record<string, unknown>;
+};
+
+/**
+ * Finish reasons of candidates that were blocked or cut off by safety and
+ * content filters.
+ */
+const BLOCKED_FINISH_REASONS = [
+  "SAFETY",
+  "RECITATION",
+  "BLOCKLIST",
+  "PROHIBITED_CONTENT",
+  "SPII",
+  "IMAGE_SAFETY",
+];
+
+export const parseInputArgs = (
+  args: Record<string, any>,
+): ParsedGoogleGenAIArguments => {
+  const config: Record<string, any> = args.config ?? {};
+  const params: Record<string, any> = {
+    temperature: config.temperature,
+    topP: config.topP,
+    topK: config.topK,
+    maxOutputTokens: config.maxOutputTokens,
+    candidateCount: config.candidateCount,
+    stopSequences: config.stopSequences,
+    seed: config.seed,
+    presencePenalty: config.presencePenalty,
+    frequencyPenalty: config.frequencyPenalty,
+    responseMimeType: config.responseMimeType,
+  };
+
+  const input: Record<string, any> = { contents: args.contents };
+  for (const key of ["systemInstruction", "tools", "toolConfig"]) {
+    if (key in config) {
+      input[key] = config[key];
+    }
+  }
+
+  return {
+    model: args.model,
+    input,
+    modelParameters: params,
+    metadata: {
+      thinkingConfig: config.thinkingConfig,
+      safetySettings: config.safetySettings,
+      cachedContent: config.cachedContent,
+    },
+  };
+};
+
+/**
+ * Returns the text of the first candidate if it only contains text parts,
+ * its content including function calls and inline data otherwise, or the
+ * contents of all candidates if multiple candidates were generated.
+ */
+export const parseCompletionOutput = (res: unknown): unknown => {
+  const candidates = getCandidates(res);
+
+  if (candidates.length > 1) {
+    return candidates.map((candidate) => candidate.content);
+  }
+
+  const content = candidates[0]?.content;
+  const parts: Record<string, any>[] | undefined = content?.parts;
+
+  if (!Array.isArray(parts)) {
+    return null;
+  }
+
+  if (parts.every((part) => typeof part?.text === "string" && !part.thought)) {
+    return parts.map((part) => part.text).join("");
+  }
+
+  return content;
+};
+
+export const parseUsageDetails = (
+  usageMetadata: Record<string, any>,
+): Record<string, number> | undefined => {
+  if (typeof usageMetadata?.promptTokenCount !== "number") {
+    return undefined;
+  }
+
+  const {
+    promptTokenCount,
+    candidatesTokenCount,
+    cachedContentTokenCount,
+    thoughtsTokenCount,
+    toolUsePromptTokenCount,
+    totalTokenCount,
+  } = usageMetadata;
+
+  const usageDetails: Record<string, number> = {
+    // Cached tokens are included in the prompt token count
+    input: Math.max(promptTokenCount - (cachedContentTokenCount ?? 0), 0),
+    output: candidatesTokenCount ?? 0,
+  };
+
+  if (typeof cachedContentTokenCount === "number") {
+    usageDetails.input_cached_tokens = cachedContentTokenCount;
+  }
+  if (typeof toolUsePromptTokenCount === "number") {
+    usageDetails.input_tool_use_prompt_tokens = toolUsePromptTokenCount;
+  }
+  if (typeof thoughtsTokenCount === "number") {
+    usageDetails.output_reasoning_tokens = thoughtsTokenCount;
+  }
+  if (typeof totalTokenCount === "number") {
+    usageDetails.total = totalTokenCount;
+  }
+
+  return usageDetails;
+};
+
+export const parseUsageDetailsFromResponse = (
+  res: unknown,
+): Record<string, number> | undefined => {
+  if (res instanceof Object && "usageMetadata" in res) {
+    return parseUsageDetails(res.usageMetadata as Record<string, any>);
+  }
+};
+
+export const parseModelDataFromResponse = (
+  res: unknown,
+): {
+  model: string | undefined;
+  metadata: Record<string, unknown> | undefined;
+  blockReason: string | undefined;
+} => {
+  if (!(res instanceof Object)) {
+    return { model: undefined, metadata: undefined, blockReason: undefined };
+  }
+
+  const response = res as Record<string, any>;
+  const [candidate] = getCandidates(res);
+  const metadata: Record<string, unknown> = {
+    response_id: response.responseId,
+    model_version: response.modelVersion,
+    finish_reason: candidate?.finishReason,
+    finish_message: candidate?.finishMessage,
+    safety_ratings: candidate?.safetyRatings,
+    prompt_feedback: response.promptFeedback,
+  };
+
+  const blockReason =
+    response.promptFeedback?.blockReason ??
+    (BLOCKED_FINISH_REASONS.includes(candidate?.finishReason)
+      ? candidate.finishReason
+      : undefined);
+
+  return {
+    model: response.modelVersion,
+    metadata: Object.fromEntries(
+      Object.entries(metadata).filter(([, value]) => value != null),
+    ),
+    blockReason,
+  };
+};
+
+/**
+ * Merges a chunk of a streamed response into the response accumulated so
+ * far. Text parts are concatenated, other parts are appended, and the
+ * latest finish reason, safety ratings and usage metadata are kept.
+ */
+export const accumulateResponseChunk = (
+  response: Record<string, any> | undefined,
+  rawChunk: unknown,
+): Record<string, any> => {
+  const chunk = (rawChunk ?? {}) as Record<string, any>;
+  const accumulated: Record<string, any> = response ?? { candidates: [] };
+
+  for (const key of [
+    "responseId",
+    "modelVersion",
+    "promptFeedback",
+    "usageMetadata",
+  ]) {
+    if (chunk[key] != null) {
+      accumulated[key] = chunk[key];
+    }
+  }
+
+  getCandidates(chunk).forEach((candidate, position) => {
+    const index = candidate.index ?? position;
+    const target = (accumulated.candidates[index] ??= {
+      content: { role: candidate.content?.role ?? "model", parts: [] },
+    });
+
+    for (const key of ["finishReason", "finishMessage", "safetyRatings"]) {
+      if (candidate[key] != null) {
+        target[key] = candidate[key];
+      }
+    }
+
+    for (const part of candidate.content?.parts ?? []) {
+      const parts: Record<string, any>[] = target.content.parts;
+      const lastPart = parts[parts.length - 1];
+
+      if (
+        typeof part.text === "string" &&
+        typeof lastPart?.text === "string" &&
+        Boolean(part.thought) === Boolean(lastPart.thought)
+      ) {
+        parts[parts.length - 1] = {
+          ...lastPart,
+          text: lastPart.text + part.text,
+        };
+      } else {
+        parts.push({ ...part });
+      }
+    }
+  });
+
+  return accumulated;
+};
+
+function getCandidates(res: unknown): Record<string, any>[] {
+  return res instanceof Object &&
+    "candidates" in res &&
+    Array.isArray(res.candidates)
+    ? res.candidates
+    : [];
+}
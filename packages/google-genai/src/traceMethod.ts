@@ -0,0 +1,204 @@
+import { ElasticDashGeneration, startObservation } from "@elasticdash/tracing";
+
+import {
+  accumulateResponseChunk,
+  parseCompletionOutput,
+  parseInputArgs,
+  parseModelDataFromResponse,
+  parseUsageDetailsFromResponse,
+} from "./parseGoogleGenAI.js";
+import type { ElasticDashConfig } from "./types.js";
+import { isAsyncIterable } from "./utils.js";
+
+/**
+ * Generic method type for any function that can be traced.
+ * @internal
+ */
+type GenericMethod = (...args: unknown[]) => unknown;
+
+/**
+ * Wraps a method with ElasticDash tracing functionality.
+ *
+ * This function creates a wrapper around Google Gen AI SDK methods that
+ * automatically creates ElasticDash generations, captures input/output data,
+ * handles streaming responses, and records usage metrics and errors.
+ *
+ * @param tracedMethod - The Google Gen AI SDK method to wrap with tracing
+ * @param config - Configuration for the trace and generation
+ * @returns A wrapped version of the method that creates ElasticDash traces
+ *
+ * @internal
+ */
+export const withTracing = <T extends GenericMethod>(
+  tracedMethod: T,
+  config?: ElasticDashConfig & Required<{ generationName: string }>,
+): ((...args: Parameters<T>) => Promise<ReturnType<T>>) => {
+  return (...args) => wrapMethod(tracedMethod, config, ...args);
+};
+
+/**
+ * Internal method that handles the actual tracing logic for Google Gen AI
+ * SDK methods.
+ *
+ * This function creates a ElasticDash generation, executes the original method,
+ * and captures all relevant data including input, output, usage, and errors.
+ * It handles both streaming and non-streaming responses appropriately.
+ *
+ * @param tracedMethod - The original Google Gen AI SDK method to execute
+ * @param config - ElasticDash configuration options
+ * @param args - Arguments to pass to the original method
+ * @returns The result from the original method, potentially wrapped for streaming
+ *
+ * @internal
+ */
+const wrapMethod = <T extends GenericMethod>(
+  tracedMethod: T,
+  config?: ElasticDashConfig,
+  ...args: Parameters<T>
+): ReturnType<T> | any => {
+  const { model, input, modelParameters, metadata } = parseInputArgs(
+    (args[0] as Record<string, any>) ?? {},
+  );
+
+  const generation = startObservation(
+    config?.generationName ?? "GoogleGenAI-generation",
+    {
+      model,
+      input,
+      modelParameters,
+      prompt: config?.elasticDashPrompt,
+      metadata: { ...config?.generationMetadata, ...metadata },
+    },
+    {
+      asType: "generation",
+      parentSpanContext: config?.parentSpanContext,
+    },
+  ).updateTrace({
+    userId: config?.userId,
+    sessionId: config?.sessionId,
+    tags: config?.tags,
+    name: config?.traceName,
+  });
+
+  try {
+    const res = tracedMethod(...args);
+
+    // Handle stream responses
+    if (isAsyncIterable(res)) {
+      return wrapAsyncIterable(res, generation);
+    }
+
+    if (res instanceof Promise) {
+      const wrappedPromise = res
+        .then((result) => {
+          if (isAsyncIterable(result)) {
+            return wrapAsyncIterable(result, generation);
+          }
+
+          endGeneration(generation, result);
+
+          return result;
+        })
+        .catch((err) => {
+          generation
+            .update({
+              statusMessage: String(err),
+              level: "ERROR",
+            })
+            .end();
+
+          throw err;
+        });
+
+      return wrappedPromise;
+    }
+
+    return res;
+  } catch (error) {
+    generation
+      .update({
+        statusMessage: String(error),
+        level: "ERROR",
+      })
+      .end();
+
+    throw error;
+  }
+};
+
+/**
+ * Updates the generation with the output, usage, model, finish reason and
+ * safety ratings of a response and ends it. Responses blocked by safety or
+ * content filters are recorded with the `WARNING` level.
+ *
+ * @internal
+ */
+function endGeneration(
+  generation: ElasticDashGeneration,
+  response: unknown,
+  completionStartTime?: Date,
+): void {
+  const { model, metadata, blockReason } = parseModelDataFromResponse(response);
+
+  generation
+    .update({
+      output: parseCompletionOutput(response),
+      usageDetails: parseUsageDetailsFromResponse(response),
+      model,
+      metadata,
+      completionStartTime,
+      ...(blockReason
+        ? { level: "WARNING", statusMessage: `Blocked: ${blockReason}` }
+        : {}),
+    })
+    .end();
+}
+
+/**
+ * Wraps an async iterable (streaming response) with ElasticDash tracing.
+ *
+ * This function merges the streamed response chunks and updates the
+ * ElasticDash generation with the complete output, usage details and finish
+ * reason once the stream is consumed.
+ *
+ * @param iterable - The async iterable from Google Gen AI (streaming response)
+ * @param generation - The ElasticDash generation to update with stream data
+ * @returns An async generator that yields original chunks while collecting data
+ *
+ * @internal
+ */
+function wrapAsyncIterable<R>(
+  iterable: AsyncIterable<unknown>,
+  generation: ElasticDashGeneration,
+): R {
+  async function* tracedOutputGenerator(): AsyncGenerator<
+    unknown,
+    void,
+    unknown
+  > {
+    let response: Record<string, any> | undefined = undefined;
+    let completionStartTime: Date | undefined = undefined;
+
+    try {
+      for await (const rawChunk of iterable) {
+        completionStartTime = completionStartTime ?? new Date();
+        response = accumulateResponseChunk(response, rawChunk);
+
+        yield rawChunk;
+      }
+    } catch (err) {
+      generation
+        .update({
+          statusMessage: String(err),
+          level: "ERROR",
+        })
+        .end();
+
+      throw err;
+    }
+
+    endGeneration(generation, response, completionStartTime);
+  }
+
+  return tracedOutputGenerator() as R;
+}
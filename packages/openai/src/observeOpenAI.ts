@@ -1,4 +1,6 @@
+import { getEndpoint } from "./parseOpenAI.js";
 import { withTracing } from "./traceMethod.js";
+import { withRunTracing } from "./traceRun.js";
 import type { ElasticDashConfig } from "./types.js";
 
 /**
@@ -11,7 +13,12 @@ import type { ElasticDashConfig } from "./types.js";
  *
  * The wrapper recursively traces nested objects in the OpenAI SDK, ensuring
  * that all API calls (chat completions, embeddings, fine-tuning, etc.) are
- * automatically captured as ElasticDash generations.
+ * automatically captured. Embeddings are captured as ElasticDash embeddings
+ * with their input count and dimensions, moderations as guardrails with the
+ * flagged categories, and all other calls as generations. Generated images,
+ * speech and transcribed audio files are uploaded as media. Assistants runs
+ * are expanded into an agent with a generation per run step and a tool
+ * observation per tool call.
  *
  * @param sdk - The OpenAI SDK client instance to wrap with tracing
  * @param elasticDashConfig - Optional configuration for tracing behavior
@@ -87,24 +94,105 @@ import type { ElasticDashConfig } from "./types.js";
  * });
  * ```
  *
+ * @example
+ * ```typescript
+ * // Embeddings and moderations are traced with their own observation types
+ * const embedding = await openai.embeddings.create({
+ *   model: 'text-embedding-3-small',
+ *   input: ['first document', 'second document'],
+ * });
+ *
+ * const moderation = await openai.moderations.create({
+ *   model: 'omni-moderation-latest',
+ *   input: 'Some user input',
+ * });
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Trace each requested tool call as a tool observation of the generation
+ * const openai = observeOpenAI(new OpenAI(), { traceToolCalls: true });
+ *
+ * const completion = await openai.chat.completions.create({
+ *   model: 'gpt-4o',
+ *   messages,
+ *   tools,
+ * });
+ *
+ * // The tool results of the follow-up request become the tool outputs
+ * await openai.chat.completions.create({
+ *   model: 'gpt-4o',
+ *   messages: [...messages, completion.choices[0].message, ...toolMessages],
+ *   tools,
+ * });
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Assistants runs are traced as agents with their run steps and tool calls
+ * const run = await openai.beta.threads.runs.createAndPoll(thread.id, {
+ *   assistant_id: assistant.id,
+ * });
+ *
+ * if (run.status === 'requires_action') {
+ *   await openai.beta.threads.runs.submitToolOutputsAndPoll(run.id, {
+ *     thread_id: thread.id,
+ *     tool_outputs: [{ tool_call_id: 'call_1', output: '22°C' }],
+ *   });
+ * }
+ * ```
+ *
  * @public
  */
 export const observeOpenAI = <SDKType extends object>(
   sdk: SDKType,
   elasticDashConfig?: ElasticDashConfig,
+): SDKType => {
+  return observeSdkObject(sdk, elasticDashConfig, [
+    sdk.constructor?.name ?? "OpenAI",
+  ]);
+};
+
+/**
+ * Recursively proxies an object of the OpenAI SDK, keeping track of the
+ * property path from the client to select the traced endpoint.
+ *
+ * @internal
+ */
+const observeSdkObject = <SDKType extends object>(
+  sdk: SDKType,
+  elasticDashConfig: ElasticDashConfig | undefined,
+  path: string[],
 ): SDKType => {
   return new Proxy(sdk, {
     get(wrappedSdk, propKey, proxy) {
       const originalProperty = wrappedSdk[propKey as keyof SDKType];
-
-      const defaultGenerationName = `${sdk.constructor?.name}.${propKey.toString()}`;
-      const generationName =
-        elasticDashConfig?.generationName ?? defaultGenerationName;
-      const config = { ...elasticDashConfig, generationName };
+      const propertyPath = [...path, propKey.toString()];
 
       // Trace methods of the OpenAI SDK
       if (typeof originalProperty === "function") {
-        return withTracing(originalProperty.bind(wrappedSdk), config);
+        const endpoint = getEndpoint(propertyPath.slice(1));
+        const method = originalProperty.bind(wrappedSdk);
+
+        // Runs are traced as agents named after the full method path
+        if (endpoint === "run") {
+          return withRunTracing(method, wrappedSdk, {
+            ...elasticDashConfig,
+            generationName:
+              elasticDashConfig?.generationName ?? propertyPath.join("."),
+          });
+        }
+
+        return withTracing(
+          method,
+          {
+            ...elasticDashConfig,
+            generationName:
+              elasticDashConfig?.generationName ??
+              propertyPath.slice(0, 2).join("."),
+          },
+          endpoint,
+        );
       }
 
       const isNestedOpenAIObject =
@@ -115,7 +203,11 @@ export const observeOpenAI = <SDKType extends object>(
 
       // Recursively wrap nested objects to ensure all nested properties or methods are also traced
       if (isNestedOpenAIObject) {
-        return observeOpenAI(originalProperty, config);
+        return observeSdkObject(
+          originalProperty,
+          elasticDashConfig,
+          propertyPath,
+        );
       }
 
       // Fallback to returning the original value
@@ -282,6 +282,107 @@ export const getToolCallOutput = (
   };
 };
 
+/**
+ * A function tool call requested by the model.
+ */
+export type ParsedToolCall = {
+  id: string;
+  name: string;
+  arguments: unknown;
+};
+
+/**
+ * Returns the function tool calls of a chat completion or of a response of
+ * the Responses API with their parsed arguments.
+ */
+export const parseToolCalls = (res: unknown): ParsedToolCall[] => {
+  if (!(res instanceof Object)) {
+    return [];
+  }
+
+  const response = res as Record<string, any>;
+
+  if (Array.isArray(response.output)) {
+    return response.output
+      .filter((item: Record<string, any>) => item?.type === "function_call")
+      .map((item: Record<string, any>) => ({
+        id: item.call_id,
+        name: item.name,
+        arguments: parseJson(item.arguments),
+      }));
+  }
+
+  if (Array.isArray(response.choices)) {
+    return response.choices
+      .flatMap(
+        (choice: Record<string, any>) => choice?.message?.tool_calls ?? [],
+      )
+      .filter((toolCall: Record<string, any>) => toolCall.function)
+      .map((toolCall: Record<string, any>) => ({
+        id: toolCall.id,
+        name: toolCall.function.name,
+        arguments: parseJson(toolCall.function.arguments),
+      }));
+  }
+
+  return [];
+};
+
+/**
+ * Merges the streamed tool call deltas of a chat completion by their index.
+ */
+export const parseToolCallChunks = (
+  toolCallChunks: OpenAI.Chat.Completions.ChatCompletionChunk.Choice.Delta.ToolCall[],
+): ParsedToolCall[] => {
+  const toolCalls = new Map<
+    number,
+    { id: string; name: string; arguments: string }
+  >();
+
+  for (const chunk of toolCallChunks) {
+    const toolCall = toolCalls.get(chunk.index) ?? {
+      id: "",
+      name: "",
+      arguments: "",
+    };
+
+    toolCall.id = chunk.id || toolCall.id;
+    toolCall.name = chunk.function?.name || toolCall.name;
+    toolCall.arguments += chunk.function?.arguments || "";
+    toolCalls.set(chunk.index, toolCall);
+  }
+
+  return [...toolCalls.values()].map((toolCall) => ({
+    ...toolCall,
+    arguments: parseJson(toolCall.arguments),
+  }));
+};
+
+/**
+ * Returns the tool results sent with a request by tool call ID, i.e. the
+ * `tool` role messages of chat completions and the `function_call_output`
+ * items of the Responses API.
+ */
+export const parseToolResults = (
+  args: Record<string, any>,
+): Map<string, unknown> => {
+  const toolResults = new Map<string, unknown>();
+
+  for (const message of Array.isArray(args?.messages) ? args.messages : []) {
+    if (message?.role === "tool" && message.tool_call_id) {
+      toolResults.set(message.tool_call_id, message.content);
+    }
+  }
+
+  for (const item of Array.isArray(args?.input) ? args.input : []) {
+    if (item?.type === "function_call_output" && item.call_id) {
+      toolResults.set(item.call_id, item.output);
+    }
+  }
+
+  return toolResults;
+};
+
 export const parseModelDataFromResponse = (
   res: unknown,
 ): {
@@ -345,3 +446,349 @@ export const parseModelDataFromResponse = (
     metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
   };
 };
+
+/**
+ * Endpoints of the OpenAI API that are traced with their own observation
+ * type and parsing. Methods of all other endpoints are traced as completions.
+ */
+export type OpenAIEndpoint =
+  | "completion"
+  | "embedding"
+  | "image"
+  | "speech"
+  | "transcription"
+  | "moderation"
+  | "run";
+
+const ENDPOINTS: Record<string, OpenAIEndpoint> = {
+  "embeddings.create": "embedding",
+  "images.generate": "image",
+  "images.edit": "image",
+  "images.createVariation": "image",
+  "audio.speech.create": "speech",
+  "audio.transcriptions.create": "transcription",
+  "audio.translations.create": "transcription",
+  "moderations.create": "moderation",
+  "beta.threads.runs.createAndPoll": "run",
+  "beta.threads.runs.createAndStream": "run",
+  "beta.threads.runs.stream": "run",
+  "beta.threads.runs.submitToolOutputsAndPoll": "run",
+  "beta.threads.runs.submitToolOutputsStream": "run",
+};
+
+const AUDIO_FORMAT_CONTENT_TYPES: Record<string, string> = {
+  mp3: "audio/mpeg",
+  opus: "audio/opus",
+  aac: "audio/aac",
+  flac: "audio/flac",
+  wav: "audio/wav",
+};
+
+/**
+ * Returns the endpoint of a method from its property path on the OpenAI
+ * client, e.g. `["embeddings", "create"]`.
+ */
+export const getEndpoint = (path: string[]): OpenAIEndpoint => {
+  return ENDPOINTS[path.join(".")] ?? "completion";
+};
+
+export const getAudioContentType = (format: unknown): string | undefined => {
+  return AUDIO_FORMAT_CONTENT_TYPES[typeof format === "string" ? format : ""];
+};
+
+type ParsedEndpointArguments = {
+  model: string | undefined;
+  input: unknown;
+  modelParameters: Record<string, any>;
+  metadata: Record<string, unknown>;
+};
+
+export const parseEndpointInputArgs = (
+  endpoint: OpenAIEndpoint,
+  args: Record<string, any>,
+): ParsedEndpointArguments => {
+  switch (endpoint) {
+    case "embedding":
+      return {
+        model: args.model,
+        input: args.input,
+        modelParameters: pick(args, ["dimensions", "encoding_format", "user"]),
+        metadata: { input_count: countEmbeddingInputs(args.input) },
+      };
+    case "image":
+      return {
+        model: args.model,
+        input: args.prompt,
+        modelParameters: pick(args, [
+          "n",
+          "size",
+          "quality",
+          "style",
+          "background",
+          "output_format",
+          "output_compression",
+          "response_format",
+          "user",
+        ]),
+        metadata: {},
+      };
+    case "speech":
+      return {
+        model: args.model,
+        input: args.instructions
+          ? { input: args.input, instructions: args.instructions }
+          : args.input,
+        modelParameters: pick(args, [
+          "voice",
+          "response_format",
+          "speed",
+          "stream_format",
+        ]),
+        metadata: {},
+      };
+    case "transcription":
+      return {
+        model: args.model,
+        input: { file: getFileName(args.file), prompt: args.prompt },
+        modelParameters: pick(args, [
+          "language",
+          "response_format",
+          "temperature",
+          "timestamp_granularities",
+        ]),
+        metadata: {},
+      };
+    case "moderation":
+      return {
+        model: args.model,
+        input: args.input,
+        modelParameters: {},
+        metadata: {},
+      };
+    default:
+      return { ...parseInputArgs(args), metadata: {} };
+  }
+};
+
+type ParsedEndpointOutput = {
+  output?: unknown;
+  usageDetails?: Record<string, number>;
+  model?: string;
+  metadata?: Record<string, unknown>;
+  level?: "WARNING";
+  statusMessage?: string;
+};
+
+/**
+ * Parses the response of an embeddings, images, audio or moderations
+ * endpoint. Embedding vectors are summarized by their count and dimensions,
+ * generated images are returned as URLs or data URIs for the media upload,
+ * and flagged moderation results are reported with the `WARNING` level.
+ */
+export const parseEndpointOutput = (
+  endpoint: OpenAIEndpoint,
+  args: Record<string, any>,
+  res: unknown,
+): ParsedEndpointOutput => {
+  const response = (res instanceof Object ? res : {}) as Record<string, any>;
+  const model = typeof response.model === "string" ? response.model : undefined;
+
+  switch (endpoint) {
+    case "embedding": {
+      const data: Record<string, any>[] = Array.isArray(response.data)
+        ? response.data
+        : [];
+      const embedding = data[0]?.embedding;
+
+      return {
+        output: {
+          count: data.length,
+          dimensions: Array.isArray(embedding)
+            ? embedding.length
+            : args.dimensions,
+        },
+        usageDetails:
+          typeof response.usage?.prompt_tokens === "number"
+            ? {
+                input: response.usage.prompt_tokens,
+                total: response.usage.total_tokens,
+              }
+            : undefined,
+        model,
+      };
+    }
+    case "image": {
+      const contentType = `image/${response.output_format ?? args.output_format ?? "png"}`;
+      const data: Record<string, any>[] = Array.isArray(response.data)
+        ? response.data
+        : [];
+
+      return {
+        output: data.map((image) => ({
+          ...(image.url ? { url: image.url } : {}),
+          ...(image.b64_json
+            ? { image: `data:${contentType};base64,${image.b64_json}` }
+            : {}),
+          ...(image.revised_prompt
+            ? { revised_prompt: image.revised_prompt }
+            : {}),
+        })),
+        usageDetails: parseUsageDetailsFromResponse(res),
+        metadata: pick(response, ["background", "quality", "size"]),
+      };
+    }
+    case "transcription":
+      return {
+        output: typeof res === "string" ? res : response.text,
+        usageDetails: parseUsageDetailsFromResponse(res),
+        metadata: pick(
+          {
+            language: response.language,
+            duration: response.duration ?? response.usage?.seconds,
+          },
+          ["language", "duration"],
+        ),
+      };
+    case "moderation": {
+      const results = (
+        Array.isArray(response.results) ? response.results : []
+      ).map((result: Record<string, any>) => ({
+        flagged: Boolean(result.flagged),
+        categories: Object.entries(result.categories ?? {})
+          .filter(([, flagged]) => flagged)
+          .map(([category]) => category),
+      }));
+      const flaggedCategories = [
+        ...new Set(
+          results.flatMap(
+            (result: { categories: string[] }) => result.categories,
+          ),
+        ),
+      ];
+
+      return {
+        output: results.length === 1 ? results[0] : results,
+        metadata: { model },
+        ...(results.some((result: { flagged: boolean }) => result.flagged)
+          ? {
+              level: "WARNING",
+              statusMessage: `Flagged: ${flaggedCategories.join(", ")}`,
+            }
+          : {}),
+      };
+    }
+    default:
+      return {};
+  }
+};
+
+/**
+ * Returns the end time of a run step in milliseconds, or undefined while the
+ * step is still in progress.
+ */
+export const getRunStepEndTime = (
+  step: Record<string, any>,
+): number | undefined => {
+  const seconds =
+    step.completed_at ?? step.failed_at ?? step.cancelled_at ?? step.expired_at;
+
+  return typeof seconds === "number" ? seconds * 1000 : undefined;
+};
+
+/**
+ * Parses a tool call of a run step. The output of function calls is taken
+ * from the run step once submitted, or else from the tool outputs submitted
+ * with the traced call.
+ */
+export const parseRunToolCall = (
+  toolCall: Record<string, any>,
+  submittedOutputs: Record<string, unknown>,
+): { name: string; input: unknown; output: unknown } => {
+  switch (toolCall.type) {
+    case "function":
+      return {
+        name: toolCall.function?.name ?? "function",
+        input: parseJson(toolCall.function?.arguments),
+        output: toolCall.function?.output ?? submittedOutputs[toolCall.id],
+      };
+    case "code_interpreter":
+      return {
+        name: "code_interpreter",
+        input: toolCall.code_interpreter?.input,
+        output: toolCall.code_interpreter?.outputs,
+      };
+    case "file_search":
+      return {
+        name: "file_search",
+        input: toolCall.file_search?.ranking_options,
+        output: toolCall.file_search?.results,
+      };
+    default:
+      return {
+        name: String(toolCall.type),
+        input: toolCall[toolCall.type],
+        output: undefined,
+      };
+  }
+};
+
+export const parseRunOutput = (
+  run: Record<string, any>,
+): {
+  output: Record<string, unknown>;
+  metadata: Record<string, unknown>;
+} => {
+  return {
+    output: pick(run, [
+      "status",
+      "required_action",
+      "last_error",
+      "incomplete_details",
+    ]),
+    metadata: pick({ ...run, run_id: run.id }, [
+      "run_id",
+      "thread_id",
+      "assistant_id",
+      "model",
+    ]),
+  };
+};
+
+function parseJson(value: unknown): unknown {
+  if (typeof value !== "string") {
+    return value;
+  }
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+function countEmbeddingInputs(input: unknown): number {
+  // Arrays of numbers are a single tokenized input
+  return Array.isArray(input) && typeof input[0] !== "number"
+    ? input.length
+    : 1;
+}
+
+function getFileName(file: unknown): string | undefined {
+  if (!(file instanceof Object)) {
+    return undefined;
+  }
+
+  const { name, path } = file as Record<string, unknown>;
+
+  return typeof name === "string" && name
+    ? name
+    : typeof path === "string"
+      ? path
+      : undefined;
+}
+
+function pick(obj: Record<string, any>, keys: string[]): Record<string, any> {
+  return Object.fromEntries(
+    keys.filter((key) => obj[key] != null).map((key) => [key, obj[key]]),
+  );
+}
@@ -1,13 +1,28 @@
-import { ElasticDashGeneration, startObservation } from "@elasticdash/tracing";
+import { bytesToBase64, getGlobalLogger } from "@elasticdash/core";
+import {
+  ElasticDashEmbedding,
+  ElasticDashGeneration,
+  ElasticDashGuardrail,
+  startObservation,
+} from "@elasticdash/tracing";
+import type { SpanContext } from "@opentelemetry/api";
 import type OpenAI from "openai";
 
 import {
+  getAudioContentType,
   getToolCallOutput,
+  OpenAIEndpoint,
+  ParsedToolCall,
   parseChunk,
   parseCompletionOutput,
+  parseEndpointInputArgs,
+  parseEndpointOutput,
   parseInputArgs,
   parseUsageDetails,
   parseModelDataFromResponse,
+  parseToolCallChunks,
+  parseToolCalls,
+  parseToolResults,
   parseUsageDetailsFromResponse,
 } from "./parseOpenAI.js";
 import type { ElasticDashConfig } from "./types.js";
@@ -19,6 +34,23 @@ import { isAsyncIterable } from "./utils.js";
  */
 type GenericMethod = (...args: unknown[]) => unknown;
 
+/**
+ * Time after which tool calls still awaiting their result are no longer
+ * traced.
+ * @internal
+ */
+const TOOL_RESULT_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Tool calls awaiting the tool result of a follow-up request, by tool call ID,
+ * with the span context and end time of the generation that requested them.
+ * @internal
+ */
+const pendingToolCalls = new Map<
+  string,
+  { toolCall: ParsedToolCall; parentSpanContext: SpanContext; endTime: Date }
+>();
+
 /**
  * Wraps a method with ElasticDash tracing functionality.
  *
@@ -28,6 +60,7 @@ type GenericMethod = (...args: unknown[]) => unknown;
  *
  * @param tracedMethod - The OpenAI SDK method to wrap with tracing
  * @param config - Configuration for the trace and generation
+ * @param endpoint - The OpenAI API endpoint of the method
  * @returns A wrapped version of the method that creates ElasticDash traces
  *
  * @internal
@@ -35,8 +68,12 @@ type GenericMethod = (...args: unknown[]) => unknown;
 export const withTracing = <T extends GenericMethod>(
   tracedMethod: T,
   config?: ElasticDashConfig & Required<{ generationName: string }>,
+  endpoint: OpenAIEndpoint = "completion",
 ): ((...args: Parameters<T>) => Promise<ReturnType<T>>) => {
-  return (...args) => wrapMethod(tracedMethod, config, ...args);
+  return (...args) =>
+    endpoint === "completion"
+      ? wrapMethod(tracedMethod, config, ...args)
+      : wrapEndpointMethod(tracedMethod, endpoint, config, ...args);
 };
 
 /**
@@ -58,6 +95,8 @@ const wrapMethod = <T extends GenericMethod>(
   config?: ElasticDashConfig,
   ...args: Parameters<T>
 ): ReturnType<T> | any => {
+  traceToolResults(args[0] ?? {});
+
   const { model, input, modelParameters } = parseInputArgs(args[0] ?? {});
 
   const finalModelParams = { ...modelParameters, response_format: "" };
@@ -94,14 +133,18 @@ const wrapMethod = <T extends GenericMethod>(
 
     // Handle stream responses
     if (isAsyncIterable(res)) {
-      return wrapAsyncIterable(res, generation);
+      return wrapAsyncIterable(res, generation, config?.traceToolCalls);
     }
 
     if (res instanceof Promise) {
       const wrappedPromise = res
         .then((result) => {
           if (isAsyncIterable(result)) {
-            return wrapAsyncIterable(result, generation);
+            return wrapAsyncIterable(
+              result,
+              generation,
+              config?.traceToolCalls,
+            );
           }
 
           const output = parseCompletionOutput(result);
@@ -122,6 +165,10 @@ const wrapMethod = <T extends GenericMethod>(
             })
             .end();
 
+          if (config?.traceToolCalls) {
+            rememberToolCalls(generation, parseToolCalls(result));
+          }
+
           return result;
         })
         .catch((err) => {
@@ -129,11 +176,6 @@ const wrapMethod = <T extends GenericMethod>(
             .update({
               statusMessage: String(err),
               level: "ERROR",
-              costDetails: {
-                input: 0,
-                output: 0,
-                total: 0,
-              },
             })
             .end();
 
@@ -149,11 +191,6 @@ const wrapMethod = <T extends GenericMethod>(
       .update({
         statusMessage: String(error),
         level: "ERROR",
-        costDetails: {
-          input: 0,
-          output: 0,
-          total: 0,
-        },
       })
       .end();
 
@@ -161,6 +198,209 @@ const wrapMethod = <T extends GenericMethod>(
   }
 };
 
+/**
+ * Observation of a call to an embeddings, images, audio or moderations
+ * endpoint.
+ * @internal
+ */
+type EndpointObservation =
+  | ElasticDashGeneration
+  | ElasticDashEmbedding
+  | ElasticDashGuardrail;
+
+/**
+ * Handles the tracing logic for methods of the embeddings, images, audio and
+ * moderations endpoints.
+ *
+ * Embeddings are traced as ElasticDash embeddings and moderations as
+ * guardrails, images and audio as generations. Generated images and speech as
+ * well as the audio files of transcriptions are captured as data URIs, so
+ * that they are uploaded by the ElasticDash media handling.
+ *
+ * @param tracedMethod - The original OpenAI SDK method to execute
+ * @param endpoint - The OpenAI API endpoint of the method
+ * @param config - ElasticDash configuration options
+ * @param args - Arguments to pass to the original method
+ * @returns The result from the original method
+ *
+ * @internal
+ */
+const wrapEndpointMethod = <T extends GenericMethod>(
+  tracedMethod: T,
+  endpoint: OpenAIEndpoint,
+  config?: ElasticDashConfig,
+  ...args: Parameters<T>
+): ReturnType<T> | any => {
+  const params = (args[0] as Record<string, any>) ?? {};
+  const { model, input, modelParameters, metadata } = parseEndpointInputArgs(
+    endpoint,
+    params,
+  );
+  const name = config?.generationName ?? "OpenAI-completion";
+  const attributes = {
+    model,
+    input,
+    modelParameters,
+    prompt: config?.elasticDashPrompt,
+    metadata: { ...config?.generationMetadata, ...metadata },
+  };
+  const options = { parentSpanContext: config?.parentSpanContext };
+
+  const observation: EndpointObservation = (
+    endpoint === "moderation"
+      ? startObservation(
+          name,
+          { input, metadata: attributes.metadata },
+          { ...options, asType: "guardrail" },
+        )
+      : endpoint === "embedding"
+        ? startObservation(name, attributes, {
+            ...options,
+            asType: "embedding",
+          })
+        : startObservation(name, attributes, {
+            ...options,
+            asType: "generation",
+          })
+  ).updateTrace({
+    userId: config?.userId,
+    sessionId: config?.sessionId,
+    tags: config?.tags,
+    name: config?.traceName,
+  });
+
+  try {
+    const res = tracedMethod(...args);
+
+    if (res instanceof Promise) {
+      return res
+        .then((result) => {
+          endEndpointObservation(observation, endpoint, params, result);
+
+          return result;
+        })
+        .catch((err) => {
+          observation
+            .update({
+              statusMessage: String(err),
+              level: "ERROR",
+            })
+            .end();
+
+          throw err;
+        });
+    }
+
+    endEndpointObservation(observation, endpoint, params, res);
+
+    return res;
+  } catch (error) {
+    observation
+      .update({
+        statusMessage: String(error),
+        level: "ERROR",
+      })
+      .end();
+
+    throw error;
+  }
+};
+
+/**
+ * Updates the observation of an endpoint call with the parsed response and
+ * ends it. Speech and transcription audio is read before the observation is
+ * ended, without delaying the result returned to the caller.
+ *
+ * @internal
+ */
+function endEndpointObservation(
+  observation: EndpointObservation,
+  endpoint: OpenAIEndpoint,
+  params: Record<string, any>,
+  result: unknown,
+): void {
+  const update: Record<string, unknown> = parseEndpointOutput(
+    endpoint,
+    params,
+    result,
+  );
+
+  // The speech response is cloned synchronously so that the caller can still consume its body
+  const audio =
+    endpoint === "speech" && params.stream_format !== "sse"
+      ? readAsDataUri(
+          cloneResponse(result),
+          getAudioContentType(params.response_format ?? "mp3"),
+        )
+      : endpoint === "transcription"
+        ? readAsDataUri(params.file)
+        : undefined;
+
+  if (!audio) {
+    observation.update(update).end();
+
+    return;
+  }
+
+  audio
+    .then((dataUri) => {
+      if (!dataUri) {
+        return;
+      }
+
+      if (endpoint === "speech") {
+        update.output = dataUri;
+      } else {
+        update.input = { file: dataUri, prompt: params.prompt };
+      }
+    })
+    .catch((err) => {
+      getGlobalLogger().warn("Failed to read OpenAI audio for tracing", err);
+    })
+    .finally(() => {
+      observation.update(update).end();
+    });
+}
+
+function cloneResponse(result: unknown): unknown {
+  return result instanceof Object &&
+    "clone" in result &&
+    typeof result.clone === "function"
+    ? result.clone()
+    : undefined;
+}
+
+/**
+ * Reads a blob-like object, e.g. a `File` or fetch `Response`, as data URI.
+ * Returns undefined for other objects such as file streams, which cannot be
+ * read without consuming them.
+ *
+ * @internal
+ */
+async function readAsDataUri(
+  blob: unknown,
+  contentType?: string,
+): Promise<string | undefined> {
+  if (
+    !(blob instanceof Object) ||
+    !("arrayBuffer" in blob) ||
+    typeof blob.arrayBuffer !== "function"
+  ) {
+    return undefined;
+  }
+
+  const type =
+    contentType ??
+    ("type" in blob && typeof blob.type === "string" ? blob.type : undefined);
+  if (!type) {
+    return undefined;
+  }
+
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+
+  return `data:${type};base64,${bytesToBase64(bytes)}`;
+}
+
 /**
  * Wraps an async iterable (streaming response) with ElasticDash tracing.
  *
@@ -170,6 +410,7 @@ const wrapMethod = <T extends GenericMethod>(
  *
  * @param iterable - The async iterable from OpenAI (streaming response)
  * @param generation - The ElasticDash generation to update with stream data
+ * @param traceToolCalls - Whether to trace the streamed tool calls
  * @returns An async generator that yields original chunks while collecting data
  *
  * @internal
@@ -177,6 +418,7 @@ const wrapMethod = <T extends GenericMethod>(
 function wrapAsyncIterable<R>(
   iterable: AsyncIterable<unknown>,
   generation: ElasticDashGeneration,
+  traceToolCalls?: boolean,
 ): R {
   async function* tracedOutputGenerator(): AsyncGenerator<
     unknown,
@@ -191,6 +433,7 @@ function wrapAsyncIterable<R>(
     let completionStartTime: Date | undefined = undefined;
     let usageDetails: Record<string, number> | undefined = undefined;
     let output: unknown = null;
+    let responseResult: unknown = undefined;
 
     for await (const rawChunk of response as AsyncIterable<unknown>) {
       completionStartTime = completionStartTime ?? new Date();
@@ -198,6 +441,7 @@ function wrapAsyncIterable<R>(
       // Handle Response API chunks
       if (typeof rawChunk === "object" && rawChunk && "response" in rawChunk) {
         const result = rawChunk["response"];
+        responseResult = result;
         output = parseCompletionOutput(result);
         usageDetails = parseUsageDetailsFromResponse(result);
 
@@ -247,7 +491,75 @@ function wrapAsyncIterable<R>(
           usageDetails ?? (usage ? parseUsageDetails(usage) : undefined),
       })
       .end();
+
+    if (traceToolCalls) {
+      rememberToolCalls(
+        generation,
+        responseResult
+          ? parseToolCalls(responseResult)
+          : parseToolCallChunks(toolCallChunks),
+      );
+    }
   }
 
   return tracedOutputGenerator() as R;
 }
+
+/**
+ * Remembers the tool calls requested by the ended generation until a
+ * follow-up request sends their results. No observation is started yet, so
+ * tool calls without a follow-up request leave no open span behind.
+ *
+ * @internal
+ */
+function rememberToolCalls(
+  generation: ElasticDashGeneration,
+  toolCalls: ParsedToolCall[],
+): void {
+  const endTime = new Date();
+  const parentSpanContext = generation.otelSpan.spanContext();
+
+  for (const [toolCallId, { endTime: pendingSince }] of pendingToolCalls) {
+    if (endTime.getTime() - pendingSince.getTime() < TOOL_RESULT_TIMEOUT_MS) {
+      break;
+    }
+
+    pendingToolCalls.delete(toolCallId);
+  }
+
+  for (const toolCall of toolCalls) {
+    pendingToolCalls.set(toolCall.id, { toolCall, parentSpanContext, endTime });
+  }
+}
+
+/**
+ * Traces a tool observation below the requesting generation for each pending
+ * tool call whose result is sent with a request. The observation starts when
+ * the generation ended and ends when the result is sent.
+ *
+ * @internal
+ */
+function traceToolResults(args: Record<string, any>): void {
+  if (pendingToolCalls.size === 0) {
+    return;
+  }
+
+  for (const [toolCallId, output] of parseToolResults(args)) {
+    const pendingToolCall = pendingToolCalls.get(toolCallId);
+
+    if (pendingToolCall) {
+      const { toolCall, parentSpanContext, endTime } = pendingToolCall;
+      pendingToolCalls.delete(toolCallId);
+
+      startObservation(
+        toolCall.name,
+        {
+          input: toolCall.arguments,
+          output,
+          metadata: { tool_call_id: toolCall.id },
+        },
+        { asType: "tool", parentSpanContext, startTime: endTime },
+      ).end();
+    }
+  }
+}
@@ -0,0 +1,309 @@
+import { getGlobalLogger } from "@elasticdash/core";
+import { ElasticDashAgent, startObservation } from "@elasticdash/tracing";
+
+import {
+  getRunStepEndTime,
+  parseRunOutput,
+  parseRunToolCall,
+  parseUsageDetails,
+} from "./parseOpenAI.js";
+import type { ElasticDashConfig } from "./types.js";
+
+/**
+ * Generic method type for any function that can be traced.
+ * @internal
+ */
+type GenericMethod = (...args: unknown[]) => unknown;
+
+/**
+ * State of a traced run call that is needed to build its observation tree.
+ * @internal
+ */
+type RunContext = {
+  /** The agent observation of the traced call */
+  agent: ElasticDashAgent;
+  /** Start of the traced call in seconds, the resolution of run step timestamps */
+  callStart: number;
+  /** Tool outputs submitted with the traced call by tool call ID */
+  submittedOutputs: Record<string, unknown>;
+};
+
+/**
+ * Statuses of runs that ended without completing.
+ * @internal
+ */
+const FAILED_RUN_STATUSES = ["failed", "cancelled", "expired"];
+
+/**
+ * Wraps a run method of the OpenAI Assistants API with ElasticDash tracing.
+ *
+ * The traced call becomes an ElasticDash agent. Once the run completes or
+ * requires action, its run steps are added as child generations with their
+ * usage, and each tool call of a run step as child tool with its output.
+ * The usage of the run steps is aggregated in the metadata of the agent.
+ *
+ * @param tracedMethod - The run method of the OpenAI SDK to wrap with tracing
+ * @param runs - The unwrapped runs resource, used to list the run steps
+ * @param config - Configuration for the trace and agent
+ * @returns A wrapped version of the method that creates ElasticDash traces
+ *
+ * @internal
+ */
+export const withRunTracing = <T extends GenericMethod>(
+  tracedMethod: T,
+  runs: Record<string, any>,
+  config: ElasticDashConfig & Required<{ generationName: string }>,
+): ((...args: Parameters<T>) => ReturnType<T>) => {
+  return (...args) => wrapRunMethod(tracedMethod, runs, config, ...args);
+};
+
+const wrapRunMethod = <T extends GenericMethod>(
+  tracedMethod: T,
+  runs: Record<string, any>,
+  config: ElasticDashConfig & Required<{ generationName: string }>,
+  ...args: Parameters<T>
+): ReturnType<T> | any => {
+  const id = args[0] as string;
+  const params = (args[1] as Record<string, any>) ?? {};
+  const toolOutputs: Record<string, any>[] = params.tool_outputs ?? [];
+
+  // Tool outputs are submitted for a run, all other methods create a run on a thread
+  const input =
+    "tool_outputs" in params
+      ? { run_id: id, ...params }
+      : { thread_id: id, ...params };
+
+  const agent = startObservation(
+    config.generationName,
+    { input, metadata: config.generationMetadata },
+    {
+      asType: "agent",
+      parentSpanContext: config.parentSpanContext,
+    },
+  ).updateTrace({
+    userId: config.userId,
+    sessionId: config.sessionId,
+    tags: config.tags,
+    name: config.traceName,
+  });
+
+  const context: RunContext = {
+    agent,
+    callStart: Math.floor(Date.now() / 1000),
+    submittedOutputs: Object.fromEntries(
+      toolOutputs.map((toolOutput) => [
+        toolOutput.tool_call_id,
+        toolOutput.output,
+      ]),
+    ),
+  };
+
+  try {
+    const res = tracedMethod(...args);
+
+    if (isAssistantStream(res)) {
+      traceAssistantStream(res, context);
+
+      return res;
+    }
+
+    if (res instanceof Promise) {
+      return res
+        .then((run: Record<string, any>) => {
+          const endTime = new Date();
+
+          listRunSteps(runs, run)
+            .catch((err) => {
+              getGlobalLogger().warn(
+                "Failed to list OpenAI run steps for tracing",
+                err,
+              );
+
+              return [];
+            })
+            .then((steps) => endRun(context, run, steps, endTime));
+
+          return run;
+        })
+        .catch((err) => {
+          agent
+            .update({
+              statusMessage: String(err),
+              level: "ERROR",
+            })
+            .end();
+
+          throw err;
+        });
+    }
+
+    agent.update({ output: res }).end();
+
+    return res;
+  } catch (error) {
+    agent
+      .update({
+        statusMessage: String(error),
+        level: "ERROR",
+      })
+      .end();
+
+    throw error;
+  }
+};
+
+function isAssistantStream(
+  res: unknown,
+): res is { on: (event: string, listener: (arg: any) => void) => unknown } {
+  return (
+    res instanceof Object &&
+    "on" in res &&
+    typeof res.on === "function" &&
+    "finalRun" in res &&
+    typeof res.finalRun === "function"
+  );
+}
+
+async function listRunSteps(
+  runs: Record<string, any>,
+  run: Record<string, any>,
+): Promise<Record<string, any>[]> {
+  const steps: Record<string, any>[] = [];
+
+  for await (const step of runs.steps.list(run.id, {
+    thread_id: run.thread_id,
+    order: "asc",
+  })) {
+    steps.push(step);
+  }
+
+  return steps;
+}
+
+/**
+ * Collects the run and its run steps from the events of an assistant stream
+ * and ends the agent once the stream ends, without consuming the stream.
+ *
+ * @internal
+ */
+function traceAssistantStream(
+  stream: {
+    on: (event: string, listener: (arg: any) => void) => unknown;
+    errored?: boolean;
+    aborted?: boolean;
+  },
+  context: RunContext,
+): void {
+  const steps = new Map<string, Record<string, any>>();
+  let run: Record<string, any> = {};
+
+  stream.on("event", ({ event, data }: { event: string; data: any }) => {
+    if (event.startsWith("thread.run.step.")) {
+      if (event !== "thread.run.step.delta") {
+        steps.set(data.id, data);
+      }
+    } else if (event.startsWith("thread.run.")) {
+      run = data;
+    }
+  });
+
+  // Listening to `error` or `abort` would stop the SDK from raising unhandled
+  // errors for callers without error handling, so the outcome is read on `end`
+  stream.on("end", () => {
+    if (stream.errored || stream.aborted) {
+      context.agent
+        .update({
+          statusMessage: stream.aborted ? "Stream aborted" : "Stream errored",
+          level: "ERROR",
+        })
+        .end();
+    } else {
+      endRun(context, run, [...steps.values()], new Date());
+    }
+  });
+}
+
+/**
+ * Adds the run steps of the traced call to the agent, aggregates their usage
+ * and ends the agent with the state of the run.
+ *
+ * Each run step is traced by the call during which it ended. Run steps still
+ * in progress when the run requires action, i.e. tool call steps awaiting
+ * their outputs, are traced by the call submitting the tool outputs.
+ *
+ * @internal
+ */
+function endRun(
+  context: RunContext,
+  run: Record<string, any>,
+  steps: Record<string, any>[],
+  endTime: Date,
+): void {
+  const { agent, callStart, submittedOutputs } = context;
+  const parentSpanContext = agent.otelSpan.spanContext();
+  const usage: Record<string, number> = {};
+
+  for (const step of steps) {
+    const stepEndTime = getRunStepEndTime(step);
+    const isEndedDuringCall =
+      stepEndTime !== undefined
+        ? stepEndTime >= callStart * 1000
+        : run.status !== "requires_action";
+
+    if (!isEndedDuringCall) {
+      continue;
+    }
+
+    const startTime = new Date(step.created_at * 1000);
+    const usageDetails = step.usage ? parseUsageDetails(step.usage) : undefined;
+
+    for (const [key, value] of Object.entries(usageDetails ?? {})) {
+      usage[key] = (usage[key] ?? 0) + value;
+    }
+
+    startObservation(
+      step.type,
+      {
+        model: run.model,
+        output: step.step_details,
+        usageDetails,
+        metadata: { step_id: step.id, status: step.status },
+        ...(step.status === "failed"
+          ? { level: "ERROR", statusMessage: step.last_error?.message }
+          : {}),
+      },
+      { asType: "generation", parentSpanContext, startTime },
+    ).end(stepEndTime ?? endTime);
+
+    for (const toolCall of step.step_details?.tool_calls ?? []) {
+      const { name, input, output } = parseRunToolCall(
+        toolCall,
+        submittedOutputs,
+      );
+
+      startObservation(
+        name,
+        { input, output, metadata: { tool_call_id: toolCall.id } },
+        { asType: "tool", parentSpanContext, startTime },
+      ).end(stepEndTime ?? endTime);
+    }
+  }
+
+  const { output, metadata } = parseRunOutput(run);
+
+  agent
+    .update({
+      output,
+      metadata: {
+        ...metadata,
+        usage: Object.keys(usage).length > 0 ? usage : undefined,
+      },
+      ...(FAILED_RUN_STATUSES.includes(run.status)
+        ? {
+            level: "ERROR",
+            statusMessage: run.last_error?.message ?? `Run ${run.status}`,
+          }
+        : {}),
+    })
+    .end(endTime);
+}
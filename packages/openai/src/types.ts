@@ -35,5 +35,14 @@ export type ElasticDashConfig = {
     isFallback: boolean;
   };
 
+  /**
+   * Whether to trace each tool call requested by the model as a tool
+   * observation below the generation. The observation is created with the
+   * tool result once a follow-up request sends it, spanning from the end of
+   * the generation to the follow-up request. Tool calls whose result is not
+   * sent within 5 minutes are not traced. Defaults to false.
+   */
+  traceToolCalls?: boolean;
+
   isProd?: boolean;
 };
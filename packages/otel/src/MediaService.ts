@@ -3,17 +3,145 @@ import {
   ElasticDashMedia,
   ElasticDashOtelSpanAttributes,
   Logger,
+  MediaContentType,
   base64ToBytes,
   getGlobalLogger,
 } from "@elasticdash/core";
 import { ReadableSpan } from "@opentelemetry/sdk-trace-base";
 
+import {
+  ExtractedMedia,
+  MediaExtractor,
+  VERCEL_AI_MEDIA_ATTRIBUTES,
+  defaultMediaExtractors,
+} from "./media-extractors.js";
+
+/**
+ * Reason why a media item was not uploaded and replaced by a placeholder.
+ *
+ * - **size_limit**: The media is larger than `maxMediaBytes`
+ * - **queue_full**: The upload queue already holds `maxQueuedUploads` items
+ *
+ * @public
+ */
+export type MediaDropReason = "size_limit" | "queue_full";
+
+/**
+ * Configuration of media uploads in the ElasticDashSpanProcessor.
+ *
+ * @public
+ */
+export interface MediaUploadParams {
+  /**
+   * Maximum number of media uploads running in parallel.
+   * @defaultValue 4
+   */
+  maxConcurrentUploads?: number;
+
+  /**
+   * Maximum number of media uploads waiting for a free upload slot. Media
+   * found while the queue is full is replaced by a placeholder.
+   * @defaultValue 100
+   */
+  maxQueuedUploads?: number;
+
+  /**
+   * Maximum decoded size of a media item in bytes. Larger media is replaced
+   * by a placeholder instead of being uploaded.
+   * @defaultValue 20971520 (20 MB)
+   */
+  maxMediaBytes?: number;
+
+  /**
+   * Function creating the placeholder replacing media that is not uploaded.
+   * Defaults to `[media omitted: type=<contentType>|bytes=<sizeBytes>|reason=<reason>]`.
+   */
+  placeholder?: (params: {
+    contentType?: string;
+    sizeBytes: number;
+    reason: MediaDropReason;
+  }) => string;
+}
+
+/**
+ * Counters of media handled by the ElasticDashSpanProcessor since it was
+ * created, and the current state of the upload queue.
+ *
+ * @public
+ */
+export interface MediaUploadMetrics {
+  /** Media items scheduled for upload */
+  scheduledUploads: number;
+  /** Media items uploaded successfully */
+  uploadedMedia: number;
+  /** Total size of uploaded media in bytes */
+  uploadedBytes: number;
+  /** Media items linked without uploading them because the same content was already uploaded */
+  deduplicatedMedia: number;
+  /** Media uploads or links that failed */
+  failedUploads: number;
+  /** Media items replaced by a placeholder because of their size */
+  droppedOversizedMedia: number;
+  /** Media items replaced by a placeholder because the queue was full */
+  droppedQueueFullMedia: number;
+  /** Media uploads currently running */
+  activeUploads: number;
+  /** Media uploads currently waiting for a free upload slot */
+  queuedUploads: number;
+}
+
+const DEFAULT_MAX_CONCURRENT_UPLOADS = 4;
+const DEFAULT_MAX_QUEUED_UPLOADS = 100;
+const DEFAULT_MAX_MEDIA_BYTES = 20 * 1024 * 1024;
+const MAX_KNOWN_MEDIA_IDS = 10_000;
+
+type MediaUploadStatus = "uploaded" | "duplicate" | "failed";
+
 export class MediaService {
-  private pendingMediaUploads: Set<Promise<void>> = new Set();
+  private pendingMediaUploads: Set<Promise<boolean>> = new Set();
   private apiClient: ElasticDashAPIClient;
-
-  constructor(params: { apiClient: ElasticDashAPIClient }) {
+  private maxConcurrentUploads: number;
+  private maxQueuedUploads: number;
+  private maxMediaBytes: number;
+  private placeholder: NonNullable<MediaUploadParams["placeholder"]>;
+  private extractors: MediaExtractor[];
+  private activeUploads = 0;
+  private uploadSlotWaiters: (() => void)[] = [];
+  // Uploads by media ID, resolving to whether the content is stored. Media IDs
+  // are content hashes. Insertion order is used to evict the oldest.
+  private knownMediaUploads: Map<string, Promise<boolean>> = new Map();
+  private metrics: Omit<MediaUploadMetrics, "activeUploads" | "queuedUploads"> =
+    {
+      scheduledUploads: 0,
+      uploadedMedia: 0,
+      uploadedBytes: 0,
+      deduplicatedMedia: 0,
+      failedUploads: 0,
+      droppedOversizedMedia: 0,
+      droppedQueueFullMedia: 0,
+    };
+
+  constructor(params: {
+    apiClient: ElasticDashAPIClient;
+    upload?: MediaUploadParams;
+    extractors?: MediaExtractor[];
+  }) {
     this.apiClient = params.apiClient;
+    this.extractors = params.extractors ?? defaultMediaExtractors;
+    this.maxConcurrentUploads = Math.max(
+      1,
+      params.upload?.maxConcurrentUploads ?? DEFAULT_MAX_CONCURRENT_UPLOADS,
+    );
+    this.maxQueuedUploads = Math.max(
+      0,
+      params.upload?.maxQueuedUploads ?? DEFAULT_MAX_QUEUED_UPLOADS,
+    );
+    this.maxMediaBytes =
+      params.upload?.maxMediaBytes ?? DEFAULT_MAX_MEDIA_BYTES;
+    this.placeholder =
+      params.upload?.placeholder ??
+      (({ contentType, sizeBytes, reason }) =>
+        `[media omitted: type=${contentType ?? "unknown"}|bytes=${sizeBytes}|reason=${reason}]`);
   }
 
   get logger(): Logger {
@@ -24,6 +152,14 @@ export class MediaService {
     await Promise.all(Array.from(this.pendingMediaUploads));
   }
 
+  public getMetrics(): MediaUploadMetrics {
+    return {
+      ...this.metrics,
+      activeUploads: this.activeUploads,
+      queuedUploads: this.uploadSlotWaiters.length,
+    };
+  }
+
   public async process(span: ReadableSpan) {
     const mediaAttributes = [
       ElasticDashOtelSpanAttributes.OBSERVATION_INPUT,
@@ -34,173 +170,297 @@ export class MediaService {
       ElasticDashOtelSpanAttributes.TRACE_METADATA,
     ];
 
-    for (const mediaAttribute of mediaAttributes) {
-      const mediaRelevantAttributeKeys = Object.keys(span.attributes).filter(
-        (attributeName) => attributeName.startsWith(mediaAttribute),
+    for (const key of Object.keys(span.attributes)) {
+      const mediaAttribute = mediaAttributes.find((attribute) =>
+        key.startsWith(attribute),
       );
+      const isVercelAIAttribute =
+        span.instrumentationScope.name === "ai" &&
+        VERCEL_AI_MEDIA_ATTRIBUTES.includes(key);
+
+      if (!mediaAttribute && !isVercelAIAttribute) continue;
 
-      for (const key of mediaRelevantAttributeKeys) {
-        const value = span.attributes[key];
+      const value = span.attributes[key];
 
-        if (typeof value !== "string") {
+      if (typeof value !== "string") {
+        if (mediaAttribute) {
           this.logger.warn(
             `Span attribute ${mediaAttribute} is not a stringified object. Skipping media handling.`,
           );
-
-          continue;
         }
 
-        // Find media base64 data URI
-        let mediaReplacedValue = value;
-        const regex = /data:[^;]+;base64,[A-Za-z0-9+/]+=*/g;
-        const foundMedia = [...new Set(value.match(regex) ?? [])];
+        continue;
+      }
 
-        if (foundMedia.length === 0) continue;
+      const foundMedia = this.extractMedia({ span, attributeKey: key, value });
+      if (foundMedia.length === 0) continue;
+
+      const field =
+        isVercelAIAttribute || mediaAttribute?.includes("input")
+          ? "input"
+          : mediaAttribute?.includes("output")
+            ? "output"
+            : "metadata"; // todo: make more robust
+      let mediaReplacedValue = value;
+
+      for (const extractedMedia of foundMedia) {
+        // For each media, create media tag and initiate upload
+        const replacement = await this.handleMediaItem({
+          span,
+          field,
+          extractedMedia,
+        });
 
-        for (const mediaDataUri of foundMedia) {
-          // For each media, create media tag and initiate upload
-          const media = new ElasticDashMedia({
-            base64DataUri: mediaDataUri,
-            source: "base64_data_uri",
-          });
+        if (!replacement) continue;
 
-          const elasticDashMediaTag = await media.getTag();
+        // Replace original attribute with media escaped attribute
+        mediaReplacedValue = mediaReplacedValue.replaceAll(
+          extractedMedia.match,
+          extractedMedia.matchIsJson
+            ? JSON.stringify(replacement)
+            : replacement,
+        );
+      }
 
-          if (!elasticDashMediaTag) {
-            this.logger.warn(
-              "Failed to create ElasticDash media tag. Skipping media item.",
-            );
+      span.attributes[key] = mediaReplacedValue;
+    }
+  }
 
-            continue;
-          }
+  /**
+   * Runs all media extractors on a span attribute. Returns the found media
+   * without duplicates, longest match first so that media contained in a
+   * longer match, e.g. the base64 content of a data URI, is replaced last.
+   */
+  private extractMedia(params: {
+    span: ReadableSpan;
+    attributeKey: string;
+    value: string;
+  }): ExtractedMedia[] {
+    const { span, attributeKey, value } = params;
+    let parsedValue: unknown;
 
-          this.scheduleUpload({
-            span,
-            media,
-            field: mediaAttribute.includes("input")
-              ? "input"
-              : mediaAttribute.includes("output")
-                ? "output"
-                : "metadata", // todo: make more robust
-          });
+    try {
+      parsedValue = JSON.parse(value);
+    } catch {
+      parsedValue = undefined;
+    }
 
-          // Replace original attribute with media escaped attribute
-          mediaReplacedValue = mediaReplacedValue.replaceAll(
-            mediaDataUri,
-            elasticDashMediaTag,
-          );
+    const foundMedia = new Map<string, ExtractedMedia>();
+
+    for (const extractor of this.extractors) {
+      try {
+        for (const media of extractor({
+          span,
+          attributeKey,
+          value,
+          parsedValue,
+        })) {
+          if (!foundMedia.has(media.match)) foundMedia.set(media.match, media);
         }
+      } catch (err) {
+        this.logger.warn(
+          `Media extractor failed for attribute ${attributeKey} of span ${span.spanContext().spanId}`,
+          err,
+        );
+      }
+    }
+
+    return Array.from(foundMedia.values()).sort(
+      (a, b) => b.match.length - a.match.length,
+    );
+  }
+
+  /**
+   * Returns the value replacing a media item in the span attributes: the
+   * media tag if the media is uploaded or was uploaded before, a placeholder
+   * if it is dropped, or null if it should be left unchanged.
+   */
+  private async handleMediaItem(params: {
+    span: ReadableSpan;
+    field: string;
+    extractedMedia: ExtractedMedia;
+  }): Promise<string | null> {
+    const { span, field, extractedMedia } = params;
+    const { contentType, base64Content, contentBytes } = extractedMedia;
+
+    // Check the size before decoding to avoid holding oversized media in memory
+    const sizeBytes =
+      contentBytes?.length ?? estimateBase64Bytes(base64Content ?? "");
+    if (sizeBytes > this.maxMediaBytes) {
+      this.metrics.droppedOversizedMedia++;
+      this.logger.warn(
+        `Media of ${sizeBytes} bytes exceeds the limit of ${this.maxMediaBytes} bytes. Replacing it with a placeholder.`,
+      );
+
+      return this.placeholder({ contentType, sizeBytes, reason: "size_limit" });
+    }
+
+    const media =
+      extractedMedia.source === "base64_data_uri" && base64Content
+        ? new ElasticDashMedia({
+            base64DataUri: `data:${contentType};base64,${base64Content}`,
+            source: "base64_data_uri",
+          })
+        : new ElasticDashMedia({
+            contentType: contentType as MediaContentType,
+            contentBytes: contentBytes ?? base64ToBytes(base64Content ?? ""),
+            source: "bytes",
+          });
+    const [elasticDashMediaTag, mediaId] = await Promise.all([
+      media.getTag(),
+      media.getId(),
+    ]);
+
+    if (!elasticDashMediaTag || !mediaId) {
+      this.logger.warn(
+        "Failed to create ElasticDash media tag. Skipping media item.",
+      );
+
+      return null;
+    }
 
-        span.attributes[key] = mediaReplacedValue;
+    // Known media is still linked to this observation, only the bytes are not
+    // uploaded again
+    const knownMediaUpload = this.knownMediaUploads.get(mediaId);
+    const isKnownMedia = knownMediaUpload !== undefined;
+
+    if (
+      this.pendingMediaUploads.size >=
+      this.maxConcurrentUploads + this.maxQueuedUploads
+    ) {
+      if (isKnownMedia) {
+        this.logger.warn(
+          `Media upload queue is full with ${this.pendingMediaUploads.size} pending uploads. Skipping the link of media ${mediaId} to field ${field}.`,
+        );
+
+        return elasticDashMediaTag;
       }
+
+      this.metrics.droppedQueueFullMedia++;
+      this.logger.warn(
+        `Media upload queue is full with ${this.pendingMediaUploads.size} pending uploads. Replacing media with a placeholder.`,
+      );
+
+      return this.placeholder({ contentType, sizeBytes, reason: "queue_full" });
     }
 
-    // Handle media from Vercel AI SDK
-    if (span.instrumentationScope.name === "ai") {
-      const aiSDKMediaAttributes = ["ai.prompt.messages", "ai.prompt"];
+    if (isKnownMedia) {
+      this.logger.debug(
+        `Media status: Media with ID ${mediaId} already scheduled for upload. Linking it once the upload finished.`,
+      );
+    }
 
-      for (const mediaAttribute of aiSDKMediaAttributes) {
-        const value = span.attributes[mediaAttribute];
+    const upload = this.scheduleUpload({
+      span,
+      media,
+      mediaId,
+      field,
+      previousUpload: knownMediaUpload,
+    });
 
-        if (!value || typeof value !== "string") {
-          continue;
-        }
+    if (!isKnownMedia) {
+      this.rememberMediaUpload(mediaId, upload);
+    }
 
-        // Find media base64 data URI
-        let mediaReplacedValue = value;
+    return elasticDashMediaTag;
+  }
 
-        try {
-          const parsed = JSON.parse(value);
-
-          if (Array.isArray(parsed)) {
-            for (const message of parsed) {
-              if (Array.isArray(message["content"])) {
-                const contentParts = message["content"];
-
-                for (const part of contentParts) {
-                  if (part["type"] === "file") {
-                    let base64Content: string | null = null;
-                    // FilePart
-                    if (part["data"] != null && part["mediaType"] != null) {
-                      base64Content = part["data"];
-                    }
-
-                    //ImagePart
-                    if (
-                      part["image"] != null &&
-                      part["mediaType"] != null &&
-                      !part["image"].startsWith("http") // skip URLs
-                    ) {
-                      base64Content = part["image"];
-                    }
-
-                    if (!base64Content) continue;
-
-                    const media = new ElasticDashMedia({
-                      contentType: part["mediaType"],
-                      contentBytes: base64ToBytes(base64Content),
-                      source: "bytes",
-                    });
-
-                    const elasticDashMediaTag = await media.getTag();
-
-                    if (!elasticDashMediaTag) {
-                      this.logger.warn(
-                        "Failed to create ElasticDash media tag. Skipping media item.",
-                      );
-
-                      continue;
-                    }
-
-                    this.scheduleUpload({
-                      span,
-                      media,
-                      field: "input",
-                    });
-
-                    // Replace original attribute with media escaped attribute
-                    mediaReplacedValue = mediaReplacedValue.replaceAll(
-                      base64Content,
-                      elasticDashMediaTag,
-                    );
-                  }
-                }
-              }
-            }
-          }
+  private rememberMediaUpload(mediaId: string, upload: Promise<boolean>): void {
+    this.knownMediaUploads.set(mediaId, upload);
 
-          span.attributes[mediaAttribute] = mediaReplacedValue;
-        } catch (err) {
-          this.logger.warn(
-            `Failed to handle media for AI SDK attribute ${mediaAttribute} for span ${span.spanContext().spanId}`,
-            err,
-          );
-        }
+    if (this.knownMediaUploads.size > MAX_KNOWN_MEDIA_IDS) {
+      const oldestMediaId = this.knownMediaUploads.keys().next().value;
+      if (oldestMediaId !== undefined) {
+        this.knownMediaUploads.delete(oldestMediaId);
       }
     }
   }
 
+  /**
+   * Registers the media for a field of the span and uploads its content.
+   *
+   * If an earlier upload of the same content is given, waits for it and only
+   * links the media if it succeeded, or uploads the content again if it
+   * failed, so linked observations never point to media without content.
+   *
+   * @returns Promise resolving to whether the media content is stored
+   */
   private scheduleUpload(params: {
     span: ReadableSpan;
     field: string;
     media: ElasticDashMedia;
-  }) {
-    const { span, field, media } = params;
+    mediaId: string;
+    previousUpload?: Promise<boolean>;
+  }): Promise<boolean> {
+    const { span, field, media, mediaId, previousUpload } = params;
+
+    const uploadPromise: Promise<boolean> = (
+      previousUpload ?? Promise.resolve(false)
+    )
+      .then(async (isStored) => {
+        const uploadContent = !isStored;
+        if (uploadContent) this.metrics.scheduledUploads++;
+
+        await this.acquireUploadSlot();
+
+        const status = await this.handleUpload({
+          media,
+          traceId: span.spanContext().traceId,
+          observationId: span.spanContext().spanId,
+          field,
+          uploadContent,
+        }).finally(() => this.releaseUploadSlot());
+
+        if (status === "uploaded") {
+          this.metrics.uploadedMedia++;
+          this.metrics.uploadedBytes += media.contentLength ?? 0;
+        } else if (status === "duplicate") {
+          this.metrics.deduplicatedMedia++;
+        } else {
+          this.metrics.failedUploads++;
+
+          // Allow later spans with the same content to retry the upload
+          if (this.knownMediaUploads.get(mediaId) === uploadPromise) {
+            this.knownMediaUploads.delete(mediaId);
+          }
+        }
 
-    const uploadPromise: Promise<void> = this.handleUpload({
-      media,
-      traceId: span.spanContext().traceId,
-      observationId: span.spanContext().spanId,
-      field,
-    }).catch((err) => {
-      this.logger.error("Media upload failed with error: ", err);
-    });
+        return status !== "failed";
+      })
+      .catch((err) => {
+        this.logger.error("Media upload failed with error: ", err);
+
+        return false;
+      });
 
     this.pendingMediaUploads.add(uploadPromise);
 
     uploadPromise.finally(() => {
       this.pendingMediaUploads.delete(uploadPromise);
     });
+
+    return uploadPromise;
+  }
+
+  private async acquireUploadSlot(): Promise<void> {
+    if (this.activeUploads < this.maxConcurrentUploads) {
+      this.activeUploads++;
+
+      return;
+    }
+
+    // The releasing upload hands its slot over to the waiter
+    await new Promise<void>((resolve) => this.uploadSlotWaiters.push(resolve));
+  }
+
+  private releaseUploadSlot(): void {
+    const nextWaiter = this.uploadSlotWaiters.shift();
+
+    if (nextWaiter) {
+      nextWaiter();
+    } else {
+      this.activeUploads--;
+    }
   }
 
   private async handleUpload({
@@ -208,12 +468,14 @@ export class MediaService {
     traceId,
     observationId,
     field,
+    uploadContent,
   }: {
     media: ElasticDashMedia;
     traceId: string;
     observationId?: string;
     field: string;
-  }): Promise<void> {
+    uploadContent: boolean;
+  }): Promise<MediaUploadStatus> {
     try {
       const contentSha256Hash = await media.getSha256Hash();
 
@@ -223,7 +485,7 @@ export class MediaService {
         !contentSha256Hash ||
         !media._contentBytes
       ) {
-        return;
+        return "failed";
       }
 
       const { uploadUrl, mediaId } = await this.apiClient.media.getUploadUrl({
@@ -240,7 +502,15 @@ export class MediaService {
           `Media status: Media with ID ${mediaId} already uploaded. Skipping duplicate upload.`,
         );
 
-        return;
+        return "duplicate";
+      }
+
+      if (!uploadContent) {
+        this.logger.debug(
+          `Media status: Media with ID ${mediaId} is uploaded by an earlier span. Skipping duplicate upload.`,
+        );
+
+        return "duplicate";
       }
 
       const clientSideMediaId = await media.getId();
@@ -249,7 +519,7 @@ export class MediaService {
           `Media integrity error: Media ID mismatch between SDK (${clientSideMediaId}) and Server (${mediaId}). Upload cancelled. Please check media ID generation logic.`,
         );
 
-        return;
+        return "failed";
       }
 
       this.logger.debug(`Uploading media ${mediaId}...`);
@@ -277,8 +547,12 @@ export class MediaService {
       });
 
       this.logger.debug(`Media upload status reported for ${mediaId}`);
+
+      return uploadResponse.ok ? "uploaded" : "failed";
     } catch (err) {
       this.logger.error(`Error processing media item: ${err}`);
+
+      return "failed";
     }
   }
 
@@ -349,3 +623,13 @@ export class MediaService {
     }
   }
 }
+
+function estimateBase64Bytes(base64Content: string): number {
+  const padding = base64Content.endsWith("==")
+    ? 2
+    : base64Content.endsWith("=")
+      ? 1
+      : 0;
+
+  return Math.floor((base64Content.length * 3) / 4) - padding;
+}
@@ -0,0 +1,303 @@
+import { ElasticDashOtelSpanAttributes } from "@elasticdash/core";
+import { Attributes } from "@opentelemetry/api";
+import {
+  ExportResult,
+  ExportResultCode,
+  hrTimeToMilliseconds,
+} from "@opentelemetry/core";
+import { ReadableSpan, SpanExporter } from "@opentelemetry/sdk-trace-base";
+
+/**
+ * Span exporter rendering each completed trace as an indented tree in the
+ * terminal, for local development.
+ *
+ * Spans are buffered per trace until the local root span is exported, then
+ * the trace is printed with observation types, durations, models, token
+ * usage, costs, levels and truncated input and output. Traces whose root
+ * span has not been exported yet are printed on flush and shutdown, or as soon
+ * as more than `maxPendingSpans` spans are buffered, oldest trace first.
+ *
+ * Selected by the ElasticDashSpanProcessor with `exportMode: "console"` or
+ * the `ELASTICDASH_EXPORT_MODE=console` environment variable.
+ *
+ * @example
+ * ```typescript
+ * const processor = new ElasticDashSpanProcessor({ exportMode: 'console' });
+ *
+ * // Trace answer-question · 1.52s · user: user-1 · id: 4bf92f3577b34da6a3ce929d0e0e4736
+ * // └─ span answer-question · 1.52s
+ * //    ├─ retriever retrieve · 120ms
+ * //    │    output: ["doc-1"]
+ * //    └─ generation llm-call · 1.20s · gpt-4o · tokens input=12 output=30 · cost $0.00042
+ * //         input: What is ElasticDash?
+ * ```
+ *
+ * @public
+ */
+export class ConsoleTreeSpanExporter implements SpanExporter {
+  private write: (text: string) => void;
+  private maxValueLength: number;
+  private maxPendingSpans: number;
+  private pendingSpans = new Map<string, ReadableSpan[]>();
+  private pendingSpanCount = 0;
+
+  /**
+   * Creates a new ConsoleTreeSpanExporter instance.
+   *
+   * @param params - Optional configuration
+   * @param params.write - Function writing a rendered trace (default: `console.log`)
+   * @param params.maxValueLength - Maximum length of rendered input and output values (default: 120)
+   * @param params.maxPendingSpans - Maximum number of spans buffered for traces without an exported root (default: 10000)
+   */
+  constructor(params?: {
+    write?: (text: string) => void;
+    maxValueLength?: number;
+    maxPendingSpans?: number;
+  }) {
+    this.write = params?.write ?? ((text) => console.log(text));
+    this.maxValueLength = params?.maxValueLength ?? 120;
+    this.maxPendingSpans = params?.maxPendingSpans ?? 10_000;
+  }
+
+  /**
+   * Buffers the spans and prints every trace whose root span was exported.
+   *
+   * @override
+   */
+  public export(
+    spans: ReadableSpan[],
+    resultCallback: (result: ExportResult) => void,
+  ): void {
+    const completedTraceIds = new Set<string>();
+
+    for (const span of spans) {
+      const traceId = span.spanContext().traceId;
+      const traceSpans = this.pendingSpans.get(traceId) ?? [];
+
+      traceSpans.push(span);
+      this.pendingSpans.set(traceId, traceSpans);
+      this.pendingSpanCount++;
+
+      if (!span.parentSpanContext || span.parentSpanContext.isRemote) {
+        completedTraceIds.add(traceId);
+      }
+    }
+
+    try {
+      for (const traceId of completedTraceIds) {
+        this.printTrace(traceId);
+      }
+
+      // Print the oldest incomplete traces to bound the buffer
+      for (const traceId of Array.from(this.pendingSpans.keys())) {
+        if (this.pendingSpanCount <= this.maxPendingSpans) break;
+
+        this.printTrace(traceId);
+      }
+
+      resultCallback({ code: ExportResultCode.SUCCESS });
+    } catch (err) {
+      resultCallback({ code: ExportResultCode.FAILED, error: err as Error });
+    }
+  }
+
+  /**
+   * Prints all buffered traces, including traces without an exported root.
+   *
+   * @override
+   */
+  public async forceFlush(): Promise<void> {
+    for (const traceId of Array.from(this.pendingSpans.keys())) {
+      this.printTrace(traceId);
+    }
+  }
+
+  /** @override */
+  public async shutdown(): Promise<void> {
+    await this.forceFlush();
+  }
+
+  /**
+   * Renders spans of a trace as an indented tree.
+   *
+   * @param spans - The spans of the trace
+   * @returns The rendered trace
+   */
+  public renderTrace(spans: ReadableSpan[]): string {
+    const sortedSpans = [...spans].sort(
+      (a, b) =>
+        hrTimeToMilliseconds(a.startTime) - hrTimeToMilliseconds(b.startTime),
+    );
+    const spanIds = new Set(
+      sortedSpans.map((span) => span.spanContext().spanId),
+    );
+    const children = new Map<string, ReadableSpan[]>();
+    const roots: ReadableSpan[] = [];
+
+    for (const span of sortedSpans) {
+      const parentId = span.parentSpanContext?.spanId;
+
+      if (parentId && spanIds.has(parentId)) {
+        children.set(parentId, [...(children.get(parentId) ?? []), span]);
+      } else {
+        roots.push(span);
+      }
+    }
+
+    const lines = [this.renderTraceHeader(sortedSpans, roots)];
+    const renderSpan = (
+      span: ReadableSpan,
+      prefix: string,
+      isLast: boolean,
+    ) => {
+      const childPrefix = prefix + (isLast ? "   " : "│  ");
+      const spanChildren = children.get(span.spanContext().spanId) ?? [];
+
+      lines.push(`${prefix}${isLast ? "└─" : "├─"} ${this.renderSpan(span)}`);
+
+      for (const [label, key] of [
+        ["input", ElasticDashOtelSpanAttributes.OBSERVATION_INPUT],
+        ["output", ElasticDashOtelSpanAttributes.OBSERVATION_OUTPUT],
+      ] as const) {
+        const value = span.attributes[key];
+
+        if (value !== undefined) {
+          lines.push(
+            `${childPrefix}${spanChildren.length > 0 ? "│" : " "} ${label}: ${this.truncate(String(value))}`,
+          );
+        }
+      }
+
+      spanChildren.forEach((child, index) =>
+        renderSpan(child, childPrefix, index === spanChildren.length - 1),
+      );
+    };
+
+    roots.forEach((root, index) =>
+      renderSpan(root, "", index === roots.length - 1),
+    );
+
+    return lines.join("\n");
+  }
+
+  private printTrace(traceId: string): void {
+    const spans = this.pendingSpans.get(traceId);
+    this.pendingSpans.delete(traceId);
+    this.pendingSpanCount -= spans?.length ?? 0;
+
+    if (spans && spans.length > 0) {
+      this.write(this.renderTrace(spans));
+    }
+  }
+
+  private renderTraceHeader(
+    spans: ReadableSpan[],
+    roots: ReadableSpan[],
+  ): string {
+    const findAttribute = (...keys: ElasticDashOtelSpanAttributes[]) =>
+      spans
+        .flatMap((span) => keys.map((key) => span.attributes[key]))
+        .find((value) => value !== undefined);
+
+    const name =
+      findAttribute(ElasticDashOtelSpanAttributes.TRACE_NAME) ?? roots[0]?.name;
+    const userId = findAttribute(
+      ElasticDashOtelSpanAttributes.TRACE_USER_ID,
+      ElasticDashOtelSpanAttributes.TRACE_COMPAT_USER_ID,
+    );
+    const sessionId = findAttribute(
+      ElasticDashOtelSpanAttributes.TRACE_SESSION_ID,
+      ElasticDashOtelSpanAttributes.TRACE_COMPAT_SESSION_ID,
+    );
+    const startMs = Math.min(
+      ...spans.map((span) => hrTimeToMilliseconds(span.startTime)),
+    );
+    const endMs = Math.max(
+      ...spans.map((span) => hrTimeToMilliseconds(span.endTime)),
+    );
+
+    return [
+      `Trace ${name}`,
+      formatDuration(endMs - startMs),
+      userId !== undefined ? `user: ${userId}` : undefined,
+      sessionId !== undefined ? `session: ${sessionId}` : undefined,
+      `id: ${spans[0].spanContext().traceId}`,
+    ]
+      .filter(Boolean)
+      .join(" · ");
+  }
+
+  private renderSpan(span: ReadableSpan): string {
+    const attributes = span.attributes;
+    const level = attributes[ElasticDashOtelSpanAttributes.OBSERVATION_LEVEL];
+    const statusMessage =
+      attributes[ElasticDashOtelSpanAttributes.OBSERVATION_STATUS_MESSAGE];
+    const usage = parseNumberRecord(
+      attributes,
+      ElasticDashOtelSpanAttributes.OBSERVATION_USAGE_DETAILS,
+    );
+    const cost = parseNumberRecord(
+      attributes,
+      ElasticDashOtelSpanAttributes.OBSERVATION_COST_DETAILS,
+    );
+    const totalCost = cost
+      ? (cost.total ??
+        Object.values(cost).reduce((sum, value) => sum + value, 0))
+      : undefined;
+
+    return [
+      `${attributes[ElasticDashOtelSpanAttributes.OBSERVATION_TYPE] ?? "span"} ${span.name}`,
+      formatDuration(hrTimeToMilliseconds(span.duration)),
+      attributes[ElasticDashOtelSpanAttributes.OBSERVATION_MODEL],
+      usage
+        ? `tokens ${Object.entries(usage)
+            .map(([key, value]) => `${key}=${value}`)
+            .join(" ")}`
+        : undefined,
+      totalCost !== undefined ? `cost $${formatCost(totalCost)}` : undefined,
+      level !== undefined && level !== "DEFAULT"
+        ? `${level}${statusMessage !== undefined ? `: ${statusMessage}` : ""}`
+        : undefined,
+    ]
+      .filter((part) => part !== undefined && part !== "")
+      .join(" · ");
+  }
+
+  private truncate(value: string): string {
+    const singleLine = value.replace(/\s+/g, " ").trim();
+
+    return singleLine.length > this.maxValueLength
+      ? `${singleLine.slice(0, this.maxValueLength)}…`
+      : singleLine;
+  }
+}
+
+function formatDuration(durationMs: number): string {
+  return durationMs < 1_000
+    ? `${Math.round(durationMs)}ms`
+    : `${(durationMs / 1_000).toFixed(2)}s`;
+}
+
+function formatCost(cost: number): string {
+  // Cents for amounts of a dollar or more, two significant digits below
+  if (Math.abs(cost) >= 1) return cost.toFixed(2);
+  if (Math.abs(cost) < 1e-6) return cost.toFixed(6);
+
+  return String(Number(cost.toPrecision(2)));
+}
+
+function parseNumberRecord(
+  attributes: Attributes,
+  key: ElasticDashOtelSpanAttributes,
+): Record<string, number> | undefined {
+  const value = attributes[key];
+  if (typeof value !== "string") return undefined;
+
+  try {
+    const parsed = JSON.parse(value);
+
+    return parsed !== null && typeof parsed === "object" ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -1 +1,13 @@
 export * from "./span-processor.js";
+export type {
+  MediaDropReason,
+  MediaUploadMetrics,
+  MediaUploadParams,
+} from "./MediaService.js";
+export * from "./media-extractors.js";
+export * from "./tail-sampling.js";
+export * from "./sampler.js";
+export * from "./redaction.js";
+export * from "./span-spool.js";
+export * from "./jsonl-exporter.js";
+export * from "./console-exporter.js";
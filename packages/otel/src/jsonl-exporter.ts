@@ -0,0 +1,344 @@
+import {
+  OtelAttribute,
+  OtelAttributeValue,
+  OtelResource,
+  OtelScopeSpan,
+  OtelTraceRequest,
+  getGlobalLogger,
+} from "@elasticdash/core";
+import { Attributes, AttributeValue, HrTime } from "@opentelemetry/api";
+import { ExportResult, ExportResultCode } from "@opentelemetry/core";
+import { ReadableSpan, SpanExporter } from "@opentelemetry/sdk-trace-base";
+
+import { SerializedSpan, serializeSpan } from "./span-spool.js";
+
+/**
+ * Default directory for JSONL span files, relative to the current working
+ * directory.
+ *
+ * @public
+ */
+export const DEFAULT_JSONL_SPAN_DIRECTORY = ".elasticdash/spans";
+
+const JSONL_FILE_PREFIX = "spans-";
+const JSONL_FILE_EXTENSION = ".jsonl";
+
+/**
+ * Span exporter writing spans as JSON lines to local files.
+ *
+ * Use it as `exporter` of the ElasticDashSpanProcessor to keep traces on disk,
+ * e.g. in air-gapped environments or for debugging. Spans are written after
+ * masking, redaction and media processing, so the files contain exactly what
+ * would have been sent to ElasticDash. Each line is a serialized span.
+ *
+ * A new file is started when the current file exceeds `maxFileBytes`. When
+ * more than `maxFiles` files exist, the oldest files are deleted.
+ *
+ * The files can be replayed into an ElasticDash instance with
+ * `elasticdash replay <directory>` from `@elasticdash/cli`.
+ * Writing requires a runtime with a Node.js compatible `fs` module.
+ *
+ * @example
+ * ```typescript
+ * import { ElasticDashSpanProcessor, JsonlSpanExporter } from '@elasticdash/otel';
+ *
+ * const processor = new ElasticDashSpanProcessor({
+ *   exporter: new JsonlSpanExporter({
+ *     directory: '/var/log/elasticdash',
+ *     maxFileBytes: 5 * 1024 * 1024,
+ *   }),
+ * });
+ * ```
+ *
+ * @public
+ */
+export class JsonlSpanExporter implements SpanExporter {
+  private directory: string;
+  private maxFileBytes: number;
+  private maxFiles: number | undefined;
+
+  private currentFile: string | null = null;
+  private currentFileBytes = 0;
+  private sequence = 0;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private isShutdown = false;
+
+  /**
+   * Creates a new JsonlSpanExporter instance.
+   *
+   * @param params - Optional configuration
+   * @param params.directory - Directory to write span files to (default: ".elasticdash/spans")
+   * @param params.maxFileBytes - Size in bytes after which a new file is started (default: 10 MB)
+   * @param params.maxFiles - Maximum number of files to keep. Unlimited if not set.
+   */
+  constructor(params?: {
+    directory?: string;
+    maxFileBytes?: number;
+    maxFiles?: number;
+  }) {
+    this.directory = params?.directory ?? DEFAULT_JSONL_SPAN_DIRECTORY;
+    this.maxFileBytes = params?.maxFileBytes ?? 10 * 1024 * 1024;
+    this.maxFiles = params?.maxFiles;
+  }
+
+  /**
+   * Appends the spans to the current span file.
+   *
+   * @override
+   */
+  public export(
+    spans: ReadableSpan[],
+    resultCallback: (result: ExportResult) => void,
+  ): void {
+    if (this.isShutdown) {
+      resultCallback({
+        code: ExportResultCode.FAILED,
+        error: new Error("JsonlSpanExporter is shut down"),
+      });
+
+      return;
+    }
+
+    const lines = spans
+      .map((span) => JSON.stringify(serializeSpan(span)) + "\n")
+      .join("");
+
+    this.writeQueue = this.writeQueue
+      .then(() => this.write(lines))
+      .then(() => resultCallback({ code: ExportResultCode.SUCCESS }))
+      .catch((err) => {
+        getGlobalLogger().error("Failed to write spans to JSONL file:", err);
+
+        resultCallback({ code: ExportResultCode.FAILED, error: err });
+      });
+  }
+
+  /**
+   * Waits for all pending writes to finish.
+   *
+   * @override
+   */
+  public async forceFlush(): Promise<void> {
+    await this.writeQueue;
+  }
+
+  /**
+   * Waits for all pending writes to finish and rejects further exports.
+   *
+   * @override
+   */
+  public async shutdown(): Promise<void> {
+    this.isShutdown = true;
+
+    await this.writeQueue;
+  }
+
+  private async write(lines: string): Promise<void> {
+    if (!this.currentFile || this.currentFileBytes >= this.maxFileBytes) {
+      await this.rotate();
+    }
+
+    const fs = await import("node:fs/promises");
+
+    await fs.appendFile(this.currentFile!, lines, "utf8");
+    this.currentFileBytes += new TextEncoder().encode(lines).length;
+  }
+
+  private async rotate(): Promise<void> {
+    const fs = await import("node:fs/promises");
+
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const sequence = (this.sequence++).toString().padStart(6, "0");
+
+    this.currentFile = joinPath(
+      this.directory,
+      `${JSONL_FILE_PREFIX}${timestamp}-${sequence}${JSONL_FILE_EXTENSION}`,
+    );
+    this.currentFileBytes = 0;
+
+    if (this.maxFiles !== undefined) {
+      const files = await listJsonlSpanFiles(this.directory);
+      const filesToDelete = files.slice(
+        0,
+        Math.max(0, files.length - this.maxFiles + 1),
+      );
+
+      await Promise.all(
+        filesToDelete.map((file) => fs.rm(file, { force: true })),
+      );
+    }
+  }
+}
+
+/**
+ * Lists the span files in a directory written by the {@link JsonlSpanExporter},
+ * oldest first.
+ *
+ * @param directory - The directory to list
+ * @returns Promise resolving to the file paths
+ *
+ * @public
+ */
+export async function listJsonlSpanFiles(directory: string): Promise<string[]> {
+  const fs = await import("node:fs/promises");
+
+  return (await fs.readdir(directory))
+    .filter(
+      (fileName) =>
+        fileName.startsWith(JSONL_FILE_PREFIX) &&
+        fileName.endsWith(JSONL_FILE_EXTENSION),
+    )
+    .sort()
+    .map((fileName) => joinPath(directory, fileName));
+}
+
+/**
+ * Reads the spans of a JSONL span file. Empty lines are skipped, and
+ * malformed lines are skipped with a warning, e.g. a line that was
+ * partially written when the process terminated.
+ *
+ * @param path - Path of the JSONL file
+ * @returns Promise resolving to the serialized spans
+ *
+ * @public
+ */
+export async function readJsonlSpanFile(
+  path: string,
+): Promise<SerializedSpan[]> {
+  const fs = await import("node:fs/promises");
+  const spans: SerializedSpan[] = [];
+  const lines = (await fs.readFile(path, "utf8")).split("\n");
+
+  for (const [index, line] of lines.entries()) {
+    if (!line.trim()) continue;
+
+    try {
+      spans.push(JSON.parse(line) as SerializedSpan);
+    } catch (err) {
+      getGlobalLogger().warn(
+        `Skipping malformed line ${index + 1} of ${path}:`,
+        err,
+      );
+    }
+  }
+
+  return spans;
+}
+
+/**
+ * Converts serialized spans to an OTLP/JSON trace export request, e.g. to
+ * replay them with `api.opentelemetry.exportTraces`.
+ *
+ * Spans are grouped by resource and instrumentation scope. Span events and
+ * links are included.
+ *
+ * @param spans - The serialized spans
+ * @returns The trace export request
+ *
+ * @public
+ */
+export function toOtelTraceRequest(spans: SerializedSpan[]): OtelTraceRequest {
+  const resourceSpans = new Map<
+    string,
+    {
+      resource: OtelResource;
+      scopeSpans: Map<string, OtelScopeSpan>;
+    }
+  >();
+
+  for (const span of spans) {
+    const resourceKey = JSON.stringify(span.resource.attributes);
+    let resourceSpan = resourceSpans.get(resourceKey);
+
+    if (!resourceSpan) {
+      resourceSpan = {
+        resource: { attributes: toOtelAttributes(span.resource.attributes) },
+        scopeSpans: new Map(),
+      };
+      resourceSpans.set(resourceKey, resourceSpan);
+    }
+
+    const { name, version } = span.instrumentationScope;
+    const scopeKey = JSON.stringify([name, version]);
+    let scopeSpan = resourceSpan.scopeSpans.get(scopeKey);
+
+    if (!scopeSpan) {
+      scopeSpan = { scope: { name, version }, spans: [] };
+      resourceSpan.scopeSpans.set(scopeKey, scopeSpan);
+    }
+
+    scopeSpan.spans!.push({
+      traceId: span.spanContext.traceId,
+      spanId: span.spanContext.spanId,
+      parentSpanId: span.parentSpanContext?.spanId,
+      name: span.name,
+      // OTLP span kinds are offset by one from the OpenTelemetry API
+      kind: span.kind + 1,
+      startTimeUnixNano: hrTimeToUnixNano(span.startTime),
+      endTimeUnixNano: hrTimeToUnixNano(span.endTime),
+      attributes: toOtelAttributes(span.attributes),
+      status: span.status,
+      events: span.events.map((event) => ({
+        timeUnixNano: hrTimeToUnixNano(event.time),
+        name: event.name,
+        attributes: toOtelAttributes(event.attributes ?? {}),
+        droppedAttributesCount: event.droppedAttributesCount ?? 0,
+      })),
+      links: span.links.map((link) => ({
+        traceId: link.context.traceId,
+        spanId: link.context.spanId,
+        attributes: toOtelAttributes(link.attributes ?? {}),
+      })),
+    });
+  }
+
+  return {
+    resourceSpans: Array.from(resourceSpans.values()).map(
+      ({ resource, scopeSpans }) => ({
+        resource,
+        scopeSpans: Array.from(scopeSpans.values()),
+      }),
+    ),
+  };
+}
+
+function toOtelAttributes(attributes: Attributes): OtelAttribute[] {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => ({ key, value: toOtelAttributeValue(value!) }));
+}
+
+function toOtelAttributeValue(value: AttributeValue): OtelAttributeValue {
+  if (Array.isArray(value)) {
+    return {
+      arrayValue: {
+        values: value
+          .filter((item) => item !== undefined && item !== null)
+          .map((item) => toOtelAttributeValue(item!)),
+      },
+    };
+  }
+
+  switch (typeof value) {
+    case "boolean":
+      return { boolValue: value };
+    case "number":
+      return Number.isInteger(value)
+        ? { intValue: value }
+        : { doubleValue: value };
+    default:
+      return { stringValue: String(value) };
+  }
+}
+
+function hrTimeToUnixNano([seconds, nanos]: HrTime): string {
+  return seconds > 0
+    ? `${seconds}${nanos.toString().padStart(9, "0")}`
+    : nanos.toString();
+}
+
+function joinPath(directory: string, fileName: string): string {
+  return `${directory.replace(/\/+$/, "")}/${fileName}`;
+}
@@ -0,0 +1,405 @@
+import { base64ToBytes } from "@elasticdash/core";
+import { ReadableSpan } from "@opentelemetry/sdk-trace-base";
+
+/**
+ * Media found in a span attribute by a {@link MediaExtractor}.
+ *
+ * @public
+ */
+export interface ExtractedMedia {
+  /** Exact substring of the attribute value replaced by the media reference */
+  match: string;
+  /**
+   * Whether `match` is a JSON value, e.g. a serialized Buffer, that is
+   * replaced by the media reference as JSON string.
+   */
+  matchIsJson?: boolean;
+  /** MIME type of the media, e.g. `image/png` */
+  contentType: string;
+  /** Media content encoded as base64 string */
+  base64Content?: string;
+  /** Media content as bytes, if not provided as `base64Content` */
+  contentBytes?: Uint8Array;
+  /**
+   * Source recorded in the media reference tag.
+   * @defaultValue "bytes"
+   */
+  source?: "base64_data_uri" | "bytes";
+}
+
+/**
+ * Function finding media in a span attribute, e.g. base64 content parts of
+ * a provider SDK. Found media is uploaded to ElasticDash and replaced by a
+ * media reference in the attribute value.
+ *
+ * @param params - Object containing the attribute to search
+ * @param params.span - The span the attribute belongs to
+ * @param params.attributeKey - The attribute key
+ * @param params.value - The attribute value
+ * @param params.parsedValue - The attribute value parsed as JSON, or undefined if it is no JSON
+ * @returns The media found in the attribute
+ *
+ * @example
+ * ```typescript
+ * const pdfExtractor: MediaExtractor = ({ parsedValue }) =>
+ *   parsedValue?.pdfBase64
+ *     ? [{ match: parsedValue.pdfBase64, base64Content: parsedValue.pdfBase64, contentType: 'application/pdf' }]
+ *     : [];
+ *
+ * new ElasticDashSpanProcessor({
+ *   mediaExtractors: [...defaultMediaExtractors, pdfExtractor],
+ * });
+ * ```
+ *
+ * @public
+ */
+export type MediaExtractor = (params: {
+  span: ReadableSpan;
+  attributeKey: string;
+  value: string;
+  parsedValue: unknown;
+}) => ExtractedMedia[];
+
+/**
+ * Finds base64 data URIs such as `data:image/png;base64,...` anywhere in
+ * the attribute value.
+ *
+ * @public
+ */
+export const dataUriMediaExtractor: MediaExtractor = ({ value }) => {
+  const regex = /data:([^;]+);base64,([A-Za-z0-9+/]+=*)/g;
+  const media: ExtractedMedia[] = [];
+
+  for (const [match, contentType, base64Content] of value.matchAll(regex)) {
+    media.push({
+      match,
+      contentType,
+      base64Content,
+      source: "base64_data_uri",
+    });
+  }
+
+  return media;
+};
+
+/**
+ * Finds raw base64 content parts of the OpenAI API, i.e. `input_audio`
+ * parts and `input_image` parts whose `image_url` is no URL.
+ *
+ * @public
+ */
+export const openAIMediaExtractor: MediaExtractor = ({ parsedValue }) => {
+  const media: ExtractedMedia[] = [];
+
+  visitObjects(parsedValue, (part) => {
+    if (part["type"] === "input_audio" && isRecord(part["input_audio"])) {
+      const { data, format } = part["input_audio"];
+
+      if (isRawBase64(data) && typeof format === "string") {
+        media.push({
+          match: data,
+          base64Content: data,
+          contentType: AUDIO_FORMAT_CONTENT_TYPES[format] ?? `audio/${format}`,
+        });
+      }
+    }
+
+    if (part["type"] === "input_image" && isRawBase64(part["image_url"])) {
+      const contentType = sniffBase64ContentType(part["image_url"]);
+
+      if (contentType) {
+        media.push({
+          match: part["image_url"],
+          base64Content: part["image_url"],
+          contentType,
+        });
+      }
+    }
+  });
+
+  return media;
+};
+
+/**
+ * Finds base64 `image` and `document` content blocks of the Anthropic API,
+ * e.g. `{ type: "image", source: { type: "base64", media_type, data } }`.
+ *
+ * @public
+ */
+export const anthropicMediaExtractor: MediaExtractor = ({ parsedValue }) => {
+  const media: ExtractedMedia[] = [];
+
+  visitObjects(parsedValue, (block) => {
+    const source = block["source"];
+
+    if (
+      (block["type"] === "image" || block["type"] === "document") &&
+      isRecord(source) &&
+      source["type"] === "base64" &&
+      isRawBase64(source["data"]) &&
+      typeof source["media_type"] === "string"
+    ) {
+      media.push({
+        match: source["data"],
+        base64Content: source["data"],
+        contentType: source["media_type"],
+      });
+    }
+  });
+
+  return media;
+};
+
+/**
+ * Finds base64 multimodal content blocks of LangChain messages, e.g.
+ * `{ type: "image", source_type: "base64", mime_type, data }` or
+ * `{ type: "audio", mimeType, data }`.
+ *
+ * @public
+ */
+export const langChainMediaExtractor: MediaExtractor = ({ parsedValue }) => {
+  const media: ExtractedMedia[] = [];
+
+  visitObjects(parsedValue, (block) => {
+    const data = block["data"];
+    const contentType = block["mime_type"] ?? block["mimeType"];
+
+    if (
+      ["image", "audio", "file", "video"].includes(block["type"]) &&
+      (block["source_type"] === undefined ||
+        block["source_type"] === "base64") &&
+      isRawBase64(data) &&
+      typeof contentType === "string"
+    ) {
+      media.push({ match: data, base64Content: data, contentType });
+    }
+  });
+
+  return media;
+};
+
+/**
+ * Finds inline data parts of the Google Gen AI SDK, e.g.
+ * `{ inlineData: { mimeType: "image/png", data } }`, and their REST API
+ * equivalent `{ inline_data: { mime_type, data } }`.
+ *
+ * @public
+ */
+export const googleGenAIMediaExtractor: MediaExtractor = ({ parsedValue }) => {
+  const media: ExtractedMedia[] = [];
+
+  visitObjects(parsedValue, (part) => {
+    const inlineData = part["inlineData"] ?? part["inline_data"];
+    if (!isRecord(inlineData)) return;
+
+    const data = inlineData["data"];
+    const contentType = inlineData["mimeType"] ?? inlineData["mime_type"];
+
+    if (isRawBase64(data) && typeof contentType === "string") {
+      media.push({ match: data, base64Content: data, contentType });
+    }
+  });
+
+  return media;
+};
+
+/**
+ * Finds base64 file and image parts in the prompt attributes of the Vercel
+ * AI SDK.
+ *
+ * @public
+ */
+export const vercelAIMediaExtractor: MediaExtractor = ({
+  span,
+  attributeKey,
+  parsedValue,
+}) => {
+  if (
+    span.instrumentationScope.name !== "ai" ||
+    !VERCEL_AI_MEDIA_ATTRIBUTES.includes(attributeKey) ||
+    !Array.isArray(parsedValue)
+  ) {
+    return [];
+  }
+
+  const media: ExtractedMedia[] = [];
+
+  for (const message of parsedValue) {
+    if (!isRecord(message) || !Array.isArray(message["content"])) continue;
+
+    for (const part of message["content"]) {
+      if (
+        !isRecord(part) ||
+        (part["type"] !== "file" && part["type"] !== "image")
+      ) {
+        continue;
+      }
+
+      // FilePart and ImagePart, skipping URLs
+      const base64Content = [part["data"], part["image"]].find(isRawBase64);
+      const contentType =
+        part["mediaType"] ??
+        (base64Content ? sniffBase64ContentType(base64Content) : undefined);
+
+      if (base64Content && typeof contentType === "string") {
+        media.push({ match: base64Content, base64Content, contentType });
+      }
+    }
+  }
+
+  return media;
+};
+
+/**
+ * Finds byte arrays serialized by the ElasticDash SDK as
+ * `{ "type": "Buffer", "base64": "..." }` and Node.js Buffers serialized as
+ * `{ "type": "Buffer", "data": [...] }`. The content type is detected from
+ * the content and defaults to `application/octet-stream`.
+ *
+ * @public
+ */
+export const bytesMediaExtractor: MediaExtractor = ({ parsedValue }) => {
+  const media: ExtractedMedia[] = [];
+
+  visitObjects(parsedValue, (value) => {
+    if (value["type"] !== "Buffer" || Object.keys(value).length !== 2) return;
+
+    const { data, base64 } = value;
+
+    if (typeof base64 === "string" && base64.length > 0) {
+      // The leading 16 base64 characters decode to the bytes needed to sniff
+      media.push({
+        match: JSON.stringify(value),
+        matchIsJson: true,
+        base64Content: base64,
+        contentType:
+          sniffContentType(base64ToBytes(base64.slice(0, 16))) ??
+          "application/octet-stream",
+      });
+    } else if (
+      Array.isArray(data) &&
+      data.length > 0 &&
+      data.every((byte) => typeof byte === "number")
+    ) {
+      const contentBytes = Uint8Array.from(data);
+
+      media.push({
+        match: JSON.stringify(value),
+        matchIsJson: true,
+        contentBytes,
+        contentType:
+          sniffContentType(contentBytes) ?? "application/octet-stream",
+      });
+    }
+  });
+
+  return media;
+};
+
+/**
+ * The media extractors used by the ElasticDashSpanProcessor by default.
+ *
+ * @public
+ */
+export const defaultMediaExtractors: MediaExtractor[] = [
+  dataUriMediaExtractor,
+  openAIMediaExtractor,
+  anthropicMediaExtractor,
+  langChainMediaExtractor,
+  googleGenAIMediaExtractor,
+  vercelAIMediaExtractor,
+  bytesMediaExtractor,
+];
+
+/**
+ * Span attributes of the Vercel AI SDK that may contain media.
+ *
+ * @internal
+ */
+export const VERCEL_AI_MEDIA_ATTRIBUTES = ["ai.prompt.messages", "ai.prompt"];
+
+const AUDIO_FORMAT_CONTENT_TYPES: Record<string, string> = {
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  flac: "audio/flac",
+  opus: "audio/opus",
+  aac: "audio/aac",
+  pcm16: "audio/wav",
+};
+
+// Magic bytes of common media formats, `undefined` matching any byte
+const CONTENT_TYPE_SIGNATURES: [string, (number | undefined)[]][] = [
+  ["image/png", [0x89, 0x50, 0x4e, 0x47]],
+  ["image/jpeg", [0xff, 0xd8, 0xff]],
+  ["image/gif", [0x47, 0x49, 0x46, 0x38]],
+  ["application/pdf", [0x25, 0x50, 0x44, 0x46]],
+  [
+    "image/webp",
+    [
+      0x52,
+      0x49,
+      0x46,
+      0x46,
+      ...Array(4).fill(undefined),
+      0x57,
+      0x45,
+      0x42,
+      0x50,
+    ],
+  ],
+  [
+    "audio/wav",
+    [
+      0x52,
+      0x49,
+      0x46,
+      0x46,
+      ...Array(4).fill(undefined),
+      0x57,
+      0x41,
+      0x56,
+      0x45,
+    ],
+  ],
+  ["audio/mpeg", [0x49, 0x44, 0x33]],
+];
+
+function sniffContentType(bytes: Uint8Array): string | undefined {
+  return CONTENT_TYPE_SIGNATURES.find(([, signature]) =>
+    signature.every(
+      (byte, index) => byte === undefined || bytes[index] === byte,
+    ),
+  )?.[0];
+}
+
+function sniffBase64ContentType(base64Content: string): string | undefined {
+  try {
+    const prefixLength = Math.min(24, base64Content.length);
+
+    return sniffContentType(
+      base64ToBytes(base64Content.slice(0, prefixLength - (prefixLength % 4))),
+    );
+  } catch {
+    return undefined;
+  }
+}
+
+function isRawBase64(value: unknown): value is string {
+  return typeof value === "string" && /^[A-Za-z0-9+/]+=*$/.test(value);
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function visitObjects(
+  value: unknown,
+  visitor: (value: Record<string, any>) => void,
+): void {
+  if (Array.isArray(value)) {
+    value.forEach((item) => visitObjects(item, visitor));
+  } else if (isRecord(value)) {
+    visitor(value);
+    Object.values(value).forEach((item) => visitObjects(item, visitor));
+  }
+}
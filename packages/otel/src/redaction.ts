@@ -0,0 +1,495 @@
+import { getGlobalLogger } from "@elasticdash/core";
+
+import type { MaskFunction } from "./span-processor.js";
+
+/**
+ * Built-in detectors of the redaction engine.
+ *
+ * - **email**: Email addresses
+ * - **phone**: Phone numbers with country code or separators
+ * - **creditCard**: Credit card numbers passing the Luhn check
+ * - **iban**: IBANs passing the mod-97 check
+ * - **apiKey**: API keys of common providers, e.g. `sk-...`, `AKIA...`, `ghp_...`
+ * - **jwt**: JSON Web Tokens
+ *
+ * @public
+ */
+export type RedactionDetector =
+  | "email"
+  | "phone"
+  | "creditCard"
+  | "iban"
+  | "apiKey"
+  | "jwt";
+
+/**
+ * Strategy for replacing detected values.
+ *
+ * - **replace**: Replaces the value with a placeholder, e.g. `[REDACTED_EMAIL]`
+ * - **hash**: Replaces the value with a truncated SHA-256 hash, e.g. `[REDACTED_EMAIL:3f1a9c0b2d4e]`,
+ *   so equal values stay correlatable without being readable
+ * - **partial**: Masks all but the last characters, e.g. `**** **** **** 1111`
+ *
+ * @public
+ */
+export type RedactionStrategy = "replace" | "hash" | "partial";
+
+/**
+ * Custom pattern detected by the redaction engine.
+ *
+ * @public
+ */
+export type RedactionPattern = {
+  /** Name of the pattern used in placeholders and redaction counts */
+  name: string;
+  /** Pattern to detect. Matched globally, the `g` flag is added if missing. */
+  pattern: RegExp;
+  /** Optional check of a match to reduce false positives */
+  validate?: (match: string) => boolean;
+  /** Strategy overriding the default strategy for this pattern */
+  strategy?: RedactionStrategy;
+};
+
+/**
+ * Configuration parameters for the redaction engine.
+ *
+ * @public
+ */
+export interface RedactionParams {
+  /**
+   * Built-in detectors to apply.
+   * @defaultValue all built-in detectors
+   */
+  detectors?: RedactionDetector[];
+
+  /**
+   * Custom patterns to apply after the built-in detectors.
+   */
+  patterns?: RedactionPattern[];
+
+  /**
+   * Default strategy for replacing detected values.
+   * @defaultValue "replace"
+   */
+  strategy?: RedactionStrategy;
+
+  /**
+   * Strategies overriding the default strategy per built-in detector.
+   */
+  strategies?: Partial<Record<RedactionDetector, RedactionStrategy>>;
+
+  /**
+   * Salt prepended to values before hashing with the `hash` strategy.
+   */
+  hashSalt?: string;
+
+  /**
+   * Number of trailing characters left visible with the `partial` strategy.
+   * @defaultValue 4
+   */
+  partialVisibleChars?: number;
+
+  /**
+   * Whether the span processor reports redaction counts in the observation
+   * metadata under the `redaction_counts` key.
+   * @defaultValue true
+   */
+  reportCounts?: boolean;
+}
+
+/**
+ * Result of a redaction.
+ *
+ * @public
+ */
+export type RedactionResult<T> = {
+  /** The redacted data */
+  data: T;
+  /** Number of redacted values by detector or pattern name */
+  counts: Record<string, number>;
+};
+
+const BUILT_IN_PATTERNS: Record<
+  RedactionDetector,
+  Omit<RedactionPattern, "name">
+> = {
+  jwt: {
+    pattern: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g,
+  },
+  apiKey: {
+    pattern:
+      /\b(?:(?:sk|pk|rk)[-_](?:live[-_]|test[-_]|proj[-_]|ant[-_]|lf[-_])?[A-Za-z0-9_-]{16,}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{36,}|AIza[0-9A-Za-z_-]{35}|xox[abprs]-[A-Za-z0-9-]{10,})/g,
+  },
+  email: {
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  },
+  iban: {
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g,
+    validate: isValidIban,
+  },
+  creditCard: {
+    pattern: /(?<!\d)(?:\d[ -]?){12,18}\d(?!\d)/g,
+    validate: isValidLuhn,
+  },
+  phone: {
+    pattern:
+      /(?<![\w+]|\d[ .-])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}[ .-]\d{3,4}(?:[ .-]\d{2,4})?(?![ .-]?\d|\w)|\+\d{7,15}(?!\w)/g,
+    validate: (match) => {
+      const digitCount = match.replace(/\D/g, "").length;
+
+      return digitCount >= 7 && digitCount <= 15;
+    },
+  },
+};
+
+// Ordered from most to least specific, so e.g. card numbers are not detected as phone numbers
+const DETECTOR_ORDER: RedactionDetector[] = [
+  "jwt",
+  "apiKey",
+  "email",
+  "iban",
+  "creditCard",
+  "phone",
+];
+
+/**
+ * Declarative engine for redacting personally identifiable information and
+ * secrets from span data.
+ *
+ * JSON strings are parsed and walked, so only string values are redacted and
+ * the result stays valid JSON. Base64 data URIs and long base64 strings are
+ * left as they are, as they carry media content rather than text and may be
+ * megabytes long. The engine can be used through the
+ * `redaction` parameter of the ElasticDashSpanProcessor, which also reports
+ * redaction counts in the observation metadata, or as `mask` function via
+ * {@link createRedactionMask}.
+ *
+ * @example
+ * ```typescript
+ * const engine = new RedactionEngine({
+ *   detectors: ['email', 'creditCard'],
+ *   strategies: { creditCard: 'partial' },
+ *   patterns: [{ name: 'customer_id', pattern: /CUST-\d{6}/ }],
+ * });
+ *
+ * engine.redact('Card 4111 1111 1111 1111 of jane@example.com');
+ * // {
+ * //   data: 'Card **** **** **** 1111 of [REDACTED_EMAIL]',
+ * //   counts: { creditCard: 1, email: 1 },
+ * // }
+ * ```
+ *
+ * @public
+ */
+export class RedactionEngine {
+  /** Whether redaction counts should be reported in observation metadata */
+  public readonly reportCounts: boolean;
+
+  private patterns: (RedactionPattern & { strategy: RedactionStrategy })[];
+  private hashSalt: string;
+  private partialVisibleChars: number;
+
+  /**
+   * Creates a new RedactionEngine instance.
+   *
+   * @param params - Configuration parameters for the engine
+   */
+  constructor(params?: RedactionParams) {
+    const detectors = new Set(params?.detectors ?? DETECTOR_ORDER);
+    const defaultStrategy = params?.strategy ?? "replace";
+
+    this.patterns = [
+      ...DETECTOR_ORDER.filter((detector) => detectors.has(detector)).map(
+        (detector) => ({
+          name: detector,
+          ...BUILT_IN_PATTERNS[detector],
+          strategy: params?.strategies?.[detector] ?? defaultStrategy,
+        }),
+      ),
+      ...(params?.patterns ?? []).map((pattern) => ({
+        ...pattern,
+        pattern: pattern.pattern.global
+          ? pattern.pattern
+          : new RegExp(pattern.pattern.source, `${pattern.pattern.flags}g`),
+        strategy: pattern.strategy ?? defaultStrategy,
+      })),
+    ];
+    this.hashSalt = params?.hashSalt ?? "";
+    this.partialVisibleChars = params?.partialVisibleChars ?? 4;
+    this.reportCounts = params?.reportCounts ?? true;
+  }
+
+  /**
+   * Redacts all string values in the given data.
+   *
+   * Strings containing JSON objects or arrays are parsed, redacted and
+   * serialized again.
+   *
+   * @param data - The data to redact
+   * @returns The redacted data and the number of redacted values
+   */
+  public redact<T>(data: T): RedactionResult<T> {
+    const counts: Record<string, number> = {};
+
+    return { data: this.redactValue(data, counts), counts };
+  }
+
+  private redactValue<T>(value: T, counts: Record<string, number>): T {
+    if (typeof value === "string") {
+      const parsed = parseJsonContainer(value);
+
+      return (
+        parsed !== undefined
+          ? JSON.stringify(this.redactValue(parsed, counts))
+          : this.redactString(value, counts)
+      ) as T;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redactValue(item, counts)) as T;
+    }
+
+    if (value !== null && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          this.redactValue(item, counts),
+        ]),
+      ) as T;
+    }
+
+    return value;
+  }
+
+  private redactString(value: string, counts: Record<string, number>) {
+    if (isBase64Payload(value)) return value;
+
+    let redacted = value;
+
+    for (const { name, pattern, validate, strategy } of this.patterns) {
+      pattern.lastIndex = 0;
+
+      redacted = redacted.replace(pattern, (match) => {
+        if (validate && !this.isValidMatch(name, match, validate)) {
+          return match;
+        }
+
+        counts[name] = (counts[name] ?? 0) + 1;
+
+        return this.applyStrategy(name, match, strategy);
+      });
+    }
+
+    return redacted;
+  }
+
+  private isValidMatch(
+    name: string,
+    match: string,
+    validate: (match: string) => boolean,
+  ): boolean {
+    try {
+      return validate(match);
+    } catch (err) {
+      getGlobalLogger().warn(
+        `Validating match of redaction pattern '${name}' failed, redacting match. Error: ${err}`,
+      );
+
+      return true;
+    }
+  }
+
+  private applyStrategy(
+    name: string,
+    match: string,
+    strategy: RedactionStrategy,
+  ): string {
+    const label = `REDACTED_${name.replace(/([a-z])([A-Z])/g, "$1_$2").toUpperCase()}`;
+
+    switch (strategy) {
+      case "hash":
+        return `[${label}:${sha256Hex(this.hashSalt + match).slice(0, 12)}]`;
+      case "partial": {
+        const visibleFrom = match.length - this.partialVisibleChars;
+
+        return Array.from(match, (char, i) =>
+          i >= visibleFrom || !/[A-Za-z0-9]/.test(char) ? char : "*",
+        ).join("");
+      }
+      default:
+        return `[${label}]`;
+    }
+  }
+}
+
+/**
+ * Creates a mask function redacting data with a {@link RedactionEngine}.
+ *
+ * Use this to combine the redaction engine with other masking logic in a
+ * custom `mask` function. When used through the `redaction` parameter of the
+ * ElasticDashSpanProcessor instead, redaction counts are also reported.
+ *
+ * @param params - Configuration parameters for the redaction engine
+ * @returns A mask function for the ElasticDashSpanProcessor
+ *
+ * @example
+ * ```typescript
+ * const redact = createRedactionMask({ strategy: 'hash' });
+ *
+ * const processor = new ElasticDashSpanProcessor({
+ *   mask: ({ data }) => redact({ data }).replace(/internal-\w+/g, '***'),
+ * });
+ * ```
+ *
+ * @public
+ */
+export function createRedactionMask(
+  params?: RedactionParams | RedactionEngine,
+): MaskFunction {
+  const engine =
+    params instanceof RedactionEngine ? params : new RedactionEngine(params);
+
+  return ({ data }) => engine.redact(data).data;
+}
+
+// Shorter strings may be secrets such as API keys, which must not be skipped
+const MIN_BASE64_PAYLOAD_LENGTH = 256;
+
+function isBase64Payload(value: string): boolean {
+  if (/^data:[^,;]*(;[^,;]+)*;base64,/.test(value)) return true;
+
+  return (
+    value.length >= MIN_BASE64_PAYLOAD_LENGTH &&
+    /^[A-Za-z0-9+/_-]+={0,2}$/.test(value)
+  );
+}
+
+function parseJsonContainer(value: string): unknown {
+  const trimmed = value.trimStart();
+  if (!trimmed.startsWith("{") && !trimmed.startsWith("[")) return undefined;
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+function isValidLuhn(match: string): boolean {
+  const digits = match.replace(/\D/g, "");
+  if (digits.length < 13 || digits.length > 19) return false;
+
+  let sum = 0;
+
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+
+    sum += digit;
+  }
+
+  return sum % 10 === 0;
+}
+
+function isValidIban(match: string): boolean {
+  const iban = match.replace(/ /g, "");
+  if (iban.length < 15 || iban.length > 34) return false;
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+
+  for (const char of rearranged) {
+    const value = parseInt(char, 36).toString();
+
+    for (const digit of value) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+
+  return remainder === 1;
+}
+
+const PRIMES = [
+  2, 3, 5, 7, 11, 13, 17, 19, 23, 29, 31, 37, 41, 43, 47, 53, 59, 61, 67, 71,
+  73, 79, 83, 89, 97, 101, 103, 107, 109, 113, 127, 131, 137, 139, 149, 151,
+  157, 163, 167, 173, 179, 181, 191, 193, 197, 199, 211, 223, 227, 229, 233,
+  239, 241, 251, 257, 263, 269, 271, 277, 281, 283, 293, 307, 311,
+];
+const fractionBits = (value: number) => ((value % 1) * 2 ** 32) >>> 0;
+const SHA256_INITIAL_HASH = PRIMES.slice(0, 8).map((p) =>
+  fractionBits(Math.sqrt(p)),
+);
+const SHA256_ROUND_CONSTANTS = PRIMES.map((p) => fractionBits(Math.cbrt(p)));
+
+// Synchronous SHA-256 for the hash strategy, as Web Crypto only offers an
+// async digest and redaction runs synchronously in mask functions
+function sha256Hex(message: string): string {
+  const bytes = new TextEncoder().encode(message);
+  const length = Math.ceil((bytes.length + 9) / 64) * 64;
+  const padded = new Uint8Array(length);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+
+  const view = new DataView(padded.buffer);
+  view.setUint32(length - 8, Math.floor(bytes.length / 2 ** 29));
+  view.setUint32(length - 4, (bytes.length * 8) >>> 0);
+
+  const hash = Uint32Array.from(SHA256_INITIAL_HASH);
+  const words = new Uint32Array(64);
+  const rotr = (value: number, bits: number) =>
+    (value >>> bits) | (value << (32 - bits));
+
+  for (let offset = 0; offset < length; offset += 64) {
+    for (let i = 0; i < 64; i++) {
+      if (i < 16) {
+        words[i] = view.getUint32(offset + i * 4);
+        continue;
+      }
+
+      const w15 = words[i - 15];
+      const w2 = words[i - 2];
+      words[i] =
+        words[i - 16] +
+        (rotr(w15, 7) ^ rotr(w15, 18) ^ (w15 >>> 3)) +
+        words[i - 7] +
+        (rotr(w2, 17) ^ rotr(w2, 19) ^ (w2 >>> 10));
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+
+    for (let i = 0; i < 64; i++) {
+      const t1 =
+        (h +
+          (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) +
+          ((e & f) ^ (~e & g)) +
+          SHA256_ROUND_CONSTANTS[i] +
+          words[i]) >>>
+        0;
+      const t2 =
+        ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) +
+          ((a & b) ^ (a & c) ^ (b & c))) >>>
+        0;
+
+      [h, g, f, e, d, c, b, a] = [
+        g,
+        f,
+        e,
+        (d + t1) >>> 0,
+        c,
+        b,
+        a,
+        (t1 + t2) >>> 0,
+      ];
+    }
+
+    [a, b, c, d, e, f, g, h].forEach((value, i) => (hash[i] += value));
+  }
+
+  return Array.from(hash, (value) => value.toString(16).padStart(8, "0")).join(
+    "",
+  );
+}
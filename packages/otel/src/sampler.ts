@@ -0,0 +1,247 @@
+import {
+  ElasticDashOtelSpanAttributes,
+  getEnv,
+  getGlobalLogger,
+  getPropagatedAttributesFromContext,
+  isExperimentContext,
+} from "@elasticdash/core";
+import {
+  Attributes,
+  Context,
+  Link,
+  SpanKind,
+  TraceFlags,
+  isSpanContextValid,
+  trace,
+} from "@opentelemetry/api";
+import {
+  Sampler,
+  SamplingDecision,
+  SamplingResult,
+} from "@opentelemetry/sdk-trace-base";
+
+import { traceIdToRatio } from "./tail-sampling.js";
+
+/**
+ * Matcher for a trace attribute in a sampling rule. Strings match exactly,
+ * regular expressions are tested against the attribute value.
+ *
+ * @public
+ */
+export type SamplingRuleMatcher = string | RegExp;
+
+/**
+ * Rule overriding the sample rate for matching traces.
+ *
+ * All criteria set on a rule must match. Criteria are evaluated against the
+ * trace attributes known when the root span starts, i.e. attributes
+ * propagated with `propagateAttributes` and attributes passed on span
+ * creation. Trace attributes set later with `updateTrace` are not visible to
+ * the sampler, so rules on them fall through to the default sample rate.
+ *
+ * @public
+ */
+export type ElasticDashSamplingRule = {
+  /** Matches the user ID of the trace (`ElasticDashOtelSpanAttributes.TRACE_USER_ID`) */
+  userId?: SamplingRuleMatcher;
+  /** Matches the tracing environment */
+  environment?: SamplingRuleMatcher;
+  /** Matches the trace name, which defaults to the root span name */
+  traceName?: SamplingRuleMatcher;
+  /** Matches if any trace tag matches */
+  tag?: SamplingRuleMatcher;
+  /** Ratio of matching traces to sample between 0 and 1 */
+  sampleRate: number;
+};
+
+/**
+ * Configuration parameters for the ElasticDashSampler.
+ *
+ * @public
+ */
+export interface ElasticDashSamplerParams {
+  /**
+   * Ratio of traces to sample between 0 and 1. Can also be set via ELASTICDASH_SAMPLE_RATE environment variable.
+   * @defaultValue 1
+   */
+  sampleRate?: number;
+
+  /**
+   * Rules overriding the sample rate. The first matching rule applies.
+   */
+  rules?: ElasticDashSamplingRule[];
+
+  /**
+   * Environment of the traces used for matching rules. Can also be set via ELASTICDASH_TRACING_ENVIRONMENT environment variable.
+   */
+  environment?: string;
+}
+
+/**
+ * OpenTelemetry head sampler for ElasticDash traces.
+ *
+ * The sampling decision is made once per trace when its root span starts and
+ * inherited by all child spans, including child spans in downstream services
+ * that receive the trace context. Ratio sampling is keyed on the trace ID, so
+ * services sampling with the same rate make the same decision for a trace.
+ *
+ * Traces of experiment runs are always sampled, so experiment results are
+ * never incomplete.
+ *
+ * The sampler is not configured by the `ElasticDashSpanProcessor`. Pass it to
+ * the tracer provider or `NodeSDK`, and propagate the trace attributes that
+ * rules match on with `propagateAttributes` before the root span starts.
+ *
+ * @example
+ * ```typescript
+ * import { NodeSDK } from '@opentelemetry/sdk-node';
+ * import { propagateAttributes } from '@elasticdash/core';
+ * import {
+ *   ElasticDashSampler,
+ *   ElasticDashSpanProcessor,
+ * } from '@elasticdash/otel';
+ * import { startActiveObservation } from '@elasticdash/tracing';
+ *
+ * const sdk = new NodeSDK({
+ *   sampler: new ElasticDashSampler({
+ *     sampleRate: 0.1,
+ *     rules: [
+ *       { userId: 'internal-tester', sampleRate: 1 },
+ *       { tag: 'healthcheck', sampleRate: 0 },
+ *       { traceName: /^checkout/, environment: 'production', sampleRate: 0.5 },
+ *     ],
+ *   }),
+ *   spanProcessors: [new ElasticDashSpanProcessor()],
+ * });
+ *
+ * sdk.start();
+ *
+ * // Matched by the userId rule, as the user ID is known when the root span starts
+ * await propagateAttributes({ userId: 'internal-tester' }, () =>
+ *   startActiveObservation('checkout', async () => {
+ *     // ...
+ *   }),
+ * );
+ * ```
+ *
+ * @public
+ */
+export class ElasticDashSampler implements Sampler {
+  private sampleRate: number;
+  private rules: ElasticDashSamplingRule[];
+  private environment?: string;
+
+  /**
+   * Creates a new ElasticDashSampler instance.
+   *
+   * @param params - Configuration parameters for the sampler
+   */
+  constructor(params?: ElasticDashSamplerParams) {
+    const envSampleRate = getEnv("ELASTICDASH_SAMPLE_RATE");
+
+    this.sampleRate = normalizeSampleRate(
+      params?.sampleRate ??
+        (envSampleRate !== undefined ? Number(envSampleRate) : 1),
+    );
+    this.rules = (params?.rules ?? []).map((rule) => ({
+      ...rule,
+      sampleRate: normalizeSampleRate(rule.sampleRate),
+    }));
+    this.environment =
+      params?.environment ?? getEnv("ELASTICDASH_TRACING_ENVIRONMENT");
+  }
+
+  /**
+   * Decides whether a span is sampled.
+   *
+   * Spans in experiment contexts are always sampled. Spans with a parent
+   * follow the decision of the parent. Root spans are sampled by the rate of
+   * the first matching rule, or the default sample rate.
+   *
+   * @override
+   */
+  public shouldSample(
+    context: Context,
+    traceId: string,
+    spanName: string,
+    _spanKind: SpanKind,
+    attributes: Attributes,
+    _links: Link[],
+  ): SamplingResult {
+    if (isExperimentContext(context)) {
+      return { decision: SamplingDecision.RECORD_AND_SAMPLED };
+    }
+
+    const parentSpanContext = trace.getSpanContext(context);
+
+    if (parentSpanContext && isSpanContextValid(parentSpanContext)) {
+      return {
+        decision:
+          (parentSpanContext.traceFlags & TraceFlags.SAMPLED) ===
+          TraceFlags.SAMPLED
+            ? SamplingDecision.RECORD_AND_SAMPLED
+            : SamplingDecision.NOT_RECORD,
+      };
+    }
+
+    const sampleRate = this.getSampleRate(
+      { ...getPropagatedAttributesFromContext(context), ...attributes },
+      spanName,
+    );
+
+    return {
+      decision:
+        traceIdToRatio(traceId) < sampleRate
+          ? SamplingDecision.RECORD_AND_SAMPLED
+          : SamplingDecision.NOT_RECORD,
+    };
+  }
+
+  /**
+   * Returns a description of the sampler.
+   *
+   * @override
+   */
+  public toString(): string {
+    return `ElasticDashSampler{sampleRate=${this.sampleRate}, rules=${this.rules.length}}`;
+  }
+
+  private getSampleRate(attributes: Attributes, spanName: string): number {
+    const userId = attributes[ElasticDashOtelSpanAttributes.TRACE_USER_ID];
+    const environment =
+      attributes[ElasticDashOtelSpanAttributes.ENVIRONMENT] ?? this.environment;
+    const traceName =
+      attributes[ElasticDashOtelSpanAttributes.TRACE_NAME] ?? spanName;
+    const tags = attributes[ElasticDashOtelSpanAttributes.TRACE_TAGS];
+
+    const rule = this.rules.find(
+      (rule) =>
+        matches(rule.userId, userId) &&
+        matches(rule.environment, environment) &&
+        matches(rule.traceName, traceName) &&
+        (rule.tag === undefined ||
+          (Array.isArray(tags) && tags.some((tag) => matches(rule.tag, tag)))),
+    );
+
+    return rule?.sampleRate ?? this.sampleRate;
+  }
+}
+
+function matches(matcher: SamplingRuleMatcher | undefined, value: unknown) {
+  if (matcher === undefined) return true;
+  if (typeof value !== "string") return false;
+
+  return typeof matcher === "string" ? matcher === value : matcher.test(value);
+}
+
+function normalizeSampleRate(sampleRate: number): number {
+  if (Number.isNaN(sampleRate) || sampleRate < 0 || sampleRate > 1) {
+    getGlobalLogger().warn(
+      `Invalid sample rate ${sampleRate}, must be between 0 and 1. Sampling all traces.`,
+    );
+
+    return 1;
+  }
+
+  return sampleRate;
+}
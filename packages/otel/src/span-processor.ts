@@ -1,4 +1,5 @@
 import {
+  ExportSpool,
   Logger,
   getGlobalLogger,
   ElasticDashAPIClient,
@@ -20,7 +21,16 @@ import {
   SpanProcessor,
 } from "@opentelemetry/sdk-trace-base";
 
-import { MediaService } from "./MediaService.js";
+import { ConsoleTreeSpanExporter } from "./console-exporter.js";
+import { MediaExtractor } from "./media-extractors.js";
+import {
+  MediaService,
+  MediaUploadMetrics,
+  MediaUploadParams,
+} from "./MediaService.js";
+import { RedactionEngine, RedactionParams } from "./redaction.js";
+import { SerializedSpan, SpoolingSpanExporter } from "./span-spool.js";
+import { TailSamplingBuffer, TailSamplingParams } from "./tail-sampling.js";
 
 /**
  * Function type for masking sensitive data in spans before export.
@@ -104,6 +114,13 @@ export interface ElasticDashSpanProcessorParams {
    */
   mask?: MaskFunction;
 
+  /**
+   * Declarative redaction of PII and secrets in input, output and metadata.
+   * Applied independently of and before the `mask` function. Redaction counts
+   * are reported in the observation metadata under `redaction_counts`.
+   */
+  redaction?: RedactionParams | RedactionEngine;
+
   /**
    * Function to determine whether a span should be exported to ElasticDash.
    */
@@ -136,10 +153,51 @@ export interface ElasticDashSpanProcessorParams {
    *   Spans are batched and exported in groups for optimal performance.
    * - **immediate**: Recommended for short-lived environments such as serverless functions.
    *   Spans are exported immediately to prevent data loss when the process terminates / is frozen.
+   * - **console**: Recommended for local development. Completed traces are printed to the
+   *   terminal as indented trees by a `ConsoleTreeSpanExporter` instead of being sent to
+   *   ElasticDash, unless a custom `exporter` is provided.
+   *
+   * Can also be set via ELASTICDASH_EXPORT_MODE environment variable.
    *
    * @defaultValue "batched"
    */
-  exportMode?: "immediate" | "batched";
+  exportMode?: "immediate" | "batched" | "console";
+
+  /**
+   * Durable spool for spans that fail to export, e.g. a `FileExportSpool`.
+   * Spooled spans are replayed in order with backoff once the backend is
+   * reachable again, and on flush.
+   */
+  spool?: ExportSpool<SerializedSpan>;
+
+  /**
+   * Tail-based sampling configuration. When set, ended spans are buffered per
+   * trace until the local root span ends, and the `shouldExportTrace` decision
+   * is made over the whole trace before its spans are processed and exported.
+   *
+   * Spans ending after the decision for their trace follow that decision.
+   * Buffered traces are decided early when `maxWaitMs` or `maxBufferedSpans`
+   * is exceeded, and on flush or shutdown.
+   */
+  tailSampling?: TailSamplingParams;
+
+  /**
+   * Limits of media uploads. Media extracted from base64 data URIs is
+   * uploaded with bounded concurrency, deduplicated by content hash across
+   * spans, and replaced by a placeholder if it is too large or the upload
+   * queue is full.
+   */
+  mediaUpload?: MediaUploadParams;
+
+  /**
+   * Functions finding media in the input, output and metadata of spans.
+   * Found media is uploaded and replaced by media references. Custom
+   * extractors can be combined with the defaults, e.g.
+   * `[...defaultMediaExtractors, myExtractor]`.
+   *
+   * @defaultValue defaultMediaExtractors
+   */
+  mediaExtractors?: MediaExtractor[];
 }
 
 /**
@@ -147,9 +205,14 @@ export interface ElasticDashSpanProcessorParams {
  *
  * This processor extends the standard BatchSpanProcessor to provide:
  * - Automatic batching and flushing of spans to ElasticDash
- * - Media content extraction and upload from base64 data URIs
+ * - Media content extraction and upload from base64 data URIs and provider
+ *   content parts, with pluggable media extractors
  * - Data masking capabilities for sensitive information
+ * - Declarative redaction of PII and secrets
  * - Conditional span export based on custom logic
+ * - Tail-based sampling of whole traces
+ * - Durable spooling of spans that fail to export
+ * - Printing traces as trees in the terminal for local development
  * - Environment and release tagging
  *
  * @example
@@ -185,10 +248,13 @@ export class ElasticDashSpanProcessor implements SpanProcessor {
   private environment?: string;
   private release?: string;
   private mask?: MaskFunction;
+  private redactionEngine?: RedactionEngine;
   private shouldExportSpan?: ShouldExportSpan;
   private apiClient: ElasticDashAPIClient;
   private processor: SpanProcessor;
   private mediaService: MediaService;
+  private tailSamplingBuffer?: TailSamplingBuffer;
+  private spoolingExporter?: SpoolingSpanExporter;
 
   /**
    * Creates a new ElasticDashSpanProcessor instance.
@@ -227,12 +293,16 @@ export class ElasticDashSpanProcessor implements SpanProcessor {
       getEnv("ELASTICDASH_BASEURL") ?? // legacy v2
       "https://devserver-logger.elasticdash.com";
 
-    if (!params?.exporter && !publicKey) {
+    const exportMode =
+      params?.exportMode ?? parseExportMode(getEnv("ELASTICDASH_EXPORT_MODE"));
+    const isConsoleMode = exportMode === "console";
+
+    if (!params?.exporter && !isConsoleMode && !publicKey) {
       logger.warn(
         "No exporter configured and no public key provided in constructor or as ELASTICDASH_PUBLIC_KEY env var. Span exports will fail.",
       );
     }
-    if (!params?.exporter && !secretKey) {
+    if (!params?.exporter && !isConsoleMode && !secretKey) {
       logger.warn(
         "No exporter configured and no secret key provided in constructor or as ELASTICDASH_SECRET_KEY env var. Span exports will fail.",
       );
@@ -245,8 +315,9 @@ export class ElasticDashSpanProcessor implements SpanProcessor {
     const timeoutSeconds =
       params?.timeout ?? Number(getEnv("ELASTICDASH_TIMEOUT") ?? 5);
 
-    const exporter =
+    let exporter: SpanExporter =
       params?.exporter ??
+      (isConsoleMode ? new ConsoleTreeSpanExporter() : undefined) ??
       new OTLPTraceExporter({
         url: `${baseUrl}/api/public/otel/v1/traces`,
         headers: {
@@ -259,8 +330,16 @@ export class ElasticDashSpanProcessor implements SpanProcessor {
         timeoutMillis: timeoutSeconds * 1_000,
       });
 
+    if (params?.spool) {
+      this.spoolingExporter = new SpoolingSpanExporter({
+        exporter,
+        spool: params.spool,
+      });
+      exporter = this.spoolingExporter;
+    }
+
     this.processor =
-      params?.exportMode === "immediate"
+      exportMode === "immediate" || isConsoleMode
         ? new SimpleSpanProcessor(exporter)
         : new BatchSpanProcessor(exporter, {
             maxExportBatchSize: flushAt ? Number(flushAt) : undefined,
@@ -275,6 +354,12 @@ export class ElasticDashSpanProcessor implements SpanProcessor {
       params?.environment ?? getEnv("ELASTICDASH_TRACING_ENVIRONMENT");
     this.release = params?.release ?? getEnv("ELASTICDASH_RELEASE");
     this.mask = params?.mask;
+    this.redactionEngine =
+      params?.redaction instanceof RedactionEngine
+        ? params.redaction
+        : params?.redaction
+          ? new RedactionEngine(params.redaction)
+          : undefined;
     this.shouldExportSpan = params?.shouldExportSpan;
     this.apiClient = new ElasticDashAPIClient({
       baseUrl: this.baseUrl,
@@ -287,7 +372,18 @@ export class ElasticDashSpanProcessor implements SpanProcessor {
       headers: params?.additionalHeaders,
     });
 
-    this.mediaService = new MediaService({ apiClient: this.apiClient });
+    this.mediaService = new MediaService({
+      apiClient: this.apiClient,
+      upload: params?.mediaUpload,
+      extractors: params?.mediaExtractors,
+    });
+
+    if (params?.tailSampling) {
+      this.tailSamplingBuffer = new TailSamplingBuffer({
+        ...params.tailSampling,
+        onExport: (span) => this.enqueueEndedSpan(span),
+      });
+    }
 
     logger.debug("Initialized ElasticDashSpanProcessor with params:", {
       publicKey,
@@ -297,6 +393,8 @@ export class ElasticDashSpanProcessor implements SpanProcessor {
       timeoutSeconds,
       flushAt,
       flushIntervalSeconds,
+      exportMode,
+      tailSampling: Boolean(params?.tailSampling),
     });
   }
 
@@ -326,9 +424,10 @@ export class ElasticDashSpanProcessor implements SpanProcessor {
   /**
    * Called when a span ends. Processes the span for export to ElasticDash.
    *
-   * This method:
+   * If tail-based sampling is configured, the span is buffered until the
+   * decision for its trace is made. Otherwise, this method:
    * 1. Checks if the span should be exported using the shouldExportSpan function
-   * 2. Applies data masking to sensitive attributes
+   * 2. Applies redaction and data masking to sensitive attributes
    * 3. Handles media content extraction and upload
    * 4. Logs span details in debug mode
    * 5. Passes the span to the parent processor for export
@@ -338,6 +437,16 @@ export class ElasticDashSpanProcessor implements SpanProcessor {
    * @override
    */
   public onEnd(span: ReadableSpan): void {
+    if (this.tailSamplingBuffer) {
+      this.tailSamplingBuffer.add(span);
+
+      return;
+    }
+
+    this.enqueueEndedSpan(span);
+  }
+
+  private enqueueEndedSpan(span: ReadableSpan): void {
     const processEndedSpanPromise = this.processEndedSpan(span).catch((err) => {
       this.logger.error(err);
     });
@@ -350,13 +459,26 @@ export class ElasticDashSpanProcessor implements SpanProcessor {
     );
   }
 
+  /**
+   * Returns counters of extracted and uploaded media and the current state
+   * of the media upload queue.
+   *
+   * @returns The media upload metrics
+   */
+  public getMediaUploadMetrics(): MediaUploadMetrics {
+    return this.mediaService.getMetrics();
+  }
+
   private async flush(): Promise<void> {
+    this.tailSamplingBuffer?.decideAll();
+
     await Promise.all(Array.from(this.pendingEndedSpans));
     await this.mediaService.flush();
   }
 
   /**
-   * Forces an immediate flush of all pending spans and media uploads.
+   * Forces an immediate flush of all pending spans and media uploads, and
+   * replays spooled spans if a spool is configured.
    *
    * @returns Promise that resolves when all pending operations are complete
    *
@@ -364,8 +486,9 @@ export class ElasticDashSpanProcessor implements SpanProcessor {
    */
   public async forceFlush(): Promise<void> {
     await this.flush();
+    await this.processor.forceFlush();
 
-    return this.processor.forceFlush();
+    return this.spoolingExporter?.forceFlush();
   }
 
   /**
@@ -395,6 +518,8 @@ export class ElasticDashSpanProcessor implements SpanProcessor {
       }
     }
 
+    this.applyRedactionInPlace(span);
+
     // Set top-level input/output if missing, using trace or observation fields (trace preferred)
     if (span.attributes) {
       // Input
@@ -455,6 +580,54 @@ export class ElasticDashSpanProcessor implements SpanProcessor {
 
     this.processor.onEnd(span);
   }
+
+  private applyRedactionInPlace(span: ReadableSpan): void {
+    if (!this.redactionEngine) return;
+
+    const redactionCandidates = [
+      ElasticDashOtelSpanAttributes.OBSERVATION_INPUT,
+      ElasticDashOtelSpanAttributes.TRACE_INPUT,
+      ElasticDashOtelSpanAttributes.OBSERVATION_OUTPUT,
+      ElasticDashOtelSpanAttributes.TRACE_OUTPUT,
+      ElasticDashOtelSpanAttributes.OBSERVATION_METADATA,
+      ElasticDashOtelSpanAttributes.TRACE_METADATA,
+    ];
+    const counts: Record<string, number> = {};
+
+    // Metadata may be flattened into one attribute per key
+    const keys = Object.keys(span.attributes).filter((key) =>
+      redactionCandidates.some(
+        (candidate) => key === candidate || key.startsWith(`${candidate}.`),
+      ),
+    );
+
+    for (const key of keys) {
+      const value = span.attributes[key];
+      if (typeof value !== "string") continue;
+
+      try {
+        const result = this.redactionEngine.redact(value);
+
+        span.attributes[key] = result.data;
+        for (const [name, count] of Object.entries(result.counts)) {
+          counts[name] = (counts[name] ?? 0) + count;
+        }
+      } catch (err) {
+        this.logger.warn(
+          `Redaction of span attribute ${key} failed due to error, fully redacting property. Error: ${err}`,
+        );
+
+        span.attributes[key] = "<fully redacted due to failed redaction>";
+      }
+    }
+
+    if (this.redactionEngine.reportCounts && Object.keys(counts).length > 0) {
+      span.attributes[
+        `${ElasticDashOtelSpanAttributes.OBSERVATION_METADATA}.redaction_counts`
+      ] = JSON.stringify(counts);
+    }
+  }
+
   private applyMaskInPlace(span: ReadableSpan): void {
     const maskCandidates = [
       ElasticDashOtelSpanAttributes.OBSERVATION_INPUT,
@@ -488,3 +661,19 @@ export class ElasticDashSpanProcessor implements SpanProcessor {
     }
   }
 }
+
+function parseExportMode(
+  value: string | undefined,
+): ElasticDashSpanProcessorParams["exportMode"] {
+  if (value === undefined || value === "") return undefined;
+
+  if (value === "immediate" || value === "batched" || value === "console") {
+    return value;
+  }
+
+  getGlobalLogger().warn(
+    `Invalid ELASTICDASH_EXPORT_MODE '${value}'. Expected 'immediate', 'batched' or 'console'. Using 'batched'.`,
+  );
+
+  return undefined;
+}
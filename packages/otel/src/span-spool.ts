@@ -0,0 +1,263 @@
+import {
+  ExportSpool,
+  ExportSpoolReplayer,
+  getGlobalLogger,
+  isNonRetryableExportError,
+} from "@elasticdash/core";
+import {
+  Attributes,
+  HrTime,
+  SpanContext,
+  SpanKind,
+  SpanStatus,
+} from "@opentelemetry/api";
+import { ExportResult, ExportResultCode } from "@opentelemetry/core";
+import { ReadableSpan, SpanExporter } from "@opentelemetry/sdk-trace-base";
+
+/**
+ * JSON representation of an ended span.
+ *
+ * @public
+ */
+export type SerializedSpan = {
+  name: string;
+  kind: SpanKind;
+  spanContext: SerializedSpanContext;
+  parentSpanContext?: SerializedSpanContext;
+  startTime: HrTime;
+  endTime: HrTime;
+  duration: HrTime;
+  status: SpanStatus;
+  attributes: Attributes;
+  links: { context: SerializedSpanContext; attributes?: Attributes }[];
+  events: {
+    name: string;
+    time: HrTime;
+    attributes?: Attributes;
+    droppedAttributesCount?: number;
+  }[];
+  resource: { attributes: Attributes };
+  instrumentationScope: { name: string; version?: string; schemaUrl?: string };
+  droppedAttributesCount: number;
+  droppedEventsCount: number;
+  droppedLinksCount: number;
+};
+
+type SerializedSpanContext = Pick<
+  SpanContext,
+  "traceId" | "spanId" | "traceFlags" | "isRemote"
+>;
+
+/**
+ * Serializes an ended span to JSON compatible data.
+ *
+ * @param span - The span to serialize
+ * @returns The serialized span
+ *
+ * @internal
+ */
+export function serializeSpan(span: ReadableSpan): SerializedSpan {
+  return {
+    name: span.name,
+    kind: span.kind,
+    spanContext: serializeSpanContext(span.spanContext()),
+    parentSpanContext: span.parentSpanContext
+      ? serializeSpanContext(span.parentSpanContext)
+      : undefined,
+    startTime: span.startTime,
+    endTime: span.endTime,
+    duration: span.duration,
+    status: span.status,
+    attributes: span.attributes,
+    links: span.links.map((link) => ({
+      context: serializeSpanContext(link.context),
+      attributes: link.attributes,
+    })),
+    events: span.events.map((event) => ({
+      name: event.name,
+      time: event.time,
+      attributes: event.attributes,
+      droppedAttributesCount: event.droppedAttributesCount,
+    })),
+    resource: { attributes: span.resource.attributes },
+    instrumentationScope: {
+      name: span.instrumentationScope.name,
+      version: span.instrumentationScope.version,
+      schemaUrl: span.instrumentationScope.schemaUrl,
+    },
+    droppedAttributesCount: span.droppedAttributesCount,
+    droppedEventsCount: span.droppedEventsCount,
+    droppedLinksCount: span.droppedLinksCount,
+  };
+}
+
+/**
+ * Restores an ended span from its serialized form, e.g. to export it again.
+ *
+ * @param data - The serialized span
+ * @returns A readable span that can be passed to span exporters
+ *
+ * @internal
+ */
+export function deserializeSpan(data: SerializedSpan): ReadableSpan {
+  const resource: ReadableSpan["resource"] = {
+    attributes: data.resource.attributes,
+    merge: () => resource,
+    getRawAttributes: () => Object.entries(data.resource.attributes),
+  };
+
+  return {
+    name: data.name,
+    kind: data.kind,
+    spanContext: () => data.spanContext,
+    parentSpanContext: data.parentSpanContext,
+    startTime: data.startTime,
+    endTime: data.endTime,
+    duration: data.duration,
+    status: data.status,
+    attributes: data.attributes,
+    links: data.links,
+    events: data.events,
+    ended: true,
+    resource,
+    instrumentationScope: data.instrumentationScope,
+    droppedAttributesCount: data.droppedAttributesCount,
+    droppedEventsCount: data.droppedEventsCount,
+    droppedLinksCount: data.droppedLinksCount,
+  };
+}
+
+function serializeSpanContext(context: SpanContext): SerializedSpanContext {
+  return {
+    traceId: context.traceId,
+    spanId: context.spanId,
+    traceFlags: context.traceFlags,
+    isRemote: context.isRemote,
+  };
+}
+
+/**
+ * Span exporter that spools spans to a durable export spool when the wrapped
+ * exporter fails, e.g. because the ElasticDash backend is unreachable.
+ *
+ * Spooled spans are replayed in order with exponential backoff, and after the
+ * next successful export. Spans are deduplicated by trace and span ID, so
+ * replaying the same span twice does not spool it twice. Spans the backend
+ * rejects as invalid are not spooled.
+ *
+ * @example
+ * ```typescript
+ * import { FileExportSpool } from '@elasticdash/core';
+ * import { ElasticDashSpanProcessor } from '@elasticdash/otel';
+ *
+ * const processor = new ElasticDashSpanProcessor({
+ *   spool: new FileExportSpool({ directory: '/tmp/elasticdash-spool/spans' }),
+ * });
+ * ```
+ *
+ * @public
+ */
+export class SpoolingSpanExporter implements SpanExporter {
+  private exporter: SpanExporter;
+  private replayer: ExportSpoolReplayer<SerializedSpan>;
+
+  /**
+   * Creates a new SpoolingSpanExporter instance.
+   *
+   * @param params - Configuration parameters
+   * @param params.exporter - The exporter to wrap
+   * @param params.spool - The spool to write failed exports to
+   */
+  constructor(params: {
+    exporter: SpanExporter;
+    spool: ExportSpool<SerializedSpan>;
+  }) {
+    this.exporter = params.exporter;
+    this.replayer = new ExportSpoolReplayer({
+      spool: params.spool,
+      send: (spans) => this.exportToWrappedExporter(spans.map(deserializeSpan)),
+    });
+  }
+
+  /**
+   * Exports spans with the wrapped exporter, spooling them if the export fails.
+   *
+   * @override
+   */
+  public export(
+    spans: ReadableSpan[],
+    resultCallback: (result: ExportResult) => void,
+  ): void {
+    this.exporter.export(spans, (result) => {
+      if (result.code === ExportResultCode.SUCCESS) {
+        resultCallback(result);
+        void this.replayer.replay();
+
+        return;
+      }
+
+      // Spans rejected as invalid would block the spool
+      if (isNonRetryableExportError(result.error)) {
+        resultCallback(result);
+
+        return;
+      }
+
+      this.replayer
+        .add(
+          spans.map((span) => ({
+            id: `${span.spanContext().traceId}-${span.spanContext().spanId}`,
+            payload: serializeSpan(span),
+          })),
+        )
+        .then(() => {
+          getGlobalLogger().warn(
+            `Span export failed, spooled ${spans.length} spans for replay. Error:`,
+            result.error,
+          );
+
+          resultCallback({ code: ExportResultCode.SUCCESS });
+        })
+        .catch((err) => {
+          getGlobalLogger().error("Failed to spool spans:", err);
+
+          resultCallback(result);
+        });
+    });
+  }
+
+  /**
+   * Replays spooled spans and flushes the wrapped exporter.
+   *
+   * @override
+   */
+  public async forceFlush(): Promise<void> {
+    await this.replayer.replay();
+
+    await this.exporter.forceFlush?.();
+  }
+
+  /**
+   * Stops replaying and shuts down the wrapped exporter. Spooled spans are
+   * kept and replayed by the next exporter using the same spool.
+   *
+   * @override
+   */
+  public async shutdown(): Promise<void> {
+    this.replayer.stop();
+
+    return this.exporter.shutdown();
+  }
+
+  private exportToWrappedExporter(spans: ReadableSpan[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.exporter.export(spans, (result) => {
+        if (result.code === ExportResultCode.SUCCESS) {
+          resolve();
+        } else {
+          reject(result.error ?? new Error("Span export failed"));
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,263 @@
+import {
+  ElasticDashOtelSpanAttributes,
+  getGlobalLogger,
+  safeSetTimeout,
+} from "@elasticdash/core";
+import { SpanStatusCode } from "@opentelemetry/api";
+import { hrTimeToMilliseconds } from "@opentelemetry/core";
+import { ReadableSpan } from "@opentelemetry/sdk-trace-base";
+
+/**
+ * Function type for deciding whether a complete trace should be exported to ElasticDash.
+ *
+ * Unlike `ShouldExportSpan`, the decision is made once per trace with
+ * all spans of the trace that ended in this process.
+ *
+ * @param params - Object containing the buffered spans of the trace
+ * @param params.traceId - The trace ID
+ * @param params.spans - All buffered spans of the trace in order of ending
+ * @param params.rootSpan - The local root span, if it has ended
+ * @param params.isComplete - `false` if the decision is forced before the root span ended,
+ *   e.g. because the maximum wait time or buffer size was exceeded
+ * @returns `true` if the spans of the trace should be exported, `false` otherwise
+ *
+ * @example
+ * ```typescript
+ * const shouldExportTrace: ShouldExportTrace = ({ spans }) => {
+ *   // Only export traces with more than one span
+ *   return spans.length > 1;
+ * };
+ * ```
+ *
+ * @public
+ */
+export type ShouldExportTrace = (params: {
+  traceId: string;
+  spans: ReadableSpan[];
+  rootSpan?: ReadableSpan;
+  isComplete: boolean;
+}) => boolean;
+
+/**
+ * Configuration for tail-based sampling in the ElasticDashSpanProcessor.
+ *
+ * @public
+ */
+export interface TailSamplingParams {
+  /**
+   * Function deciding whether a trace is exported once its root span ended.
+   */
+  shouldExportTrace: ShouldExportTrace;
+
+  /**
+   * Maximum time in milliseconds to buffer a trace after its first span ended.
+   * When exceeded, the decision is made on the spans buffered so far.
+   * @defaultValue 30000
+   */
+  maxWaitMs?: number;
+
+  /**
+   * Maximum number of spans buffered across all traces. When exceeded, the
+   * decision for the oldest traces is made on the spans buffered so far.
+   * @defaultValue 10000
+   */
+  maxBufferedSpans?: number;
+}
+
+/**
+ * Creates a tail sampling decision that keeps a ratio of regular traces and
+ * all traces containing errors or slow generations.
+ *
+ * Sampling of regular traces is deterministic on the trace ID, so the same
+ * trace is kept or dropped consistently across processes.
+ *
+ * @param params - Configuration of the decision
+ * @param params.sampleRate - Ratio of regular traces to keep between 0 and 1
+ * @param params.keepErrors - Keep traces with an ERROR level observation or error status (default: true)
+ * @param params.slowGenerationThresholdMs - Keep traces with a generation taking at least this long
+ * @returns The trace export decision
+ *
+ * @example
+ * ```typescript
+ * import {
+ *   ElasticDashSpanProcessor,
+ *   createTailSamplingDecision,
+ * } from '@elasticdash/otel';
+ *
+ * // Keep 5% of successful traces, but all failing or slow traces
+ * const processor = new ElasticDashSpanProcessor({
+ *   tailSampling: {
+ *     shouldExportTrace: createTailSamplingDecision({
+ *       sampleRate: 0.05,
+ *       slowGenerationThresholdMs: 10_000,
+ *     }),
+ *   },
+ * });
+ * ```
+ *
+ * @public
+ */
+export function createTailSamplingDecision(params: {
+  sampleRate: number;
+  keepErrors?: boolean;
+  slowGenerationThresholdMs?: number;
+}): ShouldExportTrace {
+  const { sampleRate, keepErrors = true, slowGenerationThresholdMs } = params;
+
+  return ({ traceId, spans }) => {
+    for (const span of spans) {
+      if (keepErrors && isErrorSpan(span)) return true;
+
+      if (
+        slowGenerationThresholdMs !== undefined &&
+        span.attributes[ElasticDashOtelSpanAttributes.OBSERVATION_TYPE] ===
+          "generation" &&
+        hrTimeToMilliseconds(span.duration) >= slowGenerationThresholdMs
+      ) {
+        return true;
+      }
+    }
+
+    return traceIdToRatio(traceId) < sampleRate;
+  };
+}
+
+function isErrorSpan(span: ReadableSpan): boolean {
+  return (
+    span.status.code === SpanStatusCode.ERROR ||
+    span.attributes[ElasticDashOtelSpanAttributes.OBSERVATION_LEVEL] === "ERROR"
+  );
+}
+
+/**
+ * Maps a trace ID to a stable number in [0, 1).
+ *
+ * @internal
+ */
+export function traceIdToRatio(traceId: string): number {
+  const value = parseInt(traceId.slice(-8), 16);
+
+  return Number.isNaN(value) ? 0 : value / 0x100000000;
+}
+
+type BufferedTrace = {
+  spans: ReadableSpan[];
+  timer: ReturnType<typeof setTimeout>;
+};
+
+/**
+ * Buffers ended spans per trace until the local root span ended and releases
+ * the spans of traces that should be exported.
+ *
+ * Spans ending after the decision for their trace was made follow that
+ * decision for up to `maxWaitMs`.
+ *
+ * @internal
+ */
+export class TailSamplingBuffer {
+  private traces: Map<string, BufferedTrace> = new Map();
+  private decisions: Map<string, boolean> = new Map();
+  private bufferedSpanCount = 0;
+
+  private shouldExportTrace: ShouldExportTrace;
+  private maxWaitMs: number;
+  private maxBufferedSpans: number;
+  private onExport: (span: ReadableSpan) => void;
+
+  constructor(
+    params: TailSamplingParams & { onExport: (span: ReadableSpan) => void },
+  ) {
+    this.shouldExportTrace = params.shouldExportTrace;
+    this.maxWaitMs = params.maxWaitMs ?? 30_000;
+    this.maxBufferedSpans = params.maxBufferedSpans ?? 10_000;
+    this.onExport = params.onExport;
+  }
+
+  /**
+   * Adds an ended span to the buffer of its trace.
+   *
+   * @param span - The span that ended
+   */
+  public add(span: ReadableSpan): void {
+    const { traceId } = span.spanContext();
+
+    const decision = this.decisions.get(traceId);
+    if (decision !== undefined) {
+      if (decision) this.onExport(span);
+
+      return;
+    }
+
+    let trace = this.traces.get(traceId);
+    if (!trace) {
+      trace = {
+        spans: [],
+        timer: safeSetTimeout(() => this.decide(traceId), this.maxWaitMs),
+      };
+      this.traces.set(traceId, trace);
+    }
+
+    trace.spans.push(span);
+    this.bufferedSpanCount++;
+
+    const isRootSpan =
+      !span.parentSpanContext || span.parentSpanContext.isRemote === true;
+
+    if (isRootSpan) {
+      this.decide(traceId, span);
+    }
+
+    // Evict oldest traces first, Map preserves insertion order
+    for (const oldestTraceId of this.traces.keys()) {
+      if (this.bufferedSpanCount <= this.maxBufferedSpans) break;
+
+      this.decide(oldestTraceId);
+    }
+  }
+
+  /**
+   * Makes the decision for all buffered traces, regardless of whether their
+   * root span ended.
+   */
+  public decideAll(): void {
+    for (const traceId of Array.from(this.traces.keys())) {
+      this.decide(traceId);
+    }
+  }
+
+  private decide(traceId: string, rootSpan?: ReadableSpan): void {
+    const trace = this.traces.get(traceId);
+    if (!trace) return;
+
+    clearTimeout(trace.timer);
+    this.traces.delete(traceId);
+    this.bufferedSpanCount -= trace.spans.length;
+
+    let shouldExport: boolean;
+
+    try {
+      shouldExport = this.shouldExportTrace({
+        traceId,
+        spans: trace.spans,
+        rootSpan,
+        isComplete: rootSpan !== undefined,
+      });
+    } catch (err) {
+      getGlobalLogger().error(
+        "ShouldExportTrace failed with error. Excluding trace. Error: ",
+        err,
+      );
+
+      shouldExport = false;
+    }
+
+    this.decisions.set(traceId, shouldExport);
+    safeSetTimeout(() => this.decisions.delete(traceId), this.maxWaitMs);
+
+    if (shouldExport) {
+      for (const span of trace.spans) {
+        this.onExport(span);
+      }
+    }
+  }
+}
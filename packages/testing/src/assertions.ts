@@ -0,0 +1,288 @@
+import { TestObservation, TestTrace } from "./trace-tree.js";
+
+/**
+ * Expected value of an observation or trace field. Strings can be matched
+ * with regular expressions, and objects match if they contain the expected
+ * properties.
+ *
+ * @public
+ */
+export type Matchable<T> = T extends string
+  ? string | RegExp
+  : T extends Date
+    ? Date
+    : T extends (infer U)[]
+      ? Matchable<U>[]
+      : T extends object
+        ? { [K in keyof T]?: Matchable<T[K]> }
+        : T;
+
+/**
+ * Criteria an observation has to match.
+ *
+ * @public
+ */
+export type ObservationCriteria = {
+  [K in Exclude<keyof TestObservation, "children" | "attributes">]?: Matchable<
+    TestObservation[K]
+  >;
+} & {
+  /** Name of the parent observation */
+  parentName?: string | RegExp;
+};
+
+/**
+ * Criteria a trace has to match.
+ *
+ * @public
+ */
+export type TraceCriteria = {
+  [K in Exclude<
+    keyof TestTrace,
+    "rootObservations" | "observations"
+  >]?: Matchable<TestTrace[K]>;
+};
+
+/**
+ * Error thrown when a trace assertion fails.
+ *
+ * @public
+ */
+export class TraceAssertionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TraceAssertionError";
+  }
+}
+
+/**
+ * Fluent assertions on a trace, created with {@link expectTrace}.
+ *
+ * Assertions throw a {@link TraceAssertionError} describing the trace tree
+ * when they fail, so they work with any test framework.
+ *
+ * @public
+ */
+export class TraceAssertions {
+  constructor(private trace: TestTrace) {}
+
+  /**
+   * Asserts that the trace matches the given criteria.
+   *
+   * @param criteria - Trace fields to match, e.g. `{ name: 'chat', userId: 'user-1' }`
+   * @returns The assertions for chaining
+   */
+  public toMatch(criteria: TraceCriteria): this {
+    if (!matches(this.trace, criteria)) {
+      this.fail(`to match ${formatCriteria(criteria)}`);
+    }
+
+    return this;
+  }
+
+  /**
+   * Asserts that the trace contains an observation matching the criteria.
+   *
+   * @param criteria - Observation fields to match
+   * @returns The assertions for chaining
+   */
+  public toHaveObservation(criteria: ObservationCriteria): this {
+    if (this.findObservations(criteria).length === 0) {
+      this.fail(`to have an observation matching ${formatCriteria(criteria)}`);
+    }
+
+    return this;
+  }
+
+  /**
+   * Asserts that the trace contains a generation matching the criteria.
+   *
+   * @param criteria - Generation fields to match, e.g. `{ model: 'gpt-4o', usage: { input: 10 } }`
+   * @returns The assertions for chaining
+   */
+  public toHaveGeneration(
+    criteria: Omit<ObservationCriteria, "type"> = {},
+  ): this {
+    return this.toHaveObservation({ ...criteria, type: "generation" });
+  }
+
+  /**
+   * Asserts that the trace contains a span matching the criteria.
+   *
+   * @param criteria - Span fields to match
+   * @returns The assertions for chaining
+   */
+  public toHaveSpan(criteria: Omit<ObservationCriteria, "type"> = {}): this {
+    return this.toHaveObservation({ ...criteria, type: "span" });
+  }
+
+  /**
+   * Asserts that the trace contains no observation matching the criteria.
+   *
+   * @param criteria - Observation fields to match
+   * @returns The assertions for chaining
+   */
+  public notToHaveObservation(criteria: ObservationCriteria): this {
+    if (this.findObservations(criteria).length > 0) {
+      this.fail(
+        `not to have an observation matching ${formatCriteria(criteria)}`,
+      );
+    }
+
+    return this;
+  }
+
+  /**
+   * Asserts the number of observations matching the criteria.
+   *
+   * @param count - The expected number of observations
+   * @param criteria - Observation fields to match (default: all observations)
+   * @returns The assertions for chaining
+   */
+  public toHaveObservationCount(
+    count: number,
+    criteria: ObservationCriteria = {},
+  ): this {
+    const actual = this.findObservations(criteria).length;
+
+    if (actual !== count) {
+      this.fail(
+        `to have ${count} observations matching ${formatCriteria(criteria)}, but found ${actual}`,
+      );
+    }
+
+    return this;
+  }
+
+  /**
+   * Asserts that no observation of the trace has the `ERROR` level.
+   *
+   * @returns The assertions for chaining
+   */
+  public toHaveNoErrors(): this {
+    return this.notToHaveObservation({ level: "ERROR" });
+  }
+
+  private findObservations(criteria: ObservationCriteria): TestObservation[] {
+    const { parentName, ...observationCriteria } = criteria;
+    const observationsById = new Map(
+      this.trace.observations.map((observation) => [
+        observation.id,
+        observation,
+      ]),
+    );
+
+    return this.trace.observations.filter((observation) => {
+      if (parentName !== undefined) {
+        const parent = observation.parentObservationId
+          ? observationsById.get(observation.parentObservationId)
+          : undefined;
+
+        if (!parent || !matches(parent.name, parentName)) return false;
+      }
+
+      return matches(observation, observationCriteria);
+    });
+  }
+
+  private fail(expectation: string): never {
+    throw new TraceAssertionError(
+      `Expected trace '${this.trace.name ?? this.trace.id}' ${expectation}.\n\nTrace:\n${formatTraceTree(this.trace)}`,
+    );
+  }
+}
+
+/**
+ * Creates fluent assertions on a trace.
+ *
+ * @param trace - The trace to assert on
+ * @returns The trace assertions
+ *
+ * @example
+ * ```typescript
+ * const trace = await harness.getTrace('chat');
+ *
+ * expectTrace(trace)
+ *   .toMatch({ userId: 'user-1' })
+ *   .toHaveGeneration({ model: 'gpt-4o', usage: { input: 10 } })
+ *   .toHaveNoErrors();
+ * ```
+ *
+ * @public
+ */
+export function expectTrace(trace: TestTrace): TraceAssertions {
+  return new TraceAssertions(trace);
+}
+
+/**
+ * Renders the observation tree of a trace as indented text, e.g. for
+ * assertion messages and debugging.
+ *
+ * @param trace - The trace to render
+ * @returns One line per observation with its type, name and model
+ *
+ * @public
+ */
+export function formatTraceTree(trace: TestTrace): string {
+  const lines: string[] = [];
+  const render = (observation: TestObservation, depth: number) => {
+    const details = [
+      observation.model ? `model: ${observation.model}` : undefined,
+      observation.level && observation.level !== "DEFAULT"
+        ? `level: ${observation.level}`
+        : undefined,
+    ].filter(Boolean);
+
+    lines.push(
+      `${"  ".repeat(depth)}- ${observation.type} "${observation.name}"${details.length > 0 ? ` (${details.join(", ")})` : ""}`,
+    );
+
+    for (const child of observation.children) {
+      render(child, depth + 1);
+    }
+  };
+
+  for (const observation of trace.rootObservations) {
+    render(observation, 1);
+  }
+
+  return lines.join("\n");
+}
+
+function matches(actual: unknown, expected: unknown): boolean {
+  if (expected instanceof RegExp) {
+    return typeof actual === "string" && expected.test(actual);
+  }
+
+  if (expected instanceof Date) {
+    return actual instanceof Date && actual.getTime() === expected.getTime();
+  }
+
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      actual.length === expected.length &&
+      expected.every((item, index) => matches(actual[index], item))
+    );
+  }
+
+  if (expected !== null && typeof expected === "object") {
+    return (
+      actual !== null &&
+      typeof actual === "object" &&
+      Object.entries(expected).every(
+        ([key, value]) =>
+          value === undefined ||
+          matches((actual as Record<string, unknown>)[key], value),
+      )
+    );
+  }
+
+  return Object.is(actual, expected);
+}
+
+function formatCriteria(criteria: object): string {
+  return JSON.stringify(criteria, (_, value) =>
+    value instanceof RegExp ? value.toString() : value,
+  );
+}
@@ -0,0 +1,235 @@
+import {
+  ElasticDashSpanProcessor,
+  ElasticDashSpanProcessorParams,
+} from "@elasticdash/otel";
+import { setElasticDashTracerProvider } from "@elasticdash/tracing";
+import { context } from "@opentelemetry/api";
+import { AsyncLocalStorageContextManager } from "@opentelemetry/context-async-hooks";
+import { ExportResult, ExportResultCode } from "@opentelemetry/core";
+import {
+  BasicTracerProvider,
+  ReadableSpan,
+  SpanExporter,
+} from "@opentelemetry/sdk-trace-base";
+
+import { buildTestTraces, TestTrace } from "./trace-tree.js";
+
+/**
+ * Span exporter keeping exported spans in memory.
+ *
+ * @public
+ */
+export class InMemoryElasticDashExporter implements SpanExporter {
+  private spans: ReadableSpan[] = [];
+  private isShutdown = false;
+
+  /**
+   * Stores the spans in memory.
+   *
+   * @override
+   */
+  public export(
+    spans: ReadableSpan[],
+    resultCallback: (result: ExportResult) => void,
+  ): void {
+    if (this.isShutdown) {
+      resultCallback({
+        code: ExportResultCode.FAILED,
+        error: new Error("InMemoryElasticDashExporter is shut down"),
+      });
+
+      return;
+    }
+
+    this.spans.push(...spans);
+    resultCallback({ code: ExportResultCode.SUCCESS });
+  }
+
+  /**
+   * Returns all exported spans in export order.
+   */
+  public getFinishedSpans(): ReadableSpan[] {
+    return [...this.spans];
+  }
+
+  /**
+   * Reconstructs the traces of all exported spans.
+   */
+  public getTraces(): TestTrace[] {
+    return buildTestTraces(this.spans);
+  }
+
+  /**
+   * Removes all exported spans.
+   */
+  public reset(): void {
+    this.spans = [];
+  }
+
+  /** @override */
+  public async forceFlush(): Promise<void> {}
+
+  /** @override */
+  public async shutdown(): Promise<void> {
+    this.isShutdown = true;
+    this.reset();
+  }
+}
+
+/**
+ * Configuration of the test harness. Accepts all parameters of the
+ * ElasticDashSpanProcessor except the exporter and export mode, e.g. to test
+ * `mask` or `shouldExportSpan` functions.
+ *
+ * @public
+ */
+export type ElasticDashTestingParams = Omit<
+  ElasticDashSpanProcessorParams,
+  "exporter" | "exportMode"
+>;
+
+/**
+ * Test harness capturing ElasticDash traces in memory.
+ *
+ * Created with {@link setupElasticDashTesting}. Spans are processed by an
+ * ElasticDashSpanProcessor exactly as in production and exported to an
+ * in-memory exporter, so no ElasticDash server is needed.
+ *
+ * @public
+ */
+export class ElasticDashTestHarness {
+  /** The in-memory exporter receiving all spans */
+  public readonly exporter: InMemoryElasticDashExporter;
+  /** The tracer provider registered with `setElasticDashTracerProvider` */
+  public readonly provider: BasicTracerProvider;
+
+  private contextManager?: AsyncLocalStorageContextManager;
+
+  /**
+   * Creates the harness and registers its tracer provider. Prefer
+   * {@link setupElasticDashTesting}.
+   *
+   * @param params - Optional span processor configuration
+   */
+  constructor(params?: ElasticDashTestingParams) {
+    this.exporter = new InMemoryElasticDashExporter();
+    this.provider = new BasicTracerProvider({
+      spanProcessors: [
+        new ElasticDashSpanProcessor({
+          ...params,
+          exporter: this.exporter,
+          exportMode: "immediate",
+        }),
+      ],
+    });
+
+    // Nested observations need a context manager. Keep an existing one.
+    const contextManager = new AsyncLocalStorageContextManager();
+    if (context.setGlobalContextManager(contextManager.enable())) {
+      this.contextManager = contextManager;
+    } else {
+      contextManager.disable();
+    }
+
+    setElasticDashTracerProvider(this.provider);
+  }
+
+  /**
+   * Waits until all ended spans are processed and exported.
+   */
+  public async flush(): Promise<void> {
+    await this.provider.forceFlush();
+  }
+
+  /**
+   * Flushes and returns all captured traces.
+   *
+   * @returns Promise resolving to the traces ordered by start time
+   */
+  public async getTraces(): Promise<TestTrace[]> {
+    await this.flush();
+
+    return this.exporter.getTraces();
+  }
+
+  /**
+   * Flushes and returns the most recent trace, optionally by name.
+   *
+   * @param name - Name of the trace to return
+   * @returns Promise resolving to the trace
+   * @throws If no matching trace was captured
+   */
+  public async getTrace(name?: string): Promise<TestTrace> {
+    const traces = (await this.getTraces()).filter(
+      (trace) => name === undefined || trace.name === name,
+    );
+    const trace = traces[traces.length - 1];
+
+    if (!trace) {
+      throw new Error(
+        name === undefined
+          ? "No trace was captured."
+          : `No trace named '${name}' was captured.`,
+      );
+    }
+
+    return trace;
+  }
+
+  /**
+   * Removes all captured spans, e.g. between tests.
+   */
+  public reset(): void {
+    this.exporter.reset();
+  }
+
+  /**
+   * Shuts down the tracer provider and unregisters it, as well as the
+   * context manager if the harness registered it.
+   */
+  public async teardown(): Promise<void> {
+    setElasticDashTracerProvider(null);
+    await this.provider.shutdown();
+
+    if (this.contextManager) {
+      context.disable();
+      this.contextManager = undefined;
+    }
+  }
+}
+
+/**
+ * Sets up an in-memory test harness for ElasticDash instrumentation.
+ *
+ * Registers an isolated tracer provider via `setElasticDashTracerProvider`,
+ * so all ElasticDash tracing functions export to memory while other
+ * OpenTelemetry instrumentation stays untouched.
+ *
+ * @param params - Optional span processor configuration
+ * @returns The test harness
+ *
+ * @example
+ * ```typescript
+ * import { expectTrace, setupElasticDashTesting } from '@elasticdash/testing';
+ * import { startActiveObservation } from '@elasticdash/tracing';
+ *
+ * const harness = setupElasticDashTesting();
+ * afterEach(() => harness.reset());
+ * afterAll(() => harness.teardown());
+ *
+ * it('traces the chat completion', async () => {
+ *   await answerQuestion('What is ElasticDash?');
+ *
+ *   expectTrace(await harness.getTrace('answer-question'))
+ *     .toHaveGeneration({ model: 'gpt-4o', usage: { input: 12 } })
+ *     .toHaveNoErrors();
+ * });
+ * ```
+ *
+ * @public
+ */
+export function setupElasticDashTesting(
+  params?: ElasticDashTestingParams,
+): ElasticDashTestHarness {
+  return new ElasticDashTestHarness(params);
+}
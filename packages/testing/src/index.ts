@@ -0,0 +1,4 @@
+export * from "./trace-tree.js";
+export * from "./assertions.js";
+export * from "./snapshot.js";
+export * from "./harness.js";
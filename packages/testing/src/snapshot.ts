@@ -0,0 +1,135 @@
+import { TestObservation, TestTrace } from "./trace-tree.js";
+
+/**
+ * Deterministic representation of an observation for snapshots.
+ *
+ * @public
+ */
+export type ObservationSnapshot = Omit<
+  TestObservation,
+  | "id"
+  | "traceId"
+  | "parentObservationId"
+  | "startTime"
+  | "endTime"
+  | "durationMs"
+  | "completionStartTime"
+  | "attributes"
+  | "children"
+> & {
+  children?: ObservationSnapshot[];
+};
+
+/**
+ * Deterministic representation of a trace for snapshots.
+ *
+ * @public
+ */
+export type TraceSnapshot = Omit<
+  TestTrace,
+  "id" | "rootObservations" | "observations"
+> & {
+  observations: ObservationSnapshot[];
+};
+
+/**
+ * Converts a trace to a deterministic representation for snapshot tests.
+ *
+ * IDs, timestamps, durations and raw span attributes are removed, as they
+ * change between test runs. Empty fields are omitted.
+ *
+ * @param trace - The trace to serialize
+ * @returns The snapshot representation of the trace
+ *
+ * @example
+ * ```typescript
+ * expect(serializeTrace(await harness.getTrace())).toMatchSnapshot();
+ * ```
+ *
+ * @public
+ */
+export function serializeTrace(trace: TestTrace): TraceSnapshot {
+  return omitEmpty({
+    name: trace.name,
+    userId: trace.userId,
+    sessionId: trace.sessionId,
+    tags: trace.tags,
+    public: trace.public,
+    input: trace.input,
+    output: trace.output,
+    metadata: trace.metadata,
+    observations: trace.rootObservations.map(serializeObservation),
+  });
+}
+
+function serializeObservation(
+  observation: TestObservation,
+): ObservationSnapshot {
+  return omitEmpty({
+    type: observation.type,
+    name: observation.name,
+    level: observation.level,
+    statusMessage: observation.statusMessage,
+    input: observation.input,
+    output: observation.output,
+    metadata: observation.metadata,
+    model: observation.model,
+    modelParameters: observation.modelParameters,
+    usage: observation.usage,
+    cost: observation.cost,
+    prompt: observation.prompt,
+    version: observation.version,
+    environment: observation.environment,
+    release: observation.release,
+    children: observation.children.map(serializeObservation),
+  });
+}
+
+/**
+ * Snapshot serializer for Vitest and Jest rendering traces with
+ * {@link serializeTrace}.
+ *
+ * @example
+ * ```typescript
+ * expect.addSnapshotSerializer(traceSnapshotSerializer);
+ *
+ * expect(await harness.getTrace()).toMatchSnapshot();
+ * ```
+ *
+ * @public
+ */
+export const traceSnapshotSerializer = {
+  test(value: unknown): boolean {
+    return (
+      value !== null &&
+      typeof value === "object" &&
+      Array.isArray((value as TestTrace).rootObservations) &&
+      Array.isArray((value as TestTrace).observations)
+    );
+  },
+  serialize(
+    value: TestTrace,
+    config: unknown,
+    indentation: string,
+    depth: number,
+    refs: unknown,
+    printer: (
+      value: unknown,
+      config: unknown,
+      indentation: string,
+      depth: number,
+      refs: unknown,
+    ) => string,
+  ): string {
+    return printer(serializeTrace(value), config, indentation, depth, refs);
+  },
+};
+
+function omitEmpty<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(
+      ([, item]) =>
+        item !== undefined && !(Array.isArray(item) && item.length === 0),
+    ),
+  ) as T;
+}
@@ -0,0 +1,307 @@
+import { ElasticDashOtelSpanAttributes } from "@elasticdash/core";
+import type {
+  ElasticDashObservationType,
+  ObservationLevel,
+} from "@elasticdash/tracing";
+import { Attributes } from "@opentelemetry/api";
+import { hrTimeToMilliseconds } from "@opentelemetry/core";
+import { ReadableSpan } from "@opentelemetry/sdk-trace-base";
+
+/**
+ * Observation decoded from the ElasticDash attributes of an exported span.
+ *
+ * JSON attribute values such as input, output and usage are parsed. Values
+ * that are not valid JSON are kept as strings.
+ *
+ * @public
+ */
+export type TestObservation = {
+  /** ID of the observation, i.e. the span ID */
+  id: string;
+  /** ID of the trace the observation belongs to */
+  traceId: string;
+  /** ID of the parent observation, if any */
+  parentObservationId?: string;
+  /** Name of the observation */
+  name: string;
+  /** Type of the observation (default: "span") */
+  type: ElasticDashObservationType;
+  /** Start time of the observation */
+  startTime: Date;
+  /** End time of the observation */
+  endTime: Date;
+  /** Duration of the observation in milliseconds */
+  durationMs: number;
+  /** Severity level of the observation */
+  level?: ObservationLevel;
+  /** Status message of the observation */
+  statusMessage?: string;
+  /** Input of the observation */
+  input?: unknown;
+  /** Output of the observation */
+  output?: unknown;
+  /** Metadata of the observation */
+  metadata?: Record<string, unknown>;
+  /** Model name of a generation */
+  model?: string;
+  /** Model parameters of a generation */
+  modelParameters?: Record<string, unknown>;
+  /** Token usage details of a generation */
+  usage?: Record<string, number>;
+  /** Cost details of a generation */
+  cost?: Record<string, number>;
+  /** Time the first token of a generation was received */
+  completionStartTime?: Date;
+  /** Prompt linked to a generation */
+  prompt?: { name: string; version?: number };
+  /** Version of the observation */
+  version?: string;
+  /** Environment of the observation */
+  environment?: string;
+  /** Release of the observation */
+  release?: string;
+  /** Child observations ordered by start time */
+  children: TestObservation[];
+  /** Raw attributes of the exported span */
+  attributes: Attributes;
+};
+
+/**
+ * Trace reconstructed from exported spans.
+ *
+ * Trace attributes such as the name, user ID and tags are merged from all
+ * spans of the trace in start time order, so later updates win.
+ *
+ * @public
+ */
+export type TestTrace = {
+  /** ID of the trace */
+  id: string;
+  /** Name of the trace, defaulting to the name of the first root observation */
+  name?: string;
+  /** User ID of the trace */
+  userId?: string;
+  /** Session ID of the trace */
+  sessionId?: string;
+  /** Tags of the trace */
+  tags: string[];
+  /** Whether the trace is public */
+  public?: boolean;
+  /** Input of the trace */
+  input?: unknown;
+  /** Output of the trace */
+  output?: unknown;
+  /** Metadata of the trace */
+  metadata?: Record<string, unknown>;
+  /** Observations without a parent in this trace, ordered by start time */
+  rootObservations: TestObservation[];
+  /** All observations of the trace, ordered by start time */
+  observations: TestObservation[];
+};
+
+/**
+ * Reconstructs ElasticDash traces from exported spans.
+ *
+ * Spans are grouped by trace ID and nested by their parent span IDs. Spans
+ * whose parent was not exported become root observations.
+ *
+ * @param spans - The exported spans
+ * @returns The traces ordered by the start time of their first observation
+ *
+ * @example
+ * ```typescript
+ * const exporter = new InMemorySpanExporter();
+ * // ... run instrumented code ...
+ * const [trace] = buildTestTraces(exporter.getFinishedSpans());
+ * ```
+ *
+ * @public
+ */
+export function buildTestTraces(spans: ReadableSpan[]): TestTrace[] {
+  const observations = spans
+    .map(decodeObservation)
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  const observationsById = new Map(
+    observations.map((observation) => [observation.id, observation]),
+  );
+  const traces = new Map<string, TestTrace>();
+
+  for (const observation of observations) {
+    let trace = traces.get(observation.traceId);
+
+    if (!trace) {
+      trace = {
+        id: observation.traceId,
+        tags: [],
+        rootObservations: [],
+        observations: [],
+      };
+      traces.set(observation.traceId, trace);
+    }
+
+    trace.observations.push(observation);
+    mergeTraceAttributes(trace, observation.attributes);
+
+    const parent = observation.parentObservationId
+      ? observationsById.get(observation.parentObservationId)
+      : undefined;
+
+    if (parent && parent.traceId === observation.traceId) {
+      parent.children.push(observation);
+    } else {
+      trace.rootObservations.push(observation);
+    }
+  }
+
+  for (const trace of traces.values()) {
+    trace.name ??= trace.rootObservations[0]?.name;
+  }
+
+  return Array.from(traces.values());
+}
+
+function decodeObservation(span: ReadableSpan): TestObservation {
+  const attributes = span.attributes;
+  const get = (key: ElasticDashOtelSpanAttributes) => attributes[key];
+  const promptName = get(ElasticDashOtelSpanAttributes.OBSERVATION_PROMPT_NAME);
+  const completionStartTime = parseJsonAttribute(
+    get(ElasticDashOtelSpanAttributes.OBSERVATION_COMPLETION_START_TIME),
+  );
+
+  return removeUndefined({
+    id: span.spanContext().spanId,
+    traceId: span.spanContext().traceId,
+    parentObservationId: span.parentSpanContext?.spanId,
+    name: span.name,
+    type: (get(ElasticDashOtelSpanAttributes.OBSERVATION_TYPE) ??
+      "span") as ElasticDashObservationType,
+    startTime: new Date(hrTimeToMilliseconds(span.startTime)),
+    endTime: new Date(hrTimeToMilliseconds(span.endTime)),
+    durationMs: hrTimeToMilliseconds(span.duration),
+    level: get(ElasticDashOtelSpanAttributes.OBSERVATION_LEVEL) as
+      | ObservationLevel
+      | undefined,
+    statusMessage: get(
+      ElasticDashOtelSpanAttributes.OBSERVATION_STATUS_MESSAGE,
+    ) as string | undefined,
+    input: parseJsonAttribute(
+      get(ElasticDashOtelSpanAttributes.OBSERVATION_INPUT),
+    ),
+    output: parseJsonAttribute(
+      get(ElasticDashOtelSpanAttributes.OBSERVATION_OUTPUT),
+    ),
+    metadata: decodeMetadata(
+      attributes,
+      ElasticDashOtelSpanAttributes.OBSERVATION_METADATA,
+    ),
+    model: get(ElasticDashOtelSpanAttributes.OBSERVATION_MODEL) as
+      | string
+      | undefined,
+    modelParameters: parseJsonAttribute(
+      get(ElasticDashOtelSpanAttributes.OBSERVATION_MODEL_PARAMETERS),
+    ) as Record<string, unknown> | undefined,
+    usage: parseJsonAttribute(
+      get(ElasticDashOtelSpanAttributes.OBSERVATION_USAGE_DETAILS),
+    ) as Record<string, number> | undefined,
+    cost: parseJsonAttribute(
+      get(ElasticDashOtelSpanAttributes.OBSERVATION_COST_DETAILS),
+    ) as Record<string, number> | undefined,
+    completionStartTime:
+      typeof completionStartTime === "string"
+        ? new Date(completionStartTime)
+        : undefined,
+    prompt:
+      typeof promptName === "string"
+        ? removeUndefined({
+            name: promptName,
+            version: get(
+              ElasticDashOtelSpanAttributes.OBSERVATION_PROMPT_VERSION,
+            ) as number | undefined,
+          })
+        : undefined,
+    version: get(ElasticDashOtelSpanAttributes.VERSION) as string | undefined,
+    environment: get(ElasticDashOtelSpanAttributes.ENVIRONMENT) as
+      | string
+      | undefined,
+    release: get(ElasticDashOtelSpanAttributes.RELEASE) as string | undefined,
+    children: [],
+    attributes,
+  });
+}
+
+function mergeTraceAttributes(trace: TestTrace, attributes: Attributes): void {
+  const get = (...keys: ElasticDashOtelSpanAttributes[]) =>
+    keys.map((key) => attributes[key]).find((value) => value !== undefined);
+
+  const name = get(ElasticDashOtelSpanAttributes.TRACE_NAME);
+  const userId = get(
+    ElasticDashOtelSpanAttributes.TRACE_USER_ID,
+    ElasticDashOtelSpanAttributes.TRACE_COMPAT_USER_ID,
+  );
+  const sessionId = get(
+    ElasticDashOtelSpanAttributes.TRACE_SESSION_ID,
+    ElasticDashOtelSpanAttributes.TRACE_COMPAT_SESSION_ID,
+  );
+  const tags = get(ElasticDashOtelSpanAttributes.TRACE_TAGS);
+  const isPublic = get(ElasticDashOtelSpanAttributes.TRACE_PUBLIC);
+  const input = get(ElasticDashOtelSpanAttributes.TRACE_INPUT);
+  const output = get(ElasticDashOtelSpanAttributes.TRACE_OUTPUT);
+  const metadata = decodeMetadata(
+    attributes,
+    ElasticDashOtelSpanAttributes.TRACE_METADATA,
+  );
+
+  if (typeof name === "string") trace.name = name;
+  if (typeof userId === "string") trace.userId = userId;
+  if (typeof sessionId === "string") trace.sessionId = sessionId;
+  if (typeof isPublic === "boolean") trace.public = isPublic;
+  if (input !== undefined) trace.input = parseJsonAttribute(input);
+  if (output !== undefined) trace.output = parseJsonAttribute(output);
+  if (metadata) trace.metadata = { ...trace.metadata, ...metadata };
+  if (Array.isArray(tags)) {
+    trace.tags = Array.from(new Set([...trace.tags, ...tags.map(String)]));
+  }
+}
+
+function decodeMetadata(
+  attributes: Attributes,
+  prefix: ElasticDashOtelSpanAttributes,
+): Record<string, unknown> | undefined {
+  let metadata: Record<string, unknown> | undefined;
+
+  for (const [key, value] of Object.entries(attributes)) {
+    if (key === prefix) {
+      const parsed = parseJsonAttribute(value);
+
+      metadata = {
+        ...metadata,
+        ...(parsed !== null && typeof parsed === "object"
+          ? (parsed as Record<string, unknown>)
+          : { value: parsed }),
+      };
+    } else if (key.startsWith(`${prefix}.`)) {
+      metadata = {
+        ...metadata,
+        [key.slice(prefix.length + 1)]: parseJsonAttribute(value),
+      };
+    }
+  }
+
+  return metadata;
+}
+
+function parseJsonAttribute(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+function removeUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, item]) => item !== undefined),
+  ) as T;
+}
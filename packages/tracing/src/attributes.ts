@@ -1,4 +1,7 @@
-import { ElasticDashOtelSpanAttributes } from "@elasticdash/core";
+import {
+  ElasticDashOtelSpanAttributes,
+  bytesToBase64,
+} from "@elasticdash/core";
 import { type Attributes } from "@opentelemetry/api";
 
 import {
@@ -126,7 +129,21 @@ function _serialize(obj: unknown): string | undefined {
   try {
     if (typeof obj === "string") return obj;
 
-    return obj != null ? JSON.stringify(obj) : undefined;
+    // Serialize byte arrays and Node.js Buffers as base64 so their media is
+    // extracted. The holder is read because Buffers are converted by `toJSON`
+    // before they reach the replacer.
+    return obj != null
+      ? JSON.stringify(
+          obj,
+          function (this: Record<string, unknown>, key: string, value) {
+            const original = this[key];
+
+            return original instanceof Uint8Array
+              ? { type: "Buffer", base64: bytesToBase64(original) }
+              : value;
+          },
+        )
+      : undefined;
   } catch {
     return "<failed to serialize>";
   }
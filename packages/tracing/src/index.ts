@@ -61,6 +61,12 @@ export {
   createTraceAttributes,
   createObservationAttributes,
 } from "./attributes.js";
+export {
+  ModelPriceRegistry,
+  getModelPriceRegistry,
+  setModelPriceRegistry,
+  type ModelPrice,
+} from "./modelPrices.js";
 export {
   setElasticDashTracerProvider,
   getElasticDashTracerProvider,
@@ -0,0 +1,302 @@
+import { getGlobalLogger, type ElasticDashAPIClient } from "@elasticdash/core";
+
+import { getGlobalState } from "./tracerProvider.js";
+
+/**
+ * Price definition of a model for client-side cost calculation.
+ *
+ * Prices are in USD per usage unit (usually per token) and keyed by usage
+ * type, matching the keys of `usageDetails`, e.g. `input`, `output`,
+ * `input_cached_tokens` or `output_reasoning_tokens`. Usage types without an
+ * own price are not charged, as cached or audio tokens are billed at different
+ * rates than `input` and `output` tokens.
+ *
+ * @public
+ */
+export type ModelPrice = {
+  /** Name of the model */
+  modelName: string;
+  /**
+   * Pattern matched against the generation model. Strings are interpreted as
+   * regular expressions and may start with the case-insensitivity flag `(?i)`.
+   * Defaults to a case-insensitive exact match of `modelName`.
+   */
+  matchPattern?: string | RegExp;
+  /** Date from which the prices apply. Applies to all generations if not set. */
+  startDate?: Date | string | null;
+  /** Price per unit by usage type */
+  prices: Record<string, number>;
+};
+
+type RegisteredModelPrice = {
+  price: ModelPrice;
+  pattern: RegExp;
+  startTime: number;
+  source: "code" | "api";
+};
+
+/**
+ * Registry of model prices used to calculate generation costs on the client.
+ *
+ * When a generation is updated with `usageDetails` but without `costDetails`,
+ * the costs are derived from the prices registered for the generation model.
+ * Prices registered in code take precedence over prices loaded from the
+ * ElasticDash models API. Among prices of the same source, the one with the
+ * latest `startDate` that is not in the future wins.
+ *
+ * @example
+ * ```typescript
+ * import { getModelPriceRegistry } from "@elasticdash/tracing";
+ *
+ * const registry = getModelPriceRegistry();
+ *
+ * // Seed from the models configured in ElasticDash
+ * await registry.loadFromApi(elasticdash.api);
+ *
+ * // Override in code
+ * registry.register({
+ *   modelName: "gpt-4o",
+ *   prices: {
+ *     input: 2.5e-6,
+ *     input_cached_tokens: 1.25e-6,
+ *     output: 10e-6,
+ *   },
+ * });
+ * ```
+ *
+ * @public
+ */
+export class ModelPriceRegistry {
+  private entries: RegisteredModelPrice[] = [];
+  private warnedUnpricedUsageTypes = new Set<string>();
+
+  /**
+   * Registers prices of one or more models.
+   *
+   * @param prices - Model price definitions
+   * @returns The registry for chaining
+   */
+  register(prices: ModelPrice | ModelPrice[]): this {
+    for (const price of Array.isArray(prices) ? prices : [prices]) {
+      this.addEntry(price, "code");
+    }
+
+    return this;
+  }
+
+  /**
+   * Loads the prices of all models defined in ElasticDash.
+   *
+   * Previously loaded API prices are replaced, prices registered in code are
+   * kept and continue to take precedence.
+   *
+   * @param apiClient - ElasticDash API client, e.g. `elasticdash.api`
+   * @param options - Optional configuration
+   * @param options.fetchPageSize - Number of models to fetch per request (default: 100)
+   * @returns Promise that resolves to the number of loaded model prices
+   */
+  async loadFromApi(
+    apiClient: Pick<ElasticDashAPIClient, "models">,
+    options?: { fetchPageSize?: number },
+  ): Promise<number> {
+    const loaded: ModelPrice[] = [];
+
+    let page = 1;
+
+    while (true) {
+      const modelsResponse = await apiClient.models.list({
+        page,
+        limit: options?.fetchPageSize ?? 100,
+      });
+
+      for (const model of modelsResponse.data) {
+        const prices: Record<string, number> = Object.fromEntries(
+          Object.entries(model.prices ?? {}).map(([usageType, { price }]) => [
+            usageType,
+            price,
+          ]),
+        );
+
+        // Legacy flat pricing
+        if (model.inputPrice != null) prices.input ??= model.inputPrice;
+        if (model.outputPrice != null) prices.output ??= model.outputPrice;
+        if (model.totalPrice != null) prices.total ??= model.totalPrice;
+
+        if (Object.keys(prices).length > 0) {
+          loaded.push({
+            modelName: model.modelName,
+            matchPattern: model.matchPattern,
+            startDate: model.startDate,
+            prices,
+          });
+        }
+      }
+
+      if (modelsResponse.meta.totalPages <= page) {
+        break;
+      }
+
+      page++;
+    }
+
+    this.entries = this.entries.filter((entry) => entry.source !== "api");
+    for (const price of loaded) {
+      this.addEntry(price, "api");
+    }
+
+    return loaded.length;
+  }
+
+  /**
+   * Removes all registered prices.
+   */
+  clear(): void {
+    this.entries = [];
+  }
+
+  /**
+   * Finds the prices applying to a model at a point in time.
+   *
+   * @param model - Model name of the generation
+   * @param at - Time of the generation (default: now)
+   * @returns The applicable model price or undefined if none matches
+   */
+  getPrice(model: string, at: Date = new Date()): ModelPrice | undefined {
+    const time = at.getTime();
+    let best: RegisteredModelPrice | undefined;
+
+    for (const entry of this.entries) {
+      if (entry.startTime > time || !entry.pattern.test(model)) continue;
+
+      if (
+        !best ||
+        (entry.source === "code" && best.source === "api") ||
+        (entry.source === best.source && entry.startTime >= best.startTime)
+      ) {
+        best = entry;
+      }
+    }
+
+    return best?.price;
+  }
+
+  /**
+   * Calculates the cost of a generation from its usage.
+   *
+   * Usage types without a price are left out of the cost and logged once per
+   * model as a warning.
+   *
+   * @param model - Model name of the generation
+   * @param usageDetails - Usage by usage type, e.g. `{ input: 100, output: 20 }`
+   * @param at - Time of the generation (default: now)
+   * @returns Cost by usage type including `total`, or undefined if no price applies
+   */
+  calculateCost(
+    model: string,
+    usageDetails: Record<string, unknown>,
+    at?: Date,
+  ): Record<string, number> | undefined {
+    const price = this.getPrice(model, at);
+    if (!price) return undefined;
+
+    const { prices } = price;
+    const costDetails: Record<string, number> = {};
+    let total = 0;
+
+    for (const [usageType, units] of Object.entries(usageDetails)) {
+      if (usageType === "total" || typeof units !== "number") continue;
+
+      const unitPrice = prices[usageType];
+
+      if (unitPrice === undefined) {
+        this.warnUnpricedUsageType(price.modelName, usageType);
+        continue;
+      }
+
+      costDetails[usageType] = units * unitPrice;
+      total += costDetails[usageType];
+    }
+
+    if (Object.keys(costDetails).length === 0) {
+      const totalUnits = usageDetails.total;
+
+      if (prices.total === undefined || typeof totalUnits !== "number") {
+        return undefined;
+      }
+
+      total = totalUnits * prices.total;
+    }
+
+    return { ...costDetails, total };
+  }
+
+  private warnUnpricedUsageType(modelName: string, usageType: string) {
+    const key = `${modelName}:${usageType}`;
+    if (this.warnedUnpricedUsageTypes.has(key)) return;
+
+    this.warnedUnpricedUsageTypes.add(key);
+    getGlobalLogger().warn(
+      `No price for usage type '${usageType}' of model '${modelName}'. Usage is not included in the derived cost.`,
+    );
+  }
+
+  private addEntry(price: ModelPrice, source: "code" | "api") {
+    try {
+      this.entries.push({
+        price,
+        pattern: toMatchPattern(price),
+        startTime: price.startDate ? new Date(price.startDate).getTime() : 0,
+        source,
+      });
+    } catch (err) {
+      getGlobalLogger().warn(
+        `Skipping price of model '${price.modelName}' with invalid match pattern:`,
+        err,
+      );
+    }
+  }
+}
+
+/**
+ * Gets the model price registry used for client-side cost calculation.
+ *
+ * @returns The global model price registry
+ *
+ * @public
+ */
+export function getModelPriceRegistry(): ModelPriceRegistry {
+  const state = getGlobalState();
+
+  state.modelPriceRegistry ??= new ModelPriceRegistry();
+
+  return state.modelPriceRegistry;
+}
+
+/**
+ * Sets the model price registry used for client-side cost calculation.
+ *
+ * @param registry - The registry to use, or null to reset to an empty registry
+ *
+ * @public
+ */
+export function setModelPriceRegistry(registry: ModelPriceRegistry | null) {
+  getGlobalState().modelPriceRegistry = registry;
+}
+
+function toMatchPattern(price: ModelPrice): RegExp {
+  const { matchPattern, modelName } = price;
+
+  if (matchPattern instanceof RegExp) return matchPattern;
+
+  if (matchPattern === undefined) {
+    return new RegExp(
+      `^${modelName.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}$`,
+      "i",
+    );
+  }
+
+  // Patterns from the models API use the inline case-insensitivity flag, which JavaScript does not support
+  return matchPattern.startsWith("(?i)")
+    ? new RegExp(matchPattern.slice(4), "i")
+    : new RegExp(matchPattern);
+}
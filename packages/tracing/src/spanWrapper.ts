@@ -1,9 +1,10 @@
-import { Span, TimeInput } from "@opentelemetry/api";
+import { HrTime, Span, TimeInput } from "@opentelemetry/api";
 
 import {
   createObservationAttributes,
   createTraceAttributes,
 } from "./attributes.js";
+import { getModelPriceRegistry } from "./modelPrices.js";
 import { getElasticDashTracer } from "./tracerProvider.js";
 import {
   ElasticDashGenerationAttributes,
@@ -1298,12 +1299,43 @@ type ElasticDashGenerationParams = {
  * @public
  */
 export class ElasticDashGeneration extends ElasticDashBaseObservation {
+  private model: string | undefined;
+  private requestedModel: string | undefined;
+
   constructor(params: ElasticDashGenerationParams) {
-    super({ ...params, type: "generation" });
+    super({
+      ...params,
+      attributes: withDerivedCostDetails(
+        params.attributes,
+        [params.attributes?.model],
+        params.otelSpan,
+      ),
+      type: "generation",
+    });
+
+    this.model = params.attributes?.model;
+    this.requestedModel = this.model;
   }
 
+  /**
+   * Updates this generation with new attributes.
+   *
+   * If `usageDetails` are set without `costDetails`, the costs are derived
+   * from the prices in the {@link ModelPriceRegistry} for the generation model.
+   *
+   * @param attributes - Generation attributes to set
+   * @returns This generation for method chaining
+   */
   update(attributes: ElasticDashGenerationAttributes): ElasticDashGeneration {
-    this.updateOtelSpanAttributes(attributes);
+    this.model = attributes.model ?? this.model;
+    this.requestedModel ??= this.model;
+    this.updateOtelSpanAttributes(
+      withDerivedCostDetails(
+        attributes,
+        [this.model, this.requestedModel],
+        this.otelSpan,
+      ),
+    );
 
     return this;
   }
@@ -1383,8 +1415,22 @@ type ElasticDashEmbeddingParams = {
  * @public
  */
 export class ElasticDashEmbedding extends ElasticDashBaseObservation {
+  private model: string | undefined;
+  private requestedModel: string | undefined;
+
   constructor(params: ElasticDashEmbeddingParams) {
-    super({ ...params, type: "embedding" });
+    super({
+      ...params,
+      attributes: withDerivedCostDetails(
+        params.attributes,
+        [params.attributes?.model],
+        params.otelSpan,
+      ),
+      type: "embedding",
+    });
+
+    this.model = params.attributes?.model;
+    this.requestedModel = this.model;
   }
 
   /**
@@ -1394,7 +1440,15 @@ export class ElasticDashEmbedding extends ElasticDashBaseObservation {
    * @returns This embedding for method chaining
    */
   update(attributes: ElasticDashEmbeddingAttributes): ElasticDashEmbedding {
-    this.updateOtelSpanAttributes(attributes);
+    this.model = attributes.model ?? this.model;
+    this.requestedModel ??= this.model;
+    this.updateOtelSpanAttributes(
+      withDerivedCostDetails(
+        attributes,
+        [this.model, this.requestedModel],
+        this.otelSpan,
+      ),
+    );
 
     return this;
   }
@@ -1428,3 +1482,44 @@ export class ElasticDashEvent extends ElasticDashBaseObservation {
     this.otelSpan.end(params.timestamp);
   }
 }
+
+/**
+ * Adds cost details derived from the model price registry to generation
+ * attributes that carry usage details but no cost details. Prices are looked
+ * up at the start time of the observation for the first of the given models
+ * that has a price, so a dated response model such as `gpt-4o-2024-08-06`
+ * falls back to the requested model `gpt-4o`.
+ */
+function withDerivedCostDetails<
+  T extends ElasticDashGenerationAttributes | undefined,
+>(attributes: T, models: (string | undefined)[], otelSpan: Span): T {
+  if (!attributes?.usageDetails || attributes.costDetails) {
+    return attributes;
+  }
+
+  const registry = getModelPriceRegistry();
+  const startTime = getSpanStartTime(otelSpan);
+  const model = models.find(
+    (model) => model !== undefined && registry.getPrice(model, startTime),
+  );
+  if (!model) return attributes;
+
+  const costDetails = registry.calculateCost(
+    model,
+    attributes.usageDetails as Record<string, unknown>,
+    startTime,
+  );
+
+  return costDetails ? { ...attributes, costDetails } : attributes;
+}
+
+/**
+ * Reads the start time of an SDK span, which the span API does not expose.
+ */
+function getSpanStartTime(otelSpan: Span): Date | undefined {
+  const startTime = (otelSpan as Partial<{ startTime: HrTime }>).startTime;
+
+  return startTime
+    ? new Date(startTime[0] * 1000 + startTime[1] / 1e6)
+    : undefined;
+}
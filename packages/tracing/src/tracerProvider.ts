@@ -5,15 +5,19 @@ import {
 } from "@elasticdash/core";
 import { TracerProvider, trace } from "@opentelemetry/api";
 
+import type { ModelPriceRegistry } from "./modelPrices.js";
+
 const ELASTICDASH_GLOBAL_SYMBOL = Symbol.for("elasticdash");
 
 type ElasticDashGlobalState = {
   isolatedTracerProvider: TracerProvider | null;
+  modelPriceRegistry?: ModelPriceRegistry | null;
 };
 
 function createState(): ElasticDashGlobalState {
   return {
     isolatedTracerProvider: null,
+    modelPriceRegistry: null,
   };
 }
 
@@ -21,7 +25,12 @@ interface GlobalThis {
   [ELASTICDASH_GLOBAL_SYMBOL]?: ElasticDashGlobalState;
 }
 
-function getGlobalState(): ElasticDashGlobalState {
+/**
+ * Gets the ElasticDash state shared across all copies of this package.
+ *
+ * @internal
+ */
+export function getGlobalState(): ElasticDashGlobalState {
   const initialState = createState();
 
   try {
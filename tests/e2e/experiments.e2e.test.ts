@@ -871,6 +871,65 @@ describe("ElasticDash Datasets E2E", () => {
         metadata: { testKey: "testValue", experimentVersion: "1.0" },
       });
     });
+
+    it("should load a past run into an experiment result", async () => {
+      const datasetName = "load-run-test-" + nanoid();
+      await elasticdash.api.datasets.create({ name: datasetName });
+
+      await Promise.all(
+        dataset
+          .slice(0, 2)
+          .map((item) =>
+            elasticdash.api.datasetItems.create({ datasetName, ...item }),
+          ),
+      );
+
+      const fetchedDataset = await elasticdash.dataset.get(datasetName);
+
+      const result = await fetchedDataset.runExperiment({
+        name: "Load run test",
+        description: "Testing loading past runs",
+        task: async ({ input }) => `Capital of ${input}`,
+        evaluators: [async () => ({ name: "load-test-eval", value: 0.5 })],
+        runEvaluators: [
+          async () => ({ name: "load-test-run-eval", value: 0.75 }),
+        ],
+      });
+
+      await testEnv.spanProcessor.forceFlush();
+      await waitForServerIngestion(3000);
+
+      const loaded = await elasticdash.experiment.loadRun(
+        datasetName,
+        result.runName,
+      );
+
+      expect(loaded.runName).toBe(result.runName);
+      expect(loaded.datasetRunId).toBe(result.datasetRunId);
+      expect(loaded.datasetRunUrl).toBe(result.datasetRunUrl);
+      expect(loaded.itemResults).toHaveLength(2);
+      expect(loaded.runEvaluations).toEqual([
+        expect.objectContaining({ name: "load-test-run-eval", value: 0.75 }),
+      ]);
+
+      for (const itemResult of result.itemResults) {
+        const loadedItemResult = loaded.itemResults.find(
+          (r) => r.traceId === itemResult.traceId,
+        );
+
+        expect(loadedItemResult).toMatchObject({
+          output: itemResult.output,
+          item: { id: (itemResult.item as { id: string }).id },
+          evaluations: [
+            expect.objectContaining({ name: "load-test-eval", value: 0.5 }),
+          ],
+        });
+      }
+
+      const comparison = await elasticdash.experiment.compare(loaded, result);
+      expect(comparison.matchedItems).toHaveLength(2);
+      expect(comparison.hasRegression).toBe(false);
+    });
   });
 
   // Different Evaluator Configurations Tests
@@ -765,7 +765,7 @@ describe("ElasticDash Prompts E2E", () => {
           name: "concurrent-test",
         });
         const cachedItem =
-          elasticdash.prompt["cache"].getIncludingExpired(cacheKey);
+          await elasticdash.prompt["cache"].getIncludingExpired(cacheKey);
         if (cachedItem) {
           // Force expiry by setting expiry time to past
           cachedItem["_expiry"] = Date.now() - 1000;
@@ -0,0 +1,370 @@
+/**
+ * Tests for the Anthropic SDK integration.
+ *
+ * This test suite verifies tracing of `messages.create` and `messages.stream`
+ * calls of an Anthropic SDK client as generations, including parsed usage
+ * details with cache tokens, `tool_use` blocks, stop reasons and the
+ * ElasticDash configuration. The Anthropic client is a fake with the shape of
+ * the SDK, so no API key is needed.
+ */
+
+import { EventEmitter } from "node:events";
+
+import { observeAnthropic } from "@elasticdash/anthropic";
+import { ElasticDashOtelSpanAttributes as Attributes } from "@elasticdash/core";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+import {
+  setupTestEnvironment,
+  teardownTestEnvironment,
+  waitForSpanExport,
+  type TestEnvironment,
+} from "./helpers/testSetup.js";
+
+const toolUseMessage = {
+  id: "msg_01",
+  type: "message",
+  role: "assistant",
+  model: "claude-sonnet-4-5-20250929",
+  content: [
+    { type: "text", text: "Let me check the weather." },
+    {
+      type: "tool_use",
+      id: "toolu_01",
+      name: "get_weather",
+      input: { city: "Paris" },
+    },
+  ],
+  stop_reason: "tool_use",
+  stop_sequence: null,
+  usage: {
+    input_tokens: 120,
+    output_tokens: 40,
+    cache_read_input_tokens: 1000,
+    cache_creation_input_tokens: 200,
+  },
+};
+
+const streamEvents = [
+  {
+    type: "message_start",
+    message: {
+      id: "msg_02",
+      type: "message",
+      role: "assistant",
+      model: "claude-sonnet-4-5-20250929",
+      content: [],
+      stop_reason: null,
+      usage: { input_tokens: 30, output_tokens: 1 },
+    },
+  },
+  {
+    type: "content_block_start",
+    index: 0,
+    content_block: { type: "text", text: "" },
+  },
+  {
+    type: "content_block_delta",
+    index: 0,
+    delta: { type: "text_delta", text: "Hello" },
+  },
+  {
+    type: "content_block_delta",
+    index: 0,
+    delta: { type: "text_delta", text: " world" },
+  },
+  { type: "content_block_stop", index: 0 },
+  {
+    type: "content_block_start",
+    index: 1,
+    content_block: {
+      type: "tool_use",
+      id: "toolu_02",
+      name: "search",
+      input: {},
+    },
+  },
+  {
+    type: "content_block_delta",
+    index: 1,
+    delta: { type: "input_json_delta", partial_json: '{"query":' },
+  },
+  {
+    type: "content_block_delta",
+    index: 1,
+    delta: { type: "input_json_delta", partial_json: '"ElasticDash"}' },
+  },
+  { type: "content_block_stop", index: 1 },
+  {
+    type: "message_delta",
+    delta: { stop_reason: "tool_use", stop_sequence: null },
+    usage: { output_tokens: 25 },
+  },
+  { type: "message_stop" },
+];
+
+class FakeMessageStream extends EventEmitter {
+  public errored = false;
+  public aborted = false;
+
+  constructor(
+    private message: unknown,
+    failure?: "error" | "abort",
+  ) {
+    super();
+    setTimeout(() => {
+      this.emit("streamEvent", streamEvents[0]);
+
+      if (failure === "error") {
+        this.errored = true;
+      } else if (failure === "abort") {
+        this.aborted = true;
+      } else {
+        this.emit("finalMessage", this.message);
+      }
+
+      this.emit("end");
+    }, 0);
+  }
+
+  finalMessage(): Promise<unknown> {
+    return new Promise((resolve) => this.once("finalMessage", resolve));
+  }
+
+  async *[Symbol.asyncIterator]() {
+    yield* streamEvents;
+  }
+}
+
+class Messages {
+  async create(params: Record<string, any>): Promise<unknown> {
+    if (params.model === "unknown-model") {
+      throw new Error("404 model not found");
+    }
+
+    if (params.stream) {
+      return (async function* () {
+        yield* streamEvents;
+      })();
+    }
+
+    return toolUseMessage;
+  }
+
+  stream(params: Record<string, any>): FakeMessageStream {
+    return new FakeMessageStream(toolUseMessage, params.failure);
+  }
+
+  async countTokens(): Promise<{ input_tokens: number }> {
+    return { input_tokens: 12 };
+  }
+}
+
+class Anthropic {
+  public messages = new Messages();
+}
+
+describe("Anthropic Integration", () => {
+  let testEnv: TestEnvironment;
+
+  beforeEach(async () => {
+    testEnv = await setupTestEnvironment();
+  });
+
+  afterEach(async () => {
+    await teardownTestEnvironment(testEnv);
+  });
+
+  function getGeneration(name: string) {
+    const span = testEnv.mockExporter.exportedSpans.find(
+      (exportedSpan) => exportedSpan.name === name,
+    );
+    expect(span).toBeDefined();
+
+    const attribute = (key: string) => span!.attributes[key];
+    const parse = (key: string) => JSON.parse(attribute(key) as string);
+
+    return { span: span!, attribute, parse };
+  }
+
+  it("should trace messages.create with usage, tool use and stop reason", async () => {
+    const anthropic = observeAnthropic(new Anthropic(), {
+      traceName: "weather-chat",
+      userId: "user-1",
+      sessionId: "session-1",
+      tags: ["weather"],
+      elasticDashPrompt: {
+        name: "weather-prompt",
+        version: 2,
+        isFallback: false,
+      },
+    });
+
+    const message = await anthropic.messages.create({
+      model: "claude-sonnet-4-5",
+      max_tokens: 1024,
+      system: "You are a weather assistant.",
+      messages: [{ role: "user", content: "Weather in Paris?" }],
+      tools: [{ name: "get_weather", input_schema: { type: "object" } }],
+    });
+    await waitForSpanExport(testEnv.mockExporter, 1);
+
+    expect(message).toBe(toolUseMessage);
+
+    const generation = getGeneration("Anthropic.messages.create");
+    expect(generation.attribute(Attributes.OBSERVATION_TYPE)).toBe(
+      "generation",
+    );
+    expect(generation.attribute(Attributes.OBSERVATION_MODEL)).toBe(
+      "claude-sonnet-4-5-20250929",
+    );
+    expect(generation.parse(Attributes.OBSERVATION_INPUT)).toEqual({
+      system: "You are a weather assistant.",
+      messages: [{ role: "user", content: "Weather in Paris?" }],
+      tools: [{ name: "get_weather", input_schema: { type: "object" } }],
+    });
+    expect(generation.parse(Attributes.OBSERVATION_OUTPUT)).toEqual({
+      role: "assistant",
+      content: toolUseMessage.content,
+    });
+    expect(generation.parse(Attributes.OBSERVATION_USAGE_DETAILS)).toEqual({
+      input: 120,
+      output: 40,
+      input_cache_read: 1000,
+      input_cache_creation: 200,
+      total: 1360,
+    });
+    expect(
+      generation.attribute(`${Attributes.OBSERVATION_METADATA}.stop_reason`),
+    ).toBe("tool_use");
+    expect(generation.attribute(Attributes.OBSERVATION_PROMPT_NAME)).toBe(
+      "weather-prompt",
+    );
+    expect(generation.attribute(Attributes.OBSERVATION_PROMPT_VERSION)).toBe(2);
+    expect(generation.attribute(Attributes.TRACE_NAME)).toBe("weather-chat");
+    expect(generation.attribute(Attributes.TRACE_USER_ID)).toBe("user-1");
+    expect(generation.attribute(Attributes.TRACE_SESSION_ID)).toBe("session-1");
+    expect(generation.attribute(Attributes.TRACE_TAGS)).toEqual(["weather"]);
+  });
+
+  it("should accumulate streamed events into the final message", async () => {
+    const anthropic = observeAnthropic(new Anthropic());
+
+    const stream = (await anthropic.messages.create({
+      model: "claude-sonnet-4-5",
+      max_tokens: 1024,
+      messages: [{ role: "user", content: "Hi" }],
+      stream: true,
+    })) as AsyncIterable<unknown>;
+
+    const events: unknown[] = [];
+    for await (const event of stream) {
+      events.push(event);
+    }
+    await waitForSpanExport(testEnv.mockExporter, 1);
+
+    expect(events).toEqual(streamEvents);
+
+    const generation = getGeneration("Anthropic.messages.create");
+    expect(generation.parse(Attributes.OBSERVATION_OUTPUT)).toEqual({
+      role: "assistant",
+      content: [
+        { type: "text", text: "Hello world" },
+        {
+          type: "tool_use",
+          id: "toolu_02",
+          name: "search",
+          input: { query: "ElasticDash" },
+        },
+      ],
+    });
+    expect(generation.parse(Attributes.OBSERVATION_USAGE_DETAILS)).toEqual({
+      input: 30,
+      output: 25,
+      total: 55,
+    });
+    expect(
+      generation.attribute(`${Attributes.OBSERVATION_METADATA}.stop_reason`),
+    ).toBe("tool_use");
+    expect(
+      generation.attribute(Attributes.OBSERVATION_COMPLETION_START_TIME),
+    ).toBeDefined();
+  });
+
+  it("should trace message streams without changing them", async () => {
+    const anthropic = observeAnthropic(new Anthropic(), {
+      generationName: "weather-stream",
+    });
+
+    const stream = anthropic.messages.stream({
+      model: "claude-sonnet-4-5",
+      max_tokens: 1024,
+      messages: [{ role: "user", content: "Weather in Paris?" }],
+    });
+
+    expect(stream).toBeInstanceOf(FakeMessageStream);
+    expect(await stream.finalMessage()).toBe(toolUseMessage);
+    await waitForSpanExport(testEnv.mockExporter, 1);
+
+    const generation = getGeneration("weather-stream");
+    expect(generation.parse(Attributes.OBSERVATION_OUTPUT).content[1]).toEqual(
+      toolUseMessage.content[1],
+    );
+    expect(generation.parse(Attributes.OBSERVATION_USAGE_DETAILS).total).toBe(
+      1360,
+    );
+  });
+
+  it("should record failed streams without listening to their errors", async () => {
+    const anthropic = observeAnthropic(new Anthropic());
+    const params = { model: "claude-sonnet-4-5", max_tokens: 10, messages: [] };
+
+    const erroredStream = anthropic.messages.stream({
+      ...params,
+      failure: "error",
+    });
+    const abortedStream = anthropic.messages.stream({
+      ...params,
+      failure: "abort",
+    });
+    await waitForSpanExport(testEnv.mockExporter, 2);
+
+    // The SDK only raises unhandled errors if nobody listens to them
+    for (const stream of [erroredStream, abortedStream]) {
+      expect(stream.listenerCount("error")).toBe(0);
+      expect(stream.listenerCount("abort")).toBe(0);
+    }
+    const [errored, aborted] = testEnv.mockExporter.exportedSpans;
+    expect(errored.attributes[Attributes.OBSERVATION_LEVEL]).toBe("ERROR");
+    expect(errored.attributes[Attributes.OBSERVATION_STATUS_MESSAGE]).toBe(
+      "Stream errored",
+    );
+    expect(aborted.attributes[Attributes.OBSERVATION_LEVEL]).toBe("WARNING");
+    expect(aborted.attributes[Attributes.OBSERVATION_STATUS_MESSAGE]).toBe(
+      "Stream aborted",
+    );
+  });
+
+  it("should record errors and pass through other methods", async () => {
+    const anthropic = observeAnthropic(new Anthropic());
+
+    await expect(
+      anthropic.messages.create({
+        model: "unknown-model",
+        max_tokens: 10,
+        messages: [],
+      }),
+    ).rejects.toThrow("404 model not found");
+    expect(await anthropic.messages.countTokens()).toEqual({
+      input_tokens: 12,
+    });
+    await waitForSpanExport(testEnv.mockExporter, 1);
+
+    const generation = getGeneration("Anthropic.messages.create");
+    expect(generation.attribute(Attributes.OBSERVATION_LEVEL)).toBe("ERROR");
+    expect(generation.attribute(Attributes.OBSERVATION_STATUS_MESSAGE)).toBe(
+      "Error: 404 model not found",
+    );
+    expect(testEnv.mockExporter.exportedSpans).toHaveLength(1);
+  });
+});
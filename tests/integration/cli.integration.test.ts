@@ -0,0 +1,179 @@
+/**
+ * Tests for the experiment CLI.
+ *
+ * This test suite verifies threshold parsing and evaluation, JUnit XML report
+ * rendering and the exit codes of the `elasticdash` command.
+ */
+
+import { spawnSync } from "node:child_process";
+import { fileURLToPath } from "node:url";
+
+import {
+  createJUnitReport,
+  evaluateThresholds,
+  parseThreshold,
+} from "@elasticdash/cli";
+import type { ExperimentResult } from "@elasticdash/client";
+import { describe, it, expect } from "vitest";
+
+const CLI_PATH = fileURLToPath(
+  new URL("../../packages/cli/dist/cli.mjs", import.meta.url),
+);
+
+const result: Pick<ExperimentResult, "itemResults" | "runEvaluations"> = {
+  itemResults: [0.2, 0.6, 0.8, 1].map((value, index) => ({
+    item: { input: `item-${index}` },
+    output: `output-${index}`,
+    evaluations: [
+      { name: "accuracy", value },
+      { name: "label", value: "good" },
+    ],
+  })),
+  runEvaluations: [{ name: "pass_rate", value: 0.75 }],
+};
+
+describe("Experiment CLI", () => {
+  describe("parseThreshold", () => {
+    it("should parse evaluation, aggregate, operator and value", () => {
+      expect(parseThreshold("accuracy.mean >= 0.8")).toEqual({
+        expression: "accuracy.mean >= 0.8",
+        name: "accuracy",
+        aggregate: "mean",
+        operator: ">=",
+        value: 0.8,
+      });
+      expect(parseThreshold("llm.latency.p95<2000")).toMatchObject({
+        name: "llm.latency",
+        aggregate: "p95",
+        operator: "<",
+        value: 2000,
+      });
+      expect(parseThreshold("pass_rate > 0.5")).toMatchObject({
+        name: "pass_rate",
+        aggregate: undefined,
+      });
+    });
+
+    it("should reject malformed thresholds", () => {
+      expect(() => parseThreshold("accuracy.mean")).toThrow(
+        "Invalid threshold",
+      );
+      expect(() => parseThreshold("accuracy.mean >= high")).toThrow(
+        "Invalid threshold",
+      );
+    });
+  });
+
+  describe("evaluateThresholds", () => {
+    it("should aggregate item evaluations and use run evaluations", () => {
+      const [mean, median, min, count, passRate] = evaluateThresholds(result, [
+        "accuracy.mean >= 0.6",
+        "accuracy.median >= 0.8",
+        "accuracy.min > 0.1",
+        "accuracy.count == 4",
+        "pass_rate >= 0.8",
+      ]);
+
+      expect(mean).toMatchObject({ actual: 0.65, passed: true });
+      expect(median).toMatchObject({ actual: 0.7, passed: false });
+      expect(min).toMatchObject({ actual: 0.2, passed: true });
+      expect(count).toMatchObject({ actual: 4, passed: true });
+      expect(passRate).toMatchObject({ actual: 0.75, passed: false });
+    });
+
+    it("should interpolate percentiles", () => {
+      const [p90] = evaluateThresholds(result, ["accuracy.p90 <= 1"]);
+
+      expect(p90.actual).toBeCloseTo(0.94);
+    });
+
+    it("should fail thresholds without numeric evaluations", () => {
+      const [missing, categorical] = evaluateThresholds(result, [
+        "unknown.mean >= 0",
+        "label.mean >= 0",
+      ]);
+
+      expect(missing.passed).toBe(false);
+      expect(missing.actual).toBeUndefined();
+      expect(missing.message).toContain("no numeric evaluation");
+      expect(categorical.passed).toBe(false);
+    });
+  });
+
+  describe("createJUnitReport", () => {
+    it("should render thresholds as test cases and failed items as errors", () => {
+      const xml = createJUnitReport({
+        name: "QA <regression>",
+        runName: "run-1",
+        thresholdResults: evaluateThresholds(result, [
+          "accuracy.mean >= 0.6",
+          "accuracy.mean >= 0.9",
+        ]),
+        failedItems: [
+          {
+            item: { input: "broken" },
+            error: new Error('Unexpected "quote"'),
+            attempts: 2,
+          },
+        ],
+        durationMs: 1500,
+      });
+
+      expect(xml).toContain('<?xml version="1.0" encoding="UTF-8"?>');
+      expect(xml).toContain(
+        '<testsuite name="QA &lt;regression&gt;" tests="3" failures="1" errors="1" time="1.500">',
+      );
+      expect(xml).toContain(
+        '<testcase classname="run-1" name="accuracy.mean &gt;= 0.6" time="0"></testcase>',
+      );
+      expect(xml).toContain(
+        '<failure message="accuracy.mean &gt;= 0.9: actual 0.6500 failed" type="ThresholdFailure"/>',
+      );
+      expect(xml).toContain(
+        '<error message="Task failed after 2 attempt(s): Unexpected &quot;quote&quot;" type="Error"/>',
+      );
+    });
+  });
+
+  describe("elasticdash command", () => {
+    it("should print usage with --help", () => {
+      const { status, stdout } = spawnSync("node", [CLI_PATH, "--help"], {
+        encoding: "utf8",
+      });
+
+      expect(status).toBe(0);
+      expect(stdout).toContain("Usage: elasticdash experiment run <config>");
+    });
+
+    it("should exit with code 2 on invalid usage", () => {
+      const { status, stderr } = spawnSync("node", [CLI_PATH, "experiment"], {
+        encoding: "utf8",
+      });
+
+      expect(status).toBe(2);
+      expect(stderr).toContain("Usage:");
+    });
+
+    it("should exit with code 2 on an invalid batch size", () => {
+      const { status, stderr } = spawnSync(
+        "node",
+        [CLI_PATH, "replay", "spans", "--batch-size", "many"],
+        { encoding: "utf8" },
+      );
+
+      expect(status).toBe(2);
+      expect(stderr).toContain("Invalid --batch-size 'many'");
+    });
+
+    it("should exit with code 2 when the config cannot be loaded", () => {
+      const { status, stderr } = spawnSync(
+        "node",
+        [CLI_PATH, "experiment", "run", "does-not-exist.mjs"],
+        { encoding: "utf8" },
+      );
+
+      expect(status).toBe(2);
+      expect(stderr).toContain("does-not-exist.mjs");
+    });
+  });
+});
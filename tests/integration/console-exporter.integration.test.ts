@@ -0,0 +1,152 @@
+/**
+ * Tests for the console tree span exporter.
+ *
+ * This test suite verifies rendering of completed traces as indented trees
+ * with decoded ElasticDash attributes, bounding of buffered incomplete traces,
+ * and selecting the exporter through the export mode of the
+ * ElasticDashSpanProcessor.
+ */
+
+import { ConsoleTreeSpanExporter } from "@elasticdash/otel";
+import { startActiveObservation, startObservation } from "@elasticdash/tracing";
+import { describe, it, expect, afterEach, vi } from "vitest";
+
+import {
+  setupTestEnvironment,
+  teardownTestEnvironment,
+  type TestEnvironment,
+} from "./helpers/testSetup.js";
+
+describe("Console Tree Exporter", () => {
+  let testEnv: TestEnvironment;
+
+  afterEach(async () => {
+    await teardownTestEnvironment(testEnv);
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  async function runInstrumentedCode(): Promise<void> {
+    await startActiveObservation("answer-question", async (span) => {
+      span.updateTrace({ userId: "user-1" });
+
+      span
+        .startObservation(
+          "retrieve",
+          { output: ["doc-1"] },
+          { asType: "retriever" },
+        )
+        .end();
+
+      span
+        .startObservation(
+          "llm-call",
+          {
+            model: "gpt-4o",
+            input: `Question:\n${"What is ElasticDash? ".repeat(5)}`,
+            usageDetails: { input: 12, output: 30 },
+            costDetails: { input: 0.0001, output: 0.0003, total: 0.0004 },
+            level: "WARNING",
+            statusMessage: "slow response",
+          },
+          { asType: "generation" },
+        )
+        .end();
+    });
+  }
+
+  it("should render completed traces as indented trees", async () => {
+    const output: string[] = [];
+    testEnv = await setupTestEnvironment({
+      spanProcessorConfig: {
+        exporter: new ConsoleTreeSpanExporter({
+          write: (text) => output.push(text),
+          maxValueLength: 40,
+        }),
+        exportMode: "immediate",
+      },
+    });
+
+    await runInstrumentedCode();
+    await testEnv.spanProcessor.forceFlush();
+
+    expect(output).toHaveLength(1);
+    const lines = output[0].replace(/\d+ms|\d+\.\d{2}s/g, "<duration>");
+
+    expect(lines.split("\n")).toEqual([
+      expect.stringMatching(
+        /^Trace answer-question · <duration> · user: user-1 · id: [0-9a-f]{32}$/,
+      ),
+      "└─ span answer-question · <duration>",
+      "   ├─ retriever retrieve · <duration>",
+      '   │    output: ["doc-1"]',
+      "   └─ generation llm-call · <duration> · gpt-4o · tokens input=12 output=30 · cost $0.0004 · WARNING: slow response",
+      "        input: Question: What is ElasticDash? What is E…",
+    ]);
+  });
+
+  it("should print traces without an exported root on flush", async () => {
+    const write = vi.fn();
+    testEnv = await setupTestEnvironment({
+      spanProcessorConfig: {
+        exporter: new ConsoleTreeSpanExporter({ write }),
+        exportMode: "immediate",
+      },
+    });
+
+    const root = startObservation("long-running");
+    root.startObservation("finished-child").end();
+    await testEnv.spanProcessor.forceFlush();
+
+    expect(write).toHaveBeenCalledTimes(1);
+    expect(write.mock.calls[0][0]).toContain("└─ span finished-child");
+    root.end();
+  });
+
+  it("should print the oldest incomplete traces when the buffer is full", async () => {
+    const write = vi.fn();
+    testEnv = await setupTestEnvironment({
+      spanProcessorConfig: {
+        exporter: new ConsoleTreeSpanExporter({ write, maxPendingSpans: 2 }),
+        exportMode: "immediate",
+      },
+    });
+
+    const first = startObservation("first-running");
+    first
+      .startObservation(
+        "llm-call",
+        {
+          usageDetails: { input: 1 },
+          costDetails: { input: 0.0001, output: 0.0003 },
+        },
+        { asType: "generation" },
+      )
+      .end();
+    first.startObservation("first-child").end();
+
+    const second = startObservation("second-running");
+    second.startObservation("second-child").end();
+
+    await vi.waitFor(() => expect(write).toHaveBeenCalledTimes(1));
+    expect(write.mock.calls[0][0]).toContain("cost $0.0004");
+    expect(write.mock.calls[0][0]).not.toContain("second-child");
+    first.end();
+    second.end();
+  });
+
+  it("should be selected by the console export mode and env var", async () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.stubEnv("ELASTICDASH_EXPORT_MODE", "console");
+    testEnv = await setupTestEnvironment({
+      spanProcessorConfig: { exporter: undefined, exportMode: undefined },
+    });
+
+    await runInstrumentedCode();
+    await testEnv.spanProcessor.forceFlush();
+
+    expect(log).toHaveBeenCalledTimes(1);
+    expect(log.mock.calls[0][0]).toMatch(/^Trace answer-question/);
+    expect(testEnv.mockExporter.getSpanCount()).toBe(0);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Tests for resumable experiment runs.
+ *
+ * This test suite verifies that completed item results are checkpointed and
+ * that resuming a run only executes the items without a stored result.
+ */
+
+import { appendFile, mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import {
+  ElasticDashClient,
+  FileExperimentCheckpointStore,
+  InMemoryExperimentCheckpointStore,
+} from "@elasticdash/client";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+import {
+  setupTestEnvironment,
+  teardownTestEnvironment,
+  type TestEnvironment,
+} from "./helpers/testSetup.js";
+
+describe("Experiment Checkpointing", () => {
+  let testEnv: TestEnvironment;
+  let elasticdash: ElasticDashClient;
+
+  const data = [{ input: "a" }, { input: "b" }, { input: "c" }];
+
+  beforeEach(async () => {
+    testEnv = await setupTestEnvironment();
+    elasticdash = new ElasticDashClient({
+      publicKey: "test-pk",
+      secretKey: "test-sk",
+      baseUrl: "http://localhost:3000",
+    });
+  });
+
+  afterEach(async () => {
+    await teardownTestEnvironment(testEnv);
+  });
+
+  it("should only run items without a checkpointed result on resume", async () => {
+    const checkpointStore = new InMemoryExperimentCheckpointStore();
+
+    const firstRunInputs: string[] = [];
+    const firstRun = await elasticdash.experiment.run({
+      name: "checkpoint-experiment",
+      runName: "checkpoint-run",
+      data,
+      checkpointStore,
+      task: async ({ input }) => {
+        firstRunInputs.push(input);
+        if (input === "b") throw new Error("Simulated crash");
+
+        return `output-${input}`;
+      },
+    });
+
+    expect(firstRunInputs.sort()).toEqual(["a", "b", "c"]);
+    expect(firstRun.itemResults).toHaveLength(2);
+
+    const resumedRunInputs: string[] = [];
+    const resumedRun = await elasticdash.experiment.run({
+      name: "checkpoint-experiment",
+      runName: "checkpoint-run",
+      data,
+      checkpointStore,
+      resume: true,
+      task: async ({ input }) => {
+        resumedRunInputs.push(input);
+
+        return `output-${input}`;
+      },
+    });
+
+    expect(resumedRunInputs).toEqual(["b"]);
+    expect(resumedRun.itemResults.map((r) => r.output).sort()).toEqual([
+      "output-a",
+      "output-b",
+      "output-c",
+    ]);
+  });
+
+  it("should clear the checkpoint when not resuming", async () => {
+    const checkpointStore = new InMemoryExperimentCheckpointStore();
+    const runParams = {
+      name: "checkpoint-experiment",
+      runName: "fresh-run",
+      data,
+      checkpointStore,
+      task: async ({ input }: { input?: string }) => `output-${input}`,
+    };
+
+    await elasticdash.experiment.run(runParams);
+
+    let taskCalls = 0;
+    await elasticdash.experiment.run({
+      ...runParams,
+      task: async ({ input }) => {
+        taskCalls++;
+
+        return `output-${input}`;
+      },
+    });
+
+    expect(taskCalls).toBe(3);
+    expect((await checkpointStore.load("fresh-run")).size).toBe(3);
+  });
+
+  it("should throw when resuming without an explicit runName", async () => {
+    await expect(
+      elasticdash.experiment.run({
+        name: "checkpoint-experiment",
+        data,
+        resume: true,
+        task: async ({ input }) => input,
+      }),
+    ).rejects.toThrow("requires an explicit runName");
+  });
+
+  describe("FileExperimentCheckpointStore", () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), "elasticdash-checkpoint-"));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it("should persist results across store instances", async () => {
+      await elasticdash.experiment.run({
+        name: "checkpoint-experiment",
+        runName: "file-run",
+        data,
+        checkpointStore: new FileExperimentCheckpointStore({ directory }),
+        task: async ({ input }) => `output-${input}`,
+      });
+
+      const loaded = await new FileExperimentCheckpointStore({
+        directory,
+      }).load("file-run");
+
+      expect(loaded.size).toBe(3);
+      expect(
+        [...loaded.values()].map((result) => result.output).sort(),
+      ).toEqual(["output-a", "output-b", "output-c"]);
+    });
+
+    it("should skip corrupt lines when loading", async () => {
+      const store = new FileExperimentCheckpointStore({ directory });
+
+      await store.save("corrupt-run", "item-1", {
+        item: { input: "a" },
+        output: "output-a",
+        evaluations: [],
+      });
+
+      const filePath = join(directory, "corrupt-run.jsonl");
+      const content = await readFile(filePath, "utf8");
+      await appendFile(filePath, '{"itemId":"item-2","res');
+
+      expect(content.split("\n").filter(Boolean)).toHaveLength(1);
+      expect((await store.load("corrupt-run")).size).toBe(1);
+    });
+
+    it("should return an empty checkpoint for unknown runs", async () => {
+      const store = new FileExperimentCheckpointStore({ directory });
+
+      expect((await store.load("unknown-run")).size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Tests for comparing experiment runs.
+ *
+ * This test suite verifies item matching, per-evaluator deltas, win/loss/tie
+ * counts, the paired sign test and the rendered regression report.
+ */
+
+import { ElasticDashClient, type ExperimentResult } from "@elasticdash/client";
+import { describe, it, expect, beforeEach } from "vitest";
+
+function createRun(
+  runName: string,
+  scores: Record<string, number>,
+  extraEvaluations: Record<string, Record<string, number>> = {},
+): Pick<ExperimentResult, "runName" | "itemResults"> {
+  return {
+    runName,
+    itemResults: Object.entries(scores).map(([input, value]) => ({
+      item: { input },
+      output: input,
+      evaluations: [
+        { name: "accuracy", value },
+        ...Object.entries(extraEvaluations[input] ?? {}).map(
+          ([name, value]) => ({ name, value }),
+        ),
+      ],
+    })),
+  };
+}
+
+describe("Experiment Comparison", () => {
+  let elasticdash: ElasticDashClient;
+
+  beforeEach(() => {
+    elasticdash = new ElasticDashClient({
+      publicKey: "test-pk",
+      secretKey: "test-sk",
+      baseUrl: "http://localhost:3000",
+    });
+  });
+
+  it("should match items by input hash and count wins, losses and ties", async () => {
+    const baseline = createRun("baseline", { a: 1, b: 0, c: 1, d: 0.5 });
+    const candidate = createRun("candidate", { b: 1, a: 1, c: 0, e: 1 });
+
+    const comparison = await elasticdash.experiment.compare(
+      baseline,
+      candidate,
+    );
+
+    expect(comparison.matchedItems.map((m) => m.itemId)).toHaveLength(3);
+    expect(comparison.unmatchedBaselineItems.map((r) => r.item.input)).toEqual([
+      "d",
+    ]);
+    expect(comparison.unmatchedCandidateItems.map((r) => r.item.input)).toEqual(
+      ["e"],
+    );
+
+    const [accuracy] = comparison.evaluators;
+    expect(accuracy).toMatchObject({
+      name: "accuracy",
+      pairs: 3,
+      wins: 1,
+      losses: 1,
+      ties: 1,
+      pValue: 1,
+      significant: false,
+      regression: false,
+    });
+    expect(accuracy.baselineMean).toBeCloseTo(2 / 3);
+    expect(accuracy.candidateMean).toBeCloseTo(2 / 3);
+    expect(comparison.hasRegression).toBe(false);
+  });
+
+  it("should flag significant regressions", async () => {
+    const inputs = Array.from({ length: 10 }, (_, i) => `item-${i}`);
+    const baseline = createRun(
+      "baseline",
+      Object.fromEntries(inputs.map((input) => [input, 1])),
+    );
+    const candidate = createRun(
+      "candidate",
+      Object.fromEntries(inputs.map((input) => [input, 0])),
+    );
+
+    const comparison = await elasticdash.experiment.compare(
+      baseline,
+      candidate,
+    );
+
+    expect(comparison.evaluators[0].losses).toBe(10);
+    // Exact two-sided sign test: 2 * 0.5^10
+    expect(comparison.evaluators[0].pValue).toBeCloseTo(2 / 1024);
+    expect(comparison.evaluators[0].regression).toBe(true);
+    expect(comparison.hasRegression).toBe(true);
+    expect(comparison.format()).toContain("Significant regression detected");
+  });
+
+  it("should respect lowerIsBetter evaluators", async () => {
+    const inputs = Array.from({ length: 8 }, (_, i) => `item-${i}`);
+    const baseline = createRun(
+      "baseline",
+      Object.fromEntries(inputs.map((input) => [input, 1])),
+      Object.fromEntries(inputs.map((input) => [input, { latency: 200 }])),
+    );
+    const candidate = createRun(
+      "candidate",
+      Object.fromEntries(inputs.map((input) => [input, 1])),
+      Object.fromEntries(inputs.map((input) => [input, { latency: 100 }])),
+    );
+
+    const comparison = await elasticdash.experiment.compare(
+      baseline,
+      candidate,
+      { lowerIsBetter: ["latency"] },
+    );
+
+    const latency = comparison.evaluators.find((e) => e.name === "latency");
+    expect(latency).toMatchObject({
+      wins: 8,
+      losses: 0,
+      delta: -100,
+      significant: true,
+      regression: false,
+    });
+    expect(comparison.hasRegression).toBe(false);
+  });
+
+  it("should render a markdown diff table", async () => {
+    const comparison = await elasticdash.experiment.compare(
+      createRun("baseline", { a: 0.5 }),
+      createRun("candidate", { a: 0.75 }),
+    );
+
+    const markdown = comparison.format({ style: "markdown" });
+
+    expect(markdown).toContain("`baseline` → `candidate`");
+    expect(markdown).toContain(
+      "| ⚪ | accuracy | 0.500 | 0.750 | +0.250 | 1 / 0 / 0 | 1.000 |",
+    );
+    expect(markdown).toContain("No significant regression");
+  });
+});
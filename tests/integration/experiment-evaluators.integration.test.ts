@@ -0,0 +1,361 @@
+/**
+ * Tests for the built-in experiment evaluators.
+ *
+ * This test suite verifies the deterministic evaluators, the latency budget
+ * evaluator within an experiment run and the LLM-as-judge evaluator with a
+ * rubric prompt.
+ */
+
+import {
+  ChatPromptClient,
+  ElasticDashClient,
+  TextPromptClient,
+  createExactMatchEvaluator,
+  createJsonSchemaEvaluator,
+  createKeywordsEvaluator,
+  createLatencyBudgetEvaluator,
+  createLevenshteinEvaluator,
+  createLLMJudgeEvaluator,
+  createNumericToleranceEvaluator,
+  createRegexEvaluator,
+  type PromptManager,
+} from "@elasticdash/client";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+import {
+  setupTestEnvironment,
+  teardownTestEnvironment,
+  type TestEnvironment,
+} from "./helpers/testSetup.js";
+
+function createPromptManager(
+  prompt: TextPromptClient | ChatPromptClient,
+): PromptManager {
+  return { get: async () => prompt } as unknown as PromptManager;
+}
+
+const rubricPrompt = new TextPromptClient({
+  name: "judge",
+  version: 3,
+  type: "text",
+  prompt: "Input: {{input}}\nOutput: {{output}}\nExpected: {{expectedOutput}}",
+  config: {},
+  labels: [],
+  tags: [],
+} as any);
+
+describe("Experiment Evaluators", () => {
+  describe("deterministic evaluators", () => {
+    it("should compare exact matches", async () => {
+      const caseInsensitive = createExactMatchEvaluator({
+        caseSensitive: false,
+      });
+
+      expect(
+        await caseInsensitive({
+          input: "q",
+          output: " Berlin ",
+          expectedOutput: "berlin",
+        }),
+      ).toEqual({ name: "exact_match", value: 1, dataType: "BOOLEAN" });
+      expect(
+        await createExactMatchEvaluator()({
+          input: "q",
+          output: { b: [1, 2], a: 1 },
+          expectedOutput: { a: 1, b: [1, 2] },
+        }),
+      ).toMatchObject({ value: 1 });
+      expect(
+        await createExactMatchEvaluator()({
+          input: "q",
+          output: "Berlin",
+          expectedOutput: "berlin",
+        }),
+      ).toMatchObject({ value: 0 });
+    });
+
+    it("should validate outputs against a JSON schema", async () => {
+      const evaluator = createJsonSchemaEvaluator({
+        schema: {
+          type: "object",
+          properties: {
+            city: { type: "string", minLength: 1 },
+            population: { type: "integer", minimum: 0 },
+            tags: { type: "array", items: { enum: ["capital", "port"] } },
+          },
+          required: ["city", "population"],
+          additionalProperties: false,
+        },
+      });
+
+      expect(
+        await evaluator({
+          input: "q",
+          output: '{"city":"Berlin","population":3700000,"tags":["capital"]}',
+        }),
+      ).toEqual({ name: "json_schema", value: 1, dataType: "BOOLEAN" });
+
+      const invalid = await evaluator({
+        input: "q",
+        output: { city: "", population: 1.5, tags: ["river"], extra: true },
+      });
+      expect(invalid.value).toBe(0);
+      expect(invalid.comment).toContain("$.city must have at least 1");
+      expect(invalid.comment).toContain("$.population must be of type");
+      expect(invalid.comment).toContain("$.tags[0] must be one of");
+      expect(invalid.comment).toContain("$.extra is not allowed");
+
+      expect(await evaluator({ input: "q", output: "not json" })).toMatchObject(
+        { value: 0, comment: "Output is not valid JSON" },
+      );
+    });
+
+    it("should match regular expressions", async () => {
+      const evaluator = createRegexEvaluator({ pattern: /\d{4}/g });
+
+      expect(await evaluator({ input: "q", output: "In 1989" })).toMatchObject({
+        name: "regex_match",
+        value: 1,
+      });
+      // Global expressions must not keep state between items
+      expect(await evaluator({ input: "q", output: "In 1990" })).toMatchObject({
+        value: 1,
+      });
+      expect(await evaluator({ input: "q", output: "never" })).toMatchObject({
+        value: 0,
+      });
+    });
+
+    it("should score Levenshtein similarity", async () => {
+      const result = await createLevenshteinEvaluator()({
+        input: "q",
+        output: "kitten",
+        expectedOutput: "sitting",
+      });
+
+      expect(result).toMatchObject({
+        name: "levenshtein_similarity",
+        dataType: "NUMERIC",
+        metadata: { distance: 3 },
+      });
+      expect(result.value).toBeCloseTo(1 - 3 / 7);
+    });
+
+    it("should compare numbers within a tolerance", async () => {
+      const absolute = createNumericToleranceEvaluator({ tolerance: 0.5 });
+      const relative = createNumericToleranceEvaluator({
+        tolerance: 0.01,
+        relative: true,
+      });
+
+      expect(
+        await absolute({ input: "q", output: "3.4", expectedOutput: 3 }),
+      ).toMatchObject({ value: 1 });
+      expect(
+        await relative({ input: "q", output: 1015, expectedOutput: 1000 }),
+      ).toMatchObject({ value: 0, metadata: { deviation: 15 } });
+      expect(
+        await absolute({ input: "q", output: "n/a", expectedOutput: 3 }),
+      ).toMatchObject({ value: 0, comment: "Output is not numeric" });
+    });
+
+    it("should report missing keywords", async () => {
+      const evaluator = createKeywordsEvaluator({
+        keywords: ["Berlin", "capital", "Germany"],
+      });
+
+      expect(
+        await evaluator({ input: "q", output: "berlin is the CAPITAL" }),
+      ).toEqual({
+        name: "contains_keywords",
+        value: 0,
+        dataType: "BOOLEAN",
+        comment: "Missing keywords: Germany",
+      });
+    });
+  });
+
+  describe("latency budget evaluator", () => {
+    let testEnv: TestEnvironment;
+    let elasticdash: ElasticDashClient;
+
+    beforeEach(async () => {
+      testEnv = await setupTestEnvironment();
+      elasticdash = new ElasticDashClient({
+        publicKey: "test-pk",
+        secretKey: "test-sk",
+        baseUrl: "http://localhost:3000",
+      });
+    });
+
+    afterEach(async () => {
+      await teardownTestEnvironment(testEnv);
+    });
+
+    it("should score the task latency measured by the runner", async () => {
+      const result = await elasticdash.experiment.run({
+        name: "latency-experiment",
+        data: [{ input: 5 }, { input: 150 }],
+        task: async ({ input }) => {
+          await new Promise((resolve) => setTimeout(resolve, input));
+
+          return input;
+        },
+        evaluators: [createLatencyBudgetEvaluator({ budgetMs: 100 })],
+      });
+
+      const [fast, slow] = result.itemResults.map((r) => r.evaluations[0]);
+      expect(fast).toMatchObject({ name: "latency_budget", value: 1 });
+      expect(slow).toMatchObject({ name: "latency_budget", value: 0 });
+      expect(slow.metadata?.latencyMs).toBeGreaterThanOrEqual(140);
+    });
+
+    it("should throw without a measured latency", async () => {
+      await expect(
+        createLatencyBudgetEvaluator({ budgetMs: 100 })({
+          input: "q",
+          output: "a",
+        }),
+      ).rejects.toThrow("requires the task latency");
+    });
+  });
+
+  describe("LLM judge evaluator", () => {
+    it("should compile the rubric prompt and parse JSON replies", async () => {
+      const prompts: unknown[] = [];
+      const evaluator = createLLMJudgeEvaluator({
+        name: "helpfulness",
+        promptManager: createPromptManager(rubricPrompt),
+        promptName: "judge",
+        complete: async (prompt) => {
+          prompts.push(prompt);
+
+          return 'Here you go: {"score": 0.8, "reasoning": "Mostly right"}';
+        },
+      });
+
+      const result = await evaluator({
+        input: { question: "Capital?" },
+        output: "Berlin",
+        expectedOutput: "Berlin",
+      });
+
+      expect(prompts).toEqual([
+        'Input: {"question":"Capital?"}\nOutput: Berlin\nExpected: Berlin',
+      ]);
+      expect(result).toEqual({
+        name: "helpfulness",
+        value: 0.8,
+        dataType: "NUMERIC",
+        comment: "Mostly right",
+        metadata: { promptName: "judge", promptVersion: 3 },
+      });
+    });
+
+    it("should fall back to plain text replies", async () => {
+      const chatPrompt = new ChatPromptClient({
+        name: "judge-chat",
+        version: 1,
+        type: "chat",
+        prompt: [{ role: "user", content: "Is {{output}} correct?" }],
+        config: {},
+        labels: [],
+        tags: [],
+      } as any);
+
+      const boolean = createLLMJudgeEvaluator({
+        name: "correct",
+        promptManager: createPromptManager(chatPrompt),
+        promptName: "judge-chat",
+        scoreType: "BOOLEAN",
+        complete: async (prompt) => {
+          expect(prompt).toEqual([
+            { role: "user", content: "Is Paris correct?" },
+          ]);
+
+          return "No, it is not.";
+        },
+      });
+      const categorical = createLLMJudgeEvaluator({
+        name: "tone",
+        promptManager: createPromptManager(rubricPrompt),
+        promptName: "judge",
+        scoreType: "CATEGORICAL",
+        categories: ["friendly", "neutral", "rude"],
+        complete: async () => "The tone is Neutral.",
+      });
+      const failing = createLLMJudgeEvaluator({
+        name: "quality",
+        promptManager: createPromptManager(rubricPrompt),
+        promptName: "judge",
+        complete: async () => "I cannot judge this.",
+      });
+
+      expect(await boolean({ input: "q", output: "Paris" })).toMatchObject({
+        value: 0,
+        dataType: "BOOLEAN",
+      });
+      expect(await categorical({ input: "q", output: "a" })).toMatchObject({
+        value: "neutral",
+        dataType: "CATEGORICAL",
+      });
+      await expect(failing({ input: "q", output: "a" })).rejects.toThrow(
+        "Judge returned no numeric score",
+      );
+    });
+
+    it("should match whole-word categories and prefer the longest match", async () => {
+      const createJudge = (reply: string) =>
+        createLLMJudgeEvaluator({
+          name: "correctness",
+          promptManager: createPromptManager(rubricPrompt),
+          promptName: "judge",
+          scoreType: "CATEGORICAL",
+          categories: ["correct", "partially correct", "incorrect"],
+          complete: async () => reply,
+        });
+
+      const categoryOf = async (reply: string) =>
+        (await createJudge(reply)({ input: "q", output: "a" })).value;
+
+      expect(await categoryOf("INCORRECT")).toBe("incorrect");
+      expect(await categoryOf("The answer is incorrect.")).toBe("incorrect");
+      expect(await categoryOf("It is partially correct.")).toBe(
+        "partially correct",
+      );
+      expect(await categoryOf("Correct!")).toBe("correct");
+      await expect(
+        createJudge("The answer is incorrectly formatted.")({
+          input: "q",
+          output: "a",
+        }),
+      ).rejects.toThrow("Judge returned no valid category");
+    });
+
+    it("should only extract numbers from plain text replies for numeric scores", async () => {
+      const numeric = createLLMJudgeEvaluator({
+        name: "quality",
+        promptManager: createPromptManager(rubricPrompt),
+        promptName: "judge",
+        complete: async () => "Score: 7 out of 10",
+      });
+      const categorical = createLLMJudgeEvaluator({
+        name: "level",
+        promptManager: createPromptManager(rubricPrompt),
+        promptName: "judge",
+        scoreType: "CATEGORICAL",
+        categories: ["level 1", "level 2"],
+        complete: async () => "Level 2",
+      });
+
+      expect(await numeric({ input: "q", output: "a" })).toMatchObject({
+        value: 7,
+        dataType: "NUMERIC",
+      });
+      expect(await categorical({ input: "q", output: "a" })).toMatchObject({
+        value: "level 2",
+        dataType: "CATEGORICAL",
+      });
+    });
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Tests for experiment item execution.
+ *
+ * This test suite verifies the sliding-window concurrency pool, per-item
+ * retries and timeouts, rate limiting, and reporting of failed items.
+ */
+
+import { ElasticDashClient } from "@elasticdash/client";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+import {
+  setupTestEnvironment,
+  teardownTestEnvironment,
+  type TestEnvironment,
+} from "./helpers/testSetup.js";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("Experiment Execution", () => {
+  let testEnv: TestEnvironment;
+  let elasticdash: ElasticDashClient;
+
+  beforeEach(async () => {
+    testEnv = await setupTestEnvironment();
+    elasticdash = new ElasticDashClient({
+      publicKey: "test-pk",
+      secretKey: "test-sk",
+      baseUrl: "http://localhost:3000",
+    });
+  });
+
+  afterEach(async () => {
+    await teardownTestEnvironment(testEnv);
+  });
+
+  it("should keep maxConcurrency tasks in flight while a slow item runs", async () => {
+    const startedBeforeSlowItemFinished: number[] = [];
+    let slowItemFinished = false;
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const result = await elasticdash.experiment.run({
+      name: "pool-experiment",
+      data: [0, 1, 2, 3, 4].map((input) => ({ input })),
+      maxConcurrency: 2,
+      task: async ({ input }) => {
+        if (!slowItemFinished) startedBeforeSlowItemFinished.push(input);
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+
+        // Item 0 is slow; the remaining items should flow through the second slot
+        await sleep(input === 0 ? 200 : 10);
+
+        if (input === 0) slowItemFinished = true;
+        inFlight--;
+
+        return input;
+      },
+    });
+
+    expect(maxInFlight).toBe(2);
+    expect(startedBeforeSlowItemFinished).toEqual([0, 1, 2, 3, 4]);
+    expect(result.itemResults.map((r) => r.output)).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it("should retry failed items with backoff", async () => {
+    const attempts: Record<string, number> = {};
+
+    const result = await elasticdash.experiment.run({
+      name: "retry-experiment",
+      data: [{ input: "flaky" }, { input: "stable" }],
+      maxRetries: 2,
+      retryDelayMs: 10,
+      task: async ({ input }) => {
+        attempts[input] = (attempts[input] ?? 0) + 1;
+        if (input === "flaky" && attempts[input] < 3) {
+          throw new Error("Transient error");
+        }
+
+        return input;
+      },
+    });
+
+    expect(attempts).toEqual({ flaky: 3, stable: 1 });
+    expect(result.itemResults).toHaveLength(2);
+    expect(result.failedItems).toHaveLength(0);
+  });
+
+  it("should pass evaluators the latency of the successful attempt only", async () => {
+    const latencies: (number | undefined)[] = [];
+    let attempts = 0;
+
+    await elasticdash.experiment.run({
+      name: "latency-experiment",
+      data: [{ input: "flaky" }],
+      maxRetries: 1,
+      retryDelayMs: 200,
+      task: async ({ input }) => {
+        attempts++;
+        await sleep(50);
+        if (attempts === 1) throw new Error("Transient error");
+
+        return input;
+      },
+      evaluators: [
+        async ({ latencyMs }) => {
+          latencies.push(latencyMs);
+
+          return { name: "latency", value: latencyMs ?? -1 };
+        },
+      ],
+    });
+
+    expect(attempts).toBe(2);
+    expect(latencies).toHaveLength(1);
+    // Excludes the failed attempt (50ms) and the backoff (200ms)
+    expect(latencies[0]).toBeGreaterThanOrEqual(40);
+    expect(latencies[0]).toBeLessThan(200);
+  });
+
+  it("should return items failing after all retries in failedItems", async () => {
+    const result = await elasticdash.experiment.run({
+      name: "failure-experiment",
+      data: [{ input: "ok" }, { input: "broken" }],
+      maxRetries: 1,
+      retryDelayMs: 10,
+      task: async ({ input }) => {
+        if (input === "broken") throw new Error("Permanent error");
+
+        return input;
+      },
+    });
+
+    expect(result.itemResults.map((r) => r.output)).toEqual(["ok"]);
+    expect(result.failedItems).toHaveLength(1);
+    expect(result.failedItems[0].item.input).toBe("broken");
+    expect(result.failedItems[0].error.message).toBe("Permanent error");
+    expect(result.failedItems[0].attempts).toBe(2);
+    expect(await result.format()).toContain("1 items failed");
+  });
+
+  it("should fail attempts exceeding the item timeout", async () => {
+    const result = await elasticdash.experiment.run({
+      name: "timeout-experiment",
+      data: [{ input: "slow" }],
+      itemTimeoutMs: 20,
+      task: async ({ input }) => {
+        await sleep(200);
+
+        return input;
+      },
+    });
+
+    expect(result.itemResults).toHaveLength(0);
+    expect(result.failedItems[0].error.message).toContain("timed out");
+  });
+
+  it("should link and score an item once when a timed-out attempt finishes late", async () => {
+    const createRunItem = vi
+      .spyOn(elasticdash.api.datasetRunItems, "create")
+      .mockResolvedValue({ datasetRunId: "run-1" } as any);
+    const createScore = vi
+      .spyOn(elasticdash.score, "create")
+      .mockImplementation(() => {});
+    vi.spyOn(elasticdash, "getTraceUrl").mockResolvedValue(
+      "http://localhost:3000/project/p/traces/t",
+    );
+    let attempts = 0;
+
+    const result = await elasticdash.experiment.run({
+      name: "late-timeout-experiment",
+      data: [{ id: "item-1", datasetId: "dataset-1", input: "late" }] as any,
+      itemTimeoutMs: 50,
+      maxRetries: 1,
+      retryDelayMs: 10,
+      task: async ({ input }) => {
+        attempts++;
+        // The first attempt times out but resolves while the retry runs
+        await sleep(attempts === 1 ? 100 : 10);
+
+        return `${input}-${attempts}`;
+      },
+      evaluators: [async ({ output }) => ({ name: "output", value: output })],
+    });
+    await sleep(100);
+
+    expect(attempts).toBe(2);
+    expect(result.itemResults).toHaveLength(1);
+    expect(result.itemResults[0].output).toBe("late-2");
+    expect(createRunItem).toHaveBeenCalledTimes(1);
+    expect(createScore).toHaveBeenCalledTimes(1);
+    expect(createScore).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "output", value: "late-2" }),
+    );
+  });
+
+  it("should space task starts according to requestsPerMinute", async () => {
+    const startTimes: number[] = [];
+
+    await elasticdash.experiment.run({
+      name: "rate-limit-experiment",
+      data: [{ input: 1 }, { input: 2 }, { input: 3 }],
+      requestsPerMinute: 1200, // one start every 50ms
+      task: async ({ input }) => {
+        startTimes.push(Date.now());
+
+        return input;
+      },
+    });
+
+    expect(startTimes).toHaveLength(3);
+    expect(startTimes[2] - startTimes[0]).toBeGreaterThanOrEqual(90);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Tests for loading past experiment runs.
+ *
+ * This test suite verifies that `experiment.loadRun` follows the pagination of
+ * run items and scores, joins run items with dataset items and trace outputs,
+ * and handles items without scores, deleted dataset items and missing runs.
+ * The API is mocked, so no server is needed.
+ */
+
+import { ElasticDashClient } from "@elasticdash/client";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+function page<T>(data: T[], pageNumber: number, totalPages: number) {
+  return { data, meta: { page: pageNumber, totalPages } };
+}
+
+describe("Experiment Load Run", () => {
+  let elasticdash: ElasticDashClient;
+
+  beforeEach(() => {
+    elasticdash = new ElasticDashClient({
+      publicKey: "test-pk",
+      secretKey: "test-sk",
+      baseUrl: "http://localhost:3000",
+    });
+
+    const api = elasticdash.api;
+
+    vi.spyOn(api.datasets, "get").mockResolvedValue({
+      id: "dataset-1",
+      name: "qa-dataset",
+    } as any);
+    vi.spyOn(api.datasetItems, "list").mockImplementation((async ({
+      page: pageNumber,
+    }: any) =>
+      pageNumber === 1
+        ? page(
+            [
+              { id: "item-1", input: "q1", expectedOutput: "a1" },
+              { id: "item-2", input: "q2", expectedOutput: "a2" },
+            ],
+            1,
+            2,
+          )
+        : page([{ id: "item-3", input: "q3" }], 2, 2)) as any);
+    vi.spyOn(api.datasets, "getRun").mockResolvedValue({
+      id: "run-1",
+      name: "release-1.4",
+      datasetId: "dataset-1",
+      description: "Release run",
+    } as any);
+    vi.spyOn(api.datasetRunItems, "list").mockImplementation((async ({
+      page: pageNumber,
+    }: any) =>
+      pageNumber === 1
+        ? page(
+            [
+              {
+                id: "run-item-1",
+                datasetItemId: "item-1",
+                traceId: "trace-1",
+                observationId: "obs-1",
+              },
+              { id: "run-item-2", datasetItemId: "item-2", traceId: "trace-2" },
+            ],
+            1,
+            2,
+          )
+        : page(
+            [
+              {
+                id: "run-item-3",
+                datasetItemId: "deleted-item",
+                traceId: "trace-3",
+              },
+            ],
+            2,
+            2,
+          )) as any);
+    vi.spyOn(api.trace, "get").mockImplementation((async (traceId: string) => ({
+      id: traceId,
+      output: `${traceId}-output`,
+      observations: [{ id: "obs-1", output: "observation-output" }],
+    })) as any);
+    vi.spyOn(api.scoreV2, "get").mockImplementation((async ({
+      traceId,
+      datasetRunId,
+      page: pageNumber,
+    }: any) => {
+      if (datasetRunId) {
+        return page(
+          [{ name: "run-accuracy", value: 0.5, dataType: "NUMERIC" }],
+          1,
+          1,
+        );
+      }
+
+      if (traceId === "trace-1") {
+        return pageNumber === 1
+          ? page(
+              [
+                {
+                  name: "accuracy",
+                  value: 1,
+                  dataType: "NUMERIC",
+                  observationId: "obs-1",
+                },
+              ],
+              1,
+              2,
+            )
+          : page(
+              [
+                {
+                  name: "label",
+                  stringValue: "correct",
+                  dataType: "CATEGORICAL",
+                },
+                {
+                  name: "other-observation",
+                  value: 0,
+                  dataType: "NUMERIC",
+                  observationId: "obs-2",
+                },
+              ],
+              2,
+              2,
+            );
+      }
+
+      return page([], 1, 0);
+    }) as any);
+    vi.spyOn(elasticdash, "getTraceUrl").mockResolvedValue(
+      "http://localhost:3000/project/p/traces/mock",
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should follow pagination and join run items with items, outputs and scores", async () => {
+    const result = await elasticdash.experiment.loadRun(
+      "qa-dataset",
+      "release-1.4",
+      { fetchPageSize: 2 },
+    );
+
+    expect(elasticdash.api.datasetRunItems.list).toHaveBeenCalledTimes(2);
+    expect(elasticdash.api.datasetRunItems.list).toHaveBeenLastCalledWith({
+      datasetId: "dataset-1",
+      runName: "release-1.4",
+      limit: 2,
+      page: 2,
+    });
+
+    expect(result.runName).toBe("release-1.4");
+    expect(result.datasetRunId).toBe("run-1");
+    expect(result.datasetRunUrl).toBe(
+      "http://localhost:3000/project/p/datasets/dataset-1/runs/run-1",
+    );
+    expect(result.failedItems).toEqual([]);
+    expect(result.runEvaluations).toEqual([
+      expect.objectContaining({ name: "run-accuracy", value: 0.5 }),
+    ]);
+
+    const [first, second] = result.itemResults;
+    expect(first.item).toMatchObject({ id: "item-1", input: "q1" });
+    expect(first.output).toBe("observation-output");
+    expect(first.evaluations).toEqual([
+      expect.objectContaining({ name: "accuracy", value: 1 }),
+      expect.objectContaining({ name: "label", value: "correct" }),
+    ]);
+
+    expect(second.item).toMatchObject({ id: "item-2", input: "q2" });
+    expect(second.output).toBe("trace-2-output");
+    expect(second.evaluations).toEqual([]);
+  });
+
+  it("should skip run items whose dataset item no longer exists", async () => {
+    const errorSpy = vi.spyOn(elasticdash.experiment.logger, "error");
+
+    const result = await elasticdash.experiment.loadRun(
+      "qa-dataset",
+      "release-1.4",
+      { fetchPageSize: 2 },
+    );
+
+    expect(result.itemResults.map((r) => r.traceId)).toEqual([
+      "trace-1",
+      "trace-2",
+    ]);
+    expect(elasticdash.api.trace.get).not.toHaveBeenCalledWith("trace-3");
+    expect(errorSpy).toHaveBeenCalledWith(
+      "Failed to load run item 'run-item-3'. Skipping item.",
+      expect.any(Error),
+    );
+  });
+
+  it("should reject when the dataset run does not exist", async () => {
+    vi.mocked(elasticdash.api.datasets.getRun).mockRejectedValue(
+      new Error("Dataset run not found"),
+    );
+
+    await expect(
+      elasticdash.experiment.loadRun("qa-dataset", "missing-run"),
+    ).rejects.toThrow("Dataset run not found");
+    expect(elasticdash.api.datasetRunItems.list).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Tests for the aggregate run evaluators.
+ *
+ * This test suite verifies mean, median and percentile aggregation, pass
+ * rates, bootstrap confidence intervals and categorical distributions.
+ */
+
+import {
+  ElasticDashClient,
+  createBootstrapCIRunEvaluator,
+  createCategoricalDistributionRunEvaluator,
+  createMeanRunEvaluator,
+  createMedianRunEvaluator,
+  createPassRateRunEvaluator,
+  createPercentileRunEvaluator,
+  type Evaluation,
+  type ExperimentItemResult,
+} from "@elasticdash/client";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+import {
+  setupTestEnvironment,
+  teardownTestEnvironment,
+  type TestEnvironment,
+} from "./helpers/testSetup.js";
+
+function createItemResults(
+  evaluations: Evaluation[][],
+): ExperimentItemResult[] {
+  return evaluations.map((itemEvaluations, index) => ({
+    item: { input: index },
+    output: index,
+    evaluations: itemEvaluations,
+  }));
+}
+
+const itemResults = createItemResults(
+  [0.2, 0.6, 0.8, 1, "n/a"].map((value, index) => [
+    { name: "accuracy", value },
+    { name: "tone", value: index % 2 === 0 ? "friendly" : "neutral" },
+  ]),
+);
+
+describe("Experiment Run Evaluators", () => {
+  it("should aggregate numeric item evaluations", async () => {
+    expect(
+      await createMeanRunEvaluator({ evaluationName: "accuracy" })({
+        itemResults,
+      }),
+    ).toMatchObject({
+      name: "accuracy_mean",
+      value: 0.65,
+      dataType: "NUMERIC",
+      metadata: { count: 4 },
+    });
+    expect(
+      await createMedianRunEvaluator({ evaluationName: "accuracy" })({
+        itemResults,
+      }),
+    ).toMatchObject({ name: "accuracy_median", value: 0.7 });
+
+    const p95 = (await createPercentileRunEvaluator({
+      evaluationName: "accuracy",
+    })({ itemResults })) as Evaluation;
+    expect(p95.name).toBe("accuracy_p95");
+    expect(p95.value).toBeCloseTo(0.97);
+  });
+
+  it("should fail without numeric item evaluations", async () => {
+    await expect(
+      createMeanRunEvaluator({ evaluationName: "tone" })({ itemResults }),
+    ).rejects.toThrow('No item has a numeric evaluation named "tone"');
+    expect(() =>
+      createPercentileRunEvaluator({
+        evaluationName: "accuracy",
+        percentile: 101,
+      }),
+    ).toThrow("Percentile must be between 0 and 100");
+  });
+
+  it("should compute pass rates against a threshold", async () => {
+    expect(
+      await createPassRateRunEvaluator({
+        evaluationName: "accuracy",
+        threshold: 0.7,
+      })({ itemResults }),
+    ).toEqual({
+      name: "accuracy_pass_rate",
+      value: 0.5,
+      dataType: "NUMERIC",
+      comment: "2/4 items with accuracy >= 0.7",
+      metadata: { passed: 2, count: 4 },
+    });
+    expect(
+      await createPassRateRunEvaluator({
+        evaluationName: "accuracy",
+        threshold: 0.5,
+        operator: "<",
+        name: "low_accuracy_rate",
+      })({ itemResults }),
+    ).toMatchObject({ name: "low_accuracy_rate", value: 0.25 });
+  });
+
+  it("should compute reproducible bootstrap confidence intervals", async () => {
+    const evaluator = createBootstrapCIRunEvaluator({
+      evaluationName: "accuracy",
+      seed: 42,
+    });
+
+    const [lower, upper] = (await evaluator({ itemResults })) as Evaluation[];
+
+    expect(lower.name).toBe("accuracy_mean_ci_lower");
+    expect(upper.name).toBe("accuracy_mean_ci_upper");
+    expect(lower.value).toBeGreaterThanOrEqual(0.2);
+    expect(lower.value).toBeLessThan(0.65);
+    expect(upper.value).toBeGreaterThan(0.65);
+    expect(upper.value).toBeLessThanOrEqual(1);
+    expect(lower.metadata).toMatchObject({
+      statistic: "mean",
+      estimate: 0.65,
+      confidenceLevel: 0.95,
+      count: 4,
+    });
+    expect(await evaluator({ itemResults })).toEqual([lower, upper]);
+  });
+
+  it("should compute categorical distributions", async () => {
+    expect(
+      await createCategoricalDistributionRunEvaluator({
+        evaluationName: "tone",
+      })({ itemResults }),
+    ).toEqual([
+      {
+        name: "tone_share_friendly",
+        value: 0.6,
+        dataType: "NUMERIC",
+        metadata: { category: "friendly", count: 3, total: 5 },
+      },
+      {
+        name: "tone_share_neutral",
+        value: 0.4,
+        dataType: "NUMERIC",
+        metadata: { category: "neutral", count: 2, total: 5 },
+      },
+    ]);
+  });
+
+  describe("within an experiment run", () => {
+    let testEnv: TestEnvironment;
+    let elasticdash: ElasticDashClient;
+
+    beforeEach(async () => {
+      testEnv = await setupTestEnvironment();
+      elasticdash = new ElasticDashClient({
+        publicKey: "test-pk",
+        secretKey: "test-sk",
+        baseUrl: "http://localhost:3000",
+      });
+    });
+
+    afterEach(async () => {
+      await teardownTestEnvironment(testEnv);
+    });
+
+    it("should return aggregate statistics as run evaluations", async () => {
+      const result = await elasticdash.experiment.run({
+        name: "aggregate-experiment",
+        data: [1, 2, 3, 4].map((input) => ({ input })),
+        task: async ({ input }) => input,
+        evaluators: [
+          async ({ output }) => ({ name: "score", value: output / 4 }),
+        ],
+        runEvaluators: [
+          createMeanRunEvaluator({ evaluationName: "score" }),
+          createPassRateRunEvaluator({
+            evaluationName: "score",
+            threshold: 0.5,
+          }),
+          createMeanRunEvaluator({ evaluationName: "missing" }),
+        ],
+      });
+
+      expect(result.runEvaluations).toMatchObject([
+        { name: "score_mean", value: 0.625 },
+        { name: "score_pass_rate", value: 0.75 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Tests for durable offline export spools.
+ *
+ * This test suite verifies the file-based spool (ordering, deduplication and
+ * size caps), replay with backoff, dropping of batches the backend rejects,
+ * and spooling of spans and score batches while the backend is unreachable.
+ */
+
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { ScoreManager } from "@elasticdash/client";
+import {
+  ElasticDashAPIError,
+  ExportSpoolReplayer,
+  FileExportSpool,
+  type IngestionEvent,
+} from "@elasticdash/core";
+import { type SerializedSpan } from "@elasticdash/otel";
+import { startObservation } from "@elasticdash/tracing";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+import {
+  setupTestEnvironment,
+  teardownTestEnvironment,
+  type TestEnvironment,
+} from "./helpers/testSetup.js";
+
+describe("Export Spool", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "elasticdash-spool-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  describe("FileExportSpool", () => {
+    it("should keep entries in order and deduplicate by id", async () => {
+      const spool = new FileExportSpool<{ value: number }>({ directory });
+
+      await spool.add([
+        { id: "a", payload: { value: 1 } },
+        { id: "b-with-dashes", payload: { value: 2 } },
+      ]);
+      await spool.add([
+        { id: "a", payload: { value: 99 } },
+        { id: "c", payload: { value: 3 } },
+      ]);
+
+      const restored = new FileExportSpool<{ value: number }>({ directory });
+      expect(await restored.size()).toBe(3);
+      expect(await restored.peek(10)).toEqual([
+        { id: "a", payload: { value: 1 } },
+        { id: "b-with-dashes", payload: { value: 2 } },
+        { id: "c", payload: { value: 3 } },
+      ]);
+
+      await restored.remove(["a", "b-with-dashes"]);
+      expect((await restored.peek(10)).map((entry) => entry.id)).toEqual(["c"]);
+    });
+
+    it("should drop the oldest entries when a size cap is exceeded", async () => {
+      const countCapped = new FileExportSpool({
+        directory: join(directory, "count"),
+        maxEntries: 2,
+      });
+      const byteCapped = new FileExportSpool({
+        directory: join(directory, "bytes"),
+        maxBytes: 100,
+      });
+      const entries = ["1", "2", "3"].map((id) => ({
+        id,
+        payload: "x".repeat(40),
+      }));
+
+      await countCapped.add(entries);
+      await byteCapped.add(entries);
+
+      expect((await countCapped.peek(10)).map((entry) => entry.id)).toEqual([
+        "2",
+        "3",
+      ]);
+      expect((await byteCapped.peek(10)).map((entry) => entry.id)).toEqual([
+        "3",
+      ]);
+    });
+
+    it("should apply size caps to entries spooled before a restart", async () => {
+      const entries = ["1", "2", "3"].map((id) => ({
+        id,
+        payload: "x".repeat(40),
+      }));
+      await new FileExportSpool({ directory }).add(entries.slice(0, 2));
+
+      const restored = new FileExportSpool({ directory, maxBytes: 150 });
+      await restored.add(entries.slice(2));
+      expect((await restored.peek(10)).map((entry) => entry.id)).toEqual([
+        "2",
+        "3",
+      ]);
+
+      await restored.remove(["2"]);
+      await restored.add([{ id: "4", payload: "x".repeat(40) }]);
+      expect(await restored.size()).toBe(2);
+    });
+
+    it("should return no entries for a missing directory", async () => {
+      const spool = new FileExportSpool({
+        directory: join(directory, "missing"),
+      });
+
+      expect(await spool.size()).toBe(0);
+      expect(await spool.peek(10)).toEqual([]);
+    });
+  });
+
+  describe("ExportSpoolReplayer", () => {
+    it("should retry replays with backoff until the target is reachable", async () => {
+      const spool = new FileExportSpool<number>({ directory });
+      const send = vi
+        .fn<(payloads: number[]) => Promise<void>>()
+        .mockRejectedValueOnce(new Error("offline"))
+        .mockRejectedValueOnce(new Error("offline"))
+        .mockResolvedValue(undefined);
+      const replayer = new ExportSpoolReplayer({
+        spool,
+        send,
+        batchSize: 2,
+        initialBackoffMs: 10,
+      });
+
+      await replayer.add([1, 2, 3].map((n) => ({ id: `${n}`, payload: n })));
+
+      await vi.waitFor(async () => expect(await spool.size()).toBe(0));
+      expect(send).toHaveBeenCalledTimes(4);
+      expect(send.mock.calls.slice(2)).toEqual([[[1, 2]], [[3]]]);
+      replayer.stop();
+    });
+
+    it("should drop batches the target rejects or keeps failing", async () => {
+      const spool = new FileExportSpool<number>({ directory });
+      const send = vi
+        .fn<(payloads: number[]) => Promise<void>>()
+        .mockImplementation(async ([payload]) => {
+          if (payload === 1) {
+            throw new ElasticDashAPIError({ statusCode: 400, body: {} });
+          }
+          if (payload === 2) {
+            throw new ElasticDashAPIError({ statusCode: 500, body: {} });
+          }
+        });
+      const replayer = new ExportSpoolReplayer({
+        spool,
+        send,
+        batchSize: 1,
+        initialBackoffMs: 10,
+        maxAttempts: 2,
+      });
+
+      await replayer.add([1, 2, 3].map((n) => ({ id: `${n}`, payload: n })));
+
+      await vi.waitFor(async () => expect(await spool.size()).toBe(0));
+      expect(send.mock.calls).toEqual([[[1]], [[2]], [[2]], [[3]]]);
+      replayer.stop();
+    });
+
+    it("should keep retrying batches failing without a response", async () => {
+      const spool = new FileExportSpool<number>({ directory });
+      const send = vi
+        .fn<(payloads: number[]) => Promise<void>>()
+        .mockRejectedValue(new Error("fetch failed"));
+      const replayer = new ExportSpoolReplayer({
+        spool,
+        send,
+        initialBackoffMs: 1,
+        maxBackoffMs: 1,
+        maxAttempts: 2,
+      });
+
+      await replayer.add([{ id: "1", payload: 1 }]);
+
+      await vi.waitFor(() =>
+        expect(send.mock.calls.length).toBeGreaterThanOrEqual(4),
+      );
+      replayer.stop();
+      expect(await spool.size()).toBe(1);
+    });
+  });
+
+  describe("spans", () => {
+    let testEnv: TestEnvironment;
+
+    afterEach(async () => {
+      await teardownTestEnvironment(testEnv);
+    });
+
+    it("should spool spans while the exporter fails and replay them afterwards", async () => {
+      const spool = new FileExportSpool<SerializedSpan>({ directory });
+      testEnv = await setupTestEnvironment({
+        mockExporterConfig: { shouldFail: true },
+        spanProcessorConfig: { spool },
+      });
+
+      startObservation("offline-span", { input: { question: "hi" } }).end();
+      await testEnv.spanProcessor.forceFlush();
+      await vi.waitFor(async () => expect(await spool.size()).toBe(1));
+      expect(testEnv.mockExporter.getSpanCount()).toBe(0);
+
+      testEnv.mockExporter.shouldFail = false;
+      await testEnv.spanProcessor.forceFlush();
+
+      expect(await spool.size()).toBe(0);
+      const span = testEnv.mockExporter.getSpanByName("offline-span")!;
+      expect(span.attributes["elasticdash.observation.input"]).toBe(
+        JSON.stringify({ question: "hi" }),
+      );
+      expect(span.spanContext().traceId).toMatch(/^[0-9a-f]{32}$/);
+    });
+  });
+
+  describe("scores", () => {
+    it("should spool failed score batches and replay them on the next flush", async () => {
+      const spool = new FileExportSpool<IngestionEvent>({ directory });
+      const batch = vi
+        .fn()
+        .mockRejectedValueOnce(new Error("fetch failed"))
+        .mockResolvedValue({ successes: [], errors: [] });
+      const scoreManager = new ScoreManager({
+        apiClient: { ingestion: { batch } } as any,
+        spool,
+      });
+
+      scoreManager.create({ name: "quality", value: 1, traceId: "trace-1" });
+      await scoreManager.flush();
+
+      expect(await spool.size()).toBe(1);
+      const [spooled] = await spool.peek(1);
+
+      scoreManager.create({ name: "quality", value: 0, traceId: "trace-2" });
+      await scoreManager.flush();
+
+      expect(await spool.size()).toBe(0);
+      expect(batch).toHaveBeenCalledTimes(3);
+      expect(batch.mock.calls[2][0]).toEqual({ batch: [spooled.payload] });
+    });
+
+    it("should not spool score batches the API rejects as invalid", async () => {
+      const spool = new FileExportSpool<IngestionEvent>({ directory });
+      const scoreManager = new ScoreManager({
+        apiClient: {
+          ingestion: {
+            batch: vi
+              .fn()
+              .mockRejectedValue(
+                new ElasticDashAPIError({ statusCode: 400, body: {} }),
+              ),
+          },
+        } as any,
+        spool,
+      });
+      const errorSpy = vi
+        .spyOn(scoreManager.logger, "error")
+        .mockImplementation(() => {});
+
+      scoreManager.create({ name: "quality", value: 1, traceId: "trace-1" });
+      await scoreManager.flush();
+
+      expect(await spool.size()).toBe(0);
+      expect(errorSpy).toHaveBeenCalledWith(
+        "Failed to export score batch:",
+        expect.any(ElasticDashAPIError),
+      );
+      errorSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * Tests for the Google Gen AI SDK integration.
+ *
+ * This test suite verifies tracing of `generateContent` and
+ * `generateContentStream` calls of a Google Gen AI client as generations,
+ * including parsed usage metadata, finish reasons, safety ratings and inline
+ * image parts handled by the media pipeline. The client is a fake with the
+ * shape of the SDK, so no API key is needed, and media uploads are served by a
+ * stubbed `fetch`.
+ */
+
+import { ElasticDashOtelSpanAttributes as Attributes } from "@elasticdash/core";
+import { observeGoogleGenAI } from "@elasticdash/google-genai";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+import {
+  setupTestEnvironment,
+  teardownTestEnvironment,
+  waitForSpanExport,
+  type TestEnvironment,
+} from "./helpers/testSetup.js";
+
+const PNG_BASE64 =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==";
+
+const safetyRatings = [
+  { category: "HARM_CATEGORY_HARASSMENT", probability: "NEGLIGIBLE" },
+];
+
+const response = {
+  responseId: "resp-1",
+  modelVersion: "gemini-2.5-flash-001",
+  candidates: [
+    {
+      index: 0,
+      content: {
+        role: "model",
+        parts: [{ text: "A red " }, { text: "pixel." }],
+      },
+      finishReason: "STOP",
+      safetyRatings,
+    },
+  ],
+  usageMetadata: {
+    promptTokenCount: 300,
+    candidatesTokenCount: 20,
+    cachedContentTokenCount: 100,
+    thoughtsTokenCount: 50,
+    totalTokenCount: 370,
+  },
+};
+
+const streamChunks = [
+  {
+    responseId: "resp-2",
+    modelVersion: "gemini-2.5-flash-001",
+    candidates: [{ content: { role: "model", parts: [{ text: "Once " }] } }],
+  },
+  {
+    candidates: [
+      {
+        content: {
+          role: "model",
+          parts: [
+            { text: "upon a time" },
+            { functionCall: { name: "save_story", args: { title: "Tale" } } },
+          ],
+        },
+        finishReason: "STOP",
+      },
+    ],
+    usageMetadata: {
+      promptTokenCount: 10,
+      candidatesTokenCount: 8,
+      totalTokenCount: 18,
+    },
+  },
+];
+
+class Models {
+  generateContent = async (params: Record<string, any>): Promise<unknown> => {
+    if (params.contents === "unsafe") {
+      return {
+        candidates: [{ finishReason: "SAFETY", safetyRatings }],
+        usageMetadata: { promptTokenCount: 5, totalTokenCount: 5 },
+      };
+    }
+
+    return response;
+  };
+
+  generateContentStream = async (): Promise<AsyncGenerator<unknown>> => {
+    return (async function* () {
+      yield* streamChunks;
+    })();
+  };
+
+  countTokens = async (): Promise<{ totalTokens: number }> => {
+    return { totalTokens: 7 };
+  };
+}
+
+class GoogleGenAI {
+  public models = new Models();
+}
+
+describe("Google Gen AI Integration", () => {
+  let testEnv: TestEnvironment;
+
+  beforeEach(async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (_url: string | URL, init?: RequestInit) => {
+        if (init?.method === "POST") {
+          const { sha256Hash } = JSON.parse(String(init.body));
+          const mediaId = sha256Hash
+            .replaceAll("+", "-")
+            .replaceAll("/", "_")
+            .slice(0, 22);
+
+          return Response.json({
+            mediaId,
+            uploadUrl: `https://storage.test/${mediaId}`,
+          });
+        }
+
+        return new Response(null, { status: 200 });
+      }),
+    );
+    testEnv = await setupTestEnvironment();
+  });
+
+  afterEach(async () => {
+    await teardownTestEnvironment(testEnv);
+    vi.unstubAllGlobals();
+  });
+
+  function getGeneration(name: string) {
+    const span = testEnv.mockExporter.getSpanByName(name);
+    expect(span).toBeDefined();
+
+    const attribute = (key: string) => span!.attributes[key];
+    const parse = (key: string) => JSON.parse(attribute(key) as string);
+
+    return { attribute, parse };
+  }
+
+  it("should trace generateContent with usage, finish reason and inline images", async () => {
+    const ai = observeGoogleGenAI(new GoogleGenAI(), {
+      traceName: "describe-image",
+      userId: "user-1",
+    });
+
+    const result = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: [
+        {
+          role: "user",
+          parts: [
+            { text: "Describe this image" },
+            { inlineData: { mimeType: "image/png", data: PNG_BASE64 } },
+          ],
+        },
+      ],
+      config: {
+        temperature: 0.2,
+        systemInstruction: "Be brief.",
+        thinkingConfig: { thinkingBudget: 128 },
+      },
+    });
+    await waitForSpanExport(testEnv.mockExporter, 1);
+
+    expect(result).toBe(response);
+
+    const generation = getGeneration("GoogleGenAI.models.generateContent");
+    const input = generation.parse(Attributes.OBSERVATION_INPUT);
+    expect(input.systemInstruction).toBe("Be brief.");
+    expect(input.contents[0].parts[1].inlineData.data).toMatch(
+      /^@@@elasticDashMedia:type=image\/png\|id=[^|]+\|source=bytes@@@$/,
+    );
+    expect(generation.attribute(Attributes.OBSERVATION_MODEL)).toBe(
+      "gemini-2.5-flash-001",
+    );
+    expect(generation.parse(Attributes.OBSERVATION_MODEL_PARAMETERS)).toEqual({
+      temperature: 0.2,
+    });
+    expect(generation.attribute(Attributes.OBSERVATION_OUTPUT)).toBe(
+      "A red pixel.",
+    );
+    expect(generation.parse(Attributes.OBSERVATION_USAGE_DETAILS)).toEqual({
+      input: 200,
+      input_cached_tokens: 100,
+      output: 20,
+      output_reasoning_tokens: 50,
+      total: 370,
+    });
+    expect(
+      generation.attribute(`${Attributes.OBSERVATION_METADATA}.finish_reason`),
+    ).toBe("STOP");
+    expect(
+      generation.parse(`${Attributes.OBSERVATION_METADATA}.safety_ratings`),
+    ).toEqual(safetyRatings);
+    expect(
+      generation.parse(`${Attributes.OBSERVATION_METADATA}.thinkingConfig`),
+    ).toEqual({ thinkingBudget: 128 });
+    expect(generation.attribute(Attributes.TRACE_NAME)).toBe("describe-image");
+    expect(generation.attribute(Attributes.TRACE_USER_ID)).toBe("user-1");
+  });
+
+  it("should merge streamed chunks into the final output", async () => {
+    const ai = observeGoogleGenAI(new GoogleGenAI());
+
+    const stream = await ai.models.generateContentStream({
+      model: "gemini-2.5-flash",
+      contents: "Write a story",
+    });
+
+    const chunks: unknown[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+    await waitForSpanExport(testEnv.mockExporter, 1);
+
+    expect(chunks).toEqual(streamChunks);
+
+    const generation = getGeneration(
+      "GoogleGenAI.models.generateContentStream",
+    );
+    expect(generation.parse(Attributes.OBSERVATION_OUTPUT)).toEqual({
+      role: "model",
+      parts: [
+        { text: "Once upon a time" },
+        { functionCall: { name: "save_story", args: { title: "Tale" } } },
+      ],
+    });
+    expect(generation.parse(Attributes.OBSERVATION_USAGE_DETAILS)).toEqual({
+      input: 10,
+      output: 8,
+      total: 18,
+    });
+    expect(
+      generation.attribute(`${Attributes.OBSERVATION_METADATA}.response_id`),
+    ).toBe("resp-2");
+    expect(
+      generation.attribute(Attributes.OBSERVATION_COMPLETION_START_TIME),
+    ).toBeDefined();
+  });
+
+  it("should record blocked responses as warnings and pass through other methods", async () => {
+    const ai = observeGoogleGenAI(new GoogleGenAI(), {
+      generationName: "moderated-generation",
+    });
+
+    await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: "unsafe",
+    });
+    expect(await ai.models.countTokens()).toEqual({ totalTokens: 7 });
+    await waitForSpanExport(testEnv.mockExporter, 1);
+
+    const generation = getGeneration("moderated-generation");
+    expect(generation.attribute(Attributes.OBSERVATION_LEVEL)).toBe("WARNING");
+    expect(generation.attribute(Attributes.OBSERVATION_STATUS_MESSAGE)).toBe(
+      "Blocked: SAFETY",
+    );
+    expect(testEnv.mockExporter.getSpanCount()).toBe(1);
+  });
+});
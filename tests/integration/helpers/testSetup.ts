@@ -4,6 +4,7 @@ import {
 } from "@elasticdash/otel";
 import { trace } from "@opentelemetry/api";
 import { NodeSDK } from "@opentelemetry/sdk-node";
+import { type Sampler } from "@opentelemetry/sdk-trace-base";
 
 import { MockSpanExporter } from "./MockSpanExporter.js";
 
@@ -26,6 +27,7 @@ export interface TestSetupOptions {
   };
   enableInstrumentation?: boolean;
   timeout?: number;
+  sampler?: Sampler;
 }
 
 /**
@@ -58,6 +60,7 @@ export async function setupTestEnvironment(
 
   const sdk = new NodeSDK({
     spanProcessor,
+    sampler: options.sampler,
     instrumentations: options.enableInstrumentation ? undefined : [], // No auto-instrumentation by default
   });
 
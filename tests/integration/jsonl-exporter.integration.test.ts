@@ -0,0 +1,193 @@
+/**
+ * Tests for the JSONL span exporter and replay.
+ *
+ * This test suite verifies that processed spans are written to rotating JSONL
+ * files, that they convert to OTLP export requests, and that the files can be
+ * replayed through the OpenTelemetry ingestion endpoint.
+ */
+
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { replayJsonlSpanFiles } from "@elasticdash/cli";
+import { ElasticDashOtelSpanAttributes } from "@elasticdash/core";
+import {
+  JsonlSpanExporter,
+  listJsonlSpanFiles,
+  readJsonlSpanFile,
+  toOtelTraceRequest,
+} from "@elasticdash/otel";
+import { startObservation } from "@elasticdash/tracing";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+import {
+  setupTestEnvironment,
+  teardownTestEnvironment,
+  type TestEnvironment,
+} from "./helpers/testSetup.js";
+
+describe("JSONL Exporter", () => {
+  let directory: string;
+  let testEnv: TestEnvironment;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "elasticdash-jsonl-"));
+  });
+
+  afterEach(async () => {
+    await teardownTestEnvironment(testEnv);
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  async function writeSpans(
+    exporter: JsonlSpanExporter,
+    names: string[],
+  ): Promise<void> {
+    testEnv = await setupTestEnvironment({
+      spanProcessorConfig: {
+        exporter,
+        exportMode: "immediate",
+        mask: ({ data }) =>
+          typeof data === "string" ? data.replace(/secret/g, "***") : data,
+      },
+    });
+
+    for (const name of names) {
+      startObservation(name, {
+        input: "secret question",
+        metadata: { tags: ["a", "b"] },
+      }).end();
+    }
+
+    await testEnv.spanProcessor.forceFlush();
+  }
+
+  it("should write masked spans as JSON lines", async () => {
+    await writeSpans(new JsonlSpanExporter({ directory }), ["first", "second"]);
+
+    const [file] = await listJsonlSpanFiles(directory);
+    const lines = (await readFile(file, "utf8")).trim().split("\n");
+    const spans = await readJsonlSpanFile(file);
+
+    expect(lines).toHaveLength(2);
+    expect(spans.map((span) => span.name)).toEqual(["first", "second"]);
+    expect(
+      spans[0].attributes[ElasticDashOtelSpanAttributes.OBSERVATION_INPUT],
+    ).toBe("*** question");
+    expect(spans[0].spanContext.traceId).toMatch(/^[0-9a-f]{32}$/);
+  });
+
+  it("should rotate files and keep at most maxFiles files", async () => {
+    await writeSpans(
+      new JsonlSpanExporter({ directory, maxFileBytes: 1, maxFiles: 2 }),
+      ["one", "two", "three"],
+    );
+
+    const files = await listJsonlSpanFiles(directory);
+    const spans = await Promise.all(files.map(readJsonlSpanFile));
+
+    expect(files).toHaveLength(2);
+    expect(spans.flat().map((span) => span.name)).toEqual(["two", "three"]);
+  });
+
+  it("should convert spans to an OTLP export request", async () => {
+    await writeSpans(new JsonlSpanExporter({ directory }), ["parent"]);
+    const [span] = await readJsonlSpanFile(
+      (await listJsonlSpanFiles(directory))[0],
+    );
+
+    const request = toOtelTraceRequest([
+      span,
+      {
+        ...span,
+        name: "child",
+        spanContext: { ...span.spanContext, spanId: "00f067aa0ba902b7" },
+        parentSpanContext: span.spanContext,
+        events: [
+          { name: "retry", time: [1700000000, 5], attributes: { attempt: 2 } },
+        ],
+        links: [{ context: span.spanContext, attributes: { reason: "cause" } }],
+      },
+    ]);
+
+    expect(request.resourceSpans).toHaveLength(1);
+    const [scopeSpan] = request.resourceSpans[0].scopeSpans!;
+    const [parent, child] = scopeSpan.spans!;
+
+    expect(scopeSpan.scope?.name).toBe(span.instrumentationScope.name);
+    expect(parent).toMatchObject({
+      traceId: span.spanContext.traceId,
+      spanId: span.spanContext.spanId,
+      parentSpanId: undefined,
+      name: "parent",
+      kind: 1,
+      startTimeUnixNano: `${span.startTime[0]}${span.startTime[1].toString().padStart(9, "0")}`,
+    });
+    expect(child).toMatchObject({
+      name: "child",
+      parentSpanId: span.spanContext.spanId,
+      events: [
+        {
+          timeUnixNano: "1700000000000000005",
+          name: "retry",
+          attributes: [{ key: "attempt", value: { intValue: 2 } }],
+          droppedAttributesCount: 0,
+        },
+      ],
+      links: [
+        {
+          traceId: span.spanContext.traceId,
+          spanId: span.spanContext.spanId,
+          attributes: [{ key: "reason", value: { stringValue: "cause" } }],
+        },
+      ],
+    });
+    expect(parent).toMatchObject({ events: [], links: [] });
+    expect(parent.attributes).toContainEqual({
+      key: ElasticDashOtelSpanAttributes.OBSERVATION_INPUT,
+      value: { stringValue: "*** question" },
+    });
+  });
+
+  it("should replay span files in batches", async () => {
+    await writeSpans(new JsonlSpanExporter({ directory }), [
+      "one",
+      "two",
+      "three",
+    ]);
+    const exportTraces = vi.fn().mockResolvedValue({});
+    const client = { api: { opentelemetry: { exportTraces } } } as any;
+
+    const outcome = await replayJsonlSpanFiles({
+      paths: [directory],
+      batchSize: 2,
+      client,
+    });
+
+    expect(outcome).toMatchObject({ spanCount: 3, requestCount: 2 });
+    expect(outcome.files).toHaveLength(1);
+    expect(
+      exportTraces.mock.calls.map(([request]) =>
+        request.resourceSpans[0].scopeSpans[0].spans.map(
+          (span: { name: string }) => span.name,
+        ),
+      ),
+    ).toEqual([["one", "two"], ["three"]]);
+  });
+
+  it("should report the failing file when a replay request fails", async () => {
+    await writeSpans(new JsonlSpanExporter({ directory }), ["one"]);
+    const client = {
+      api: {
+        opentelemetry: {
+          exportTraces: vi.fn().mockRejectedValue(new Error("unauthorized")),
+        },
+      },
+    } as any;
+
+    await expect(
+      replayJsonlSpanFiles({ paths: [directory], client }),
+    ).rejects.toThrow(/Replaying spans 1-1 of '.*' failed .*unauthorized/);
+  });
+});
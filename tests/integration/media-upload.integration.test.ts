@@ -0,0 +1,376 @@
+/**
+ * Tests for media extraction and uploads of the ElasticDashSpanProcessor.
+ *
+ * This test suite verifies media extraction from provider content parts and
+ * byte arrays, custom media extractors, deduplication of media across spans
+ * including uploading again after a failed upload, the upload concurrency
+ * limit, the size and queue guards replacing media with placeholders, and the
+ * media upload metrics. The ElasticDash media API and the upload storage are
+ * served by a stubbed `fetch`.
+ */
+
+import { defaultMediaExtractors, type MediaExtractor } from "@elasticdash/otel";
+import { startObservation } from "@elasticdash/tracing";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+import {
+  setupTestEnvironment,
+  teardownTestEnvironment,
+  waitForSpanExport,
+  type TestEnvironment,
+} from "./helpers/testSetup.js";
+
+const PNG_BASE64 =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==";
+const MEDIA_TAG_PATTERN =
+  /@@@elasticDashMedia:type=[^|]+\|id=[^|]+\|source=[^@]+@@@/g;
+
+function toDataUri(content: string): string {
+  return `data:image/png;base64,${Buffer.from(content).toString("base64")}`;
+}
+
+describe("Media Upload", () => {
+  let testEnv: TestEnvironment;
+  let mediaRequests: string[];
+  let mediaLinks: { mediaId: string; observationId: string; field: string }[];
+  let mediaContentTypes: string[];
+  let uploads: string[];
+  let activeUploads: number;
+  let maxActiveUploads: number;
+  let releaseUploads: () => void;
+  let uploadsReleased: Promise<void>;
+  let rejectedMediaRequests: number;
+
+  beforeEach(() => {
+    rejectedMediaRequests = 0;
+    mediaRequests = [];
+    mediaLinks = [];
+    mediaContentTypes = [];
+    uploads = [];
+    activeUploads = 0;
+    maxActiveUploads = 0;
+    uploadsReleased = new Promise((resolve) => (releaseUploads = resolve));
+
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string | URL, init?: RequestInit) => {
+        const { pathname } = new URL(url);
+
+        if (init?.method === "PUT") {
+          uploads.push(pathname);
+          activeUploads++;
+          maxActiveUploads = Math.max(maxActiveUploads, activeUploads);
+          await uploadsReleased;
+          activeUploads--;
+
+          return new Response("", { status: 200 });
+        }
+
+        if (init?.method === "POST" && rejectedMediaRequests > 0) {
+          rejectedMediaRequests--;
+          await uploadsReleased;
+
+          return new Response("", { status: 400 });
+        }
+
+        if (init?.method === "POST") {
+          const { sha256Hash, contentType, observationId, field } = JSON.parse(
+            String(init.body),
+          );
+          const mediaId = sha256Hash
+            .replaceAll("+", "-")
+            .replaceAll("/", "_")
+            .slice(0, 22);
+          mediaRequests.push(mediaId);
+          mediaContentTypes.push(contentType);
+          mediaLinks.push({ mediaId, observationId, field });
+
+          return Response.json({
+            mediaId,
+            uploadUrl: `https://storage.test/${mediaId}`,
+          });
+        }
+
+        return new Response(null, { status: 204 });
+      }),
+    );
+  });
+
+  afterEach(async () => {
+    releaseUploads();
+    await teardownTestEnvironment(testEnv);
+    vi.unstubAllGlobals();
+  });
+
+  it("should upload identical media only once but link it to every span", async () => {
+    testEnv = await setupTestEnvironment({
+      spanProcessorConfig: { baseUrl: "https://elasticdash.test" },
+    });
+    const image = toDataUri("shared-image");
+
+    startObservation("first", { input: { image } }).end();
+    startObservation("second", {
+      input: { image },
+      output: { image, other: toDataUri("other-image") },
+    }).end();
+    await waitForSpanExport(testEnv.mockExporter, 2);
+    releaseUploads();
+    await testEnv.spanProcessor.forceFlush();
+
+    const firstInput = testEnv.mockExporter.getSpanAttributes("first")?.[
+      "elasticdash.observation.input"
+    ] as string;
+    const secondInput = testEnv.mockExporter.getSpanAttributes("second")?.[
+      "elasticdash.observation.input"
+    ] as string;
+
+    expect(firstInput.match(MEDIA_TAG_PATTERN)).toEqual(
+      secondInput.match(MEDIA_TAG_PATTERN),
+    );
+    const [sharedMediaId] = mediaRequests;
+    const spanId = (name: string) =>
+      testEnv.mockExporter.getSpanByName(name)!.spanContext().spanId;
+    expect(mediaLinks.filter((link) => link.mediaId === sharedMediaId)).toEqual(
+      expect.arrayContaining([
+        {
+          mediaId: sharedMediaId,
+          observationId: spanId("first"),
+          field: "input",
+        },
+        {
+          mediaId: sharedMediaId,
+          observationId: spanId("second"),
+          field: "input",
+        },
+        {
+          mediaId: sharedMediaId,
+          observationId: spanId("second"),
+          field: "output",
+        },
+      ]),
+    );
+    expect(mediaRequests).toHaveLength(4);
+    expect(uploads).toHaveLength(2);
+    expect(testEnv.spanProcessor.getMediaUploadMetrics()).toEqual({
+      scheduledUploads: 2,
+      uploadedMedia: 2,
+      uploadedBytes: "shared-image".length + "other-image".length,
+      deduplicatedMedia: 2,
+      failedUploads: 0,
+      droppedOversizedMedia: 0,
+      droppedQueueFullMedia: 0,
+      activeUploads: 0,
+      queuedUploads: 0,
+    });
+  });
+
+  it("should upload shared media again when the first upload fails", async () => {
+    testEnv = await setupTestEnvironment({
+      spanProcessorConfig: { baseUrl: "https://elasticdash.test" },
+    });
+    rejectedMediaRequests = 1;
+    const image = toDataUri("retried-image");
+
+    startObservation("failed-upload", { input: { image } }).end();
+    startObservation("retried-upload", { input: { image } }).end();
+    await waitForSpanExport(testEnv.mockExporter, 2);
+
+    // The second span waits for the first upload before linking the media
+    expect(mediaRequests).toHaveLength(0);
+
+    releaseUploads();
+    await testEnv.spanProcessor.forceFlush();
+
+    expect(mediaLinks).toEqual([
+      expect.objectContaining({
+        observationId: testEnv.mockExporter
+          .getSpanByName("retried-upload")!
+          .spanContext().spanId,
+        field: "input",
+      }),
+    ]);
+    expect(uploads).toHaveLength(1);
+    expect(testEnv.spanProcessor.getMediaUploadMetrics()).toMatchObject({
+      scheduledUploads: 2,
+      uploadedMedia: 1,
+      deduplicatedMedia: 0,
+      failedUploads: 1,
+    });
+  });
+
+  it("should limit the number of parallel uploads", async () => {
+    testEnv = await setupTestEnvironment({
+      spanProcessorConfig: {
+        baseUrl: "https://elasticdash.test",
+        mediaUpload: { maxConcurrentUploads: 2 },
+      },
+    });
+
+    startObservation("many-images", {
+      input: Array.from({ length: 5 }, (_, i) => toDataUri(`image-${i}`)),
+    }).end();
+    await waitForSpanExport(testEnv.mockExporter, 1);
+    await vi.waitFor(() => expect(uploads).toHaveLength(2));
+
+    expect(testEnv.spanProcessor.getMediaUploadMetrics()).toMatchObject({
+      scheduledUploads: 5,
+      activeUploads: 2,
+      queuedUploads: 3,
+    });
+
+    releaseUploads();
+    await testEnv.spanProcessor.forceFlush();
+
+    expect(uploads).toHaveLength(5);
+    expect(maxActiveUploads).toBe(2);
+    expect(testEnv.spanProcessor.getMediaUploadMetrics()).toMatchObject({
+      uploadedMedia: 5,
+      activeUploads: 0,
+      queuedUploads: 0,
+    });
+  });
+
+  it("should replace oversized media and media exceeding the queue with placeholders", async () => {
+    testEnv = await setupTestEnvironment({
+      spanProcessorConfig: {
+        baseUrl: "https://elasticdash.test",
+        mediaUpload: {
+          maxConcurrentUploads: 1,
+          maxQueuedUploads: 0,
+          maxMediaBytes: 100,
+        },
+      },
+    });
+
+    startObservation("large-image", {
+      input: { image: toDataUri("x".repeat(200)), bytes: new Uint8Array(300) },
+    }).end();
+    startObservation("busy-queue", {
+      input: [toDataUri("first-image"), toDataUri("second-image")],
+    }).end();
+    await waitForSpanExport(testEnv.mockExporter, 2);
+    releaseUploads();
+    await testEnv.spanProcessor.forceFlush();
+
+    expect(
+      testEnv.mockExporter.getSpanAttributes("large-image")?.[
+        "elasticdash.observation.input"
+      ],
+    ).toBe(
+      JSON.stringify({
+        image: "[media omitted: type=image/png|bytes=200|reason=size_limit]",
+        bytes:
+          "[media omitted: type=application/octet-stream|bytes=300|reason=size_limit]",
+      }),
+    );
+
+    const busyInput = JSON.parse(
+      testEnv.mockExporter.getSpanAttributes("busy-queue")?.[
+        "elasticdash.observation.input"
+      ] as string,
+    );
+    expect(busyInput[0]).toMatch(MEDIA_TAG_PATTERN);
+    expect(busyInput[1]).toBe(
+      "[media omitted: type=image/png|bytes=12|reason=queue_full]",
+    );
+    expect(uploads).toHaveLength(1);
+    expect(testEnv.spanProcessor.getMediaUploadMetrics()).toMatchObject({
+      uploadedMedia: 1,
+      droppedOversizedMedia: 2,
+      droppedQueueFullMedia: 1,
+    });
+  });
+
+  it("should extract media from provider content parts and byte arrays", async () => {
+    testEnv = await setupTestEnvironment({
+      spanProcessorConfig: { baseUrl: "https://elasticdash.test" },
+    });
+    const wavBase64 = Buffer.from("RIFF0000WAVEfmt audio").toString("base64");
+    const jpegBase64 = Buffer.from("langchain-image").toString("base64");
+
+    startObservation("multimodal", {
+      input: {
+        openai: {
+          type: "input_audio",
+          input_audio: { data: wavBase64, format: "wav" },
+        },
+        anthropic: {
+          type: "image",
+          source: { type: "base64", media_type: "image/png", data: PNG_BASE64 },
+        },
+        langchain: {
+          type: "image",
+          source_type: "base64",
+          mime_type: "image/jpeg",
+          data: jpegBase64,
+        },
+        buffer: Buffer.concat([
+          Buffer.from([0x89, 0x50, 0x4e, 0x47]),
+          Buffer.from("buffer-image"),
+        ]),
+        bytes: new TextEncoder().encode("raw bytes"),
+      },
+    }).end();
+    await waitForSpanExport(testEnv.mockExporter, 1);
+    releaseUploads();
+    await testEnv.spanProcessor.forceFlush();
+
+    const input = JSON.parse(
+      testEnv.mockExporter.getSpanAttributes("multimodal")?.[
+        "elasticdash.observation.input"
+      ] as string,
+    );
+
+    expect(input.openai.input_audio.data).toMatch(
+      /^@@@elasticDashMedia:type=audio\/wav\|id=[^|]+\|source=bytes@@@$/,
+    );
+    expect(input.anthropic.source.data).toMatch(/type=image\/png\|/);
+    expect(input.langchain.data).toMatch(/type=image\/jpeg\|/);
+    expect(input.buffer).toMatch(/type=image\/png\|/);
+    expect(input.bytes).toMatch(/type=application\/octet-stream\|/);
+    expect(mediaContentTypes.sort()).toEqual([
+      "application/octet-stream",
+      "audio/wav",
+      "image/jpeg",
+      "image/png",
+      "image/png",
+    ]);
+    expect(uploads).toHaveLength(5);
+  });
+
+  it("should combine custom media extractors with the defaults", async () => {
+    const pdfExtractor: MediaExtractor = ({ parsedValue }) => {
+      const pdf = (parsedValue as { pdfBase64?: string })?.pdfBase64;
+
+      return pdf
+        ? [{ match: pdf, base64Content: pdf, contentType: "application/pdf" }]
+        : [];
+    };
+    testEnv = await setupTestEnvironment({
+      spanProcessorConfig: {
+        baseUrl: "https://elasticdash.test",
+        mediaExtractors: [...defaultMediaExtractors, pdfExtractor],
+      },
+    });
+
+    startObservation("custom-media", {
+      input: {
+        pdfBase64: Buffer.from("%PDF-1.7").toString("base64"),
+        image: toDataUri("image"),
+      },
+    }).end();
+    await waitForSpanExport(testEnv.mockExporter, 1);
+    releaseUploads();
+    await testEnv.spanProcessor.forceFlush();
+
+    const input = JSON.parse(
+      testEnv.mockExporter.getSpanAttributes("custom-media")?.[
+        "elasticdash.observation.input"
+      ] as string,
+    );
+
+    expect(input.pdfBase64).toMatch(/type=application\/pdf\|/);
+    expect(input.image).toMatch(/type=image\/png\|.*source=base64_data_uri/);
+    expect(mediaContentTypes.sort()).toEqual(["application/pdf", "image/png"]);
+  });
+});
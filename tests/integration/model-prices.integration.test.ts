@@ -0,0 +1,322 @@
+/**
+ * Tests for client-side generation cost calculation.
+ *
+ * This test suite verifies price matching, date-effective prices, precedence
+ * of prices registered in code over prices loaded from the models API, and
+ * derived cost details on generations created directly, by `observeOpenAI`
+ * with dated response models and by the LangChain `CallbackHandler`.
+ */
+
+import { getGlobalLogger } from "@elasticdash/core";
+import { CallbackHandler } from "@elasticdash/langchain";
+import { observeOpenAI } from "@elasticdash/openai";
+import {
+  ElasticDashOtelSpanAttributes,
+  ModelPriceRegistry,
+  getModelPriceRegistry,
+  setModelPriceRegistry,
+  startObservation,
+} from "@elasticdash/tracing";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+import {
+  setupTestEnvironment,
+  teardownTestEnvironment,
+  waitForSpanExport,
+  type TestEnvironment,
+} from "./helpers/testSetup.js";
+
+function createModelsApi() {
+  return {
+    models: {
+      list: vi.fn(async ({ page }: { page: number }) => ({
+        data:
+          page === 1
+            ? [
+                {
+                  modelName: "gpt-4o",
+                  matchPattern: "(?i)^(openai/)?(gpt-4o)$",
+                  startDate: null,
+                  inputPrice: null,
+                  outputPrice: null,
+                  totalPrice: null,
+                  prices: { input: { price: 5e-6 }, output: { price: 15e-6 } },
+                },
+              ]
+            : [
+                {
+                  modelName: "legacy-model",
+                  matchPattern: "(?i)^legacy-model$",
+                  startDate: null,
+                  inputPrice: null,
+                  outputPrice: null,
+                  totalPrice: 1e-6,
+                  prices: {},
+                },
+              ],
+        meta: { page, limit: 1, totalItems: 2, totalPages: 2 },
+      })),
+    },
+  } as any;
+}
+
+describe("Model Prices", () => {
+  let registry: ModelPriceRegistry;
+
+  beforeEach(() => {
+    registry = new ModelPriceRegistry();
+  });
+
+  it("should calculate costs per usage type with cached and reasoning token prices", () => {
+    registry.register({
+      modelName: "o3",
+      prices: {
+        input: 2e-6,
+        input_cached_tokens: 0.5e-6,
+        output: 8e-6,
+        output_reasoning_tokens: 8e-6,
+      },
+    });
+
+    const cost = registry.calculateCost("O3", {
+      input: 1000,
+      input_cached_tokens: 2000,
+      output: 100,
+      output_reasoning_tokens: 400,
+      total: 3500,
+    });
+
+    expect(cost).toEqual({
+      input: expect.closeTo(0.002, 12),
+      input_cached_tokens: expect.closeTo(0.001, 12),
+      output: expect.closeTo(0.0008, 12),
+      output_reasoning_tokens: expect.closeTo(0.0032, 12),
+      total: expect.closeTo(0.007, 12),
+    });
+    expect(registry.calculateCost("o3-mini", { input: 1 })).toBeUndefined();
+  });
+
+  it("should not charge usage types without a price", () => {
+    const warnSpy = vi.spyOn(getGlobalLogger(), "warn");
+    registry.register({
+      modelName: "claude-sonnet-4",
+      prices: { input: 3e-6, output: 15e-6 },
+    });
+
+    const cost = registry.calculateCost("claude-sonnet-4", {
+      input: 100,
+      input_cache_read: 1000,
+      output: 10,
+    });
+
+    expect(cost).toEqual({
+      input: expect.closeTo(3e-4, 12),
+      output: expect.closeTo(1.5e-4, 12),
+      total: expect.closeTo(4.5e-4, 12),
+    });
+    expect(warnSpy).toHaveBeenCalledWith(
+      "No price for usage type 'input_cache_read' of model 'claude-sonnet-4'. Usage is not included in the derived cost.",
+    );
+    warnSpy.mockRestore();
+  });
+
+  it("should apply date-effective prices", () => {
+    registry.register([
+      { modelName: "gpt-4o", prices: { input: 10e-6 } },
+      {
+        modelName: "gpt-4o",
+        startDate: "2026-01-01T00:00:00Z",
+        prices: { input: 5e-6 },
+      },
+    ]);
+
+    expect(
+      registry.getPrice("gpt-4o", new Date("2025-06-01"))?.prices.input,
+    ).toBe(10e-6);
+    expect(
+      registry.getPrice("gpt-4o", new Date("2026-06-01"))?.prices.input,
+    ).toBe(5e-6);
+  });
+
+  it("should seed prices from the models API and prefer prices from code", async () => {
+    const apiClient = createModelsApi();
+
+    expect(await registry.loadFromApi(apiClient, { fetchPageSize: 1 })).toBe(2);
+    expect(apiClient.models.list).toHaveBeenCalledTimes(2);
+    expect(
+      registry.calculateCost("OpenAI/GPT-4o", { input: 10, output: 10 }),
+    ).toEqual({
+      input: expect.closeTo(5e-5, 12),
+      output: expect.closeTo(15e-5, 12),
+      total: expect.closeTo(20e-5, 12),
+    });
+    expect(registry.calculateCost("legacy-model", { total: 10 })).toEqual({
+      total: expect.closeTo(1e-5, 12),
+    });
+
+    registry.register({ modelName: "gpt-4o", prices: { input: 1e-6 } });
+    await registry.loadFromApi(apiClient, { fetchPageSize: 1 });
+
+    expect(registry.calculateCost("gpt-4o", { input: 10 })).toEqual({
+      input: expect.closeTo(1e-5, 12),
+      total: expect.closeTo(1e-5, 12),
+    });
+  });
+
+  describe("generations", () => {
+    let testEnv: TestEnvironment;
+
+    beforeEach(async () => {
+      testEnv = await setupTestEnvironment();
+      getModelPriceRegistry().register({
+        modelName: "gpt-4o",
+        prices: { input: 1e-6, output: 2e-6 },
+      });
+    });
+
+    afterEach(async () => {
+      setModelPriceRegistry(null);
+      await teardownTestEnvironment(testEnv);
+    });
+
+    it("should derive cost details from usage details", async () => {
+      startObservation("derived", { model: "gpt-4o" }, { asType: "generation" })
+        .update({ usageDetails: { input: 100, output: 50 } })
+        .end();
+      startObservation(
+        "explicit",
+        {
+          model: "gpt-4o",
+          usageDetails: { input: 100 },
+          costDetails: { total: 1 },
+        },
+        { asType: "generation" },
+      ).end();
+      startObservation(
+        "unknown-model",
+        { model: "unknown", usageDetails: { input: 100 } },
+        { asType: "generation" },
+      ).end();
+
+      await waitForSpanExport(testEnv.mockExporter, 3);
+
+      const costDetails = (name: string) =>
+        testEnv.mockExporter.getSpanByName(name)?.attributes[
+          ElasticDashOtelSpanAttributes.OBSERVATION_COST_DETAILS
+        ];
+
+      expect(JSON.parse(costDetails("derived") as string)).toEqual({
+        input: expect.closeTo(1e-4, 12),
+        output: expect.closeTo(1e-4, 12),
+        total: expect.closeTo(2e-4, 12),
+      });
+      expect(costDetails("explicit")).toBe(JSON.stringify({ total: 1 }));
+      expect(costDetails("unknown-model")).toBeUndefined();
+    });
+
+    it("should derive cost details with the prices at the observation start time", async () => {
+      getModelPriceRegistry().register({
+        modelName: "gpt-4o",
+        startDate: "2026-01-01T00:00:00Z",
+        prices: { input: 3e-6, output: 6e-6 },
+      });
+
+      startObservation(
+        "backfilled",
+        { model: "gpt-4o" },
+        { asType: "generation", startTime: new Date("2025-06-01") },
+      )
+        .update({ usageDetails: { input: 100 } })
+        .end();
+      await waitForSpanExport(testEnv.mockExporter, 1);
+
+      expect(
+        JSON.parse(
+          testEnv.mockExporter.getSpanByName("backfilled")?.attributes[
+            ElasticDashOtelSpanAttributes.OBSERVATION_COST_DETAILS
+          ] as string,
+        ),
+      ).toEqual({
+        input: expect.closeTo(1e-4, 12),
+        total: expect.closeTo(1e-4, 12),
+      });
+    });
+
+    it("should derive cost details for observeOpenAI generations with a dated response model", async () => {
+      class OpenAI {
+        public chat = {
+          completions: {
+            create: async (_params: Record<string, any>) => ({
+              model: "gpt-4o-2024-08-06",
+              choices: [{ message: { role: "assistant", content: "Hi!" } }],
+              usage: {
+                prompt_tokens: 100,
+                completion_tokens: 50,
+                total_tokens: 150,
+              },
+            }),
+          },
+        };
+      }
+
+      await observeOpenAI(new OpenAI(), {
+        generationName: "openai-generation",
+      }).chat.completions.create({ model: "gpt-4o", messages: [] });
+      await waitForSpanExport(testEnv.mockExporter, 1);
+
+      expect(
+        JSON.parse(
+          testEnv.mockExporter.getSpanByName("openai-generation")?.attributes[
+            ElasticDashOtelSpanAttributes.OBSERVATION_COST_DETAILS
+          ] as string,
+        ),
+      ).toEqual({
+        input: expect.closeTo(1e-4, 12),
+        output: expect.closeTo(1e-4, 12),
+        total: expect.closeTo(2e-4, 12),
+      });
+    });
+
+    it("should derive cost details for generations traced by the LangChain CallbackHandler", async () => {
+      const handler = new CallbackHandler();
+
+      await handler.handleLLMStart(
+        { lc: 1, type: "not_implemented", id: ["ChatOpenAI"] },
+        ["Hello"],
+        "run-1",
+        undefined,
+        { invocation_params: { model: "gpt-4o" } },
+        undefined,
+        undefined,
+        "langchain-generation",
+      );
+      await handler.handleLLMEnd(
+        {
+          generations: [[{ text: "Hi!" }]],
+          llmOutput: {
+            tokenUsage: {
+              promptTokens: 100,
+              completionTokens: 50,
+              totalTokens: 150,
+            },
+          },
+        },
+        "run-1",
+      );
+      await waitForSpanExport(testEnv.mockExporter, 1);
+
+      expect(
+        JSON.parse(
+          testEnv.mockExporter.getSpanByName("langchain-generation")
+            ?.attributes[
+            ElasticDashOtelSpanAttributes.OBSERVATION_COST_DETAILS
+          ] as string,
+        ),
+      ).toEqual({
+        input: expect.closeTo(1e-4, 12),
+        output: expect.closeTo(1e-4, 12),
+        total: expect.closeTo(2e-4, 12),
+      });
+    });
+  });
+});
@@ -0,0 +1,857 @@
+/**
+ * Tests for the OpenAI SDK integration.
+ *
+ * This test suite verifies that `observeOpenAI` traces each endpoint with the
+ * matching observation type: embeddings as embeddings with their input count
+ * and dimensions, moderations as guardrails with the flagged categories, and
+ * images, speech and transcriptions as generations with their media captured,
+ * and Assistants runs as agents with their run steps and tool calls.
+ * The OpenAI client is a fake with the shape of the SDK, so no API key is
+ * needed, and media uploads are served by a stubbed `fetch`.
+ */
+
+import { EventEmitter } from "node:events";
+
+import { ElasticDashOtelSpanAttributes as Attributes } from "@elasticdash/core";
+import { observeOpenAI } from "@elasticdash/openai";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+import {
+  setupTestEnvironment,
+  teardownTestEnvironment,
+  waitForSpanExport,
+  type TestEnvironment,
+} from "./helpers/testSetup.js";
+
+const PNG_BASE64 =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==";
+const AUDIO_BYTES = new Uint8Array([73, 68, 51, 4, 0, 0, 0, 0, 0, 1, 2, 3]);
+const MEDIA_TAG_PATTERN =
+  /^@@@elasticDashMedia:type=[^|]+\|id=[^|]+\|source=[^@]+@@@$/;
+
+const toolCallCompletion = {
+  model: "gpt-4o-2024-08-06",
+  choices: [
+    {
+      message: {
+        role: "assistant",
+        content: null,
+        tool_calls: [
+          {
+            id: "call_weather",
+            type: "function",
+            function: { name: "get_weather", arguments: '{"city":"Paris"}' },
+          },
+          {
+            id: "call_time",
+            type: "function",
+            function: { name: "get_time", arguments: '{"zone":"CET"}' },
+          },
+        ],
+      },
+      finish_reason: "tool_calls",
+    },
+  ],
+};
+
+const toolCallChunks = [
+  {
+    choices: [
+      {
+        delta: {
+          tool_calls: [
+            {
+              index: 0,
+              id: "call_stream",
+              type: "function",
+              function: { name: "search", arguments: '{"query":' },
+            },
+          ],
+        },
+      },
+    ],
+  },
+  {
+    choices: [
+      {
+        delta: {
+          tool_calls: [{ index: 0, function: { arguments: '"ElasticDash"}' } }],
+        },
+      },
+    ],
+  },
+];
+
+class Completions {
+  async create(params: Record<string, any> = {}): Promise<unknown> {
+    if (params.stream) {
+      return (async function* () {
+        yield* toolCallChunks;
+      })();
+    }
+
+    const messages: Record<string, any>[] = params.messages ?? [];
+    if (params.tools && messages[messages.length - 1]?.role !== "tool") {
+      return toolCallCompletion;
+    }
+
+    return {
+      model: "gpt-4o-2024-08-06",
+      choices: [{ message: { role: "assistant", content: "Hi!" } }],
+      usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 },
+    };
+  }
+}
+
+class Responses {
+  async create(params: Record<string, any>): Promise<unknown> {
+    if (typeof params.input === "string") {
+      return {
+        model: "gpt-4o-2024-08-06",
+        output_text: "",
+        output: [
+          {
+            type: "function_call",
+            id: "fc_1",
+            call_id: "call_lookup",
+            name: "lookup",
+            arguments: '{"id":42}',
+          },
+        ],
+      };
+    }
+
+    return { model: "gpt-4o-2024-08-06", output_text: "Found it." };
+  }
+}
+
+class Embeddings {
+  async create(_params?: Record<string, any>): Promise<unknown> {
+    return {
+      object: "list",
+      model: "text-embedding-3-small",
+      data: [
+        { object: "embedding", index: 0, embedding: [0.1, 0.2, 0.3] },
+        { object: "embedding", index: 1, embedding: [0.4, 0.5, 0.6] },
+      ],
+      usage: { prompt_tokens: 8, total_tokens: 8 },
+    };
+  }
+}
+
+class Images {
+  async generate(_params?: Record<string, any>): Promise<unknown> {
+    return {
+      created: 1700000000,
+      data: [
+        { b64_json: PNG_BASE64, revised_prompt: "A single red pixel" },
+        { url: "https://images.test/pixel.png" },
+      ],
+      usage: {
+        input_tokens: 10,
+        output_tokens: 272,
+        total_tokens: 282,
+        input_tokens_details: { text_tokens: 10, image_tokens: 0 },
+      },
+    };
+  }
+}
+
+class Speech {
+  async create(_params?: Record<string, any>): Promise<Response> {
+    return new Response(AUDIO_BYTES, {
+      headers: { "content-type": "audio/mpeg" },
+    });
+  }
+}
+
+class Transcriptions {
+  async create(_params?: Record<string, any>): Promise<unknown> {
+    return {
+      text: "Hello world",
+      usage: {
+        type: "tokens",
+        input_tokens: 14,
+        output_tokens: 3,
+        total_tokens: 17,
+      },
+    };
+  }
+}
+
+class Moderations {
+  async create(_params?: Record<string, any>): Promise<unknown> {
+    return {
+      id: "modr-1",
+      model: "omni-moderation-2024-09-26",
+      results: [
+        {
+          flagged: true,
+          categories: { harassment: true, violence: true, sexual: false },
+          category_scores: { harassment: 0.91, violence: 0.72, sexual: 0.01 },
+        },
+      ],
+    };
+  }
+}
+
+const now = () => Math.floor(Date.now() / 1000);
+
+const run = {
+  id: "run_1",
+  object: "thread.run",
+  thread_id: "thread_1",
+  assistant_id: "asst_1",
+  model: "gpt-4o",
+};
+
+class Steps {
+  public runSteps: Record<string, any>[] = [];
+
+  async *list(
+    runId: string,
+    params: Record<string, any>,
+  ): AsyncGenerator<Record<string, any>> {
+    expect(runId).toBe("run_1");
+    expect(params).toEqual({ thread_id: "thread_1", order: "asc" });
+
+    yield* this.runSteps;
+  }
+}
+
+class FakeAssistantStream extends EventEmitter {
+  public errored = false;
+  public aborted = false;
+
+  constructor(events: { event: string; data: unknown }[], failed = false) {
+    super();
+    setTimeout(() => {
+      events.forEach((event) => this.emit("event", event));
+      this.errored = failed;
+      this.emit("end");
+    }, 0);
+  }
+
+  finalRun(): Promise<unknown> {
+    return new Promise((resolve) => this.once("end", resolve));
+  }
+}
+
+class Runs {
+  public steps = new Steps();
+
+  async createAndPoll(
+    _threadId: string,
+    _params: Record<string, any>,
+  ): Promise<unknown> {
+    const createdAt = now();
+    this.steps.runSteps = [
+      {
+        id: "step_1",
+        type: "tool_calls",
+        status: "in_progress",
+        created_at: createdAt,
+        completed_at: null,
+        step_details: {
+          type: "tool_calls",
+          tool_calls: [
+            {
+              id: "call_1",
+              type: "function",
+              function: {
+                name: "get_weather",
+                arguments: '{"city":"Paris"}',
+                output: null,
+              },
+            },
+          ],
+        },
+        usage: null,
+      },
+    ];
+
+    return {
+      ...run,
+      status: "requires_action",
+      required_action: {
+        type: "submit_tool_outputs",
+        submit_tool_outputs: { tool_calls: [{ id: "call_1" }] },
+      },
+    };
+  }
+
+  async submitToolOutputsAndPoll(
+    _runId: string,
+    _params: Record<string, any>,
+  ): Promise<unknown> {
+    const [toolCallStep] = this.steps.runSteps;
+    this.steps.runSteps = [
+      {
+        ...toolCallStep,
+        status: "completed",
+        completed_at: now(),
+        step_details: {
+          type: "tool_calls",
+          tool_calls: [
+            {
+              ...toolCallStep.step_details.tool_calls[0],
+              function: {
+                ...toolCallStep.step_details.tool_calls[0].function,
+                output: "22°C",
+              },
+            },
+            {
+              id: "call_2",
+              type: "code_interpreter",
+              code_interpreter: {
+                input: "22 * 9 / 5 + 32",
+                outputs: [{ type: "logs", logs: "71.6" }],
+              },
+            },
+          ],
+        },
+        usage: { prompt_tokens: 100, completion_tokens: 20, total_tokens: 120 },
+      },
+      {
+        id: "step_2",
+        type: "message_creation",
+        status: "completed",
+        created_at: now(),
+        completed_at: now(),
+        step_details: {
+          type: "message_creation",
+          message_creation: { message_id: "msg_1" },
+        },
+        usage: { prompt_tokens: 150, completion_tokens: 30, total_tokens: 180 },
+      },
+    ];
+
+    return { ...run, status: "completed" };
+  }
+
+  stream(_threadId: string, params: Record<string, any>): FakeAssistantStream {
+    if (params.failed) {
+      return new FakeAssistantStream([], true);
+    }
+
+    const step = {
+      id: "step_3",
+      type: "message_creation",
+      status: "in_progress",
+      created_at: now(),
+      completed_at: null,
+      step_details: {
+        type: "message_creation",
+        message_creation: { message_id: "msg_2" },
+      },
+      usage: null,
+    };
+
+    return new FakeAssistantStream([
+      { event: "thread.run.created", data: { ...run, status: "queued" } },
+      { event: "thread.run.step.created", data: step },
+      { event: "thread.run.step.delta", data: { id: "step_3", delta: {} } },
+      {
+        event: "thread.run.step.completed",
+        data: {
+          ...step,
+          status: "completed",
+          completed_at: now(),
+          usage: { prompt_tokens: 50, completion_tokens: 5, total_tokens: 55 },
+        },
+      },
+      {
+        event: "thread.run.failed",
+        data: {
+          ...run,
+          status: "failed",
+          last_error: { code: "rate_limit_exceeded", message: "Rate limit" },
+        },
+      },
+    ]);
+  }
+}
+
+class OpenAI {
+  public beta = { threads: { runs: new Runs() } };
+  public chat = { completions: new Completions() };
+  public responses = new Responses();
+  public embeddings = new Embeddings();
+  public images = new Images();
+  public audio = {
+    speech: new Speech(),
+    transcriptions: new Transcriptions(),
+  };
+  public moderations = new Moderations();
+}
+
+describe("OpenAI Integration", () => {
+  let testEnv: TestEnvironment;
+
+  beforeEach(async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (_url: string | URL, init?: RequestInit) => {
+        if (init?.method === "POST") {
+          const { sha256Hash } = JSON.parse(String(init.body));
+          const mediaId = sha256Hash
+            .replaceAll("+", "-")
+            .replaceAll("/", "_")
+            .slice(0, 22);
+
+          return Response.json({
+            mediaId,
+            uploadUrl: `https://storage.test/${mediaId}`,
+          });
+        }
+
+        return new Response(null, { status: 200 });
+      }),
+    );
+    testEnv = await setupTestEnvironment();
+  });
+
+  afterEach(async () => {
+    await teardownTestEnvironment(testEnv);
+    vi.unstubAllGlobals();
+  });
+
+  function getObservation(name: string) {
+    const span = testEnv.mockExporter.getSpanByName(name);
+    expect(span).toBeDefined();
+
+    const attribute = (key: string) => span!.attributes[key];
+    const parse = (key: string) => JSON.parse(attribute(key) as string);
+
+    return { attribute, parse };
+  }
+
+  it("should trace chat completions as generations", async () => {
+    const openai = observeOpenAI(new OpenAI());
+
+    await openai.chat.completions.create();
+    await waitForSpanExport(testEnv.mockExporter, 1);
+
+    const generation = getObservation("OpenAI.chat");
+    expect(generation.attribute(Attributes.OBSERVATION_TYPE)).toBe(
+      "generation",
+    );
+    expect(generation.parse(Attributes.OBSERVATION_OUTPUT)).toEqual({
+      role: "assistant",
+      content: "Hi!",
+    });
+  });
+
+  it("should trace embeddings with input count and dimensions", async () => {
+    const openai = observeOpenAI(new OpenAI(), { userId: "user-1" });
+
+    await openai.embeddings.create({
+      model: "text-embedding-3-small",
+      input: ["first document", "second document"],
+      encoding_format: "float",
+    });
+    await waitForSpanExport(testEnv.mockExporter, 1);
+
+    const embedding = getObservation("OpenAI.embeddings");
+    expect(embedding.attribute(Attributes.OBSERVATION_TYPE)).toBe("embedding");
+    expect(embedding.attribute(Attributes.OBSERVATION_MODEL)).toBe(
+      "text-embedding-3-small",
+    );
+    expect(embedding.parse(Attributes.OBSERVATION_MODEL_PARAMETERS)).toEqual({
+      encoding_format: "float",
+    });
+    expect(embedding.parse(Attributes.OBSERVATION_OUTPUT)).toEqual({
+      count: 2,
+      dimensions: 3,
+    });
+    expect(embedding.parse(Attributes.OBSERVATION_USAGE_DETAILS)).toEqual({
+      input: 8,
+      total: 8,
+    });
+    expect(
+      embedding.attribute(`${Attributes.OBSERVATION_METADATA}.input_count`),
+    ).toBe("2");
+    expect(embedding.attribute(Attributes.TRACE_USER_ID)).toBe("user-1");
+  });
+
+  it("should trace image generation with the generated images as media", async () => {
+    const openai = observeOpenAI(new OpenAI());
+
+    await openai.images.generate({
+      model: "gpt-image-1",
+      prompt: "A red pixel",
+      n: 2,
+      size: "1024x1024",
+    });
+    await waitForSpanExport(testEnv.mockExporter, 1);
+
+    const generation = getObservation("OpenAI.images");
+    expect(generation.attribute(Attributes.OBSERVATION_TYPE)).toBe(
+      "generation",
+    );
+    expect(generation.attribute(Attributes.OBSERVATION_INPUT)).toBe(
+      "A red pixel",
+    );
+    expect(generation.parse(Attributes.OBSERVATION_MODEL_PARAMETERS)).toEqual({
+      n: 2,
+      size: "1024x1024",
+    });
+
+    const [image, url] = generation.parse(Attributes.OBSERVATION_OUTPUT);
+    expect(image.image).toMatch(MEDIA_TAG_PATTERN);
+    expect(image.image).toContain("type=image/png");
+    expect(image.revised_prompt).toBe("A single red pixel");
+    expect(url).toEqual({ url: "https://images.test/pixel.png" });
+    expect(generation.parse(Attributes.OBSERVATION_USAGE_DETAILS)).toEqual({
+      input: 0,
+      input_text_tokens: 10,
+      input_image_tokens: 0,
+      output: 272,
+      total: 282,
+    });
+  });
+
+  it("should trace speech and transcriptions with their audio as media", async () => {
+    const openai = observeOpenAI(new OpenAI());
+
+    const speech = await openai.audio.speech.create({
+      model: "gpt-4o-mini-tts",
+      voice: "alloy",
+      input: "Hello world",
+    });
+    expect(new Uint8Array(await speech.arrayBuffer())).toEqual(AUDIO_BYTES);
+
+    const transcription = await openai.audio.transcriptions.create({
+      model: "gpt-4o-transcribe",
+      file: new File([AUDIO_BYTES], "hello.wav", { type: "audio/wav" }),
+    });
+    expect(transcription).toEqual(
+      expect.objectContaining({ text: "Hello world" }),
+    );
+    await waitForSpanExport(testEnv.mockExporter, 2);
+
+    const [speechSpan, transcriptionSpan] = [
+      "gpt-4o-mini-tts",
+      "gpt-4o-transcribe",
+    ].map(
+      (model) =>
+        testEnv.mockExporter.exportedSpans.find(
+          (span) => span.attributes[Attributes.OBSERVATION_MODEL] === model,
+        )!.attributes,
+    );
+    const speechOutput = speechSpan[Attributes.OBSERVATION_OUTPUT] as string;
+    expect(speechOutput).toMatch(MEDIA_TAG_PATTERN);
+    expect(speechOutput).toContain("type=audio/mpeg");
+    expect(speechSpan[Attributes.OBSERVATION_INPUT]).toBe("Hello world");
+    expect(
+      JSON.parse(speechSpan[Attributes.OBSERVATION_MODEL_PARAMETERS] as string),
+    ).toEqual({ voice: "alloy" });
+
+    const transcriptionInput = JSON.parse(
+      transcriptionSpan[Attributes.OBSERVATION_INPUT] as string,
+    );
+    expect(transcriptionInput.file).toMatch(MEDIA_TAG_PATTERN);
+    expect(transcriptionInput.file).toContain("type=audio/wav");
+    expect(transcriptionSpan[Attributes.OBSERVATION_OUTPUT]).toBe(
+      "Hello world",
+    );
+    expect(
+      JSON.parse(
+        transcriptionSpan[Attributes.OBSERVATION_USAGE_DETAILS] as string,
+      ),
+    ).toEqual({ input: 14, output: 3, total: 17 });
+  });
+
+  it("should trace moderations as guardrails with flagged categories", async () => {
+    const openai = observeOpenAI(new OpenAI());
+
+    await openai.moderations.create({
+      model: "omni-moderation-latest",
+      input: "Some user input",
+    });
+    await waitForSpanExport(testEnv.mockExporter, 1);
+
+    const guardrail = getObservation("OpenAI.moderations");
+    expect(guardrail.attribute(Attributes.OBSERVATION_TYPE)).toBe("guardrail");
+    expect(guardrail.attribute(Attributes.OBSERVATION_INPUT)).toBe(
+      "Some user input",
+    );
+    expect(guardrail.parse(Attributes.OBSERVATION_OUTPUT)).toEqual({
+      flagged: true,
+      categories: ["harassment", "violence"],
+    });
+    expect(guardrail.attribute(Attributes.OBSERVATION_LEVEL)).toBe("WARNING");
+    expect(guardrail.attribute(Attributes.OBSERVATION_STATUS_MESSAGE)).toBe(
+      "Flagged: harassment, violence",
+    );
+    expect(
+      guardrail.attribute(`${Attributes.OBSERVATION_METADATA}.model`),
+    ).toBe("omni-moderation-2024-09-26");
+    expect(guardrail.attribute(Attributes.OBSERVATION_MODEL)).toBeUndefined();
+  });
+
+  it("should trace runs as agents with run steps and tool calls", async () => {
+    const openai = observeOpenAI(new OpenAI(), { sessionId: "session-1" });
+
+    const pendingRun = await openai.beta.threads.runs.createAndPoll(
+      "thread_1",
+      { assistant_id: "asst_1" },
+    );
+    await openai.beta.threads.runs.submitToolOutputsAndPoll(pendingRun.id, {
+      thread_id: "thread_1",
+      tool_outputs: [{ tool_call_id: "call_1", output: "22°C" }],
+    });
+    await waitForSpanExport(testEnv.mockExporter, 6);
+
+    const spans = testEnv.mockExporter.exportedSpans;
+    const [pendingAgent, agent] = [
+      "OpenAI.beta.threads.runs.createAndPoll",
+      "OpenAI.beta.threads.runs.submitToolOutputsAndPoll",
+    ].map((name) => spans.find((span) => span.name === name)!);
+    const childrenOf = (parent: (typeof spans)[number]) =>
+      spans.filter(
+        (span) =>
+          span.parentSpanContext?.spanId === parent.spanContext().spanId,
+      );
+
+    // Tool call steps awaiting their outputs are traced with the submission
+    expect(pendingAgent.attributes[Attributes.OBSERVATION_TYPE]).toBe("agent");
+    expect(
+      JSON.parse(
+        pendingAgent.attributes[Attributes.OBSERVATION_INPUT] as string,
+      ),
+    ).toEqual({ thread_id: "thread_1", assistant_id: "asst_1" });
+    expect(
+      JSON.parse(
+        pendingAgent.attributes[Attributes.OBSERVATION_OUTPUT] as string,
+      ).status,
+    ).toBe("requires_action");
+    expect(childrenOf(pendingAgent)).toHaveLength(0);
+
+    const children = childrenOf(agent);
+    expect(
+      children.map((span) => [
+        span.name,
+        span.attributes[Attributes.OBSERVATION_TYPE],
+      ]),
+    ).toEqual([
+      ["tool_calls", "generation"],
+      ["get_weather", "tool"],
+      ["code_interpreter", "tool"],
+      ["message_creation", "generation"],
+    ]);
+
+    const [toolCallStep, weatherTool, codeTool, messageStep] = children.map(
+      (span) => span.attributes,
+    );
+    expect(toolCallStep[Attributes.OBSERVATION_MODEL]).toBe("gpt-4o");
+    expect(
+      JSON.parse(toolCallStep[Attributes.OBSERVATION_USAGE_DETAILS] as string),
+    ).toEqual({ input: 100, output: 20, total: 120 });
+    expect(
+      JSON.parse(weatherTool[Attributes.OBSERVATION_INPUT] as string),
+    ).toEqual({ city: "Paris" });
+    expect(weatherTool[Attributes.OBSERVATION_OUTPUT]).toBe("22°C");
+    expect(codeTool[Attributes.OBSERVATION_INPUT]).toBe("22 * 9 / 5 + 32");
+    expect(
+      JSON.parse(messageStep[Attributes.OBSERVATION_OUTPUT] as string),
+    ).toEqual({
+      type: "message_creation",
+      message_creation: { message_id: "msg_1" },
+    });
+
+    expect(
+      JSON.parse(agent.attributes[Attributes.OBSERVATION_OUTPUT] as string),
+    ).toEqual({ status: "completed" });
+    expect(
+      JSON.parse(
+        agent.attributes[`${Attributes.OBSERVATION_METADATA}.usage`] as string,
+      ),
+    ).toEqual({ input: 250, output: 50, total: 300 });
+    expect(agent.attributes[`${Attributes.OBSERVATION_METADATA}.run_id`]).toBe(
+      "run_1",
+    );
+    expect(agent.attributes[Attributes.TRACE_SESSION_ID]).toBe("session-1");
+  });
+
+  it("should trace streamed runs from their events", async () => {
+    const openai = observeOpenAI(new OpenAI());
+
+    const stream = openai.beta.threads.runs.stream("thread_1", {
+      assistant_id: "asst_1",
+    });
+    expect(stream).toBeInstanceOf(FakeAssistantStream);
+    await stream.finalRun();
+    await waitForSpanExport(testEnv.mockExporter, 2);
+
+    const agent = getObservation("OpenAI.beta.threads.runs.stream");
+    expect(agent.attribute(Attributes.OBSERVATION_LEVEL)).toBe("ERROR");
+    expect(agent.attribute(Attributes.OBSERVATION_STATUS_MESSAGE)).toBe(
+      "Rate limit",
+    );
+    expect(agent.parse(`${Attributes.OBSERVATION_METADATA}.usage`)).toEqual({
+      input: 50,
+      output: 5,
+      total: 55,
+    });
+
+    const step = getObservation("message_creation");
+    expect(step.parse(Attributes.OBSERVATION_USAGE_DETAILS)).toEqual({
+      input: 50,
+      output: 5,
+      total: 55,
+    });
+  });
+
+  it("should record failed run streams without listening to their errors", async () => {
+    const openai = observeOpenAI(new OpenAI());
+
+    const stream = openai.beta.threads.runs.stream("thread_1", {
+      assistant_id: "asst_1",
+      failed: true,
+    });
+    await waitForSpanExport(testEnv.mockExporter, 1);
+
+    // The SDK only raises unhandled errors if nobody listens to them
+    expect(stream.listenerCount("error")).toBe(0);
+    expect(stream.listenerCount("abort")).toBe(0);
+
+    const agent = getObservation("OpenAI.beta.threads.runs.stream");
+    expect(agent.attribute(Attributes.OBSERVATION_LEVEL)).toBe("ERROR");
+    expect(agent.attribute(Attributes.OBSERVATION_STATUS_MESSAGE)).toBe(
+      "Stream errored",
+    );
+  });
+
+  it("should trace tool calls with the results of the follow-up request", async () => {
+    const openai = observeOpenAI(new OpenAI(), { traceToolCalls: true });
+    const messages = [{ role: "user", content: "Weather and time in Paris?" }];
+    const tools = [{ type: "function", function: { name: "get_weather" } }];
+
+    const completion = (await openai.chat.completions.create({
+      messages,
+      tools,
+    })) as typeof toolCallCompletion;
+    await openai.chat.completions.create({
+      messages: [
+        ...messages,
+        completion.choices[0].message,
+        { role: "tool", tool_call_id: "call_weather", content: "22°C" },
+        { role: "tool", tool_call_id: "call_time", content: "14:00" },
+      ],
+      tools,
+    });
+    await waitForSpanExport(testEnv.mockExporter, 4);
+
+    const generation = testEnv.mockExporter.exportedSpans.find(
+      (span) => span.attributes[Attributes.OBSERVATION_TYPE] === "generation",
+    )!;
+    const weatherTool = testEnv.mockExporter.getSpanByName("get_weather")!;
+    const timeTool = testEnv.mockExporter.getSpanByName("get_time")!;
+
+    expect(weatherTool.parentSpanContext?.spanId).toBe(
+      generation.spanContext().spanId,
+    );
+    expect(weatherTool.attributes[Attributes.OBSERVATION_TYPE]).toBe("tool");
+    expect(
+      JSON.parse(
+        weatherTool.attributes[Attributes.OBSERVATION_INPUT] as string,
+      ),
+    ).toEqual({ city: "Paris" });
+    expect(weatherTool.attributes[Attributes.OBSERVATION_OUTPUT]).toBe("22°C");
+    expect(
+      weatherTool.attributes[`${Attributes.OBSERVATION_METADATA}.tool_call_id`],
+    ).toBe("call_weather");
+    expect(timeTool.attributes[Attributes.OBSERVATION_OUTPUT]).toBe("14:00");
+  });
+
+  it("should trace streamed and Responses API tool calls", async () => {
+    const openai = observeOpenAI(new OpenAI(), { traceToolCalls: true });
+
+    const stream = (await openai.chat.completions.create({
+      stream: true,
+    })) as AsyncIterable<unknown>;
+    for await (const _chunk of stream) {
+      // consume the stream
+    }
+    await openai.responses.create({ input: "Look up item 42" });
+
+    await openai.chat.completions.create({
+      messages: [
+        { role: "tool", tool_call_id: "call_stream", content: "3 results" },
+      ],
+    });
+    await openai.responses.create({
+      input: [
+        { type: "function_call_output", call_id: "call_lookup", output: "ok" },
+      ],
+    });
+    await waitForSpanExport(testEnv.mockExporter, 6);
+
+    const searchTool = getObservation("search");
+    expect(searchTool.parse(Attributes.OBSERVATION_INPUT)).toEqual({
+      query: "ElasticDash",
+    });
+    expect(searchTool.attribute(Attributes.OBSERVATION_OUTPUT)).toBe(
+      "3 results",
+    );
+
+    const lookupTool = getObservation("lookup");
+    expect(lookupTool.parse(Attributes.OBSERVATION_INPUT)).toEqual({ id: 42 });
+    expect(lookupTool.attribute(Attributes.OBSERVATION_OUTPUT)).toBe("ok");
+  });
+
+  it("should not leave tool observations open until the tool result", async () => {
+    const openai = observeOpenAI(new OpenAI(), { traceToolCalls: true });
+
+    await openai.chat.completions.create({
+      messages: [{ role: "user", content: "Weather in Paris?" }],
+      tools: [{ type: "function", function: { name: "get_weather" } }],
+    });
+    await waitForSpanExport(testEnv.mockExporter, 1);
+
+    expect(testEnv.mockExporter.getSpanCount()).toBe(1);
+    const generation = testEnv.mockExporter.exportedSpans[0];
+
+    const toolResult = {
+      messages: [
+        { role: "tool", tool_call_id: "call_weather", content: "22°C" },
+      ],
+    };
+    await openai.chat.completions.create(toolResult);
+    await openai.chat.completions.create(toolResult);
+    await waitForSpanExport(testEnv.mockExporter, 4);
+
+    const weatherTools = testEnv.mockExporter.exportedSpans.filter(
+      (span) => span.name === "get_weather",
+    );
+    expect(weatherTools).toHaveLength(1);
+    expect(weatherTools[0].parentSpanContext?.spanId).toBe(
+      generation.spanContext().spanId,
+    );
+    const toMilliseconds = ([seconds, nanos]: [number, number]) =>
+      seconds * 1000 + nanos / 1e6;
+    expect(
+      Math.abs(
+        toMilliseconds(weatherTools[0].startTime) -
+          toMilliseconds(generation.endTime),
+      ),
+    ).toBeLessThan(1);
+    expect(weatherTools[0].attributes[Attributes.OBSERVATION_OUTPUT]).toBe(
+      "22°C",
+    );
+  });
+
+  it("should not trace tool calls by default", async () => {
+    const openai = observeOpenAI(new OpenAI());
+
+    await openai.chat.completions.create({
+      messages: [{ role: "user", content: "Weather in Paris?" }],
+      tools: [{ type: "function", function: { name: "get_weather" } }],
+    });
+    await waitForSpanExport(testEnv.mockExporter, 1);
+
+    expect(testEnv.mockExporter.getSpanCount()).toBe(1);
+    expect(testEnv.mockExporter.getSpanByName("get_weather")).toBeUndefined();
+  });
+});
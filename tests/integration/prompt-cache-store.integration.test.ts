@@ -0,0 +1,251 @@
+/**
+ * Tests for persistent prompt cache stores.
+ *
+ * This test suite verifies that prompts are shared between prompt managers
+ * through the file system and Redis-like stores, that expired entries are
+ * served while refreshing, and that invalidation reaches the store.
+ */
+
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import {
+  FilePromptCacheStore,
+  PromptManager,
+  RedisPromptCacheStore,
+  type PromptCacheStore,
+  type RedisLikeClient,
+} from "@elasticdash/client";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+function createApiClient(version = 1) {
+  let currentVersion = version;
+  const get = vi.fn(async (name: string) => ({
+    name,
+    version: currentVersion,
+    type: "text",
+    prompt: `Hello {{name}} from v${currentVersion}`,
+    config: {},
+    labels: ["production"],
+    tags: [],
+  }));
+
+  return {
+    apiClient: {
+      prompts: { get },
+      promptVersion: { update: vi.fn(async () => ({})) },
+    } as any,
+    get,
+    setVersion: (newVersion: number) => {
+      currentVersion = newVersion;
+    },
+  };
+}
+
+function createRedisLikeClient(): RedisLikeClient & {
+  data: Map<string, string>;
+} {
+  const data = new Map<string, string>();
+
+  return {
+    data,
+    get: async (key) => data.get(key) ?? null,
+    set: async (key, value) => data.set(key, value),
+    del: async (key) => data.delete(key),
+    // Returns one key per page to exercise cursor iteration
+    scan: vi.fn(async (cursor: string, _match, pattern: string) => {
+      const prefix = pattern.replace(/\\(.)/g, "$1").slice(0, -1);
+      const keys = [...data.keys()].filter((key) => key.startsWith(prefix));
+      const index = Number(cursor);
+      const nextCursor = index + 1 < keys.length ? String(index + 1) : "0";
+
+      return [nextCursor, keys.slice(index, index + 1)] as [string, string[]];
+    }),
+    expire: vi.fn(async () => 1),
+  };
+}
+
+describe("Prompt Cache Stores", () => {
+  describe("FilePromptCacheStore", () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), "elasticdash-prompt-cache-"));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it("should share cached prompts between prompt managers", async () => {
+      const store = new FilePromptCacheStore({ directory });
+      const first = createApiClient();
+      const second = createApiClient();
+
+      const prompt = await new PromptManager({
+        apiClient: first.apiClient,
+        cacheStore: store,
+      }).get("greeting");
+      const cachedPrompt = await new PromptManager({
+        apiClient: second.apiClient,
+        cacheStore: new FilePromptCacheStore({ directory }),
+      }).get("greeting");
+
+      expect(first.get).toHaveBeenCalledTimes(1);
+      expect(second.get).not.toHaveBeenCalled();
+      expect(cachedPrompt.compile({ name: "Ada" })).toBe(
+        prompt.compile({ name: "Ada" }),
+      );
+      expect(await store.keys()).toEqual(["greeting-label:production"]);
+      expect(await readdir(directory)).toEqual([
+        "greeting-label%3Aproduction.json",
+      ]);
+    });
+
+    it("should return null and no keys for an empty directory", async () => {
+      const store = new FilePromptCacheStore({
+        directory: join(directory, "missing"),
+      });
+
+      expect(await store.get("greeting-label:production")).toBeNull();
+      expect(await store.keys()).toEqual([]);
+    });
+  });
+
+  describe("RedisPromptCacheStore", () => {
+    it("should store prompts under the key prefix with retention", async () => {
+      const client = createRedisLikeClient();
+      const store = new RedisPromptCacheStore({
+        client,
+        keyPrefix: "test:",
+        retentionSeconds: 3600,
+      });
+      const { apiClient } = createApiClient();
+
+      const promptManager = new PromptManager({ apiClient, cacheStore: store });
+      await promptManager.get("greeting", { version: 1 });
+
+      expect([...client.data.keys()]).toEqual(["test:greeting-version:1"]);
+      expect(client.expire).toHaveBeenCalledWith(
+        "test:greeting-version:1",
+        3600,
+      );
+      expect(await store.get("greeting-version:1")).toMatchObject({
+        prompt: { name: "greeting", version: 1 },
+        expiresAt: expect.any(Number),
+      });
+      expect(await store.keys()).toEqual(["greeting-version:1"]);
+    });
+
+    it("should serve expired store entries while refreshing in the background", async () => {
+      const client = createRedisLikeClient();
+      const store = new RedisPromptCacheStore({ client });
+      const worker = createApiClient(1);
+      await store.set("greeting-label:production", {
+        prompt: (await worker.apiClient.prompts.get("greeting")) as any,
+        expiresAt: Date.now() - 1000,
+      });
+      worker.get.mockClear();
+      worker.setVersion(2);
+
+      const promptManager = new PromptManager({
+        apiClient: worker.apiClient,
+        cacheStore: store,
+      });
+
+      const stalePrompt = await promptManager.get("greeting");
+      expect(stalePrompt.version).toBe(1);
+      expect(worker.get).toHaveBeenCalledTimes(1);
+
+      await vi.waitFor(async () => {
+        expect(
+          (await store.get("greeting-label:production"))?.prompt.version,
+        ).toBe(2);
+      });
+      expect((await promptManager.get("greeting")).version).toBe(2);
+      expect(worker.get).toHaveBeenCalledTimes(1);
+    });
+
+    it("should invalidate all store keys of a prompt on update", async () => {
+      const client = createRedisLikeClient();
+      const store = new RedisPromptCacheStore({ client });
+      const { apiClient } = createApiClient();
+      const promptManager = new PromptManager({ apiClient, cacheStore: store });
+
+      await promptManager.get("greeting");
+      await promptManager.get("greeting", { version: 1 });
+      await promptManager.get("farewell");
+
+      await promptManager.update({
+        name: "greeting",
+        version: 1,
+        newLabels: ["staging"],
+      });
+
+      expect(await store.keys()).toEqual(["farewell-label:production"]);
+    });
+
+    it("should list keys with SCAN instead of KEYS", async () => {
+      const client = createRedisLikeClient();
+      const store = new RedisPromptCacheStore({ client, keyPrefix: "test:" });
+      client.data.set("other:greeting-label:production", "{}");
+      await store.set("greeting-label:production", {} as any);
+      await store.set("farewell-label:production", {} as any);
+
+      expect((await store.keys()).sort()).toEqual([
+        "farewell-label:production",
+        "greeting-label:production",
+      ]);
+      expect(client.scan).toHaveBeenCalledTimes(2);
+      expect(client.scan).toHaveBeenCalledWith(
+        "0",
+        "MATCH",
+        "test:*",
+        "COUNT",
+        100,
+      );
+
+      const iteratingStore = new RedisPromptCacheStore({
+        client: {
+          ...client,
+          scanIterator: async function* ({ MATCH }) {
+            expect(MATCH).toBe("test:*");
+            yield ["test:greeting-label:production"];
+            yield "test:farewell-label:production";
+            yield "test:greeting-label:production";
+          },
+        },
+        keyPrefix: "test:",
+      });
+
+      expect(await iteratingStore.keys()).toEqual([
+        "greeting-label:production",
+        "farewell-label:production",
+      ]);
+      expect(client.scan).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  it("should fall back to the API when the store fails", async () => {
+    const failingStore: PromptCacheStore = {
+      get: async () => {
+        throw new Error("store unavailable");
+      },
+      set: async () => {
+        throw new Error("store unavailable");
+      },
+      delete: async () => {},
+      keys: async () => [],
+    };
+    const { apiClient, get } = createApiClient();
+    const promptManager = new PromptManager({
+      apiClient,
+      cacheStore: failingStore,
+    });
+
+    expect((await promptManager.get("greeting")).version).toBe(1);
+    expect((await promptManager.get("greeting")).version).toBe(1);
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+});
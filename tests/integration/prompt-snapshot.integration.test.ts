@@ -0,0 +1,146 @@
+/**
+ * Tests for prompt prefetching and offline snapshots.
+ *
+ * This test suite verifies cache warming with prefetch, snapshot export of
+ * labelled prompts, and the snapshot fallback of PromptManager.get.
+ */
+
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { PromptManager, type PromptSnapshot } from "@elasticdash/client";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+const prompts = [
+  {
+    name: "greeting",
+    version: 2,
+    type: "text",
+    prompt: "Hello {{name}}",
+    config: {},
+    labels: ["production"],
+    tags: [],
+  },
+  {
+    name: "assistant",
+    version: 5,
+    type: "chat",
+    prompt: [{ role: "system", content: "You help {{name}}" }],
+    config: {},
+    labels: ["production", "latest"],
+    tags: [],
+  },
+];
+
+function createApiClient(options?: { failing?: boolean }) {
+  const get = vi.fn(async (name: string) => {
+    const prompt = prompts.find((p) => p.name === name);
+    if (!prompt || options?.failing) throw new Error(`Cannot fetch ${name}`);
+
+    return prompt;
+  });
+  const list = vi.fn(async ({ page }: { page: number }) => ({
+    data: [prompts[page - 1]],
+    meta: { page, limit: 1, totalItems: 2, totalPages: 2 },
+  }));
+
+  return { apiClient: { prompts: { get, list } } as any, get, list };
+}
+
+const snapshot: PromptSnapshot = {
+  createdAt: "2026-01-01T00:00:00.000Z",
+  label: "production",
+  prompts: prompts as PromptSnapshot["prompts"],
+};
+
+describe("Prompt Prefetch and Snapshots", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "elasticdash-prompt-snapshot-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should warm the cache and skip prompts that cannot be fetched", async () => {
+    const { apiClient, get } = createApiClient();
+    const promptManager = new PromptManager({ apiClient });
+
+    const prefetched = await promptManager.prefetch([
+      "greeting",
+      { name: "assistant", label: "latest" },
+      "missing",
+    ]);
+
+    expect(prefetched.map((p) => p.name)).toEqual(["greeting", "assistant"]);
+    expect(get).toHaveBeenCalledTimes(3);
+
+    await promptManager.get("greeting");
+    await promptManager.get("assistant", { label: "latest" });
+    expect(get).toHaveBeenCalledTimes(3);
+  });
+
+  it("should export labelled prompts to a snapshot file", async () => {
+    const { apiClient, get, list } = createApiClient();
+    const filePath = join(directory, "prompts.snapshot.json");
+
+    const exported = await new PromptManager({ apiClient }).exportSnapshot({
+      filePath,
+      fetchPageSize: 1,
+    });
+
+    expect(list).toHaveBeenCalledTimes(2);
+    expect(list).toHaveBeenCalledWith({
+      label: "production",
+      limit: 1,
+      page: 2,
+    });
+    expect(get).toHaveBeenCalledWith("assistant", { label: "production" });
+    expect(exported.label).toBe("production");
+    expect(exported.prompts).toEqual(prompts);
+    expect(JSON.parse(await readFile(filePath, "utf8"))).toEqual(exported);
+  });
+
+  it("should fall back to the snapshot before the fallback option", async () => {
+    const { apiClient } = createApiClient({ failing: true });
+    const promptManager = new PromptManager({ apiClient, snapshot });
+
+    const textPrompt = await promptManager.get("greeting", {
+      fallback: "Hardcoded",
+    });
+    const chatPrompt = await promptManager.get("assistant", {
+      version: 5,
+      type: "chat",
+    });
+    const fallbackPrompt = await promptManager.get("greeting", {
+      label: "staging",
+      fallback: "Hardcoded",
+    });
+
+    expect(textPrompt).toMatchObject({ version: 2, isFallback: false });
+    expect(textPrompt.compile({ name: "Ada" })).toBe("Hello Ada");
+    expect(chatPrompt.compile({ name: "Ada" })).toEqual([
+      { role: "system", content: "You help Ada" },
+    ]);
+    expect(fallbackPrompt).toMatchObject({ isFallback: true });
+    await expect(promptManager.get("missing")).rejects.toThrow(
+      "Cannot fetch missing",
+    );
+  });
+
+  it("should load the snapshot from a file path", async () => {
+    const filePath = join(directory, "prompts.snapshot.json");
+    await writeFile(filePath, JSON.stringify(snapshot), "utf8");
+    const { apiClient } = createApiClient({ failing: true });
+
+    const prompt = await new PromptManager({
+      apiClient,
+      snapshot: filePath,
+    }).get("greeting");
+
+    expect(prompt.version).toBe(2);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Tests for push-based prompt cache invalidation.
+ *
+ * This test suite verifies polling for label changes, webhook change sources,
+ * cache invalidation and onPromptChanged events.
+ */
+
+import {
+  PromptManager,
+  PromptWebhookChangeSource,
+  type PromptSubscription,
+} from "@elasticdash/client";
+import { describe, it, expect, afterEach, vi } from "vitest";
+
+function createApiClient() {
+  const productionVersions = new Map<string, number>([["greeting", 1]]);
+
+  const get = vi.fn(async (name: string) => ({
+    name,
+    version: productionVersions.get(name) ?? 1,
+    type: "text",
+    prompt: `Hello from v${productionVersions.get(name) ?? 1}`,
+    config: {},
+    labels: ["production"],
+    tags: [],
+  }));
+  const list = vi.fn(async () => ({
+    data: [...productionVersions.entries()].map(([name, version]) => ({
+      name,
+      type: "text",
+      versions: [version],
+      labels: ["production"],
+      tags: [],
+      lastUpdatedAt: new Date().toISOString(),
+    })),
+    meta: { page: 1, limit: 50, totalItems: 1, totalPages: 1 },
+  }));
+
+  return {
+    apiClient: { prompts: { get, list } } as any,
+    get,
+    list,
+    productionVersions,
+  };
+}
+
+describe("Prompt Subscriptions", () => {
+  let subscription: PromptSubscription | undefined;
+
+  afterEach(() => {
+    subscription?.stop();
+    subscription = undefined;
+  });
+
+  it("should poll label versions and invalidate changed prompts", async () => {
+    const { apiClient, get, list, productionVersions } = createApiClient();
+    const promptManager = new PromptManager({ apiClient });
+    const changes: unknown[][] = [];
+    promptManager.onPromptChanged((...args) => changes.push(args));
+
+    expect((await promptManager.get("greeting")).version).toBe(1);
+
+    subscription = promptManager.subscribe({ pollIntervalMs: 20 });
+    await vi.waitFor(() =>
+      expect(list.mock.calls.length).toBeGreaterThanOrEqual(2),
+    );
+    expect(changes).toEqual([]);
+
+    productionVersions.set("greeting", 2);
+    productionVersions.set("farewell", 1);
+
+    await vi.waitFor(() => expect(changes).toHaveLength(2));
+    expect(changes).toEqual([
+      ["greeting", 1, 2],
+      ["farewell", undefined, 1],
+    ]);
+    expect((await promptManager.get("greeting")).version).toBe(2);
+    expect(get).toHaveBeenCalledTimes(2);
+
+    productionVersions.delete("farewell");
+    await vi.waitFor(() => expect(changes).toHaveLength(3));
+    expect(changes[2]).toEqual(["farewell", 1, undefined]);
+  });
+
+  it("should stop polling when the subscription is stopped", async () => {
+    const { apiClient, list } = createApiClient();
+
+    subscription = new PromptManager({ apiClient }).subscribe({
+      pollIntervalMs: 10,
+    });
+    await vi.waitFor(() => expect(list).toHaveBeenCalled());
+    subscription.stop();
+    const callCount = list.mock.calls.length;
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(list.mock.calls.length).toBeLessThanOrEqual(callCount + 1);
+  });
+
+  it("should invalidate prompts on webhook events without polling", async () => {
+    const { apiClient, get, list, productionVersions } = createApiClient();
+    const promptManager = new PromptManager({ apiClient });
+    const source = new PromptWebhookChangeSource();
+    const listener = vi.fn();
+    promptManager.onPromptChanged(listener);
+
+    await promptManager.get("greeting");
+    subscription = promptManager.subscribe({ source });
+    productionVersions.set("greeting", 3);
+
+    expect(source.handle({ type: "trace", id: "t-1" })).toBe(false);
+    expect(
+      source.handle({
+        type: "prompt-version",
+        action: "updated",
+        prompt: { name: "greeting", version: 3, labels: ["production"] },
+      }),
+    ).toBe(true);
+
+    await vi.waitFor(() =>
+      expect(listener).toHaveBeenCalledWith("greeting", 1, 3),
+    );
+    expect((await promptManager.get("greeting")).version).toBe(3);
+    expect(get).toHaveBeenCalledTimes(2);
+    expect(list).not.toHaveBeenCalled();
+
+    // Duplicate deliveries and other labels do not emit again
+    source.handle({
+      type: "prompt-version",
+      prompt: { name: "greeting", version: 3, labels: ["production"] },
+    });
+    source.handle({
+      type: "prompt-version",
+      action: "updated",
+      prompt: { name: "greeting", version: 2, labels: ["staging"] },
+    });
+    subscription.stop();
+    source.handle({
+      type: "prompt-version",
+      prompt: { name: "greeting", version: 4, labels: ["production"] },
+    });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Tests for head sampling with the ElasticDashSampler.
+ *
+ * This test suite verifies deterministic trace ID ratio sampling, rule
+ * overrides by trace attributes known at root span start but not by those set
+ * later with `updateTrace`, inheritance of the decision by child spans, and
+ * that experiment traces are always sampled.
+ */
+
+import { ElasticDashClient } from "@elasticdash/client";
+import { propagateAttributes } from "@elasticdash/core";
+import { ElasticDashSampler } from "@elasticdash/otel";
+import { startActiveObservation, startObservation } from "@elasticdash/tracing";
+import { ROOT_CONTEXT, SpanKind } from "@opentelemetry/api";
+import { SamplingDecision } from "@opentelemetry/sdk-trace-base";
+import { describe, it, expect, afterEach } from "vitest";
+
+import {
+  setupTestEnvironment,
+  teardownTestEnvironment,
+  waitForSpanExport,
+  type TestEnvironment,
+} from "./helpers/testSetup.js";
+
+const LOW_TRACE_ID = "0123456789abcdef0123456700000000";
+const HIGH_TRACE_ID = "0123456789abcdef01234567ffffffff";
+
+describe("ElasticDashSampler", () => {
+  it("should sample deterministically by trace ID ratio", () => {
+    const sampler = new ElasticDashSampler({ sampleRate: 0.5 });
+    const sample = (traceId: string) =>
+      sampler.shouldSample(
+        ROOT_CONTEXT,
+        traceId,
+        "root",
+        SpanKind.INTERNAL,
+        {},
+        [],
+      ).decision;
+
+    expect(sample(LOW_TRACE_ID)).toBe(SamplingDecision.RECORD_AND_SAMPLED);
+    expect(sample(HIGH_TRACE_ID)).toBe(SamplingDecision.NOT_RECORD);
+    expect(sample(LOW_TRACE_ID)).toBe(SamplingDecision.RECORD_AND_SAMPLED);
+  });
+
+  it("should apply the first matching rule", () => {
+    const sampler = new ElasticDashSampler({
+      sampleRate: 1,
+      environment: "production",
+      rules: [
+        { traceName: /^health/, sampleRate: 0 },
+        { userId: "vip", environment: "staging", sampleRate: 0 },
+        { tag: "noisy", sampleRate: 0 },
+      ],
+    });
+    const sample = (
+      spanName: string,
+      attributes: Record<string, string | string[]> = {},
+    ) =>
+      sampler.shouldSample(
+        ROOT_CONTEXT,
+        LOW_TRACE_ID,
+        spanName,
+        SpanKind.INTERNAL,
+        attributes,
+        [],
+      ).decision;
+
+    expect(sample("healthcheck")).toBe(SamplingDecision.NOT_RECORD);
+    expect(sample("chat", { "elasticdash.trace.name": "health-probe" })).toBe(
+      SamplingDecision.NOT_RECORD,
+    );
+    expect(sample("chat", { "user.id": "vip" })).toBe(
+      SamplingDecision.RECORD_AND_SAMPLED,
+    );
+    expect(
+      sample("chat", {
+        "user.id": "vip",
+        "elasticdash.environment": "staging",
+      }),
+    ).toBe(SamplingDecision.NOT_RECORD);
+    expect(sample("chat", { "elasticdash.trace.tags": ["a", "noisy"] })).toBe(
+      SamplingDecision.NOT_RECORD,
+    );
+  });
+
+  describe("with tracing", () => {
+    let testEnv: TestEnvironment;
+
+    afterEach(async () => {
+      await teardownTestEnvironment(testEnv);
+    });
+
+    it("should drop unsampled traces including their child spans", async () => {
+      testEnv = await setupTestEnvironment({
+        sampler: new ElasticDashSampler({
+          sampleRate: 0,
+          rules: [{ userId: "tester", sampleRate: 1 }],
+        }),
+      });
+
+      await startActiveObservation("dropped-root", async () => {
+        startObservation("dropped-child").end();
+      });
+      await propagateAttributes({ userId: "tester" }, () =>
+        startActiveObservation("kept-root", async () => {
+          startObservation("kept-child").end();
+        }),
+      );
+
+      await waitForSpanExport(testEnv.mockExporter, 2);
+      await testEnv.spanProcessor.forceFlush();
+
+      expect(
+        testEnv.mockExporter.exportedSpans.map((span) => span.name).sort(),
+      ).toEqual(["kept-child", "kept-root"]);
+    });
+
+    it("should not match trace attributes set with updateTrace", async () => {
+      testEnv = await setupTestEnvironment({
+        sampler: new ElasticDashSampler({
+          sampleRate: 1,
+          rules: [
+            { userId: "bot", sampleRate: 0 },
+            { traceName: "internal", sampleRate: 0 },
+            { tag: "noisy", sampleRate: 0 },
+          ],
+        }),
+      });
+
+      await startActiveObservation("updated-root", async (span) => {
+        span.updateTrace({ userId: "bot", name: "internal", tags: ["noisy"] });
+      });
+
+      await waitForSpanExport(testEnv.mockExporter, 1);
+
+      expect(testEnv.mockExporter.getSpanByName("updated-root")).toBeDefined();
+    });
+
+    it("should always sample experiment traces", async () => {
+      testEnv = await setupTestEnvironment({
+        sampler: new ElasticDashSampler({ sampleRate: 0 }),
+      });
+      const elasticdash = new ElasticDashClient({
+        publicKey: "test-pk",
+        secretKey: "test-sk",
+        baseUrl: "http://localhost:3000",
+      });
+
+      await elasticdash.experiment.run({
+        name: "sampled-experiment",
+        data: [{ input: "test-input" }],
+        task: async ({ input }) => {
+          startObservation("experiment-child", { input }).end();
+
+          return "output";
+        },
+      });
+      startObservation("regular-root").end();
+
+      await waitForSpanExport(testEnv.mockExporter, 2);
+      await testEnv.spanProcessor.forceFlush();
+
+      expect(
+        testEnv.mockExporter.exportedSpans.map((span) => span.name).sort(),
+      ).toEqual(["experiment-child", "experiment-item-run"]);
+    });
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Tests for tail-based sampling in the ElasticDashSpanProcessor.
+ *
+ * This test suite verifies that spans are buffered per trace until the root
+ * span ends, that the trace decision is applied to all spans of a trace, and
+ * that buffered traces are decided early on timeouts and buffer limits.
+ */
+
+import {
+  createTailSamplingDecision,
+  type ShouldExportTrace,
+  type TailSamplingParams,
+} from "@elasticdash/otel";
+import { startObservation } from "@elasticdash/tracing";
+import { describe, it, expect, afterEach, vi } from "vitest";
+
+import {
+  setupTestEnvironment,
+  teardownTestEnvironment,
+  waitForSpanExport,
+  type TestEnvironment,
+} from "./helpers/testSetup.js";
+
+describe("Tail-based Sampling", () => {
+  let testEnv: TestEnvironment;
+
+  const setup = async (tailSampling: TailSamplingParams) => {
+    testEnv = await setupTestEnvironment({
+      spanProcessorConfig: { tailSampling },
+    });
+  };
+
+  const exportedNames = () =>
+    testEnv.mockExporter.exportedSpans.map((span) => span.name).sort();
+
+  afterEach(async () => {
+    await teardownTestEnvironment(testEnv);
+  });
+
+  it("should buffer spans until the root span ends and decide over the whole trace", async () => {
+    const shouldExportTrace = vi.fn<ShouldExportTrace>(({ spans }) =>
+      spans.some((span) => span.name === "keep-me"),
+    );
+    await setup({ shouldExportTrace });
+
+    const keptRoot = startObservation("kept-root");
+    keptRoot.startObservation("keep-me").end();
+    const droppedRoot = startObservation("dropped-root");
+    droppedRoot.startObservation("drop-me").end();
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(testEnv.mockExporter.getSpanCount()).toBe(0);
+    expect(shouldExportTrace).not.toHaveBeenCalled();
+
+    keptRoot.end();
+    droppedRoot.end();
+    await waitForSpanExport(testEnv.mockExporter, 2);
+    await testEnv.spanProcessor.forceFlush();
+
+    expect(exportedNames()).toEqual(["keep-me", "kept-root"]);
+    expect(shouldExportTrace).toHaveBeenCalledTimes(2);
+    expect(shouldExportTrace.mock.calls[0][0]).toMatchObject({
+      traceId: keptRoot.traceId,
+      isComplete: true,
+      rootSpan: expect.objectContaining({ name: "kept-root" }),
+    });
+  });
+
+  it("should apply the decision to spans ending after the root span", async () => {
+    await setup({ shouldExportTrace: ({ spans }) => spans.length === 1 });
+
+    const root = startObservation("root");
+    const late = root.startObservation("late-child");
+    root.end();
+    late.end();
+    await waitForSpanExport(testEnv.mockExporter, 2);
+
+    expect(exportedNames()).toEqual(["late-child", "root"]);
+  });
+
+  it("should decide incomplete traces after the maximum wait time", async () => {
+    const shouldExportTrace = vi.fn<ShouldExportTrace>(() => true);
+    await setup({ shouldExportTrace, maxWaitMs: 50 });
+
+    const root = startObservation("slow-root");
+    root.startObservation("child").end();
+
+    await waitForSpanExport(testEnv.mockExporter, 1);
+    expect(shouldExportTrace).toHaveBeenCalledWith(
+      expect.objectContaining({ isComplete: false, rootSpan: undefined }),
+    );
+
+    root.end();
+    await waitForSpanExport(testEnv.mockExporter, 2);
+    expect(exportedNames()).toEqual(["child", "slow-root"]);
+    expect(shouldExportTrace).toHaveBeenCalledTimes(1);
+  });
+
+  it("should decide the oldest traces when the buffer is full", async () => {
+    const shouldExportTrace = vi.fn<ShouldExportTrace>(() => true);
+    await setup({ shouldExportTrace, maxBufferedSpans: 2 });
+
+    const first = startObservation("first-root");
+    const second = startObservation("second-root");
+    first.startObservation("first-child").end();
+    second.startObservation("second-child-1").end();
+    expect(shouldExportTrace).not.toHaveBeenCalled();
+
+    second.startObservation("second-child-2").end();
+
+    expect(shouldExportTrace).toHaveBeenCalledTimes(1);
+    expect(shouldExportTrace.mock.calls[0][0]).toMatchObject({
+      traceId: first.traceId,
+      isComplete: false,
+    });
+    await waitForSpanExport(testEnv.mockExporter, 1);
+    expect(exportedNames()).toEqual(["first-child"]);
+
+    first.end();
+    second.end();
+  });
+
+  it("should exclude traces when the decision throws", async () => {
+    await setup({
+      shouldExportTrace: () => {
+        throw new Error("decision failed");
+      },
+    });
+
+    startObservation("failing-root").end();
+    await testEnv.spanProcessor.forceFlush();
+
+    expect(testEnv.mockExporter.getSpanCount()).toBe(0);
+  });
+
+  it("should decide buffered traces on flush", async () => {
+    await setup({ shouldExportTrace: () => true });
+
+    const root = startObservation("open-root");
+    root.startObservation("flushed-child").end();
+    await testEnv.spanProcessor.forceFlush();
+    await waitForSpanExport(testEnv.mockExporter, 1);
+
+    expect(exportedNames()).toEqual(["flushed-child"]);
+    root.end();
+  });
+
+  describe("createTailSamplingDecision", () => {
+    it("should keep errors and slow generations but sample regular traces", async () => {
+      await setup({
+        shouldExportTrace: createTailSamplingDecision({
+          sampleRate: 0,
+          slowGenerationThresholdMs: 10_000,
+        }),
+      });
+
+      const errorRoot = startObservation("error-root");
+      errorRoot.startObservation("failing", { level: "ERROR" }).end();
+      errorRoot.end();
+
+      const fastRoot = startObservation("fast-root");
+      fastRoot
+        .startObservation(
+          "fast-generation",
+          { model: "gpt-4o" },
+          { asType: "generation" },
+        )
+        .end();
+      fastRoot.end();
+
+      const slowGenerationRoot = startObservation("slow-generation-root");
+      startObservation(
+        "really-slow-generation",
+        {},
+        {
+          asType: "generation",
+          startTime: new Date(Date.now() - 11_000),
+          parentSpanContext: slowGenerationRoot.otelSpan.spanContext(),
+        },
+      ).end();
+      slowGenerationRoot.end();
+
+      startObservation("regular-root").end();
+
+      await waitForSpanExport(testEnv.mockExporter, 4);
+      await testEnv.spanProcessor.forceFlush();
+
+      expect(exportedNames()).toEqual([
+        "error-root",
+        "failing",
+        "really-slow-generation",
+        "slow-generation-root",
+      ]);
+    });
+
+    it("should sample regular traces deterministically by trace ID", () => {
+      const decide = createTailSamplingDecision({ sampleRate: 0.5 });
+      const decideTrace = (traceId: string) =>
+        decide({ traceId, spans: [], isComplete: true });
+
+      expect(decideTrace("0123456789abcdef0123456700000000")).toBe(true);
+      expect(decideTrace("0123456789abcdef01234567ffffffff")).toBe(false);
+      expect(decideTrace("0123456789abcdef0123456700000000")).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Tests for the in-memory test harness.
+ *
+ * This test suite verifies trace capture through an isolated tracer provider,
+ * decoding of ElasticDash attributes into a trace tree, trace assertions and
+ * snapshot serialization.
+ */
+
+import {
+  expectTrace,
+  serializeTrace,
+  setupElasticDashTesting,
+  traceSnapshotSerializer,
+  TraceAssertionError,
+  type ElasticDashTestHarness,
+} from "@elasticdash/testing";
+import { startActiveObservation, startObservation } from "@elasticdash/tracing";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+describe("Testing Harness", () => {
+  let harness: ElasticDashTestHarness;
+
+  beforeEach(() => {
+    harness = setupElasticDashTesting({
+      mask: ({ data }) =>
+        typeof data === "string" ? data.replace(/secret/g, "***") : data,
+    });
+  });
+
+  afterEach(async () => {
+    await harness.teardown();
+  });
+
+  async function answerQuestion(question: string): Promise<string> {
+    return startActiveObservation("answer-question", async (span) => {
+      span.update({ input: { question } });
+      span.updateTrace({ userId: "user-1", tags: ["qa"] });
+
+      await startActiveObservation(
+        "retrieve",
+        async (retriever) => {
+          retriever.update({ output: ["doc-1"] });
+        },
+        { asType: "retriever" },
+      );
+
+      span
+        .startObservation(
+          "llm-call",
+          {
+            model: "gpt-4o",
+            input: `secret ${question}`,
+            output: "ElasticDash is an observability platform.",
+            usageDetails: { input: 12, output: 30 },
+            metadata: { attempt: 1 },
+          },
+          { asType: "generation" },
+        )
+        .end();
+
+      span.update({ output: "done" });
+
+      return "done";
+    });
+  }
+
+  it("should capture nested observations as a decoded trace tree", async () => {
+    await answerQuestion("What is ElasticDash?");
+
+    const trace = await harness.getTrace("answer-question");
+    const [root] = trace.rootObservations;
+    const generation = root.children.find((child) => child.name === "llm-call");
+
+    expect(trace).toMatchObject({
+      name: "answer-question",
+      userId: "user-1",
+      tags: ["qa"],
+    });
+    expect(trace.observations).toHaveLength(3);
+    expect(root.input).toEqual({ question: "What is ElasticDash?" });
+    expect(root.children.map((child) => child.type)).toEqual([
+      "retriever",
+      "generation",
+    ]);
+    expect(generation).toMatchObject({
+      model: "gpt-4o",
+      input: "*** What is ElasticDash?",
+      usage: { input: 12, output: 30 },
+      metadata: { attempt: 1 },
+      parentObservationId: root.id,
+    });
+    expect(generation!.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("should pass matching assertions and explain failing ones", async () => {
+    await answerQuestion("What is ElasticDash?");
+    const trace = await harness.getTrace();
+
+    expectTrace(trace)
+      .toMatch({ name: "answer-question", tags: ["qa"] })
+      .toHaveGeneration({ model: /^gpt-4/, usage: { input: 12 } })
+      .toHaveObservation({ type: "retriever", parentName: "answer-question" })
+      .toHaveObservationCount(3)
+      .notToHaveObservation({ type: "tool" })
+      .toHaveNoErrors();
+
+    expect(() =>
+      expectTrace(trace).toHaveGeneration({ model: "claude-3-5-sonnet" }),
+    ).toThrow(TraceAssertionError);
+    expect(() =>
+      expectTrace(trace).toHaveGeneration({ model: "claude-3-5-sonnet" }),
+    ).toThrow(
+      [
+        `Expected trace 'answer-question' to have an observation matching {"model":"claude-3-5-sonnet","type":"generation"}.`,
+        "",
+        "Trace:",
+        `  - span "answer-question"`,
+        `    - retriever "retrieve"`,
+        `    - generation "llm-call" (model: gpt-4o)`,
+      ].join("\n"),
+    );
+  });
+
+  it("should serialize traces deterministically for snapshots", async () => {
+    await answerQuestion("first");
+    await answerQuestion("second");
+    startObservation("failing-step", {
+      level: "ERROR",
+      statusMessage: "timeout",
+    }).end();
+
+    const traces = await harness.getTraces();
+    const [first, second] = traces.map(serializeTrace);
+
+    expect(traces).toHaveLength(3);
+    expect(first).toEqual({
+      name: "answer-question",
+      userId: "user-1",
+      tags: ["qa"],
+      observations: [
+        {
+          type: "span",
+          name: "answer-question",
+          input: { question: "first" },
+          output: "done",
+          children: [
+            { type: "retriever", name: "retrieve", output: ["doc-1"] },
+            {
+              type: "generation",
+              name: "llm-call",
+              input: "*** first",
+              output: "ElasticDash is an observability platform.",
+              metadata: { attempt: 1 },
+              model: "gpt-4o",
+              usage: { input: 12, output: 30 },
+            },
+          ],
+        },
+      ],
+    });
+    expect(second.observations[0].input).toEqual({ question: "second" });
+    expect(() => expectTrace(traces[2]).toHaveNoErrors()).toThrow(
+      `- span "failing-step" (level: ERROR)`,
+    );
+    expect(traceSnapshotSerializer.test(traces[0])).toBe(true);
+    expect(traceSnapshotSerializer.test(first)).toBe(false);
+  });
+
+  it("should reset captured spans and report missing traces", async () => {
+    await answerQuestion("What is ElasticDash?");
+    harness.reset();
+
+    expect(await harness.getTraces()).toEqual([]);
+    await expect(harness.getTrace("answer-question")).rejects.toThrow(
+      "No trace named 'answer-question' was captured.",
+    );
+  });
+});
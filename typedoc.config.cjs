@@ -3,9 +3,13 @@ module.exports = {
   entryPoints: [
     "./packages/core",
     "./packages/client",
+    "./packages/cli",
+    "./packages/google-genai",
     "./packages/langchain",
     "./packages/openai",
+    "./packages/anthropic",
     "./packages/otel",
+    "./packages/testing",
     "./packages/tracing",
   ],
   entryPointStrategy: "packages",
@@ -49,6 +49,22 @@ export default defineConfig({
         "./packages/openai/src/index.ts",
         import.meta.url,
       ).pathname,
+      "@elasticdash/anthropic": new URL(
+        "./packages/anthropic/src/index.ts",
+        import.meta.url,
+      ).pathname,
+      "@elasticdash/google-genai": new URL(
+        "./packages/google-genai/src/index.ts",
+        import.meta.url,
+      ).pathname,
+      "@elasticdash/cli": new URL(
+        "./packages/cli/src/index.ts",
+        import.meta.url,
+      ).pathname,
+      "@elasticdash/testing": new URL(
+        "./packages/testing/src/index.ts",
+        import.meta.url,
+      ).pathname,
     },
   },
 });
@@ -30,10 +30,26 @@ export default defineWorkspace([
           "./packages/openai/dist/index.mjs",
           import.meta.url,
         ).pathname,
+        "@elasticdash/anthropic": new URL(
+          "./packages/anthropic/dist/index.mjs",
+          import.meta.url,
+        ).pathname,
+        "@elasticdash/google-genai": new URL(
+          "./packages/google-genai/dist/index.mjs",
+          import.meta.url,
+        ).pathname,
         "@elasticdash/core": new URL(
           "./packages/core/dist/index.mjs",
           import.meta.url,
         ).pathname,
+        "@elasticdash/cli": new URL(
+          "./packages/cli/dist/index.mjs",
+          import.meta.url,
+        ).pathname,
+        "@elasticdash/testing": new URL(
+          "./packages/testing/dist/index.mjs",
+          import.meta.url,
+        ).pathname,
       },
     },
   },
@@ -67,10 +83,26 @@ export default defineWorkspace([
           "./packages/openai/dist/index.mjs",
           import.meta.url,
         ).pathname,
+        "@elasticdash/anthropic": new URL(
+          "./packages/anthropic/dist/index.mjs",
+          import.meta.url,
+        ).pathname,
+        "@elasticdash/google-genai": new URL(
+          "./packages/google-genai/dist/index.mjs",
+          import.meta.url,
+        ).pathname,
         "@elasticdash/core": new URL(
           "./packages/core/dist/index.mjs",
           import.meta.url,
         ).pathname,
+        "@elasticdash/cli": new URL(
+          "./packages/cli/dist/index.mjs",
+          import.meta.url,
+        ).pathname,
+        "@elasticdash/testing": new URL(
+          "./packages/testing/dist/index.mjs",
+          import.meta.url,
+        ).pathname,
       },
     },
   },